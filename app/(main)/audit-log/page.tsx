@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import AuditLogPage from "@/components/(main)/audit-log";
+
+export default function AuditLogRoute() {
+    return (
+        <div className="py-4">
+            <Suspense>
+                <AuditLogPage />
+            </Suspense>
+        </div>
+    )
+}
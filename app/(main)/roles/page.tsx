@@ -0,0 +1,9 @@
+import RoleManagementPage from "@/components/(main)/role";
+
+export default function RolesPage() {
+    return (
+        <div className="py-4">
+            <RoleManagementPage />
+        </div>
+    )
+}
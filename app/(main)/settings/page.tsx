@@ -23,6 +23,8 @@ import {
 import { ProfileSettings } from "@/components/module/settings/profile-settings";
 import { OrganizationSettings } from "@/components/module/settings/organization-settings";
 import { AppearanceSettings } from "@/components/module/settings/appearance-settings";
+import { DomainSettings } from "@/components/module/settings/domain-settings";
+import { SsoSettings } from "@/components/module/settings/sso-settings";
 
 import Link from "next/link";
 import { useAuth } from "@/context/AuthContext";
@@ -54,7 +56,13 @@ export default function SettingsDialog() {
       case "Profile":
         return <ProfileSettings />;
       case "Organization":
-        return settings ? <OrganizationSettings settings={settings} /> : null;
+        return settings ? (
+          <>
+            <OrganizationSettings settings={settings} />
+            <DomainSettings />
+            <SsoSettings />
+          </>
+        ) : null;
       case "Appearance":
         return settings ? <AppearanceSettings settings={settings} /> : null;
 
@@ -3,11 +3,15 @@ import { NextResponse, type NextRequest } from 'next/server'
 import { usersService } from '@/modules/users'
 import { baseService } from '@/lib/BaseService'
 import { cookies } from 'next/headers'
+import { verifyPasswordlessLogin } from '@/lib/passwordless-login'
+import { safeNextPath } from '@/lib/oauth-providers'
 
+// Not wrapped with withAuth: this is the public landing point for email/OAuth links
 export async function GET(request: NextRequest) {
   const requestId = `auth_cb_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
   const { searchParams, origin } = new URL(request.url)
   const code = searchParams.get('code')
+  const tokenHash = searchParams.get('token_hash')
   const next = searchParams.get('next') ?? '/auth/login'  // Default to login page instead of verify
   const type = searchParams.get('type')
   const error = searchParams.get('error')
@@ -34,6 +38,25 @@ export async function GET(request: NextRequest) {
     })
   }
 
+  // Magic links carry a token hash instead of a PKCE code
+  if (tokenHash && type === 'magiclink') {
+    const result = await verifyPasswordlessLogin({ tokenHash })
+    if (!result.success) {
+      console.error(`[AUTH_CALLBACK:${requestId}] Magic link sign-in failed:`, {
+        error: result.error,
+        timestamp: new Date().toISOString()
+      })
+      return NextResponse.redirect(`${origin}/auth/login?error=invalid_link`)
+    }
+
+    console.log(`[AUTH_CALLBACK:${requestId}] Signed in with magic link`, {
+      userId: result.userId,
+      timestamp: new Date().toISOString()
+    })
+    // Only same-origin paths; the middleware takes it from there (including MFA)
+    return NextResponse.redirect(`${origin}${safeNextPath(next)}`)
+  }
+
   if (code) {
     try {
       const supabase = await createClient()
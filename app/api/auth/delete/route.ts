@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createAdminClient } from '@/lib/supabase/admin';
-import { usersService } from '@/modules/users';
-import { authService } from '@/modules/auth';
+import { withAuth } from '@/lib/with-auth';
+import { deletionBlocker, softDeleteUser } from '@/lib/user-deletion';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ resource: 'users', action: 'delete' }, async (request: NextRequest, { auth }) => {
   try {
     // Get the user ID from the request body
     const body = await request.json();
@@ -15,21 +14,24 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    await usersService.deleteUser(id);
-    // Delete user from Supabase Auth
-    const supabase = createAdminClient();
-    const { error: authError } = await supabase.auth.admin.deleteUser(id);
-    if (authError) {
+
+    // Admins can only delete members of their active organization, never themselves
+    const blocker = await deletionBlocker(id, auth.user.id, auth.organizationId);
+    if (blocker) {
       return NextResponse.json(
-        { error: `Failed to delete user from Supabase Auth: ${authError.message}` },
-        { status: 500 }
+        { error: blocker },
+        { status: blocker === 'User not found' ? 404 : 400 }
       );
     }
 
-    // Delete user from GraphQL database
-
-    // Sign out the user
-    await authService.signOut();
+    // Users go to the trash and can be restored until the scheduled purge
+    const result = await softDeleteUser(id);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Failed to delete user' },
+        { status: 500 }
+      );
+    }
 
     return NextResponse.json(
       { message: 'User deleted successfully' },
@@ -42,4 +44,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { provisionOAuthUser } from '@/lib/oauth-login';
+import { safeNextPath } from '@/lib/oauth-providers';
+import { recordUserSession } from '@/lib/user-sessions';
+
+/**
+ * Where Google, GitHub and Microsoft send the browser back through Supabase.
+ * Exchanges the code for a session and creates the profile on a first sign-in.
+ * Query: `code`, `next` (same-site path) and `link` (set when linking an
+ * identity from the profile settings).
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams;
+  const origin = request.nextUrl.origin;
+  const next = safeNextPath(query.get('next'));
+  const linking = query.get('link') === '1';
+
+  const fail = (reason: string) => {
+    console.error('OAuth sign-in failed:', reason);
+    return NextResponse.redirect(
+      linking ? `${origin}${next}?error=link_failed` : `${origin}/auth/login?error=oauth_failed`
+    );
+  };
+
+  const code = query.get('code');
+  if (!code) {
+    return fail(query.get('error_description') || query.get('error') || 'missing code');
+  }
+
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error || !data.user) {
+      return fail(error?.message || 'no user in session');
+    }
+
+    const result = await provisionOAuthUser(data.user);
+    if (!result.success) {
+      await supabase.auth.signOut();
+      return fail(result.error);
+    }
+
+    if (data.session) {
+      await recordUserSession(data.session.access_token);
+    }
+
+    // The middleware takes it from here (including MFA)
+    return NextResponse.redirect(`${origin}${next}`);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'unexpected error');
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  OIDC_REQUEST_COOKIE,
+  exchangeOidcCode,
+  getOidcConfig,
+  type OidcPendingRequest,
+} from '@/lib/oidc';
+import { OIDC_CALLBACK_ROUTE } from '@/lib/oauth-providers';
+import { linkOidcIdentity, signInWithOidcClaims } from '@/lib/oauth-login';
+import { authorizeRequest } from '@/lib/with-auth';
+
+const PROVIDER = 'oidc';
+
+function readPendingRequest(request: NextRequest): OidcPendingRequest | null {
+  const cookie = request.cookies.get(OIDC_REQUEST_COOKIE)?.value;
+  if (!cookie) return null;
+  try {
+    return JSON.parse(cookie) as OidcPendingRequest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where the OpenID Connect provider sends the browser back. Checks the state
+ * against the cookie from the start route, then signs the user in (creating
+ * them on a first sign-in) or, for a link request, links the account to the
+ * signed-in user.
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams;
+  const origin = request.nextUrl.origin;
+  const pending = readPendingRequest(request);
+
+  const redirect = (url: string) => {
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_REQUEST_COOKIE, '', { path: OIDC_CALLBACK_ROUTE, maxAge: 0 });
+    return response;
+  };
+  const fail = (reason: string) => {
+    console.error('OpenID Connect sign-in failed:', reason);
+    return redirect(
+      pending?.link ? `${origin}${pending.next}?error=link_failed` : `${origin}/auth/login?error=oauth_failed`
+    );
+  };
+
+  const config = getOidcConfig();
+  const code = query.get('code');
+  if (!config || !pending || !code || query.get('state') !== pending.state) {
+    return fail(query.get('error_description') || query.get('error') || 'missing or mismatched request');
+  }
+
+  try {
+    const claims = await exchangeOidcCode(config, {
+      code,
+      redirectUri: `${origin}${OIDC_CALLBACK_ROUTE}`,
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+    });
+
+    if (pending.link) {
+      const auth = await authorizeRequest();
+      if (!auth.success) {
+        return fail(auth.error.message);
+      }
+      const linked = await linkOidcIdentity(claims, PROVIDER, auth.data.user.id);
+      return linked.success ? redirect(`${origin}${pending.next}`) : fail(linked.error);
+    }
+
+    const result = await signInWithOidcClaims(claims, PROVIDER);
+    // The middleware takes it from here (including MFA)
+    return result.success ? redirect(`${origin}${pending.next}`) : fail(result.error);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'unexpected error');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  OIDC_REQUEST_COOKIE,
+  OIDC_REQUEST_MAX_AGE_SECONDS,
+  createOidcAuthorizationRequest,
+  getOidcConfig,
+  type OidcPendingRequest,
+} from '@/lib/oidc';
+import { OIDC_CALLBACK_ROUTE, safeNextPath } from '@/lib/oauth-providers';
+
+/**
+ * Send the browser to the OpenID Connect provider. The state, nonce and PKCE
+ * verifier wait in a short-lived cookie for the callback. Query: `next`
+ * (same-site path) and `link` (set to link the provider to the signed-in user).
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams;
+  const origin = request.nextUrl.origin;
+  const next = safeNextPath(query.get('next'));
+  const link = query.get('link') === '1';
+
+  const config = getOidcConfig();
+  if (!config) {
+    return NextResponse.redirect(`${origin}/auth/login?error=oauth_failed`);
+  }
+
+  try {
+    const authorization = await createOidcAuthorizationRequest(config, `${origin}${OIDC_CALLBACK_ROUTE}`);
+    const pending: OidcPendingRequest = {
+      state: authorization.state,
+      nonce: authorization.nonce,
+      codeVerifier: authorization.codeVerifier,
+      next,
+      link,
+    };
+
+    const response = NextResponse.redirect(authorization.url);
+    response.cookies.set(
+      OIDC_REQUEST_COOKIE,
+      JSON.stringify(pending),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: OIDC_CALLBACK_ROUTE,
+        maxAge: OIDC_REQUEST_MAX_AGE_SECONDS,
+      }
+    );
+    return response;
+  } catch (error) {
+    console.error('Error starting OpenID Connect sign-in:', error);
+    return NextResponse.redirect(`${origin}/auth/login?error=oauth_failed`);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeOidcCode } from '@/lib/oidc';
+import {
+  SSO_REQUEST_COOKIE,
+  assertionFromOidcClaims,
+  getSsoOidcConfig,
+  consumeSsoPendingRequest,
+  signInWithSso,
+} from '@/lib/sso-login';
+import { SSO_OIDC_CALLBACK_ROUTE, SSO_ROUTE_PREFIX } from '@/lib/oauth-providers';
+import { ssoConnectionsService } from '@/modules/sso-connections';
+
+/**
+ * Where an organization's OpenID Connect identity provider sends the browser
+ * back. Checks the state against the request the start route saved (each
+ * request is used once), then signs the user in (creating them on a first
+ * sign-in).
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams;
+  const origin = request.nextUrl.origin;
+  const redirect = (url: string) => {
+    const response = NextResponse.redirect(url);
+    response.cookies.set(SSO_REQUEST_COOKIE, '', { path: SSO_ROUTE_PREFIX, maxAge: 0 });
+    return response;
+  };
+  const fail = (reason: string) => {
+    console.error('OpenID Connect single sign-on failed:', reason);
+    return redirect(`${origin}/auth/login?error=sso_failed`);
+  };
+
+  try {
+    const pending = await consumeSsoPendingRequest(request.cookies.get(SSO_REQUEST_COOKIE)?.value);
+    const code = query.get('code');
+    if (!pending || pending.protocol !== 'oidc' || !code || query.get('state') !== pending.state) {
+      return fail(query.get('error_description') || query.get('error') || 'missing or mismatched request');
+    }
+
+    const connection = await ssoConnectionsService.getConnectionById(pending.connectionId, 'admin');
+    const config = connection.data ? getSsoOidcConfig(connection.data) : null;
+    if (!connection.success || !connection.data || !config) {
+      return fail(connection.error?.message || 'connection not found');
+    }
+
+    const claims = await exchangeOidcCode(config, {
+      code,
+      redirectUri: `${origin}${SSO_OIDC_CALLBACK_ROUTE}`,
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+    });
+
+    const result = await signInWithSso(connection.data, assertionFromOidcClaims(claims, connection.data));
+    // The middleware takes it from here (including MFA)
+    return result.success ? redirect(`${origin}${pending.next}`) : fail(result.error);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'unexpected error');
+  }
+}
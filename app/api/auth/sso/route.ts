@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createOidcAuthorizationRequest } from '@/lib/oidc';
+import { createSamlAuthorizationRequest } from '@/lib/saml';
+import {
+  SSO_REQUEST_COOKIE,
+  SSO_REQUEST_MAX_AGE_SECONDS,
+  findSsoConnectionForEmail,
+  getSsoOidcConfig,
+  saveSsoPendingRequest,
+  type SsoPendingRequest,
+} from '@/lib/sso-login';
+import { SSO_OIDC_CALLBACK_ROUTE, SSO_ROUTE_PREFIX, safeNextPath } from '@/lib/oauth-providers';
+
+/**
+ * Send the browser to the identity provider of the organization that lists
+ * the email's domain. The request details wait on the server for the
+ * provider's response; a short-lived cookie holds the token that finds them.
+ * Query: `email` and `next` (same-site path).
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams;
+  const origin = request.nextUrl.origin;
+  const next = safeNextPath(query.get('next'));
+  const fail = (error: string) => NextResponse.redirect(`${origin}/auth/login?error=${error}`);
+
+  try {
+    const connection = await findSsoConnectionForEmail(query.get('email') || '');
+    if (!connection) {
+      return fail('sso_not_configured');
+    }
+
+    let url: string;
+    let pending: SsoPendingRequest;
+    if (connection.protocol === 'saml') {
+      const authorization = await createSamlAuthorizationRequest(connection, origin);
+      url = authorization.url;
+      pending = {
+        protocol: 'saml',
+        connectionId: connection.id,
+        next,
+        requestId: authorization.requestId,
+        issuedAt: authorization.issuedAt,
+      };
+    } else {
+      const config = getSsoOidcConfig(connection);
+      if (!config) {
+        return fail('sso_failed');
+      }
+      const authorization = await createOidcAuthorizationRequest(config, `${origin}${SSO_OIDC_CALLBACK_ROUTE}`);
+      url = authorization.url;
+      pending = {
+        protocol: 'oidc',
+        connectionId: connection.id,
+        next,
+        state: authorization.state,
+        nonce: authorization.nonce,
+        codeVerifier: authorization.codeVerifier,
+      };
+    }
+
+    const token = await saveSsoPendingRequest(pending);
+    const response = NextResponse.redirect(url);
+    // SAML responses arrive as a cross-site POST, which only carries
+    // SameSite=None cookies (browsers treat localhost as secure)
+    response.cookies.set(
+      SSO_REQUEST_COOKIE,
+      token,
+      {
+        httpOnly: true,
+        secure: true,
+        sameSite: 'none',
+        path: SSO_ROUTE_PREFIX,
+        maxAge: SSO_REQUEST_MAX_AGE_SECONDS,
+      }
+    );
+    return response;
+  } catch (error) {
+    console.error('Error starting single sign-on:', error);
+    return fail('sso_failed');
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateSamlResponse } from '@/lib/saml';
+import {
+  SSO_REQUEST_COOKIE,
+  assertionFromSamlProfile,
+  consumeSsoPendingRequest,
+  signInWithSso,
+} from '@/lib/sso-login';
+import { SSO_ROUTE_PREFIX } from '@/lib/oauth-providers';
+import { ssoConnectionsService } from '@/modules/sso-connections';
+
+/**
+ * Assertion consumer service: where SAML identity providers post their
+ * response. Checks it answers the request the start route saved (each request
+ * is used once), then signs the user in (creating them on a first sign-in).
+ */
+export async function POST(request: NextRequest) {
+  const origin = request.nextUrl.origin;
+  // 303 so the browser follows with a GET
+  const redirect = (url: string) => {
+    const response = NextResponse.redirect(url, 303);
+    response.cookies.set(SSO_REQUEST_COOKIE, '', { path: SSO_ROUTE_PREFIX, maxAge: 0 });
+    return response;
+  };
+  const fail = (reason: string) => {
+    console.error('SAML sign-in failed:', reason);
+    return redirect(`${origin}/auth/login?error=sso_failed`);
+  };
+
+  try {
+    const pending = await consumeSsoPendingRequest(request.cookies.get(SSO_REQUEST_COOKIE)?.value);
+    const form = await request.formData();
+    const samlResponse = form.get('SAMLResponse');
+    if (!pending || pending.protocol !== 'saml' || typeof samlResponse !== 'string') {
+      return fail('missing or mismatched request');
+    }
+
+    const connection = await ssoConnectionsService.getConnectionById(pending.connectionId, 'admin');
+    if (!connection.success || !connection.data) {
+      return fail(connection.error?.message || 'connection not found');
+    }
+
+    const profile = await validateSamlResponse(connection.data, origin, samlResponse, pending);
+    const result = await signInWithSso(connection.data, assertionFromSamlProfile(profile, connection.data));
+    // The middleware takes it from here (including MFA)
+    return result.success ? redirect(`${origin}${pending.next}`) : fail(result.error);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'unexpected error');
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceProviderMetadata } from '@/lib/saml';
+
+/**
+ * This app's SAML service provider metadata, for identity provider
+ * administrators. The URL is also the service provider's entity ID.
+ */
+export async function GET(request: NextRequest) {
+  return new NextResponse(getServiceProviderMetadata(request.nextUrl.origin), {
+    headers: { 'Content-Type': 'application/samlmetadata+xml' },
+  });
+}
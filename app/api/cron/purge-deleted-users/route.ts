@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredUsers } from '@/lib/user-deletion';
+
+/**
+ * Scheduled purge of users that have been in the trash longer than
+ * USER_DELETE_RETENTION_DAYS. Runs daily via the cron in vercel.json, which
+ * sends CRON_SECRET as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await purgeExpiredUsers();
+    if (result.failed.length > 0) {
+      console.error('Failed to purge some deleted users:', result.failed);
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('Error purging deleted users:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge deleted users' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, authErrorResponse } from '@/lib/with-auth';
+import { getExportSource, selectExportColumns } from '@/lib/export-sources';
+import { writeExport } from '@/lib/export-writers';
+import { EXPORT_FORMATS, isExportFormat } from '@/lib/table-export';
+
+/**
+ * Export every record of a table matching its current search and filters.
+ * The file is streamed as pages are read, so large tables don't have to fit
+ * in memory. Query: `format` (csv, xlsx or json), `columns` (comma separated
+ * DataTable column ids) and `params` (JSON search and filters).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ resource: string }> }
+) {
+  const { resource } = await params;
+  const source = getExportSource(resource);
+  if (!source) {
+    return NextResponse.json(
+      { error: `Unknown export "${resource}"` },
+      { status: 404 }
+    );
+  }
+
+  // The permission depends on the resource, so withAuth can't be used here
+  const auth = await authorizeRequest(source.requirement);
+  if (!auth.success) {
+    return authErrorResponse(auth.error);
+  }
+
+  const query = request.nextUrl.searchParams;
+  const format = query.get('format') || 'csv';
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Unsupported export format "${format}"` },
+      { status: 400 }
+    );
+  }
+
+  let rawParams: unknown = {};
+  try {
+    rawParams = JSON.parse(query.get('params') || '{}');
+  } catch {
+    return NextResponse.json(
+      { error: 'params must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  const parsed = source.params.safeParse(rawParams);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+      { status: 400 }
+    );
+  }
+
+  const columns = selectExportColumns(source, query.get('columns')?.split(',').filter(Boolean));
+  if (columns.length === 0) {
+    return NextResponse.json(
+      { error: 'None of the requested columns can be exported' },
+      { status: 400 }
+    );
+  }
+
+  // Read the first page up front so a failing query is reported as an error
+  // rather than a truncated file
+  const pages = source.pages(parsed.data, auth.data);
+  let first: Awaited<ReturnType<typeof pages.next>>;
+  try {
+    first = await pages.next();
+  } catch (error) {
+    console.error(`Error exporting ${resource}:`, error);
+    return NextResponse.json(
+      { error: `Failed to export ${resource}` },
+      { status: 500 }
+    );
+  }
+
+  async function* allPages() {
+    if (!first.done) yield first.value;
+    yield* pages;
+  }
+
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  const filename = `${resource}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  return new Response(writeExport(format, columns, allPages()), {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/lib/with-auth";
 
-export const GET = async (request: NextRequest) => {
+// Only signed-in users may proxy files through the app
+export const GET = withAuth({}, async (request: NextRequest) => {
   try {
     // Get the URL from the query parameter
     const url = request.nextUrl.searchParams.get("url");
@@ -44,4 +46,4 @@ export const GET = async (request: NextRequest) => {
       { status: 500 }
     );
   }
-}; 
\ No newline at end of file
+});
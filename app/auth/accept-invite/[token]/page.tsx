@@ -3,7 +3,6 @@ import { useId, useEffect } from "react";
 import { useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import { useAuth } from "@/context/AuthContext";
 
 import { Label } from "@/components/label";
 import { Input } from "@/components/input";
@@ -11,18 +10,27 @@ import { PasswordInput } from "@/components/ui/password-input";
 import { Button } from "@/components/button";
 import { Settings } from "@/modules/settings/services/settings-service-unified";
 import { settingsServiceClient } from "@/modules/settings";
+import {
+  acceptInvitation,
+  getInvitationByToken,
+} from "@/lib/actions/invitation-actions";
 import Image from "next/image";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
 
-export default function Login() {
+export default function AcceptInvite() {
   const { token } = useParams();
   const id = useId();
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
   const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isImageLoading, setIsImageLoading] = useState(true);
   const router = useRouter();
-  // const { acceptInvite } = useAuth(); // Functionality not implemented
   const [settings, setSettings] = useState<Settings | null>(null);
   useEffect(() => {
     const getSettings = async () => {
@@ -33,16 +41,49 @@ export default function Login() {
     };
     getSettings();
   }, []);
+
+  // Resolve the invitation so the invitee can see which email they are joining with
+  useEffect(() => {
+    const validateInvitation = async () => {
+      try {
+        const result = await getInvitationByToken(token as string);
+        if (result.success && result.invitation) {
+          setInvitedEmail(result.invitation.email);
+        } else {
+          setError(result.error || "This invitation link is invalid");
+        }
+      } finally {
+        setIsValidating(false);
+      }
+    };
+    validateInvitation();
+  }, [token]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
     setError(null);
 
+    if (password.length < 8) {
+      setError("Password must be at least 8 characters");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
     try {
-      // await acceptInvite(token as string, password); // Functionality not implemented
-      setError("Accept invite functionality is not yet implemented");
-      // AuthContext will handle the redirect via auth state listener
-      window.location.href = "/";
+      const result = await acceptInvitation(token as string, {
+        firstName,
+        lastName,
+        password,
+      });
+      if (!result.success) {
+        throw new Error(result.error || "Failed to accept invite");
+      }
+      toast.success("Your account has been created. Please log in.");
+      router.push("/auth/login");
     } catch (error) {
       setError(
         error instanceof Error
@@ -97,7 +138,11 @@ export default function Login() {
             Accept Invite
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
-            Enter your password to accept the invite.
+            {isValidating
+              ? "Checking your invitation..."
+              : invitedEmail
+              ? `Create your account for ${invitedEmail}.`
+              : "This invitation can no longer be used."}
           </p>
         </div>
 
@@ -108,6 +153,42 @@ export default function Login() {
             </div>
           )}
           <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label
+                  htmlFor={`${id}-first-name`}
+                  className="dark:text-gray-200"
+                >
+                  First Name
+                </Label>
+                <Input
+                  id={`${id}-first-name`}
+                  placeholder="First name"
+                  value={firstName}
+                  onChange={(e) => setFirstName(e.target.value)}
+                  required
+                  disabled={!invitedEmail}
+                  className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                />
+              </div>
+              <div>
+                <Label
+                  htmlFor={`${id}-last-name`}
+                  className="dark:text-gray-200"
+                >
+                  Last Name
+                </Label>
+                <Input
+                  id={`${id}-last-name`}
+                  placeholder="Last name"
+                  value={lastName}
+                  onChange={(e) => setLastName(e.target.value)}
+                  required
+                  disabled={!invitedEmail}
+                  className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                />
+              </div>
+            </div>
             <div>
               <Label htmlFor={`${id}-password`} className="dark:text-gray-200">
                 Password
@@ -118,6 +199,24 @@ export default function Login() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 required
+                disabled={!invitedEmail}
+                className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              />
+            </div>
+            <div>
+              <Label
+                htmlFor={`${id}-confirm-password`}
+                className="dark:text-gray-200"
+              >
+                Confirm Password
+              </Label>
+              <PasswordInput
+                id={`${id}-confirm-password`}
+                placeholder="Confirm your password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={!invitedEmail}
                 className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
               />
             </div>
@@ -126,9 +225,9 @@ export default function Login() {
           <Button
             type="submit"
             className="w-full dark:hover:bg-blue-600"
-            disabled={isLoading}
+            disabled={isLoading || isValidating || !invitedEmail}
           >
-            {isLoading ? "Saving..." : "Save"}
+            {isLoading ? "Creating account..." : "Accept Invite"}
           </Button>
           <p className="text-center text-sm text-gray-600 dark:text-gray-400">
             Already have an account?{" "}
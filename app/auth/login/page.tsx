@@ -13,6 +13,14 @@ import Image from "next/image";
 import { cn } from "@/lib/utils";
 import { generateNameAvatar } from "@/utils/generateRandomAvatar";
 import { getSupabaseClient } from "@/lib/supabase/client";
+import { authService } from "@/modules/auth";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PasswordlessLoginForm } from "@/components/auth/passwordless-login-form";
+import { OAuthButtons } from "@/components/auth/oauth-buttons";
+import { SsoLoginForm } from "@/components/auth/sso-login-form";
+import type { LoginCodeMethod } from "@/modules/login-code-requests";
+
+type LoginMode = "password" | LoginCodeMethod | "sso";
 
 export default function Login() {
   const id = useId();
@@ -23,11 +31,18 @@ export default function Login() {
   const [isImageLoading, setIsImageLoading] = useState(true);
   // Remove processingCode state since we're not showing loading UI
   const [verificationSuccess, setVerificationSuccess] = useState(false);
+  const [mode, setMode] = useState<LoginMode>("password");
   const { signIn } = useAuth();
   const { settings } = useAuthLayoutContext();
   const searchParams = useSearchParams();
   const router = useRouter();
 
+  // Passwordless modes the organization has turned on
+  const passwordlessModes: { value: LoginCodeMethod; label: string }[] = [
+    ...(settings?.magic_link_enabled ? [{ value: "magic_link" as const, label: "Magic link" }] : []),
+    ...(settings?.email_otp_enabled ? [{ value: "email_otp" as const, label: "Email code" }] : []),
+  ];
+
   // Handle authentication code from URL if present
   useEffect(() => {
     const code = searchParams.get("code");
@@ -35,6 +50,24 @@ export default function Login() {
     const next = searchParams.get("next");
     const verified = searchParams.get("verified");
 
+    // Sent back from the callback with an expired or used magic link
+    if (searchParams.get("error") === "invalid_link") {
+      setError("This sign-in link is invalid or has expired. Please request a new one.");
+    }
+
+    // Sent back from a provider sign-in that was refused or failed
+    if (searchParams.get("error") === "oauth_failed") {
+      setError("Signing in with that account didn't work. Please try again or use your password.");
+    }
+
+    // Sent back from an organization's identity provider, or no provider for the domain
+    if (searchParams.get("error") === "sso_failed") {
+      setError("Single sign-on didn't work. Please try again or contact your administrator.");
+    }
+    if (searchParams.get("error") === "sso_not_configured") {
+      setError("Single sign-on isn't set up for that email domain. Please sign in another way.");
+    }
+
     // Handle the case when redirected back from verify page or auth callback with verified=true
     if (verified === "true") {
       setVerificationSuccess(true);
@@ -84,8 +117,11 @@ export default function Login() {
       if (result && result.user) {
         const user = result.user;
         if (user.email_confirmed_at) {
-          // Force a direct navigation to root to bypass potential redirect issues
-          window.location.replace("/");
+          // Users with an authenticator app still have to enter a code
+          const level = await authService.getAssuranceLevel();
+          const needsChallenge = level?.nextLevel === "aal2" && level.currentLevel !== "aal2";
+          // Force a direct navigation to bypass potential redirect issues
+          window.location.replace(needsChallenge ? "/auth/mfa" : "/");
         } else {
           // User is not verified, redirect to verify page
           window.location.replace("/auth/verify");
@@ -171,82 +207,119 @@ export default function Login() {
         )}
       </div>
 
-      <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-        {error && (
-          <div className="text-red-600 dark:text-red-400 text-sm text-center">
-            {error}
-          </div>
-        )}
-        <div className="space-y-4">
-          <div>
-            <Label htmlFor={`${id}-email`} className="dark:text-gray-200">
-              Email
-            </Label>
-            <Input
-              id={`${id}-email`}
-              placeholder="hi@yourcompany.com"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
-              className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
-            />
-          </div>
-          <div>
-            <Label htmlFor={`${id}-password`} className="dark:text-gray-200">
+      {passwordlessModes.length > 0 && (
+        <Tabs value={mode} onValueChange={(value) => setMode(value as LoginMode)}>
+          <TabsList className="w-full">
+            <TabsTrigger value="password" className="cursor-pointer">
               Password
-            </Label>
-            <PasswordInput
-              id={`${id}-password`}
-              placeholder="Enter your password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
-            />
+            </TabsTrigger>
+            {passwordlessModes.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value} className="cursor-pointer">
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+
+      {mode === "sso" ? (
+        <SsoLoginForm />
+      ) : mode !== "password" ? (
+        <PasswordlessLoginForm key={mode} method={mode} />
+      ) : (
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {error && (
+            <div className="text-red-600 dark:text-red-400 text-sm text-center">
+              {error}
+            </div>
+          )}
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor={`${id}-email`} className="dark:text-gray-200">
+                Email
+              </Label>
+              <Input
+                id={`${id}-email`}
+                placeholder="hi@yourcompany.com"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${id}-password`} className="dark:text-gray-200">
+                Password
+              </Label>
+              <PasswordInput
+                id={`${id}-password`}
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+              />
+            </div>
           </div>
-        </div>
 
-        <div className="flex justify-between gap-2">
-          <div className="flex items-center gap-2">
-            <Checkbox
-              id={`${id}-remember`}
-              className="dark:border-gray-600 cursor-pointer"
-            />
-            <Label
-              htmlFor={`${id}-remember`}
-              className="text-muted-foreground font-normal dark:text-gray-400 cursor-pointer"
+          <div className="flex justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${id}-remember`}
+                className="dark:border-gray-600 cursor-pointer"
+              />
+              <Label
+                htmlFor={`${id}-remember`}
+                className="text-muted-foreground font-normal dark:text-gray-400 cursor-pointer"
+              >
+                Remember me
+              </Label>
+            </div>
+            <Link
+              href="/auth/forgot-password"
+              className="text-sm underline hover:no-underline text-primary cursor-pointer"
             >
-              Remember me
-            </Label>
+              Forgot password?
+            </Link>
           </div>
-          <Link
-            href="/auth/forgot-password"
-            className="text-sm underline hover:no-underline text-primary cursor-pointer"
+
+          <Button
+            type="submit"
+            className={`w-full  bg-[#ec4899]  hover:bg-[#ec4899]/90 text-white p-2 rounded-md cursor-pointer`}
+            disabled={isLoading}
           >
-            Forgot password?
-          </Link>
+            {isLoading ? "Signing in..." : "Sign in"}
+          </Button>
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+            Don't have an account?{" "}
+            <Link
+              href="/auth/signup"
+              prefetch={true}
+              replace={true}
+              className="text-primary hover:underline cursor-pointer"
+            >
+              Sign up
+            </Link>
+          </p>
+        </form>
+      )}
+
+      {error && mode === "sso" && (
+        <div className="text-red-600 dark:text-red-400 text-sm text-center">
+          {error}
         </div>
+      )}
 
-        <Button
-          type="submit"
-          className={`w-full  bg-[#ec4899]  hover:bg-[#ec4899]/90 text-white p-2 rounded-md cursor-pointer`}
-          disabled={isLoading}
-        >
-          {isLoading ? "Signing in..." : "Sign in"}
-        </Button>
-        <p className="text-center text-sm text-gray-600 dark:text-gray-400">
-          Don't have an account?{" "}
-          <Link
-            href="/auth/signup"
-            prefetch={true}
-            replace={true}
-            className="text-primary hover:underline cursor-pointer"
-          >
-            Sign up
-          </Link>
-        </p>
-      </form>
+      <OAuthButtons onError={setError} />
+
+      <button
+        type="button"
+        className="w-full text-center text-sm text-primary hover:underline cursor-pointer"
+        onClick={() => setMode(mode === "sso" ? "password" : "sso")}
+      >
+        {mode === "sso" ? "Sign in with your password instead" : "Sign in with single sign-on"}
+      </button>
     </div>
   );
 }
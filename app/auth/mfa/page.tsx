@@ -0,0 +1,62 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/button";
+import { Spinner } from "@/components/ui/spinner";
+import { MfaChallenge } from "@/components/auth/mfa-challenge";
+import { MfaEnrollment } from "@/components/auth/mfa-enrollment";
+import { useAuth } from "@/context/AuthContext";
+import { authService } from "@/modules/auth";
+
+type Step = "loading" | "challenge" | "enroll";
+
+export default function Mfa() {
+  const [step, setStep] = useState<Step>("loading");
+  const { signOut } = useAuth();
+
+  // The middleware sends users here with a pending step; work out which one
+  useEffect(() => {
+    const loadStep = async () => {
+      const level = await authService.getAssuranceLevel();
+      if (level?.currentLevel === "aal2") {
+        window.location.replace("/");
+        return;
+      }
+      setStep(level?.nextLevel === "aal2" ? "challenge" : "enroll");
+    };
+
+    loadStep();
+  }, []);
+
+  // Full navigation so the middleware sees the upgraded session
+  const handleComplete = () => window.location.replace("/");
+
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.replace("/auth/login");
+  };
+
+  return (
+    <div className="max-w-md w-full space-y-8 bg-sidebar hover:bg-sidebar-hover p-8 rounded-lg shadow">
+      <div className="flex flex-col items-center gap-2">
+        <h2 className="mt-3 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
+          Two-Factor Authentication
+        </h2>
+        {step === "enroll" && (
+          <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
+            Your account requires an authenticator app. Set one up to continue.
+          </p>
+        )}
+      </div>
+      {step === "loading" && (
+        <div className="flex justify-center">
+          <Spinner />
+        </div>
+      )}
+      {step === "challenge" && <MfaChallenge onComplete={handleComplete} />}
+      {step === "enroll" && <MfaEnrollment onComplete={handleComplete} />}
+      <Button variant="ghost" className="w-full" onClick={handleSignOut}>
+        Sign out
+      </Button>
+    </div>
+  );
+}
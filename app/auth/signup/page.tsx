@@ -11,6 +11,7 @@ import { PasswordInput } from "@/components/ui/password-input";
 import { useAuthLayoutContext } from "@/context/AuthLayoutContext";
 import Image from "next/image";
 import { cn } from "@/lib/utils";
+import { OAuthButtons } from "@/components/auth/oauth-buttons";
 
 export default function SignUp() {
   const id = useId();
@@ -205,6 +206,7 @@ export default function SignUp() {
           </p>
         </div>
       </form>
+      <OAuthButtons onError={setError} />
     </div>
   );
 }
@@ -3,6 +3,7 @@ import "./globals.css";
 import { AuthProvider } from "@/context/AuthContext";
 import { Toaster } from "sonner";
 import { settingsService } from "@/modules/settings";
+import { getCurrentOrganizationId } from "@/lib/actions/organization-actions";
 import { ThemeProviderWrapper } from "@/context/theme-provider-wrapper";
 import PointerEventsFix from "@/utils/pointer-events";
 
@@ -35,11 +36,11 @@ export const dynamic = "force-dynamic";
 
 export async function generateMetadata() {
   try {
-    // For metadata, we use default settings (without project_id)
-    // Project-specific metadata will be handled at the page level
-    // Note: getProjectId() will return null on server-side
+    // Signed-in users get their active organization's branding,
+    // everyone else the default organization's
     let settings = null;
-    const result = await settingsService.getSettingsById();
+    const organizationId = await getCurrentOrganizationId();
+    const result = await settingsService.getSettingsById(undefined, organizationId);
     if (result.success && result.data) {
       settings = result.data;
     }
@@ -82,7 +83,8 @@ export async function generateMetadata() {
 export async function generateViewport() {
   try {
     let settings = null;
-    const result = await settingsService.getSettingsById();
+    const organizationId = await getCurrentOrganizationId();
+    const result = await settingsService.getSettingsById(undefined, organizationId);
     if (result.success && result.data) {
       settings = result.data;
     }
@@ -0,0 +1,33 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ShieldBan } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export default function RestrictedPage() {
+  const searchParams = useSearchParams();
+  const from = searchParams.get("from");
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 bg-sidebar p-8 rounded-lg shadow text-center">
+        <div className="flex justify-center">
+          <ShieldBan className="h-12 w-12 text-destructive" />
+        </div>
+        <h2 className="text-2xl font-extrabold text-gray-900 dark:text-white">
+          Access restricted
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {from
+            ? `You don't have permission to view ${from}.`
+            : "You don't have permission to view this page."}{" "}
+          Contact an administrator if you think this is a mistake.
+        </p>
+        <Button asChild className="w-full">
+          <Link href="/">Back to dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { AuditLogEntry } from "@/modules/audit-log";
+
+interface AuditEntryDialogProps {
+  entry: AuditLogEntry | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditEntryDialog({
+  entry,
+  onOpenChange,
+}: AuditEntryDialogProps) {
+  const changes = Object.entries(entry?.changes || {});
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {entry?.action.toUpperCase()} {entry?.table_name}
+          </DialogTitle>
+        </DialogHeader>
+        {entry && (
+          <div className="overflow-y-auto max-h-[75vh] space-y-4">
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">When</dt>
+              <dd>
+                {entry.created_at
+                  ? new Date(entry.created_at).toLocaleString()
+                  : "-"}
+              </dd>
+              <dt className="text-muted-foreground">Actor</dt>
+              <dd>
+                {entry.actor_email || "System"}
+                {entry.actor_id && (
+                  <span className="ml-2 font-mono text-xs text-muted-foreground">
+                    {entry.actor_id}
+                  </span>
+                )}
+              </dd>
+              <dt className="text-muted-foreground">Record</dt>
+              <dd className="font-mono text-xs">{entry.record_id || "-"}</dd>
+              <dt className="text-muted-foreground">Request</dt>
+              <dd className="font-mono text-xs">{entry.request_id}</dd>
+              <dt className="text-muted-foreground">IP address</dt>
+              <dd>{entry.ip_address || "-"}</dd>
+              <dt className="text-muted-foreground">User agent</dt>
+              <dd className="truncate">{entry.user_agent || "-"}</dd>
+            </dl>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center">
+                      No field changes
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  changes.map(([field, change]) => (
+                    <TableRow key={field}>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">
+                          {field}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs break-all whitespace-normal text-red-600 dark:text-red-400">
+                        {formatValue(change.from)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs break-all whitespace-normal text-green-600 dark:text-green-400">
+                        {formatValue(change.to)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
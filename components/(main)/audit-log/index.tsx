@@ -0,0 +1,85 @@
+"use client";
+import { useState, useCallback } from "react";
+import { useSearchParams } from "next/navigation";
+
+import { getAuditLogColumns } from "@/components/data-table/columns/column-audit-log";
+import {
+  AuditLogDataTableToolbar,
+  type AuditLogToolbarFilters,
+} from "@/components/data-table/toolbars/audit-log-toolbar";
+import { DataTable } from "@/components/data-table/data-table";
+import AuditEntryDialog from "./component/audit-entry-dialog";
+import { getAuditLog } from "@/lib/actions/audit-actions";
+import type { AuditLogEntry } from "@/modules/audit-log";
+import type { AuditAction } from "@/lib/audit";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+
+export default function AuditLogPage() {
+  const searchParams = useSearchParams();
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(
+    null
+  );
+  // Links such as "View history" on a user pre-fill the record filters
+  const [filters, setFilters] = useState<AuditLogToolbarFilters>(() => ({
+    tableName: searchParams.get("table") || undefined,
+    recordId: searchParams.get("record") || undefined,
+    actorId: searchParams.get("actor") || undefined,
+    action: (searchParams.get("action") as AuditAction) || undefined,
+  }));
+  const debouncedFilters = useDebounce(filters, 500);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const result = await getAuditLog({ ...debouncedFilters, cursor });
+      return {
+        data: result.entries,
+        nextCursor: result.nextCursor,
+        total: result.total,
+        error: result.success ? undefined : result.error || "Failed to load audit log",
+      };
+    },
+    [debouncedFilters]
+  );
+
+  const {
+    items: entries,
+    total,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    sentinelRef,
+    reload,
+  } = useInfiniteScroll<AuditLogEntry>(fetchPage);
+
+  return (
+    <div>
+      <DataTable
+        data={entries}
+        toolbar={
+          <AuditLogDataTableToolbar
+            filters={filters}
+            onFiltersChange={setFilters}
+            fetchRecords={reload}
+          />
+        }
+        columns={getAuditLogColumns(setSelectedEntry)}
+        onGlobalFilterChange={() => {}}
+        onPageChange={() => {}}
+        onPageSizeChange={() => {}}
+        pageSize={entries.length}
+        currentPage={0}
+        loading={loading}
+        error={error}
+        rowCount={total ?? entries.length}
+        type="audit-log"
+        infiniteScroll={{ sentinelRef, hasMore, loadingMore }}
+      />
+      <AuditEntryDialog
+        entry={selectedEntry}
+        onOpenChange={(open) => !open && setSelectedEntry(null)}
+      />
+    </div>
+  );
+}
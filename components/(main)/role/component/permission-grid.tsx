@@ -0,0 +1,108 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  PERMISSION_ACTIONS,
+  PERMISSION_RESOURCES,
+  type RoleAccess,
+} from "@/modules/roles/models/role";
+
+interface PermissionGridProps {
+  value: RoleAccess[];
+  onChange: (value: RoleAccess[]) => void;
+  disabled?: boolean;
+}
+
+const hasAccess = (value: RoleAccess[], resource: string, action: string) =>
+  value.some((entry) => entry.resource === resource && entry.action === action);
+
+export function PermissionGrid({
+  value,
+  onChange,
+  disabled = false,
+}: PermissionGridProps) {
+  const toggle = (resource: string, action: string, checked: boolean) => {
+    const rest = value.filter(
+      (entry) => !(entry.resource === resource && entry.action === action)
+    );
+    onChange(checked ? [...rest, { resource, action }] : rest);
+  };
+
+  const toggleResource = (resource: string, checked: boolean) => {
+    const rest = value.filter((entry) => entry.resource !== resource);
+    onChange(
+      checked
+        ? [...rest, ...PERMISSION_ACTIONS.map((action) => ({ resource, action }))]
+        : rest
+    );
+  };
+
+  return (
+    <div className="border rounded-md">
+      <Table>
+        <TableHeader className="bg-sidebar">
+          <TableRow>
+            <TableHead>Resource</TableHead>
+            {PERMISSION_ACTIONS.map((action) => (
+              <TableHead key={action} className="text-center capitalize">
+                {action}
+              </TableHead>
+            ))}
+            <TableHead className="text-center">All</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {PERMISSION_RESOURCES.map((resource) => {
+            const granted = PERMISSION_ACTIONS.filter((action) =>
+              hasAccess(value, resource, action)
+            ).length;
+
+            return (
+              <TableRow key={resource}>
+                <TableCell className="capitalize font-medium">
+                  {resource}
+                </TableCell>
+                {PERMISSION_ACTIONS.map((action) => (
+                  <TableCell key={action} className="text-center">
+                    <Checkbox
+                      aria-label={`${resource} ${action}`}
+                      checked={hasAccess(value, resource, action)}
+                      onCheckedChange={(checked) =>
+                        toggle(resource, action, checked === true)
+                      }
+                      disabled={disabled}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="text-center">
+                  <Checkbox
+                    aria-label={`${resource} all`}
+                    checked={
+                      granted === PERMISSION_ACTIONS.length
+                        ? true
+                        : granted > 0
+                          ? "indeterminate"
+                          : false
+                    }
+                    onCheckedChange={(checked) =>
+                      toggleResource(resource, checked === true)
+                    }
+                    disabled={disabled}
+                  />
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
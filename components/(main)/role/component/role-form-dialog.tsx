@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import type { RoleWithAccess } from "@/modules/roles";
+import { createRole, updateRole } from "@/lib/actions/role-actions";
+import type { RoleAccess } from "@/modules/roles/models/role";
+import { PermissionGrid } from "./permission-grid";
+
+// Define form validation schema
+const formSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Role name is required")
+    .regex(
+      /^[a-z0-9_-]+$/,
+      "Use lowercase letters, numbers, dashes or underscores"
+    ),
+  description: z.string().optional(),
+  mfaRequired: z.boolean(),
+});
+
+interface RoleFormDialogProps {
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  onRefresh?: () => void;
+  role?: RoleWithAccess;
+}
+
+export default function RoleFormDialog({
+  open = false,
+  onOpenChange,
+  onRefresh,
+  role,
+}: RoleFormDialogProps) {
+  const [access, setAccess] = useState<RoleAccess[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const isEdit = !!role;
+
+  // Initialize form
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: role?.name || "",
+      description: role?.description || "",
+      mfaRequired: role?.mfa_required ?? false,
+    },
+  });
+
+  // Reset form when dialog opens or the role changes
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: role?.name || "",
+        description: role?.description || "",
+        mfaRequired: role?.mfa_required ?? false,
+      });
+      setAccess(
+        role?.role_access.map(({ resource, action }) => ({ resource, action })) ||
+          []
+      );
+    }
+  }, [open, role, form]);
+
+  // Handler for saving the role
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    setIsLoading(true);
+    try {
+      const payload = {
+        name: values.name,
+        description: values.description || "",
+        mfaRequired: values.mfaRequired,
+        access,
+      };
+
+      const result = isEdit
+        ? await updateRole(role.id, payload)
+        : await createRole(payload);
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save role");
+      }
+
+      toast.success(
+        isEdit ? "Role updated successfully" : "Role created successfully"
+      );
+      if (onOpenChange) onOpenChange(false);
+      if (onRefresh) onRefresh();
+    } catch (error) {
+      console.error("Error saving role:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save role"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "Edit role" : "Add New Role"}</DialogTitle>
+        </DialogHeader>
+        <div className="overflow-y-auto max-h-[80vh]">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="space-y-1 flex flex-col gap-1">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. support" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem className="space-y-1 flex flex-col gap-1">
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Description" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="mfaRequired"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between gap-4 rounded-md border p-3">
+                    <div className="space-y-1">
+                      <FormLabel>Require two-factor authentication</FormLabel>
+                      <FormDescription>
+                        Members must set up an authenticator app before they can
+                        use the app
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <Label>Permissions</Label>
+                <PermissionGrid
+                  value={access}
+                  onChange={setAccess}
+                  disabled={isLoading}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange?.(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading
+                    ? "Saving..."
+                    : isEdit
+                      ? "Save changes"
+                      : "Create Role"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
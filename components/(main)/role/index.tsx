@@ -0,0 +1,72 @@
+"use client";
+import { useState, useEffect, useCallback, useMemo } from "react";
+
+import { getRoleColumns } from "@/components/data-table/columns/column-role";
+import { RoleDataTableToolbar } from "@/components/data-table/toolbars/role-toolbar";
+import { DataTable } from "@/components/data-table/data-table";
+import { rolesService, type RoleWithAccess } from "@/modules/roles";
+
+export default function RoleManagementPage() {
+  const [listRoles, setListRoles] = useState<RoleWithAccess[]>([]);
+  const [currentPage, setCurrentPage] = useState<number>(0);
+  const [pageSize, setPageSize] = useState<number>(10);
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  const [isRefetching, setIsRefetching] = useState<boolean>(false);
+
+  const fetchRoles = useCallback(async () => {
+    setIsRefetching(true);
+    try {
+      const rolesResponse = await rolesService.getRolesWithAccess();
+      setListRoles(Array.isArray(rolesResponse) ? rolesResponse : []);
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      setListRoles([]);
+    } finally {
+      setIsRefetching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  // Roles are a small table, so search is applied client-side
+  const filteredRoles = useMemo(() => {
+    const term = searchQuery.trim().toLowerCase();
+    if (!term) return listRoles;
+    return listRoles.filter(
+      (role) =>
+        role.name?.toLowerCase().includes(term) ||
+        role.description?.toLowerCase().includes(term)
+    );
+  }, [listRoles, searchQuery]);
+
+  const handleGlobalFilterChange = (filter: string) => {
+    setSearchQuery(filter);
+    setCurrentPage(0);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    setCurrentPage(0);
+  };
+
+  return (
+    <div>
+      <DataTable
+        data={filteredRoles}
+        toolbar={<RoleDataTableToolbar fetchRecords={fetchRoles} />}
+        columns={getRoleColumns(fetchRoles)}
+        onGlobalFilterChange={handleGlobalFilterChange}
+        onPageChange={setCurrentPage}
+        onPageSizeChange={handlePageSizeChange}
+        pageSize={pageSize}
+        currentPage={currentPage}
+        loading={isRefetching}
+        error={""}
+        rowCount={filteredRoles.length}
+        type="roles"
+      />
+    </div>
+  );
+}
@@ -8,7 +8,6 @@ import { Input } from "@/components/ui/input";
 import { PasswordInput } from "@/components/ui/password-input";
 import { Label } from "@/components/ui/label";
 import { saveFile } from "@/supabase/actions/save-file";
-import { usersService } from "@/modules/users";
 import Image from "next/image";
 import type { Role } from "@/modules/roles/models/role";
 import {
@@ -18,7 +17,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { createAuthUser } from "@/lib/actions/auth-actions";
+import { createUser } from "@/lib/actions/user-actions";
 import { getSupabase } from "@/lib/supabase-auth-client";
 import { toast } from "sonner";
 import { generateNameAvatar } from "@/utils/generateRandomAvatar";
@@ -33,6 +32,7 @@ import {
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
+import { userDetailsSchema, userPasswordSchema } from "@/modules/users";
 import {
   Form,
   FormControl,
@@ -54,18 +54,10 @@ const initialAvatarImage = [
 ];
 
 // Define form validation schema
-const formSchema = z
-  .object({
-    firstName: z.string().min(1, "First name is required"),
-    lastName: z.string().min(1, "Last name is required"),
-    email: z.string().email("Invalid email address"),
-    password: z
-      .string()
-      .min(8, "Password must be at least 8 characters")
-      .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
-      .regex(/[0-9]/, "Password must contain at least one number"),
+const formSchema = userDetailsSchema
+  .extend({
+    password: userPasswordSchema,
     confirmPassword: z.string().min(1, "Please confirm your password"),
-    role: z.string().min(1, "Role is required"),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords do not match",
@@ -126,37 +118,19 @@ export default function AddUser({
     setIsLoading(true);
 
     try {
-      // 1. Create user in authentication
-      const metadata = {
-        first_name: values.firstName,
-        last_name: values.lastName,
-      };
-
-      const authResult = await createAuthUser(
-        values.email,
-        values.password,
-        metadata,
-        "user"
-      );
-
-      if (!authResult.success || !authResult.user) {
-        throw new Error(
-          authResult.error || "Failed to create authentication user"
-        );
-      }
-
-      // 2. Create user in profile table
-      const userData = {
-        id: authResult.user.id,
-        first_name: values.firstName,
-        last_name: values.lastName,
+      // Auth user and profile are created together on the server
+      const result = await createUser({
         email: values.email,
+        password: values.password,
+        firstName: values.firstName,
+        lastName: values.lastName,
+        roleId: values.role,
         profile: profile || "",
-        role_id: values.role,
-        is_active: true,
-      };
+      });
 
-      await usersService.createUser(userData);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to create user");
+      }
 
       toast.success("User created successfully");
 
@@ -1,14 +1,14 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { CheckIcon, ImagePlusIcon, XIcon } from "lucide-react";
 import { useFileUpload } from "@/hooks/use-file-upload";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { User } from "@/types/types";
+import type { User } from "@/modules/users";
 import { saveFile } from "@/supabase/actions/save-file";
-import { usersService } from "@/modules/users";
+import { usersService, toUserView } from "@/modules/users";
 import Image from "next/image";
 import type { Role } from "@/modules/roles/models/role";
 import {
@@ -38,6 +38,8 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { toast } from "sonner";
+import ConflictDialog from "@/components/ui/conflict-dialog";
+import { isConflictError } from "@/lib/BaseService";
 
 // Pretend we have initial image files
 const initialBgImage = [
@@ -68,6 +70,17 @@ const formSchema = z.object({
   role: z.string().min(1, "Role is required"),
 });
 
+type EditableUser = Pick<User, "first_name" | "last_name" | "profile" | "role_id">;
+
+function toEditable(user: User): EditableUser {
+  return {
+    first_name: user.first_name,
+    last_name: user.last_name,
+    profile: user.profile,
+    role_id: user.role_id,
+  };
+}
+
 interface EditUserProps {
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
@@ -87,6 +100,12 @@ export default function EditUser({
   const [isFileLoading, setIsFileLoading] = useState(false);
   const [profile, setProfile] = useState(userData?.profile || "");
   const [isLoading, setIsLoading] = useState(false);
+  // The record the form was loaded from; its updated_at guards the save
+  const [baseRecord, setBaseRecord] = useState<User | undefined>(userData);
+  const [conflict, setConflict] = useState<{
+    mine: EditableUser;
+    theirs: User;
+  } | null>(null);
 
   // Initialize form
   const form = useForm<z.infer<typeof formSchema>>({
@@ -99,37 +118,53 @@ export default function EditUser({
     },
   });
 
+  const loadRecord = useCallback(
+    (record: User) => {
+      const view = toUserView(record);
+      form.reset({
+        firstName: view.firstName,
+        lastName: view.lastName,
+        email: view.email,
+        role: view.roleId,
+      });
+      setProfile(view.profile);
+      setBaseRecord(record);
+    },
+    [form]
+  );
+
   // Reset form when userData changes
   useEffect(() => {
     if (userData) {
-      form.reset({
-        firstName: userData.first_name || "",
-        lastName: userData.last_name || "",
-        email: userData.email || "",
-        role: userData.role_id || "",
-      });
-      setProfile(userData.profile || "");
+      loadRecord(userData);
     }
-  }, [userData, form]);
+  }, [userData, loadRecord]);
 
-  // Handler for saving changes
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  /**
+   * Save the editable fields, but only over the version we last loaded.
+   * A conflict opens the merge/overwrite prompt instead of overwriting.
+   */
+  const save = async (changes: EditableUser, expectedUpdatedAt?: string) => {
     if (!userData) return;
 
     setIsLoading(true);
     try {
-      // Update user profile
-      const updatedUserData = {
-        id: userData.id,
-        first_name: values.firstName,
-        last_name: values.lastName,
-        email: values.email,
-        profile: profile,
-        role_id: values.role,
-        is_active: userData.is_active,
-      };
+      const result = await usersService.updateUser(
+        userData.id,
+        changes,
+        undefined,
+        expectedUpdatedAt
+      );
 
-      await usersService.updateUser(userData.id, updatedUserData);
+      if (isConflictError<User>(result.error)) {
+        setConflict({ mine: changes, theirs: result.error.details.current });
+        return;
+      }
+      if (!result.success) {
+        throw new Error(result.error?.message || "Failed to update user");
+      }
+
+      setConflict(null);
       toast.success("User updated successfully");
       if (onOpenChange) onOpenChange(false);
       fetchUser();
@@ -143,6 +178,19 @@ export default function EditUser({
     }
   };
 
+  // Handler for saving changes
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    await save(
+      {
+        first_name: values.firstName,
+        last_name: values.lastName,
+        profile: profile,
+        role_id: values.role,
+      },
+      baseRecord?.updated_at
+    );
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="">
@@ -264,6 +312,37 @@ export default function EditUser({
           </div>
         </div>
       </DialogContent>
+      {conflict && baseRecord && (
+        <ConflictDialog<EditableUser>
+          isOpen={!!conflict}
+          setIsOpen={(isOpen) => !isOpen && setConflict(null)}
+          fields={[
+            { key: "first_name", label: "First name" },
+            { key: "last_name", label: "Last name" },
+            {
+              key: "role_id",
+              label: "Role",
+              format: (value) =>
+                listRoles?.find((role) => role.id === value)?.name || "—",
+            },
+            {
+              key: "profile",
+              label: "Profile picture",
+              format: (value) => (value ? "Custom image" : "—"),
+            },
+          ]}
+          base={toEditable(baseRecord)}
+          mine={conflict.mine}
+          theirs={toEditable(conflict.theirs)}
+          loading={isLoading}
+          onKeepTheirs={() => {
+            loadRecord(conflict.theirs);
+            setConflict(null);
+          }}
+          onMerge={(merged) => save(merged, conflict.theirs.updated_at)}
+          onOverwrite={() => save(conflict.mine, conflict.theirs.updated_at)}
+        />
+      )}
     </Dialog>
   );
 }
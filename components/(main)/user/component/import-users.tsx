@@ -0,0 +1,380 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useFileUpload } from "@/hooks/use-file-upload";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectItem,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  SPREADSHEET_ACCEPT,
+  downloadCsv,
+  readSpreadsheet,
+  type SpreadsheetRow,
+} from "@/lib/spreadsheet";
+import {
+  importUsers,
+  previewUserImport,
+  type UserImportPreviewItem,
+} from "@/lib/actions/user-import-actions";
+import type {
+  UserImportAction,
+  UserImportField,
+  UserImportResult,
+  UserImportRow,
+} from "@/lib/user-import";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+const NOT_MAPPED = "none";
+
+// 5 MB is plenty for the row limit
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const fields: { field: UserImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: "firstName", label: "First name", required: true, aliases: ["first name", "firstname", "first_name", "given name"] },
+  { field: "lastName", label: "Last name", required: true, aliases: ["last name", "lastname", "last_name", "surname", "family name"] },
+  { field: "email", label: "Email", required: true, aliases: ["email", "email address", "e-mail"] },
+  { field: "role", label: "Role", required: true, aliases: ["role", "role name"] },
+  { field: "password", label: "Password (optional)", required: false, aliases: ["password"] },
+];
+
+const actionBadge: Record<UserImportAction, { label: string; className: string }> = {
+  create: { label: "Create", className: "bg-green-500" },
+  update: { label: "Update", className: "bg-blue-500" },
+  unchanged: { label: "No changes", className: "bg-muted text-muted-foreground" },
+  error: { label: "Error", className: "bg-red-500" },
+};
+
+// Match headers like "First Name" or "EMAIL" to fields
+function guessMapping(headers: string[]): Record<UserImportField, string> {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  return Object.fromEntries(
+    fields.map(({ field, aliases }) => {
+      const index = normalized.findIndex((header) => aliases.includes(header));
+      return [field, index === -1 ? NOT_MAPPED : String(index)];
+    })
+  ) as Record<UserImportField, string>;
+}
+
+interface ImportUsersProps {
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  onRefresh?: () => void;
+}
+
+export default function ImportUsers({
+  open = false,
+  onOpenChange,
+  onRefresh,
+}: ImportUsersProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<SpreadsheetRow[]>([]);
+  const [mapping, setMapping] = useState<Record<UserImportField, string>>(guessMapping([]));
+  const [preview, setPreview] = useState<UserImportPreviewItem[]>([]);
+  const [results, setResults] = useState<UserImportResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [{ errors, isDragging }, fileActions] = useFileUpload({
+    accept: SPREADSHEET_ACCEPT,
+    maxSize: MAX_FILE_SIZE,
+    onFilesAdded: async ([added]) => {
+      if (!(added?.file instanceof File)) return;
+      try {
+        const rows = await readSpreadsheet(added.file);
+        if (rows.length < 2) {
+          toast.error("The file needs a header row and at least one user");
+          return;
+        }
+        setFileName(added.file.name);
+        setSheet(rows);
+        setMapping(guessMapping(rows[0]));
+        setStep("map");
+      } catch (error) {
+        console.error("Error reading import file:", error);
+        toast.error("The file couldn't be read. Upload a CSV or XLSX file.");
+      }
+    },
+  });
+
+  // Start over whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep("upload");
+      setFileName("");
+      setSheet([]);
+      setPreview([]);
+      setResults([]);
+      fileActions.clearFiles();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const headers = sheet[0] ?? [];
+
+  // Spreadsheet row numbers start at 1 with the header row
+  const mappedRows = useMemo<UserImportRow[]>(
+    () =>
+      sheet.slice(1).map((cells, index) => {
+        const row: UserImportRow = { rowNumber: index + 2 };
+        for (const { field } of fields) {
+          if (mapping[field] !== NOT_MAPPED) row[field] = cells[Number(mapping[field])] ?? "";
+        }
+        return row;
+      }),
+    [sheet, mapping]
+  );
+
+  const isMappingComplete = fields.every(
+    ({ field, required }) => !required || mapping[field] !== NOT_MAPPED
+  );
+
+  const counts = useMemo(() => {
+    const byAction: Record<UserImportAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+    for (const item of preview) byAction[item.action]++;
+    return byAction;
+  }, [preview]);
+
+  const failedResults = results.filter((result) => !result.success);
+
+  const runPreview = async () => {
+    setIsLoading(true);
+    try {
+      const result = await previewUserImport(mappedRows);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to check the file");
+      }
+      setPreview(result.items);
+      setStep("preview");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to check the file");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runImport = async () => {
+    setIsLoading(true);
+    try {
+      const result = await importUsers(mappedRows);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to import users");
+      }
+      setResults(result.results);
+      setStep("done");
+
+      const imported = result.results.filter(
+        (item) => item.success && item.action !== "unchanged"
+      ).length;
+      toast.success(`${imported} ${imported === 1 ? "user" : "users"} imported`);
+      onRefresh?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import users");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    const failed = step === "done" ? failedResults : preview.filter((item) => item.action === "error");
+    downloadCsv(
+      `${fileName.replace(/\.[^.]+$/, "") || "import"}-errors.csv`,
+      [
+        ["Row", "Email", "Action", "Error"],
+        ...failed.map((item) => [
+          item.rowNumber,
+          item.email,
+          item.action,
+          "errors" in item ? item.errors.join("; ") : item.error ?? "",
+        ]),
+      ]
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Users</DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <div
+              role="button"
+              onClick={fileActions.openFileDialog}
+              onDragEnter={fileActions.handleDragEnter}
+              onDragLeave={fileActions.handleDragLeave}
+              onDragOver={fileActions.handleDragOver}
+              onDrop={fileActions.handleDrop}
+              data-dragging={isDragging || undefined}
+              className="border-input hover:bg-accent/50 data-[dragging=true]:bg-accent/50 flex min-h-40 cursor-pointer flex-col items-center justify-center rounded-md border border-dashed p-4 text-center"
+            >
+              <input {...fileActions.getInputProps()} className="sr-only" aria-label="Upload file" />
+              <FileSpreadsheet className="mb-2 h-8 w-8 opacity-60" />
+              <p className="text-sm font-medium">Drop a CSV or XLSX file here, or click to browse</p>
+              <p className="text-muted-foreground text-xs">
+                One user per row, with a header row. Columns: first name, last name, email, role and
+                optionally password.
+              </p>
+            </div>
+            {errors.map((error) => (
+              <p key={error} className="text-destructive text-xs">
+                {error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              {fileName}: {sheet.length - 1} rows. Choose the column for each field.
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {fields.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label>{label}</Label>
+                  <Select
+                    value={mapping[field]}
+                    onValueChange={(value) => setMapping((prev) => ({ ...prev, [field]: value }))}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Choose a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!required && <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>}
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Users without a password are emailed a link to set one. Passwords of existing users
+              are never changed.
+            </p>
+          </div>
+        )}
+
+        {(step === "preview" || step === "done") && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              {step === "preview" ? (
+                <>
+                  <Badge className={actionBadge.create.className}>{counts.create} to create</Badge>
+                  <Badge className={actionBadge.update.className}>{counts.update} to update</Badge>
+                  <Badge className={actionBadge.unchanged.className}>{counts.unchanged} unchanged</Badge>
+                  <Badge className={actionBadge.error.className}>{counts.error} with errors</Badge>
+                </>
+              ) : (
+                <>
+                  <Badge className="bg-green-500">{results.length - failedResults.length} succeeded</Badge>
+                  <Badge className="bg-red-500">{failedResults.length} failed</Badge>
+                </>
+              )}
+            </div>
+            <div className="max-h-[50vh] overflow-y-auto border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead className="w-28">Action</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(step === "preview" ? preview : results).map((item) => {
+                    const failed = "errors" in item ? item.action === "error" : !item.success;
+                    const badge = actionBadge[failed ? "error" : item.action];
+                    return (
+                      <TableRow key={item.rowNumber}>
+                        <TableCell>{item.rowNumber}</TableCell>
+                        <TableCell className="truncate">{item.email || "-"}</TableCell>
+                        <TableCell>
+                          <Badge className={badge.className}>{badge.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-normal">
+                          {"errors" in item
+                            ? item.errors.join("; ") || (item.changes?.length ? `Changes ${item.changes.join(", ")}` : "")
+                            : item.error ?? ""}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {((step === "preview" && counts.error > 0) || (step === "done" && failedResults.length > 0)) && (
+            <Button variant="outline" onClick={downloadErrorReport}>
+              <Download className="mr-1 h-4 w-4" /> Error report
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button onClick={runPreview} disabled={!isMappingComplete || isLoading}>
+                {isLoading && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={isLoading}>
+                Back
+              </Button>
+              <Button
+                onClick={runImport}
+                disabled={counts.create + counts.update === 0 || isLoading}
+              >
+                {isLoading ? (
+                  <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-1 h-4 w-4" />
+                )}
+                Import {counts.create + counts.update} {counts.create + counts.update === 1 ? "user" : "users"}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => onOpenChange?.(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,302 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RefreshCcw, Send, XCircle } from "lucide-react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import type { Role } from "@/modules/roles/models/role";
+import {
+  Select,
+  SelectItem,
+  SelectContent,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  inviteUser,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation,
+  type InvitationSummary,
+} from "@/lib/actions/invitation-actions";
+
+// Define form validation schema
+const formSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.string().min(1, "Role is required"),
+});
+
+interface InviteUserProps {
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  listRoles?: Role[];
+}
+
+const statusClassName: Record<InvitationSummary["status"], string> = {
+  pending: "bg-blue-500",
+  accepted: "bg-green-500",
+  expired: "bg-amber-500",
+  revoked: "bg-red-500",
+};
+
+export default function InviteUser({
+  open = false,
+  onOpenChange,
+  listRoles,
+}: InviteUserProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [invitations, setInvitations] = useState<InvitationSummary[]>([]);
+  const [isListLoading, setIsListLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Initialize form
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: "",
+      role: "",
+    },
+  });
+
+  const fetchInvitations = useCallback(async () => {
+    setIsListLoading(true);
+    try {
+      const result = await listInvitations();
+      setInvitations(
+        result.invitations.filter(
+          (invitation) =>
+            invitation.status === "pending" || invitation.status === "expired"
+        )
+      );
+    } finally {
+      setIsListLoading(false);
+    }
+  }, []);
+
+  // Reset form and reload invitations when dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset();
+      fetchInvitations();
+    }
+  }, [open, form, fetchInvitations]);
+
+  const notifyDelivery = (result: {
+    success: boolean;
+    emailSent?: boolean;
+    inviteLink?: string;
+  }) => {
+    if (result.emailSent) {
+      toast.success("Invitation sent");
+      return;
+    }
+    if (result.inviteLink) {
+      navigator.clipboard?.writeText(result.inviteLink).catch(() => {});
+      toast.warning("Email is not configured", {
+        description: "The invitation link was copied to your clipboard.",
+      });
+    }
+  };
+
+  // Handler for sending an invitation
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    setIsLoading(true);
+    try {
+      const result = await inviteUser(values.email, values.role);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to send invitation");
+      }
+      notifyDelivery(result);
+      form.reset();
+      fetchInvitations();
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to send invitation"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async (id: string) => {
+    setBusyId(id);
+    try {
+      const result = await resendInvitation(id);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to resend invitation");
+      }
+      notifyDelivery(result);
+      fetchInvitations();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to resend invitation"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setBusyId(id);
+    try {
+      const result = await revokeInvitation(id);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to revoke invitation");
+      }
+      toast.success("Invitation revoked");
+      fetchInvitations();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revoke invitation"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+        </DialogHeader>
+        <div className="overflow-y-auto max-h-[80vh] space-y-4">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="space-y-1 flex flex-col gap-1">
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Email" type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem className="space-y-1  gap-1">
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="uppercase">
+                          <SelectValue placeholder="Select role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {listRoles?.map((role) => (
+                          <SelectItem
+                            key={role.id}
+                            value={role.id}
+                            className="uppercase"
+                          >
+                            {role.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange?.(false)}
+                >
+                  Close
+                </Button>
+                <Button type="submit" disabled={isLoading}>
+                  <Send className="mr-1 h-4 w-4" />
+                  {isLoading ? "Sending..." : "Send Invite"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Open invitations</h3>
+              {isListLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+            {invitations.length === 0 && !isListLoading && (
+              <p className="text-sm text-muted-foreground">
+                No open invitations
+              </p>
+            )}
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between gap-2 rounded-md border p-2"
+              >
+                <div className="grid flex-1 text-sm leading-tight">
+                  <span className="truncate font-medium">
+                    {invitation.email}
+                  </span>
+                  <span className="truncate text-xs text-muted-foreground uppercase">
+                    {invitation.roles?.name}
+                  </span>
+                </div>
+                <Badge className={statusClassName[invitation.status]}>
+                  {invitation.status}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2"
+                  disabled={busyId === invitation.id}
+                  onClick={() => handleResend(invitation.id)}
+                >
+                  <RefreshCcw className="mr-1 h-4 w-4" />
+                  Resend
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2"
+                  disabled={busyId === invitation.id}
+                  onClick={() => handleRevoke(invitation.id)}
+                >
+                  <XCircle className="mr-1 h-4 w-4" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
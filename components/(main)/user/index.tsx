@@ -1,16 +1,36 @@
 "use client";
 import { useState, useEffect, useCallback } from "react";
+import type { SortingState } from "@tanstack/react-table";
 
 import { getUserColumns } from "@/components/data-table/columns/column-user";
 import { UserDataTableToolbar } from "@/components/data-table/toolbars/user-toolbar";
 import { DataTable } from "@/components/data-table/data-table";
-import { usersService } from "@/modules/users";
-import { User } from "@/types/types";
+import { usersService, type UserListFilters } from "@/modules/users";
+import type { SortOrder } from "@/lib/BaseService";
+import type { User } from "@/modules/users";
 import { rolesService } from "@/modules/roles/services/roles-service";
 import { Role } from "@/modules/roles/models/role";
 import { useDebounce } from "@/hooks/use-debounce";
+import { useAuth } from "@/context/AuthContext";
+
+// Table column ids mapped to the user_profile columns they sort by
+const SORT_COLUMNS: Record<string, string[]> = {
+  name: ["first_name", "last_name"],
+  role: ["role_id"],
+  status: ["is_active"],
+  created_at: ["created_at"],
+  deleted_at: ["deleted_at"],
+};
+
+function toSortOrder(sorting: SortingState): SortOrder[] {
+  return sorting.flatMap(({ id, desc }) =>
+    (SORT_COLUMNS[id] || []).map((column) => ({ column, ascending: !desc }))
+  );
+}
 
 export default function UserManagementPage({ type }: { type: string }) {
+  const { userProfile } = useAuth();
+  const organizationId = userProfile?.active_organization_id ?? null;
   const [listUsers, setListUsers] = useState<User[]>([]);
   const [listRoles, setListRoles] = useState<Role[]>([]);
   const [recordCount, setRecordCount] = useState<number>(0);
@@ -18,6 +38,9 @@ export default function UserManagementPage({ type }: { type: string }) {
   const [pageSize, setPageSize] = useState<number>(10);
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [isRefetching, setIsRefetching] = useState<boolean>(false);
+  const [filters, setFilters] = useState<UserListFilters>({});
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [showDeleted, setShowDeleted] = useState<boolean>(false);
   const debouncedSearchTerm = useDebounce(searchQuery, 500);
   const fetchUsers = useCallback(async () => {
     setIsRefetching(true);
@@ -31,7 +54,12 @@ export default function UserManagementPage({ type }: { type: string }) {
       const usersResponse: any = await usersService.getUsersPaginated(
         debouncedSearchTerm,
         currentPage + 1, // Convert from 0-based to 1-based pagination
-        pageSize
+        pageSize,
+        undefined,
+        organizationId,
+        filters,
+        toSortOrder(sorting),
+        showDeleted ? "only" : "exclude"
       );
 
       console.log("Users response:", usersResponse);
@@ -59,7 +87,7 @@ export default function UserManagementPage({ type }: { type: string }) {
     } finally {
       setIsRefetching(false);
     }
-  }, [debouncedSearchTerm, pageSize, currentPage]);
+  }, [debouncedSearchTerm, pageSize, currentPage, organizationId, filters, sorting, showDeleted]);
   const fetchRoles = async () => {
     const rolesResponse: Role[] = await rolesService.getAllRoles();
     setListRoles(rolesResponse);
@@ -80,6 +108,16 @@ export default function UserManagementPage({ type }: { type: string }) {
     setCurrentPage(0);
   };
 
+  const handleFiltersChange = (next: UserListFilters) => {
+    setFilters(next);
+    setCurrentPage(0);
+  };
+
+  const handleShowDeletedChange = (show: boolean) => {
+    setShowDeleted(show);
+    setCurrentPage(0);
+  };
+
   const handlePageChange = (pageIndex: number) => {
     setCurrentPage(pageIndex);
   };
@@ -98,19 +136,35 @@ export default function UserManagementPage({ type }: { type: string }) {
             fetchRecords={fetchUsers}
             type={type}
             listRoles={listRoles}
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            showDeleted={showDeleted}
+            onShowDeletedChange={handleShowDeletedChange}
           />
         }
         // @ts-ignore
-        columns={getUserColumns(fetchUsers, listRoles as Role[])}
+        columns={getUserColumns(fetchUsers, listRoles as Role[], showDeleted)}
         onGlobalFilterChange={handleGlobalFilterChange}
         onPageChange={handlePageChange}
         onPageSizeChange={handlePageSizeChange}
+        onSortingChange={setSorting}
+        getRowId={(user: User) => user.id}
+        // Your own account is left out of bulk actions, as in the row menu
+        enableRowSelection={(row) => (row.original as User).email !== userProfile?.email}
         pageSize={pageSize}
         currentPage={currentPage}
         loading={isRefetching}
         error={""}
         rowCount={recordCount}
         type="users"
+        exportOptions={{
+          resource: "users",
+          params: {
+            search: debouncedSearchTerm || undefined,
+            filters,
+            deleted: showDeleted ? "only" : "exclude",
+          },
+        }}
       />
     </div>
   );
@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import { usePermission } from "@/hooks/use-permission";
+import type { PermissionAction } from "@/lib/permissions";
+
+interface CanProps {
+  resource: string;
+  action: PermissionAction;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Render children only when the signed-in user holds `resource:action`
+ */
+export default function Can({
+  resource,
+  action,
+  children,
+  fallback = null,
+}: CanProps) {
+  const allowed = usePermission(resource, action);
+
+  return <>{allowed ? children : fallback}</>;
+}
@@ -1,5 +1,7 @@
-import { User } from "@/types/types";
+import type { User } from "@/modules/users";
 import { getNavData } from "@/components/main-layout/menu-items";
+import { canAccessModule } from "@/lib/permissions";
+import { getProtectedResource } from "@/lib/routes/protected-routes";
 
 export const checkRoutePermission = async (
   user: User | null,
@@ -16,6 +18,13 @@ export const checkRoutePermission = async (
       return true;
     }
 
+    // Routes mapped in protected-routes are decided by role_access,
+    // matching the check done in middleware
+    const resource = getProtectedResource(pathname);
+    if (resource) {
+      return canAccessModule(user, resource);
+    }
+
     // Get navigation data based on user role
     const { navMain } = getNavData({
       roles: user.roles?.name || "",
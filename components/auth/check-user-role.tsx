@@ -5,7 +5,8 @@ import { usePathname, useRouter } from "next/navigation";
 import React from "react";
 
 import { checkRoutePermission } from "@/components/auth/check-route-access";
-import { User } from "@/types/types";
+import { RESTRICTED_ROUTE } from "@/lib/routes/protected-routes";
+import type { User } from "@/modules/users";
 import { useAuth } from "@/context/AuthContext";
 import Loader from "../loader";
 
@@ -46,7 +47,7 @@ export default function CheckUserRole({ children }: CheckUserRoleProps) {
 
         if (!isAuthorized) {
           // Use Next.js router instead of window.location for better UX
-          router.push("/");
+          router.push(`${RESTRICTED_ROUTE}?from=${encodeURIComponent(pathname)}`);
           return;
         }
 
@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authServiceUnified } from "@/modules/auth";
+import { signInWithRecoveryCode } from "@/lib/actions/mfa-actions";
+
+/**
+ * Second sign-in step: a code from the authenticator app, or a recovery code.
+ * A recovery code removes the user's authenticators, so they may be asked to
+ * enroll again. `onComplete` runs once the session is complete.
+ */
+export function MfaChallenge({ onComplete }: { onComplete: () => void }) {
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    const loadFactor = async () => {
+      const result = await authServiceUnified.listMfaFactors();
+      const verified = result.data?.find((factor) => factor.status === "verified");
+      if (verified) {
+        setFactorId(verified.id);
+      } else {
+        setError(result.error?.message || "No authenticator app is set up for this account");
+      }
+    };
+
+    loadFactor();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      if (useRecovery) {
+        const result = await signInWithRecoveryCode(code);
+        if (!result.success) {
+          setError(result.error || "Invalid recovery code");
+          return;
+        }
+        // Pick up the removed factors before moving on
+        await authServiceUnified.refreshSession();
+        onComplete();
+        return;
+      }
+
+      if (!factorId) return;
+      const result = await authServiceUnified.verifyTotp(factorId, code);
+      if (!result.success) {
+        setError("That code didn't match. Check your app and try again.");
+        return;
+      }
+      onComplete();
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const toggleRecovery = () => {
+    setUseRecovery((value) => !value);
+    setCode("");
+    setError(null);
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <p className="text-sm text-muted-foreground">
+        {useRecovery
+          ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+          : "Enter the six-digit code from your authenticator app."}
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="mfa-challenge-code">
+          {useRecovery ? "Recovery code" : "Verification code"}
+        </Label>
+        {useRecovery ? (
+          <Input
+            id="mfa-challenge-code"
+            autoComplete="off"
+            placeholder="xxxxx-xxxxx"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoFocus
+          />
+        ) : (
+          <Input
+            id="mfa-challenge-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            autoFocus
+          />
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isVerifying || (useRecovery ? !code.trim() : !factorId || code.length !== 6)}
+      >
+        {isVerifying ? "Verifying..." : "Verify"}
+      </Button>
+      <Button type="button" variant="link" className="w-full" onClick={toggleRecovery}>
+        {useRecovery ? "Use your authenticator app" : "Use a recovery code"}
+      </Button>
+    </form>
+  );
+}
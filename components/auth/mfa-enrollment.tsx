@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import QRCode from "qrcode";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Spinner } from "@/components/ui/spinner";
+import { authServiceUnified, type TotpEnrollment } from "@/modules/auth";
+import { generateRecoveryCodes } from "@/lib/actions/mfa-actions";
+import { RecoveryCodesList } from "./recovery-codes-list";
+
+/**
+ * Enroll an authenticator app: scan the QR code, confirm a code, then save
+ * the recovery codes. `onComplete` runs once the codes have been saved.
+ */
+export function MfaEnrollment({ onComplete }: { onComplete: () => void }) {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const startEnrollment = async () => {
+      const result = await authServiceUnified.enrollTotp("Authenticator app");
+      if (cancelled) return;
+      if (!result.success || !result.data) {
+        setError(result.error?.message || "Could not start setup");
+        return;
+      }
+      setEnrollment(result.data);
+      setQrCode(await QRCode.toDataURL(result.data.uri, { margin: 1, width: 200 }));
+    };
+
+    startEnrollment();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const verified = await authServiceUnified.verifyTotp(enrollment.factorId, code);
+      if (!verified.success) {
+        setError("That code didn't match. Check your app and try again.");
+        return;
+      }
+
+      const result = await generateRecoveryCodes();
+      if (!result.success || !result.codes) {
+        // The authenticator is set up; codes can be generated from settings later
+        toast.error(result.error || "Could not generate recovery codes");
+        onComplete();
+        return;
+      }
+      setRecoveryCodes(result.codes);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button className="w-full" onClick={onComplete}>
+          I&apos;ve saved my codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleVerify}>
+      <p className="text-sm text-muted-foreground">
+        Scan the QR code with an authenticator app such as Google Authenticator
+        or 1Password, then enter the six-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        {qrCode ? (
+          <Image src={qrCode} alt="QR code for your authenticator app" width={200} height={200} unoptimized />
+        ) : (
+          <div className="flex h-[200px] w-[200px] items-center justify-center">
+            {!error && <Spinner />}
+          </div>
+        )}
+      </div>
+      {enrollment && (
+        <p className="text-center text-xs text-muted-foreground">
+          Can&apos;t scan it? Enter this key instead:{" "}
+          <span className="font-mono break-all">{enrollment.secret}</span>
+        </p>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="mfa-enroll-code">Verification code</Label>
+        <Input
+          id="mfa-enroll-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+          disabled={!enrollment}
+        />
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button type="submit" className="w-full" disabled={!enrollment || code.length !== 6 || isVerifying}>
+        {isVerifying ? "Verifying..." : "Verify and enable"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/button";
+import { authServiceUnified } from "@/modules/auth";
+import {
+  OAUTH_CALLBACK_ROUTE,
+  getEnabledOAuthProviders,
+  getOidcStartUrl,
+  type OAuthProvider,
+} from "@/lib/oauth-providers";
+
+/**
+ * One button per provider in NEXT_PUBLIC_OAUTH_PROVIDERS, for the login and
+ * signup pages. New users get an account on their first sign-in.
+ */
+export function OAuthButtons({ onError }: { onError?: (message: string) => void }) {
+  const [providers] = useState<OAuthProvider[]>(() => getEnabledOAuthProviders());
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  const handleClick = async (provider: OAuthProvider) => {
+    setPendingProvider(provider.id);
+    if (!provider.supabaseProvider) {
+      window.location.assign(getOidcStartUrl("/"));
+      return;
+    }
+
+    const result = await authServiceUnified.signInWithOAuth(
+      provider.supabaseProvider,
+      `${window.location.origin}${OAUTH_CALLBACK_ROUTE}?next=/`
+    );
+    if (!result.success) {
+      onError?.(result.error?.message || `Couldn't sign in with ${provider.name}`);
+      setPendingProvider(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="h-px flex-1 bg-border" />
+        or continue with
+        <span className="h-px flex-1 bg-border" />
+      </div>
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full cursor-pointer"
+          disabled={pendingProvider !== null}
+          onClick={() => handleClick(provider)}
+        >
+          {pendingProvider === provider.id ? "Redirecting..." : provider.name}
+        </Button>
+      ))}
+    </div>
+  );
+}
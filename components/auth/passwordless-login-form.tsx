@@ -0,0 +1,161 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Label } from "@/components/label";
+import { Input } from "@/components/input";
+import { Button } from "@/components/button";
+import { requestLoginCode, verifyLoginCode } from "@/lib/actions/passwordless-actions";
+import type { LoginCodeMethod } from "@/modules/login-code-requests";
+
+/**
+ * Login form for the magic link and email code modes. Magic links finish in
+ * /api/auth/callback; codes are entered here after the email is sent.
+ */
+export function PasswordlessLoginForm({ method }: { method: LoginCodeMethod }) {
+  const id = useId();
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequest = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await requestLoginCode(email, method);
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      setMessage(result.message);
+      if (method === "email_otp") setCodeSent(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await verifyLoginCode(email, code);
+      if (!result.success) {
+        setError(result.error || "Invalid code");
+        setIsLoading(false);
+        return;
+      }
+      // Full navigation so the middleware sees the new session (and any MFA step)
+      window.location.replace("/");
+    } catch {
+      setError("Something went wrong, so please try again later.");
+      setIsLoading(false);
+    }
+  };
+
+  const feedback = (
+    <>
+      {error && (
+        <div className="text-red-600 dark:text-red-400 text-sm text-center">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="text-green-600 dark:text-green-400 text-sm text-center">
+          {message}
+        </div>
+      )}
+    </>
+  );
+
+  if (codeSent) {
+    return (
+      <form className="mt-8 space-y-6" onSubmit={handleVerify}>
+        {feedback}
+        <div>
+          <Label htmlFor={`${id}-code`} className="dark:text-gray-200">
+            Sign-in code
+          </Label>
+          <Input
+            id={`${id}-code`}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            required
+            autoFocus
+            className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="w-full bg-[#ec4899] hover:bg-[#ec4899]/90 text-white p-2 rounded-md cursor-pointer"
+          disabled={isLoading || code.length !== 6}
+        >
+          {isLoading ? "Signing in..." : "Sign in"}
+        </Button>
+        <div className="flex justify-between text-sm">
+          <button
+            type="button"
+            className="text-primary hover:underline cursor-pointer"
+            onClick={() => {
+              setCodeSent(false);
+              setCode("");
+              setMessage(null);
+              setError(null);
+            }}
+          >
+            Use a different email
+          </button>
+          <button
+            type="button"
+            className="text-primary hover:underline cursor-pointer"
+            onClick={() => handleRequest()}
+            disabled={isLoading}
+          >
+            Resend code
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleRequest}>
+      {feedback}
+      <div>
+        <Label htmlFor={`${id}-email`} className="dark:text-gray-200">
+          Email
+        </Label>
+        <Input
+          id={`${id}-email`}
+          placeholder="hi@yourcompany.com"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+        />
+      </div>
+      <Button
+        type="submit"
+        className="w-full bg-[#ec4899] hover:bg-[#ec4899]/90 text-white p-2 rounded-md cursor-pointer"
+        disabled={isLoading}
+      >
+        {isLoading
+          ? "Sending..."
+          : method === "magic_link"
+            ? "Email me a sign-in link"
+            : "Email me a sign-in code"}
+      </Button>
+    </form>
+  );
+}
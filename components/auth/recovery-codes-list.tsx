@@ -0,0 +1,55 @@
+"use client";
+
+import { CopyIcon, DownloadIcon } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Freshly generated recovery codes with copy and download buttons. The codes
+ * can't be shown again once this is closed.
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const text = codes.join("\n");
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Recovery codes copied");
+    } catch {
+      toast.error("Could not copy the codes");
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these codes somewhere safe. Each one signs you in once if you lose
+        access to your authenticator app. They won&apos;t be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <CopyIcon className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <DownloadIcon className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Label } from "@/components/label";
+import { Input } from "@/components/input";
+import { Button } from "@/components/button";
+import { getSsoStartUrl } from "@/lib/oauth-providers";
+
+/**
+ * Login form for organizations with single sign-on. The email's domain picks
+ * the organization's identity provider; the browser goes there and comes back
+ * signed in.
+ */
+export function SsoLoginForm() {
+  const id = useId();
+  const [email, setEmail] = useState("");
+  const [isRedirecting, setIsRedirecting] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRedirecting(true);
+    window.location.assign(getSsoStartUrl(email.trim()));
+  };
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+      <div>
+        <Label htmlFor={`${id}-email`} className="dark:text-gray-200">
+          Work email
+        </Label>
+        <Input
+          id={`${id}-email`}
+          placeholder="hi@yourcompany.com"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          autoFocus
+          className="dark:bg-gray-700 dark:text-white dark:border-gray-600"
+        />
+      </div>
+      <Button
+        type="submit"
+        className="w-full bg-[#ec4899] hover:bg-[#ec4899]/90 text-white p-2 rounded-md cursor-pointer"
+        disabled={isRedirecting}
+      >
+        {isRedirecting ? "Redirecting..." : "Continue with single sign-on"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+import React, { useState } from "react";
+import { Ellipsis, Edit, Trash } from "lucide-react";
+import { Row } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "sonner";
+import RoleFormDialog from "@/components/(main)/role/component/role-form-dialog";
+import type { RoleWithAccess } from "@/modules/roles";
+import { deleteRole } from "@/lib/actions/role-actions";
+import ConfirmationDialogBox from "@/components/ui/confirmation-dialog-box";
+import { usePermission } from "@/hooks/use-permission";
+
+interface RoleTableRowActionsProps {
+  row: Row<RoleWithAccess>;
+  fetchRoles: () => void;
+}
+
+export function RoleTableRowActions({
+  row,
+  fetchRoles,
+}: RoleTableRowActionsProps) {
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const canUpdate = usePermission("roles", "update");
+  const canDelete = usePermission("roles", "delete");
+  const values: RoleWithAccess = { ...row.original };
+
+  const onConfirmDelete = async () => {
+    try {
+      setLoading(true);
+      const result = await deleteRole(values.id);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete role");
+      }
+      toast.success("Role deleted successfully");
+      fetchRoles();
+    } catch (error: any) {
+      toast.error(error?.message || "Unknown error");
+    } finally {
+      setLoading(false);
+      setIsDeleteDialogOpen(false);
+    }
+  };
+
+  if (!canUpdate && !canDelete) {
+    return null;
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="flex h-8 w-8 p-0 data-[state=open]:bg-muted cursor-pointer"
+          >
+            <Ellipsis className="h-4 w-4" />
+            <span className="sr-only">Open menu</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-max">
+          {canUpdate && (
+            <DropdownMenuItem
+              onClick={() => setIsEditDialogOpen(true)}
+              className="cursor-pointer flex items-center"
+            >
+              <Edit className="mr-1 h-4 w-4" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          {canDelete && (
+            <DropdownMenuItem
+              onClick={() => setIsDeleteDialogOpen(true)}
+              className="cursor-pointer flex items-center"
+            >
+              <Trash className="mr-1 h-4 w-4" />
+              Remove
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <RoleFormDialog
+        open={isEditDialogOpen}
+        onOpenChange={setIsEditDialogOpen}
+        onRefresh={fetchRoles}
+        role={values}
+      />
+
+      <ConfirmationDialogBox
+        title="Are you sure you want to remove this role?"
+        description="This action cannot be undone. Roles that are still assigned to users cannot be removed."
+        cancelText="Cancel"
+        confirmText="Remove"
+        isOpen={isDeleteDialogOpen}
+        setIsOpen={setIsDeleteDialogOpen}
+        loading={loading}
+        onConfirm={onConfirmDelete}
+        type="delete"
+        icon={<Trash className="mr-2 h-4 w-4" />}
+      />
+    </>
+  );
+}
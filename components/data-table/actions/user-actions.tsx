@@ -8,7 +8,13 @@ import {
   Ban,
   CheckCircle,
   KeyRound,
+  History,
+  ArchiveRestore,
+  Trash2,
+  ShieldOff,
+  LogOut,
 } from "lucide-react";
+import { useRouter } from "next/navigation";
 import { Row } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
 import {
@@ -18,16 +24,86 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
-import { User } from "@/types/types";
+import type { User } from "@/modules/users";
 import EditUser from "@/components/(main)/user/component/edit-user";
 import ChangePassword from "@/components/(main)/user/component/change-password";
 import { Role } from "@/modules/roles/models/role";
 import { rolesService } from "@/modules/roles/services/roles-service";
-import { deleteAuthUser } from "@/lib/actions/auth-actions";
+import {
+  deleteUser,
+  purgeUser,
+  resetUserMfa,
+  restoreUser,
+  signOutUserEverywhere,
+} from "@/lib/actions/user-actions";
 
 import { usersService } from "@/modules/users";
 import ConfirmationDialogBox from "@/components/ui/confirmation-dialog-box";
 import { useAuth } from "@/context/AuthContext";
+import { usePermission } from "@/hooks/use-permission";
+
+type ConfirmAction = "disable" | "enable" | "delete" | "restore" | "purge" | "resetMfa" | "signOut";
+
+const confirmationCopy: Record<
+  ConfirmAction,
+  { title: string; description: string; confirmText: string; success: string }
+> = {
+  delete: {
+    title: "Are you sure you want to remove this user?",
+    description:
+      "The user will be signed out and moved to Deleted users, where they can be restored until they are purged.",
+    confirmText: "Remove",
+    success: "User moved to Deleted users",
+  },
+  disable: {
+    title: "Are you sure you want to block this user?",
+    description: "This will prevent the user from accessing the system.",
+    confirmText: "Block",
+    success: "User disabled successfully",
+  },
+  enable: {
+    title: "Are you sure you want to activate this user?",
+    description: "This will restore the user's access to the system.",
+    confirmText: "Activate",
+    success: "User enabled successfully",
+  },
+  restore: {
+    title: "Restore this user?",
+    description: "The user will be able to sign in again with their previous role.",
+    confirmText: "Restore",
+    success: "User restored successfully",
+  },
+  purge: {
+    title: "Permanently delete this user?",
+    description:
+      "This action cannot be undone. The user's profile and account will be permanently deleted.",
+    confirmText: "Delete permanently",
+    success: "User permanently deleted",
+  },
+  resetMfa: {
+    title: "Reset two-factor authentication?",
+    description:
+      "The user's authenticator app and recovery codes will be removed. They'll sign in with their password and set up a new app if their role requires it.",
+    confirmText: "Reset",
+    success: "Two-factor authentication reset",
+  },
+  signOut: {
+    title: "Sign this user out everywhere?",
+    description:
+      "Every session the user has, on every device, will end. They can sign in again straight away.",
+    confirmText: "Sign out everywhere",
+    success: "User signed out everywhere",
+  },
+};
+
+// Actions that run as server actions on the user's ID
+const serverActions: Partial<Record<ConfirmAction, (userId: string) => Promise<{ success: boolean; error?: string }>>> = {
+  delete: deleteUser,
+  restore: restoreUser,
+  purge: purgeUser,
+  resetMfa: resetUserMfa,
+  signOut: signOutUserEverywhere,
+};
 
 interface UserTableRowActionsProps {
   row: Row<User>;
@@ -45,14 +121,19 @@ export function UserTableRowActions({
   const [loading, setLoading] = useState(false);
   const [confirmationDialog, setConfirmationDialog] = useState<{
     isOpen: boolean;
-    action: "disable" | "enable" | "delete" | null;
+    action: ConfirmAction | null;
   }>({ isOpen: false, action: null });
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const { userProfile } = useAuth();
+  const canUpdate = usePermission("users", "update");
+  const canDelete = usePermission("users", "delete");
+  const canViewAudit = usePermission("audit", "read");
+  const router = useRouter();
   // const userService = new UserApiService();
   const values: User = { ...row.original };
+  const isDeleted = !!values.deleted_at;
 
-  const handleConfirmation = (action: "disable" | "enable" | "delete") => {
+  const handleConfirmation = (action: ConfirmAction) => {
     setConfirmationDialog({ isOpen: true, action });
   };
 
@@ -63,28 +144,25 @@ export function UserTableRowActions({
     try {
       setLoading(true);
       const action = confirmationDialog.action;
-      if (action === "delete") {
-        await usersService.deleteUser(values.id);
-        toast.success("User deleted successfully");
-      } else if (action === "disable") {
-        await usersService.updateUser(values.id, {
-          is_active: false,
-          profile: values.profile,
-          role_id: values.role_id,
-          first_name: values.first_name,
-          last_name: values.last_name,
-        });
-        toast.success("User disabled successfully");
-      } else if (action === "enable") {
+      if (!action) {
+        return;
+      }
+      const handler = serverActions[action];
+      if (handler) {
+        const result = await handler(values.id);
+        if (!result.success) {
+          throw new Error(result.error || "Failed to update user");
+        }
+      } else {
         await usersService.updateUser(values.id, {
-          is_active: true,
+          is_active: action === "enable",
           profile: values.profile,
           role_id: values.role_id,
           first_name: values.first_name,
           last_name: values.last_name,
         });
-        toast.success("User enabled successfully");
       }
+      toast.success(confirmationCopy[action].success);
 
       setConfirmationDialog({ isOpen: false, action: null });
       fetchUsers(); // Refresh the user list after action
@@ -96,7 +174,12 @@ export function UserTableRowActions({
     }
   };
 
-  if (values.email === userProfile?.email) {
+  if (values.email === userProfile?.email || (!canUpdate && !canDelete && !canViewAudit)) {
+    return null;
+  }
+
+  // Deleted users can only be restored or purged
+  if (isDeleted && !canDelete) {
     return null;
   }
 
@@ -113,50 +196,111 @@ export function UserTableRowActions({
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end" className="w-max">
-          <DropdownMenuItem
-            onClick={() => {
-              setIsEditDialogOpen(true);
-            }}
-            className="cursor-pointer flex items-center"
-          >
-            <Edit className="mr-1 h-4 w-4" />
-            Edit
-          </DropdownMenuItem>
+          {isDeleted && (
+            <>
+              <DropdownMenuItem
+                onClick={() => handleConfirmation("restore")}
+                className="cursor-pointer flex items-center"
+              >
+                <ArchiveRestore className="mr-1 h-4 w-4" />
+                Restore
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => handleConfirmation("purge")}
+                className="cursor-pointer flex items-center text-destructive"
+              >
+                <Trash2 className="mr-1 h-4 w-4" />
+                Delete permanently
+              </DropdownMenuItem>
+            </>
+          )}
 
-          <DropdownMenuItem
-            onClick={() => setIsPasswordDialogOpen(true)}
-            className="cursor-pointer flex items-center"
-          >
-            <KeyRound className="mr-1 h-4 w-4" />
-            Change Password
-          </DropdownMenuItem>
+          {canUpdate && !isDeleted && (
+            <DropdownMenuItem
+              onClick={() => {
+                setIsEditDialogOpen(true);
+              }}
+              className="cursor-pointer flex items-center"
+            >
+              <Edit className="mr-1 h-4 w-4" />
+              Edit
+            </DropdownMenuItem>
+          )}
 
-          <DropdownMenuItem
-            onClick={() => handleConfirmation("delete")}
-            className="cursor-pointer flex items-center"
-          >
-            <Trash className="mr-1 h-4 w-4" />
-            Remove
-          </DropdownMenuItem>
-
-          <DropdownMenuItem
-            onClick={() =>
-              handleConfirmation(values.is_active ? "disable" : "enable")
-            }
-            className="cursor-pointer flex items-center"
-          >
-            {values.is_active ? (
-              <>
-                <Ban className="mr-1 h-4 w-4" />
-                Block
-              </>
-            ) : (
-              <>
-                <CheckCircle className="mr-1 h-4 w-4" />
-                Enable
-              </>
-            )}
-          </DropdownMenuItem>
+          {canUpdate && !isDeleted && (
+            <DropdownMenuItem
+              onClick={() => setIsPasswordDialogOpen(true)}
+              className="cursor-pointer flex items-center"
+            >
+              <KeyRound className="mr-1 h-4 w-4" />
+              Change Password
+            </DropdownMenuItem>
+          )}
+
+          {canUpdate && !isDeleted && (
+            <DropdownMenuItem
+              onClick={() => handleConfirmation("resetMfa")}
+              className="cursor-pointer flex items-center"
+            >
+              <ShieldOff className="mr-1 h-4 w-4" />
+              Reset 2FA
+            </DropdownMenuItem>
+          )}
+
+          {canUpdate && !isDeleted && (
+            <DropdownMenuItem
+              onClick={() => handleConfirmation("signOut")}
+              className="cursor-pointer flex items-center"
+            >
+              <LogOut className="mr-1 h-4 w-4" />
+              Sign out everywhere
+            </DropdownMenuItem>
+          )}
+
+          {canDelete && !isDeleted && (
+            <DropdownMenuItem
+              onClick={() => handleConfirmation("delete")}
+              className="cursor-pointer flex items-center"
+            >
+              <Trash className="mr-1 h-4 w-4" />
+              Remove
+            </DropdownMenuItem>
+          )}
+
+          {canUpdate && !isDeleted && (
+            <DropdownMenuItem
+              onClick={() =>
+                handleConfirmation(values.is_active ? "disable" : "enable")
+              }
+              className="cursor-pointer flex items-center"
+            >
+              {values.is_active ? (
+                <>
+                  <Ban className="mr-1 h-4 w-4" />
+                  Block
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="mr-1 h-4 w-4" />
+                  Enable
+                </>
+              )}
+            </DropdownMenuItem>
+          )}
+
+          {canViewAudit && (
+            <DropdownMenuItem
+              onClick={() =>
+                router.push(
+                  `/audit-log?table=user_profile&record=${values.id}`
+                )
+              }
+              className="cursor-pointer flex items-center"
+            >
+              <History className="mr-1 h-4 w-4" />
+              History
+            </DropdownMenuItem>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -175,27 +319,13 @@ export function UserTableRowActions({
       />
 
       <ConfirmationDialogBox
-        title={
-          confirmationDialog.action === "delete"
-            ? `Are you sure you want to remove this user?`
-            : confirmationDialog.action === "disable"
-              ? `Are you sure you want to block this user?`
-              : `Are you sure you want to activate this user?`
-        }
+        title={confirmationCopy[confirmationDialog.action ?? "delete"].title}
         description={
-          confirmationDialog.action === "delete"
-            ? `This action cannot be undone. This will permanently delete the selected user.`
-            : confirmationDialog.action === "disable"
-              ? `This will prevent the user from accessing the system.`
-              : `This will restore the user's access to the system.`
+          confirmationCopy[confirmationDialog.action ?? "delete"].description
         }
         cancelText="Cancel"
         confirmText={
-          confirmationDialog.action === "delete"
-            ? "Remove"
-            : confirmationDialog.action === "disable"
-              ? "Block"
-              : "Activate"
+          confirmationCopy[confirmationDialog.action ?? "delete"].confirmText
         }
         isOpen={confirmationDialog.isOpen}
         setIsOpen={(isOpen: boolean) =>
@@ -206,6 +336,14 @@ export function UserTableRowActions({
         icon={
           confirmationDialog.action === "delete" ? (
             <Trash className="mr-2 h-4 w-4" />
+          ) : confirmationDialog.action === "purge" ? (
+            <Trash2 className="mr-2 h-4 w-4" />
+          ) : confirmationDialog.action === "restore" ? (
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+          ) : confirmationDialog.action === "resetMfa" ? (
+            <ShieldOff className="mr-2 h-4 w-4" />
+          ) : confirmationDialog.action === "signOut" ? (
+            <LogOut className="mr-2 h-4 w-4" />
           ) : confirmationDialog.action === "disable" ? (
             <ShieldBan className="mr-2 h-4 w-4" />
           ) : (
@@ -0,0 +1,220 @@
+"use client";
+import React, { useState } from "react";
+import type { Table } from "@tanstack/react-table";
+import { Ban, CheckCircle, ShieldBan, Trash, UserCog, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ConfirmationDialogBox from "@/components/ui/confirmation-dialog-box";
+import type { User } from "@/modules/users";
+import { usersService } from "@/modules/users";
+import { Role } from "@/modules/roles/models/role";
+import { deleteUsers } from "@/lib/actions/user-actions";
+import { usePermission } from "@/hooks/use-permission";
+
+type BulkAction = "enable" | "disable" | "role" | "delete";
+
+const confirmationCopy: Record<
+  BulkAction,
+  { title: string; description: string; confirmText: string; success: string }
+> = {
+  enable: {
+    title: "Activate the selected users?",
+    description: "This will restore their access to the system.",
+    confirmText: "Activate",
+    success: "enabled",
+  },
+  disable: {
+    title: "Block the selected users?",
+    description: "This will prevent them from accessing the system.",
+    confirmText: "Block",
+    success: "disabled",
+  },
+  role: {
+    title: "Change the role of the selected users?",
+    description: "Their permissions will change to those of the new role.",
+    confirmText: "Change role",
+    success: "updated",
+  },
+  delete: {
+    title: "Remove the selected users?",
+    description:
+      "They will be signed out and moved to Deleted users, where they can be restored until they are purged.",
+    confirmText: "Remove",
+    success: "moved to Deleted users",
+  },
+};
+
+interface UserBulkActionsProps<TData> {
+  table: Table<TData>;
+  listRoles?: Role[];
+  fetchUsers: () => void;
+}
+
+export function UserBulkActions<TData>({
+  table,
+  listRoles,
+  fetchUsers,
+}: UserBulkActionsProps<TData>) {
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<{ action: BulkAction; roleId?: string } | null>(null);
+  const canUpdate = usePermission("users", "update");
+  const canDelete = usePermission("users", "delete");
+
+  const selected = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original as unknown as User);
+
+  if (selected.length === 0 || (!canUpdate && !canDelete)) {
+    return null;
+  }
+
+  const run = async (action: BulkAction, roleId?: string) => {
+    const ids = selected.map((user) => user.id);
+
+    if (action === "delete") {
+      const result = await deleteUsers(ids);
+      return {
+        succeeded: result.results.filter((item) => item.success).length,
+        failed: result.results.filter((item) => !item.success),
+        error: result.error,
+      };
+    }
+
+    const result = await usersService.updateUsers(
+      ids,
+      action === "role" ? { role_id: roleId } : { is_active: action === "enable" }
+    );
+    return {
+      succeeded: result.data?.succeeded ?? 0,
+      failed: (result.data?.items ?? [])
+        .filter((item) => !item.success)
+        .map((item) => ({ id: item.id, error: item.error?.message })),
+      error: result.error?.message,
+    };
+  };
+
+  const onConfirm = async () => {
+    if (!pending) return;
+    try {
+      setLoading(true);
+      const { succeeded, failed, error } = await run(pending.action, pending.roleId);
+      const copy = confirmationCopy[pending.action];
+
+      if (failed.length === 0 && !error) {
+        toast.success(`${succeeded} ${succeeded === 1 ? "user" : "users"} ${copy.success}`);
+      } else if (succeeded > 0) {
+        toast.warning(`${succeeded} ${copy.success}, ${failed.length} failed`, {
+          description: failed[0]?.error,
+        });
+      } else {
+        toast.error(failed[0]?.error || error || "Failed to update users");
+      }
+
+      table.resetRowSelection();
+      fetchUsers();
+    } catch (error: any) {
+      toast.error(error?.message || "Unknown error");
+    } finally {
+      setLoading(false);
+      setPending(null);
+    }
+  };
+
+  const copy = confirmationCopy[pending?.action ?? "delete"];
+
+  return (
+    <div className="flex items-center space-x-2 pl-2">
+      <span className="whitespace-nowrap text-sm text-muted-foreground">
+        {selected.length} selected
+      </span>
+      {canUpdate && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            onClick={() => setPending({ action: "enable" })}
+          >
+            <CheckCircle className="mr-1 h-4 w-4" /> Enable
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            onClick={() => setPending({ action: "disable" })}
+          >
+            <Ban className="mr-1 h-4 w-4" /> Block
+          </Button>
+          <Select
+            value=""
+            onValueChange={(roleId) => setPending({ action: "role", roleId })}
+          >
+            <SelectTrigger className="h-8 w-36 uppercase">
+              <UserCog className="h-4 w-4" />
+              <SelectValue placeholder="Set role" />
+            </SelectTrigger>
+            <SelectContent>
+              {listRoles?.map((role) => (
+                <SelectItem key={role.id} value={role.id} className="uppercase">
+                  {role.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+      {canDelete && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-destructive"
+          onClick={() => setPending({ action: "delete" })}
+        >
+          <Trash className="mr-1 h-4 w-4" /> Remove
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 px-2"
+        onClick={() => table.resetRowSelection()}
+      >
+        <X className="h-4 w-4" />
+        <span className="sr-only">Clear selection</span>
+      </Button>
+
+      <ConfirmationDialogBox
+        title={copy.title}
+        description={`${copy.description} (${selected.length} ${
+          selected.length === 1 ? "user" : "users"
+        })`}
+        cancelText="Cancel"
+        confirmText={copy.confirmText}
+        isOpen={!!pending}
+        setIsOpen={(isOpen: boolean) => {
+          if (!isOpen) setPending(null);
+        }}
+        loading={loading}
+        onConfirm={onConfirm}
+        icon={
+          pending?.action === "delete" ? (
+            <Trash className="mr-2 h-4 w-4" />
+          ) : pending?.action === "disable" ? (
+            <ShieldBan className="mr-2 h-4 w-4" />
+          ) : pending?.action === "role" ? (
+            <UserCog className="mr-2 h-4 w-4" />
+          ) : (
+            <CheckCircle className="mr-2 h-4 w-4" />
+          )
+        }
+      />
+    </div>
+  );
+}
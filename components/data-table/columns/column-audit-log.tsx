@@ -0,0 +1,132 @@
+"use client";
+
+import { ColumnDef } from "@tanstack/react-table";
+import { Eye } from "lucide-react";
+import { DataTableColumnHeader } from "../data-table-column-header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { AuditLogEntry } from "@/modules/audit-log";
+
+const actionClassName: Record<AuditLogEntry["action"], string> = {
+  create: "bg-green-500",
+  update: "bg-blue-500",
+  delete: "bg-red-500",
+};
+
+export function getAuditLogColumns(
+  onView: (entry: AuditLogEntry) => void
+): ColumnDef<AuditLogEntry>[] {
+  const columns: ColumnDef<AuditLogEntry, unknown>[] = [
+    {
+      accessorKey: "created_at",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="When" />
+      ),
+      cell: ({ row }) => (
+        <div className="whitespace-nowrap">
+          {row.original.created_at
+            ? new Date(row.original.created_at).toLocaleString()
+            : "-"}
+        </div>
+      ),
+      enableHiding: true,
+    },
+    {
+      accessorKey: "actor_email",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Actor" />
+      ),
+      cell: ({ row }) => (
+        <div className="text-ellipsis text-left overflow-hidden whitespace-nowrap max-w-[220px]">
+          {row.original.actor_email || "System"}
+        </div>
+      ),
+      enableHiding: true,
+    },
+    {
+      accessorKey: "action",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Action" />
+      ),
+      cell: ({ row }) => (
+        <Badge
+          className={`text-xs font-semibold ${
+            actionClassName[row.original.action]
+          }`}
+        >
+          {row.original.action.toUpperCase()}
+        </Badge>
+      ),
+      enableHiding: true,
+    },
+    {
+      accessorKey: "table_name",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Table" />
+      ),
+      cell: ({ row }) => (
+        <span className="font-mono text-xs">{row.original.table_name}</span>
+      ),
+      enableHiding: true,
+    },
+    {
+      accessorKey: "record_id",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Record" />
+      ),
+      cell: ({ row }) => (
+        <div className="font-mono text-xs text-ellipsis overflow-hidden whitespace-nowrap max-w-[140px]">
+          {row.original.record_id || "-"}
+        </div>
+      ),
+      enableHiding: true,
+    },
+    {
+      id: "changes",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Changed Fields" />
+      ),
+      cell: ({ row }) => {
+        const fields = Object.keys(row.original.changes || {});
+        return (
+          <div className="flex flex-wrap gap-1 max-w-[320px]">
+            {fields.length === 0 && (
+              <span className="text-muted-foreground">-</span>
+            )}
+            {fields.slice(0, 4).map((field) => (
+              <Badge key={field} variant="outline" className="text-xs">
+                {field}
+              </Badge>
+            ))}
+            {fields.length > 4 && (
+              <Badge variant="outline" className="text-xs">
+                +{fields.length - 4}
+              </Badge>
+            )}
+          </div>
+        );
+      },
+      enableHiding: true,
+    },
+    {
+      id: "actions",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Details" />
+      ),
+      cell: ({ row }) => (
+        <div className="text-center">
+          <Button
+            variant="ghost"
+            className="flex h-8 w-8 p-0 cursor-pointer"
+            onClick={() => onView(row.original)}
+          >
+            <Eye className="h-4 w-4" />
+            <span className="sr-only">View details</span>
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return columns;
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { ColumnDef, Row } from "@tanstack/react-table";
+import { DataTableColumnHeader } from "../data-table-column-header";
+import { RoleTableRowActions } from "../actions/role-actions";
+import { Badge } from "@/components/ui/badge";
+import type { RoleWithAccess } from "@/modules/roles";
+
+export function getRoleColumns(
+  fetchRoles: () => void
+): ColumnDef<RoleWithAccess>[] {
+  const columns: ColumnDef<RoleWithAccess, unknown>[] = [
+    {
+      accessorKey: "name",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Name" />
+      ),
+      cell: ({ row }) => (
+        <Badge className="text-xs font-semibold">
+          {row.original.name?.toUpperCase()}
+        </Badge>
+      ),
+      enableSorting: true,
+      enableHiding: true,
+    },
+    {
+      accessorKey: "description",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Description" />
+      ),
+      cell: ({ row }) => (
+        <div className="text-ellipsis text-left overflow-hidden whitespace-nowrap max-w-[320px]">
+          {row.original.description || "-"}
+        </div>
+      ),
+      enableSorting: true,
+      enableHiding: true,
+    },
+    {
+      id: "permissions",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Permissions" />
+      ),
+      cell: ({ row }) => {
+        const access = row.original.role_access || [];
+        return (
+          <div className="flex flex-wrap gap-1">
+            {access.length === 0 && (
+              <span className="text-muted-foreground">-</span>
+            )}
+            {access.map((entry) => (
+              <Badge
+                key={`${entry.resource}:${entry.action}`}
+                variant="outline"
+                className="text-xs"
+              >
+                {entry.resource}:{entry.action}
+              </Badge>
+            ))}
+          </div>
+        );
+      },
+      enableHiding: true,
+    },
+    {
+      id: "actions",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Actions" />
+      ),
+      cell: ({ row }) => (
+        <div className="text-center">
+          <RoleTableRowActions
+            row={row as unknown as Row<RoleWithAccess>}
+            fetchRoles={fetchRoles}
+          />
+        </div>
+      ),
+    },
+  ];
+
+  return columns;
+}
@@ -5,17 +5,48 @@ import { DataTableColumnHeader } from "../data-table-column-header";
 import { UserTableRowActions } from "../actions/user-actions";
 import { Avatar, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { currentTimezone } from "@/lib/helper/current-timezone";
 import { CircleCheck, CircleX } from "lucide-react";
-import { User } from "@/types/types";
+import type { User } from "@/modules/users";
 import { Role } from "@/modules/roles/models/role";
 import { generateNameAvatar } from "@/utils/generateRandomAvatar";
 
 export function getUserColumns(
   fetchUsers: () => void,
-  listRoles: Role[]
+  listRoles: Role[],
+  showDeleted = false
 ): ColumnDef<User>[] {
   const columns: ColumnDef<User, unknown>[] = [
+    // Bulk actions only apply to live users
+    ...(showDeleted
+      ? []
+      : ([
+          {
+            id: "select",
+            header: ({ table }) => (
+              <Checkbox
+                checked={
+                  table.getIsAllPageRowsSelected() ||
+                  (table.getIsSomePageRowsSelected() && "indeterminate")
+                }
+                onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+                aria-label="Select all"
+              />
+            ),
+            cell: ({ row }) => (
+              <Checkbox
+                checked={row.getIsSelected()}
+                disabled={!row.getCanSelect()}
+                onCheckedChange={(value) => row.toggleSelected(!!value)}
+                onClick={(event) => event.stopPropagation()}
+                aria-label="Select row"
+              />
+            ),
+            enableSorting: false,
+            enableHiding: false,
+          },
+        ] as ColumnDef<User, unknown>[])),
     {
       accessorKey: "name",
       header: ({ column }) => (
@@ -110,6 +141,28 @@ export function getUserColumns(
       enableSorting: true,
       enableHiding: true,
     },
+    ...(showDeleted
+      ? ([
+          {
+            accessorKey: "deleted_at",
+            header: ({ column }) => (
+              <DataTableColumnHeader column={column} title="Deleted" />
+            ),
+            cell: ({ row }) => {
+              const deleted = row.original.deleted_at;
+              return (
+                <div className="text-left overflow-hidden whitespace-nowrap">
+                  {deleted
+                    ? currentTimezone(deleted)?.toLocaleString()?.replace("GMT", "")
+                    : "-"}
+                </div>
+              );
+            },
+            enableSorting: true,
+            enableHiding: true,
+          },
+        ] as ColumnDef<User, unknown>[])
+      : []),
     {
       id: "actions",
       header: ({ column }) => (
@@ -55,12 +55,18 @@ export function DataTableColumnHeader<TData, TValue>({
             ) : (
               <ChevronsUpDown className="ml-2 h-4 w-4" aria-hidden="true" />
             )}
+            {/* Sort priority, shown once several columns are sorted (shift-click) */}
+            {column.getIsSorted() && column.getSortIndex() > 0 && (
+              <span className="ml-1 text-xs text-muted-foreground">
+                {column.getSortIndex() + 1}
+              </span>
+            )}
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="start">
           <DropdownMenuItem
             aria-label="Sort ascending"
-            onClick={() => column.toggleSorting(false)}
+            onClick={(event) => column.toggleSorting(false, event.shiftKey)}
           >
             <ArrowUpIcon
               className="mr-2 h-3.5 w-3.5 text-muted-foreground/70"
@@ -70,7 +76,7 @@ export function DataTableColumnHeader<TData, TValue>({
           </DropdownMenuItem>
           <DropdownMenuItem
             aria-label="Sort descending"
-            onClick={() => column.toggleSorting(true)}
+            onClick={(event) => column.toggleSorting(true, event.shiftKey)}
           >
             <ArrowDownIcon
               className="mr-2 h-3.5 w-3.5 text-muted-foreground/70"
@@ -4,13 +4,15 @@ import type { Table } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DataTableViewOptions } from "@/components/data-table/data-table-view-options";
-import { Download, RefreshCcw, X } from "lucide-react";
+import { DataTableExport } from "@/components/data-table/data-table-export";
+import type { ExportFormat } from "@/lib/table-export";
+import { RefreshCcw, X } from "lucide-react";
 import { useState } from "react";
 
 interface DataTableToolbarProps<TData> {
   table: Table<TData>;
   onRefresh: () => void;
-  onExport: () => void;
+  onExport?: (format: ExportFormat) => Promise<void>;
   tableName?: string;
   onGlobalFilterChange: (value: string) => void;
 }
@@ -19,7 +21,6 @@ export function DataTableToolbar<TData>({
   table,
   onRefresh,
   onExport,
-  tableName,
   onGlobalFilterChange,
 }: DataTableToolbarProps<TData>) {
   const [globalFilter, setGlobalFilter] = useState<string>("");
@@ -55,17 +56,9 @@ export function DataTableToolbar<TData>({
           </Button>
         )}
       </div>
-      {tableName && ( // Conditionally render export button
+      {onExport && (
         <div className="px-2">
-          <Button
-            variant="outline"
-            size="sm"
-            className="ml-auto hidden h-8 lg:flex"
-            onClick={onExport}
-          >
-            <Download className="p-1" />
-            Export
-          </Button>
+          <DataTableExport onExport={onExport} />
         </div>
       )}
       <div className="px-2">
@@ -2,6 +2,7 @@ import * as React from "react";
 import {
   ColumnDef,
   ColumnFiltersState,
+  Row,
   SortingState,
   VisibilityState,
   flexRender,
@@ -24,12 +25,13 @@ import {
 import { DataTablePagination } from "./data-table-pagination";
 import { DataTableToolbar } from "./data-table-toolbar";
 import DataTableSkeleton from "./data-table-skeleton";
+import { downloadExport, type ExportFormat } from "@/lib/table-export";
 // Add a new interface for toolbar props
 interface DataTableToolbarProps {
   onRefresh: () => void;
   onGlobalFilterChange: (filter: string) => void;
   table?: any; // Add other specific props as needed
-  onExport?: () => void;
+  onExport?: (format: ExportFormat) => Promise<void>;
   tableName?: string;
 }
 
@@ -51,6 +53,24 @@ interface DataTableProps<TData, TValue> {
   type?: string;
   handleRowClick?: (row: any) => void;
   pageSizeOptions?: number[];
+  // When provided, sorting is done server-side and reported here instead
+  onSortingChange?: (sorting: SortingState) => void;
+  // Keys row selection by record instead of row index
+  getRowId?: (row: TData) => string;
+  // Rows that can't be selected get a disabled checkbox
+  enableRowSelection?: boolean | ((row: Row<TData>) => boolean);
+  // Exports every matching row through the export route; the toolbar shows
+  // the Export menu when set. Params carry the table's search and filters.
+  exportOptions?: {
+    resource: string;
+    params?: Record<string, unknown>;
+  };
+  // Replaces page numbers with rows loaded as the sentinel scrolls into view
+  infiniteScroll?: {
+    sentinelRef: (node?: Element | null) => void;
+    hasMore: boolean;
+    loadingMore: boolean;
+  };
 }
 
 export function DataTable<TData, TValue>({
@@ -71,6 +91,11 @@ export function DataTable<TData, TValue>({
   type,
   handleRowClick,
   pageSizeOptions = [10, 20, 30, 40, 50],
+  onSortingChange,
+  getRowId,
+  enableRowSelection = true,
+  infiniteScroll,
+  exportOptions,
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = React.useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
@@ -89,7 +114,9 @@ export function DataTable<TData, TValue>({
       rowSelection,
       columnFilters,
     },
-    enableRowSelection: true,
+    enableRowSelection,
+    getRowId,
+    manualSorting: !!onSortingChange,
     onRowSelectionChange: setRowSelection,
     onSortingChange: setSorting,
     onColumnFiltersChange: setColumnFilters,
@@ -97,12 +124,22 @@ export function DataTable<TData, TValue>({
     onGlobalFilterChange,
     getCoreRowModel: getCoreRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
+    // Infinite scroll renders every loaded row
+    getPaginationRowModel: infiniteScroll ? undefined : getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFacetedRowModel: getFacetedRowModel(),
     getFacetedUniqueValues: getFacetedUniqueValues(),
   });
 
+  // Selection only covers the rows on screen; a new page or refetch clears it
+  React.useEffect(() => {
+    setRowSelection({});
+  }, [data]);
+
+  React.useEffect(() => {
+    onSortingChange?.(sorting);
+  }, [sorting, onSortingChange]);
+
   React.useEffect(() => {
     table.setPageSize(pageSize);
   }, [pageSize, table]);
@@ -120,37 +157,19 @@ export function DataTable<TData, TValue>({
     onGlobalFilterChange("");
   };
 
-  const exportToCSV = (data: any[]) => {
-    const headers = Object.keys(data[0] || {}).join(",");
-    const rows = data.map((row) => Object.values(row).join(",")).join("\n");
-    const csvContent = `data:text/csv;charset=utf-8,${headers}\n${rows}`;
-    const encodedUri = encodeURI(csvContent);
-
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "data_export.csv");
-    document.body.appendChild(link); // Required for FF
+  // Columns the user can see, minus selection and row actions
+  const handleExport = async (format: ExportFormat) => {
+    if (!exportOptions) return;
+    const columns = table
+      .getVisibleLeafColumns()
+      .filter((column) => column.id !== "select" && column.id !== "actions")
+      .map((column) => column.id);
 
-    link.click();
-  };
-
-  const handleExport = async () => {
-    // if (tableName) {
-    //   try {
-    //     const { data, error } = await supabase.from(tableName).select("*");
-    //     if (error) {
-    //       console.error("Error fetching data from Supabase:", error);
-    //       return;
-    //     }
-    //     if (data && data.length > 0) {
-    //       exportToCSV(data);
-    //     } else {
-    //       console.log("No data available to export");
-    //     }
-    //   } catch (error) {
-    //     console.error("Error exporting data:", error);
-    //   }
-    // }
+    await downloadExport(exportOptions.resource, {
+      format,
+      columns,
+      params: exportOptions.params,
+    });
   };
 
   return (
@@ -158,7 +177,7 @@ export function DataTable<TData, TValue>({
       {toolbar &&
         React.cloneElement(toolbar, {
           table,
-          onExport: handleExport,
+          onExport: exportOptions ? handleExport : undefined,
           tableName,
           onGlobalFilterChange,
           onRefresh: handleRefresh,
@@ -167,7 +186,7 @@ export function DataTable<TData, TValue>({
         <DataTableToolbar
           onRefresh={handleRefresh}
           table={table}
-          onExport={handleExport}
+          onExport={exportOptions ? handleExport : undefined}
           tableName={tableName}
           onGlobalFilterChange={onGlobalFilterChange}
         />
@@ -232,7 +251,19 @@ export function DataTable<TData, TValue>({
           </TableBody>
         </Table>
       </div>
-      {pagination && (
+      {infiniteScroll && !loading && (
+        <div
+          ref={infiniteScroll.sentinelRef}
+          className="py-2 text-center text-sm text-muted-foreground"
+        >
+          {infiniteScroll.loadingMore
+            ? "Loading more..."
+            : !infiniteScroll.hasMore && data.length > 0
+            ? `All ${data.length} records loaded`
+            : ""}
+        </div>
+      )}
+      {pagination && !infiniteScroll && (
         <DataTablePagination
           table={table}
           pageSizeOptions={pageSizeOptions}
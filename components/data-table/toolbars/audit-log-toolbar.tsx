@@ -0,0 +1,103 @@
+"use client";
+
+import type { Table } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import { DataTableViewOptions } from "@/components/data-table/data-table-view-options";
+import { RefreshCcw, X, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AuditLogFilters } from "@/modules/audit-log";
+
+export type AuditLogToolbarFilters = Omit<AuditLogFilters, "organizationId">;
+
+interface AuditLogDataTableToolbarProps<TData> {
+  table?: Table<TData>;
+  filters: AuditLogToolbarFilters;
+  onFiltersChange: (filters: AuditLogToolbarFilters) => void;
+  fetchRecords: () => void;
+}
+
+const ALL_ACTIONS = "all";
+
+export function AuditLogDataTableToolbar<TData>({
+  table,
+  filters,
+  onFiltersChange,
+  fetchRecords,
+}: AuditLogDataTableToolbarProps<TData>) {
+  const setFilter = (key: keyof AuditLogToolbarFilters, value?: string) => {
+    onFiltersChange({ ...filters, [key]: value?.trim() || undefined });
+  };
+
+  const isFiltered = Object.values(filters).some(Boolean);
+  return (
+    <div className="flex items-center justify-between ">
+      <div className="flex flex-1 flex-wrap items-center gap-2 ">
+        <div className="relative w-48">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Table"
+            value={filters.tableName || ""}
+            onChange={(event) => setFilter("tableName", event.target.value)}
+            className="h-8 pl-8 w-full focus-visible:ring-0"
+          />
+        </div>
+        <Input
+          placeholder="Record ID"
+          value={filters.recordId || ""}
+          onChange={(event) => setFilter("recordId", event.target.value)}
+          className="h-8 w-72 font-mono focus-visible:ring-0"
+        />
+        <Input
+          placeholder="Actor ID"
+          value={filters.actorId || ""}
+          onChange={(event) => setFilter("actorId", event.target.value)}
+          className="h-8 w-72 font-mono focus-visible:ring-0"
+        />
+        <Select
+          value={filters.action || ALL_ACTIONS}
+          onValueChange={(value) =>
+            setFilter("action", value === ALL_ACTIONS ? undefined : value)
+          }
+        >
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+            <SelectItem value="create">Create</SelectItem>
+            <SelectItem value="update">Update</SelectItem>
+            <SelectItem value="delete">Delete</SelectItem>
+          </SelectContent>
+        </Select>
+        {isFiltered && (
+          <Button
+            variant="ghost"
+            onClick={() => onFiltersChange({})}
+            className="h-8 px-2 lg:px-3"
+          >
+            Reset
+            <X className="ml-2 h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="px-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchRecords}
+          className="ml-auto hidden h-8 lg:flex"
+        >
+          <RefreshCcw className="mr-2 h-4 w-4" /> Refresh
+        </Button>
+      </div>
+      {table && <DataTableViewOptions table={table} />}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import type { Table } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import { DataTableViewOptions } from "@/components/data-table/data-table-view-options";
+import { Plus, RefreshCcw, X, Search } from "lucide-react";
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import RoleFormDialog from "@/components/(main)/role/component/role-form-dialog";
+import Can from "@/components/auth/can";
+
+interface RoleDataTableToolbarProps<TData> {
+  table?: Table<TData>;
+  onGlobalFilterChange?: (value: string) => void;
+  fetchRecords: () => void;
+}
+
+export function RoleDataTableToolbar<TData>({
+  table,
+  onGlobalFilterChange,
+  fetchRecords,
+}: RoleDataTableToolbarProps<TData>) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [globalFilter, setGlobalFilter] = useState<string>("");
+  const handleFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setGlobalFilter(value);
+    onGlobalFilterChange?.(value);
+  };
+
+  const isFiltered = globalFilter !== "";
+  return (
+    <div className="flex items-center justify-between ">
+      <div className="flex flex-1 items-center space-x-2 ">
+        <div className="relative w-1/2">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search By Name or Description"
+            value={globalFilter}
+            onChange={handleFilterChange}
+            className="h-8 pl-8 w-full focus-visible:ring-0"
+          />
+        </div>
+        {isFiltered && (
+          <Button
+            variant="ghost"
+            onClick={() => {
+              onGlobalFilterChange?.("");
+              setGlobalFilter("");
+            }}
+            className="h-8 px-2 lg:px-3"
+          >
+            Reset
+            <X className="ml-2 h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="px-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchRecords}
+          className="ml-auto hidden h-8 lg:flex"
+        >
+          <RefreshCcw className="mr-2 h-4 w-4" /> Refresh
+        </Button>
+      </div>
+      {table && <DataTableViewOptions table={table} />}
+      <Can resource="roles" action="create">
+        <div className="pl-2">
+          <Button
+            variant="default"
+            size="sm"
+            className="ml-auto h-8"
+            onClick={() => setIsDialogOpen(true)}
+          >
+            <Plus className="mr-1 h-4 w-4" /> Add Role
+          </Button>
+        </div>
+      </Can>
+      <RoleFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onRefresh={fetchRecords}
+      />
+    </div>
+  );
+}
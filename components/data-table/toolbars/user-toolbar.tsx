@@ -3,35 +3,82 @@
 import type { Table } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
 import { DataTableViewOptions } from "@/components/data-table/data-table-view-options";
-import { Download, Plus, RefreshCcw, X, Search } from "lucide-react";
+import { DataTableExport } from "@/components/data-table/data-table-export";
+import type { ExportFormat } from "@/lib/table-export";
+import {
+  Plus,
+  RefreshCcw,
+  X,
+  Search,
+  Mail,
+  Trash2,
+  Upload,
+  Users,
+} from "lucide-react";
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import AddUser from "@/components/(main)/user/component/add-user";
+import InviteUser from "@/components/(main)/user/component/invite-user";
+import ImportUsers from "@/components/(main)/user/component/import-users";
+import { UserBulkActions } from "@/components/data-table/actions/user-bulk-actions";
 import type { Role } from "@/modules/roles/models/role";
+import type { UserListFilters } from "@/modules/users";
+import Can from "@/components/auth/can";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 // import UserSettingsDialogBox from "@/components/dashboard/user-management/manage-user-settings";
 
 interface DataTableToolbarProps<TData> {
   table?: Table<TData>;
   onRefresh?: () => void;
-  onExport?: () => void;
+  onExport?: (format: ExportFormat) => Promise<void>;
   tableName?: string;
   onGlobalFilterChange?: (value: string) => void;
   fetchRecords: () => void;
   type?: string;
   listRoles?: Role[];
+  filters?: UserListFilters;
+  onFiltersChange?: (filters: UserListFilters) => void;
+  showDeleted?: boolean;
+  onShowDeletedChange?: (showDeleted: boolean) => void;
+}
+
+const ALL = "all";
+
+// Date inputs yield yyyy-mm-dd; the upper bound covers the whole day
+function toDateBoundary(value: string, endOfDay: boolean): string | undefined {
+  if (!value) return undefined;
+  return new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`).toISOString();
+}
+
+function toDateInput(value?: string): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
 }
 
 export function UserDataTableToolbar<TData>({
   table,
   onRefresh,
   onExport,
-  tableName,
   onGlobalFilterChange,
   fetchRecords,
   type,
   listRoles,
+  filters = {},
+  onFiltersChange,
+  showDeleted = false,
+  onShowDeletedChange,
 }: DataTableToolbarProps<TData>) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [globalFilter, setGlobalFilter] = useState<string>("");
   const handleFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
@@ -39,11 +86,18 @@ export function UserDataTableToolbar<TData>({
     onGlobalFilterChange?.(value);
   };
 
-  const isFiltered = globalFilter !== "";
+  const setFilters = (changes: Partial<UserListFilters>) => {
+    onFiltersChange?.({ ...filters, ...changes });
+  };
+
+  const hasFilters = Object.values(filters).some(
+    (value) => value !== undefined && value !== ""
+  );
+  const isFiltered = globalFilter !== "" || hasFilters;
   return (
     <div className="flex items-center justify-between ">
       <div className="flex flex-1 items-center space-x-2 ">
-        <div className="relative w-1/2">
+        <div className="relative w-64">
           <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
           <Input
             placeholder="Search By Name or Email"
@@ -52,12 +106,76 @@ export function UserDataTableToolbar<TData>({
             className="h-8 pl-8 w-full focus-visible:ring-0"
           />
         </div>
+        {onFiltersChange && (
+          <>
+            <Select
+              value={filters.roleIds?.[0] || ALL}
+              onValueChange={(value) =>
+                setFilters({ roleIds: value === ALL ? undefined : [value] })
+              }
+            >
+              <SelectTrigger className="h-8 w-32 uppercase">
+                <SelectValue placeholder="Role" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All roles</SelectItem>
+                {listRoles?.map((role) => (
+                  <SelectItem key={role.id} value={role.id} className="uppercase">
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={
+                filters.isActive === undefined
+                  ? ALL
+                  : filters.isActive
+                  ? "active"
+                  : "inactive"
+              }
+              onValueChange={(value) =>
+                setFilters({
+                  isActive: value === ALL ? undefined : value === "active",
+                })
+              }
+            >
+              <SelectTrigger className="h-8 w-32">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Inactive</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              aria-label="Created from"
+              value={toDateInput(filters.createdFrom)}
+              onChange={(event) =>
+                setFilters({ createdFrom: toDateBoundary(event.target.value, false) })
+              }
+              className="h-8 w-36 focus-visible:ring-0"
+            />
+            <Input
+              type="date"
+              aria-label="Created to"
+              value={toDateInput(filters.createdTo)}
+              onChange={(event) =>
+                setFilters({ createdTo: toDateBoundary(event.target.value, true) })
+              }
+              className="h-8 w-36 focus-visible:ring-0"
+            />
+          </>
+        )}
         {isFiltered && (
           <Button
             variant="ghost"
             onClick={() => {
               onGlobalFilterChange?.("");
               setGlobalFilter("");
+              if (hasFilters) onFiltersChange?.({});
             }}
             className="h-8 px-2 lg:px-3"
           >
@@ -65,18 +183,17 @@ export function UserDataTableToolbar<TData>({
             <X className="ml-2 h-4 w-4" />
           </Button>
         )}
+        {table && !showDeleted && (
+          <UserBulkActions
+            table={table}
+            listRoles={listRoles}
+            fetchUsers={fetchRecords}
+          />
+        )}
       </div>{" "}
-      {tableName && ( // Conditionally render export button
+      {onExport && (
         <div className="px-2">
-          <Button
-            variant="outline"
-            size="sm"
-            className="ml-auto hidden h-8 lg:flex"
-            onClick={onExport}
-          >
-            <Download className="p-1" />
-            Export
-          </Button>
+          <DataTableExport onExport={onExport} />
         </div>
       )}
       <div className="px-2">
@@ -90,22 +207,76 @@ export function UserDataTableToolbar<TData>({
         </Button>
       </div>
       {table && <DataTableViewOptions table={table} />}
-      <div className="pl-2">
-        <Button
-          variant="default"
-          size="sm"
-          className="ml-auto h-8"
-          onClick={() => setIsDialogOpen(true)}
-        >
-          <Plus className="mr-1 h-4 w-4" /> Add User
-        </Button>
-      </div>
+      {onShowDeletedChange && (
+        <Can resource="users" action="delete">
+          <div className="pl-2">
+            <Button
+              variant={showDeleted ? "secondary" : "outline"}
+              size="sm"
+              className="ml-auto h-8"
+              onClick={() => onShowDeletedChange(!showDeleted)}
+            >
+              {showDeleted ? (
+                <>
+                  <Users className="mr-1 h-4 w-4" /> Active Users
+                </>
+              ) : (
+                <>
+                  <Trash2 className="mr-1 h-4 w-4" /> Deleted Users
+                </>
+              )}
+            </Button>
+          </div>
+        </Can>
+      )}
+      <Can resource="users" action="create">
+        <div className="pl-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-8"
+            onClick={() => setIsInviteOpen(true)}
+          >
+            <Mail className="mr-1 h-4 w-4" /> Invite User
+          </Button>
+        </div>
+        <div className="pl-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-8"
+            onClick={() => setIsImportOpen(true)}
+          >
+            <Upload className="mr-1 h-4 w-4" /> Import
+          </Button>
+        </div>
+        <div className="pl-2">
+          <Button
+            variant="default"
+            size="sm"
+            className="ml-auto h-8"
+            onClick={() => setIsDialogOpen(true)}
+          >
+            <Plus className="mr-1 h-4 w-4" /> Add User
+          </Button>
+        </div>
+      </Can>
       <AddUser
         open={isDialogOpen}
         onOpenChange={setIsDialogOpen}
         onRefresh={fetchRecords}
         listRoles={listRoles}
       />
+      <InviteUser
+        open={isInviteOpen}
+        onOpenChange={setIsInviteOpen}
+        listRoles={listRoles}
+      />
+      <ImportUsers
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onRefresh={fetchRecords}
+      />
       {/* {isDialogOpen && (
         // <UserSettingsDialogBox
         //   open={isDialogOpen}
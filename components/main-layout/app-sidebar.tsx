@@ -70,33 +70,6 @@ export default function SideBarLayout({
   const pathname = usePathname();
   const title = formatPathname(pathname);
 
-  const data: {
-    teams: Array<{
-      name: string;
-      logo: string;
-      logo_horizontal?: string;
-      logo_setting: string;
-    }>;
-  } = {
-    teams: [
-      {
-        name:
-          settings?.site_name ||
-          process.env.NEXT_PUBLIC_SITE_NAME ||
-          "Starter Kit.",
-        logo:
-          settings?.logo_url ||
-          process.env.NEXT_PUBLIC_LOGO_URL ||
-          "https://res.cloudinary.com/dlzlfasou/image/upload/v1741345507/logo-01_kp2j8x.png",
-        logo_horizontal: settings?.logo_horizontal_url,
-        logo_setting:
-          settings?.logo_setting ||
-          process.env.NEXT_PUBLIC_LOGO_SETTING ||
-          "square",
-      },
-    ],
-  };
-
   // Get navigation data based on user's role
   useEffect(() => {
     if (userProfile) {
@@ -149,7 +122,7 @@ export default function SideBarLayout({
       <div className="flex min-h-screen w-full">
         <Sidebar>
           <SidebarHeader>
-            <TeamSwitcher teams={data.teams} settings={settings} />
+            <TeamSwitcher settings={settings} />
             <hr className="border-t border-border mx-2 -mt-px" />
             <SearchForm
               className="mt-3"
@@ -4,6 +4,8 @@ import {
   RiMessage2Line,
   RiSettings3Line,
   RiTeamLine,
+  RiShieldUserLine,
+  RiHistoryLine,
 } from "@remixicon/react";
 
 export const getNavData = (user: { roles?: string }) => {
@@ -52,6 +54,20 @@ export const getNavData = (user: { roles?: string }) => {
           isActive: false,
           resource: "users",
         },
+        {
+          title: "Roles",
+          url: "/roles",
+          icon: RiShieldUserLine,
+          isActive: false,
+          resource: "roles",
+        },
+        {
+          title: "Audit Log",
+          url: "/audit-log",
+          icon: RiHistoryLine,
+          isActive: false,
+          resource: "audit",
+        },
       ],
     },
   ];
@@ -20,7 +20,7 @@ import {
   SidebarMenuSubItem,
 } from "@/components/ui/sidebar";
 import { useRouter, usePathname } from "next/navigation";
-import { User } from "@/types/types";
+import type { User } from "@/modules/users";
 import Link from "next/link";
 
 type IconType = LucideIcon | RemixiconComponentType;
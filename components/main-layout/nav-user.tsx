@@ -18,7 +18,7 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar";
 import { useRouter } from "next/navigation";
-import { User } from "@/types/types";
+import type { User } from "@/modules/users";
 import { useAuth } from "@/context/AuthContext";
 import { generateNameAvatar } from "@/utils/generateRandomAvatar";
 
@@ -46,7 +46,7 @@ export function NavUser({ user }: { user: User | null }) {
                             user?.first_name + " " + user?.last_name
                           )
                     }
-                    alt={user?.first_name}
+                    alt={user?.first_name ?? undefined}
                   />
                   <AvatarFallback className="rounded-lg">CN</AvatarFallback>
                 </Avatar>
@@ -76,7 +76,7 @@ export function NavUser({ user }: { user: User | null }) {
                               user?.first_name + " " + user?.last_name
                             )
                       }
-                      alt={user?.first_name}
+                      alt={user?.first_name ?? undefined}
                     />
                     <AvatarFallback className="rounded-lg">CN</AvatarFallback>
                   </Avatar>
@@ -0,0 +1,163 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { Monitor, Smartphone } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import ConfirmationDialogBox from "@/components/ui/confirmation-dialog-box";
+import { getMySessions, revokeMySession, revokeOtherSessions } from "@/lib/actions/session-actions";
+
+type SessionRow = {
+  id: string;
+  device?: string | null;
+  ip_address?: string | null;
+  created_at?: string;
+  last_seen_at?: string;
+  current: boolean;
+};
+
+function isMobile(device: string | null | undefined) {
+  return !!device && /iOS|Android/.test(device);
+}
+
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busySession, setBusySession] = useState<string | null>(null);
+  const [isRevokeOthersOpen, setIsRevokeOthersOpen] = useState(false);
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getMySessions();
+      if (!result.success) {
+        toast.error(result.error || "Failed to load sessions");
+        return;
+      }
+      setSessions(result.sessions ?? []);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionRow) => {
+    setBusySession(session.id);
+    try {
+      const result = await revokeMySession(session.id);
+      if (!result.success) {
+        toast.error(result.error || "Failed to sign out the session");
+        return;
+      }
+      toast.success(`${session.device || "Session"} signed out`);
+      loadSessions();
+    } finally {
+      setBusySession(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setIsRevokingOthers(true);
+    try {
+      const result = await revokeOtherSessions();
+      if (!result.success) {
+        toast.error(result.error || "Failed to sign out other sessions");
+        return;
+      }
+      toast.success("Signed out of all other sessions");
+      setIsRevokeOthersOpen(false);
+      loadSessions();
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card className="w-full flex-1">
+      <CardHeader>
+        <CardTitle className="text-2xl">Sessions</CardTitle>
+        <CardDescription>
+          Where you&apos;re signed in. Sign out any session you don&apos;t recognize.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sessions recorded yet</p>
+        ) : (
+          sessions.map((session) => {
+            const DeviceIcon = isMobile(session.device) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      {session.device || "Unknown device"}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        session.ip_address,
+                        session.last_seen_at &&
+                          `Last active ${new Date(session.last_seen_at).toLocaleString()}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleRevoke(session)}
+                    disabled={busySession !== null || isRevokingOthers}
+                  >
+                    {busySession === session.id ? "Signing out..." : "Sign out"}
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {hasOtherSessions && (
+          <div className="flex justify-end">
+            <Button
+              variant="destructive"
+              onClick={() => setIsRevokeOthersOpen(true)}
+              disabled={busySession !== null || isRevokingOthers}
+            >
+              Sign out all other sessions
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmationDialogBox
+        title="Sign out all other sessions?"
+        description="Every other device and browser signed in to your account will be signed out. This one stays signed in."
+        confirmText="Sign out"
+        type="delete"
+        onConfirm={handleRevokeOthers}
+        isOpen={isRevokeOthersOpen}
+        setIsOpen={setIsRevokeOthersOpen}
+        loading={isRevokingOthers}
+      />
+    </Card>
+  );
+}
@@ -132,8 +132,11 @@ export function AppearanceSettings({ settings }: { settings?: Settings }) {
       secondary_color:
         settingAppearance.secondary_color || defaultSecondaryColor,
     };
-    const updateResult =
-      await settingsServiceClient.updateSettingsById(payload);
+    const updateResult = await settingsServiceClient.updateSettingsById(
+      payload,
+      undefined,
+      settings?.organization_id
+    );
     if (updateResult.success) {
       // Update local state with the new values
       setSettingAppearance((prev) => ({ ...prev, ...payload }));
@@ -0,0 +1,154 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import type { UserIdentity } from "@supabase/supabase-js";
+import { LinkIcon } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { authServiceUnified } from "@/modules/auth";
+import { getLinkedIdentities, unlinkOidcIdentity } from "@/lib/actions/identity-actions";
+import {
+  OAUTH_CALLBACK_ROUTE,
+  getEnabledOAuthProviders,
+  getOidcStartUrl,
+  type OAuthProvider,
+} from "@/lib/oauth-providers";
+
+// Providers send the browser back here after linking
+const SETTINGS_PATH = "/settings";
+
+type LinkedAccount = {
+  email: string | null;
+  unlink: () => Promise<{ success: boolean; error?: string }>;
+};
+
+export function ConnectedAccounts() {
+  const [providers] = useState<OAuthProvider[]>(() => getEnabledOAuthProviders());
+  const [linked, setLinked] = useState<Record<string, LinkedAccount>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyProvider, setBusyProvider] = useState<string | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const accounts: Record<string, LinkedAccount> = {};
+
+      const supabaseIdentities = await authServiceUnified.getUserIdentities();
+      for (const identity of supabaseIdentities.data ?? []) {
+        accounts[identity.provider] = {
+          email: (identity.identity_data?.email as string | undefined) ?? null,
+          unlink: async () => {
+            const result = await authServiceUnified.unlinkIdentity(identity as UserIdentity);
+            return { success: result.success, error: result.error?.message };
+          },
+        };
+      }
+
+      const oidcIdentities = await getLinkedIdentities();
+      for (const identity of oidcIdentities.identities ?? []) {
+        accounts[identity.provider] = {
+          email: identity.email ?? null,
+          unlink: () => unlinkOidcIdentity(identity.id),
+        };
+      }
+
+      setLinked(accounts);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (providers.length === 0) return;
+    loadAccounts();
+
+    // Sent back from a provider that refused the link
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("error") === "link_failed") {
+      toast.error("The account couldn't be connected. It may already belong to another user.");
+    }
+  }, [providers.length, loadAccounts]);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  const handleConnect = async (provider: OAuthProvider) => {
+    setBusyProvider(provider.id);
+    if (!provider.supabaseProvider) {
+      window.location.assign(getOidcStartUrl(SETTINGS_PATH, { link: true }));
+      return;
+    }
+
+    const params = new URLSearchParams({ next: SETTINGS_PATH, link: "1" });
+    const result = await authServiceUnified.linkIdentity(
+      provider.supabaseProvider,
+      `${window.location.origin}${OAUTH_CALLBACK_ROUTE}?${params}`
+    );
+    if (!result.success) {
+      toast.error(result.error?.message || `Failed to connect ${provider.name}`);
+      setBusyProvider(null);
+    }
+  };
+
+  const handleDisconnect = async (provider: OAuthProvider, account: LinkedAccount) => {
+    setBusyProvider(provider.id);
+    try {
+      const result = await account.unlink();
+      if (!result.success) {
+        toast.error(result.error || `Failed to disconnect ${provider.name}`);
+        return;
+      }
+      toast.success(`${provider.name} disconnected`);
+      loadAccounts();
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  return (
+    <Card className="w-full flex-1">
+      <CardHeader>
+        <CardTitle className="text-2xl">Connected Accounts</CardTitle>
+        <CardDescription>
+          Sign in with another account instead of your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          providers.map((provider) => {
+            const account = linked[provider.supabaseProvider ?? provider.id];
+            return (
+              <div key={provider.id} className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <LinkIcon className="h-5 w-5 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{provider.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {account ? account.email || "Connected" : "Not connected"}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => (account ? handleDisconnect(provider, account) : handleConnect(provider))}
+                  disabled={busyProvider !== null}
+                >
+                  {account ? "Disconnect" : "Connect"}
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { Globe, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  addOrganizationDomain,
+  getOrganizationDomains,
+  removeOrganizationDomain,
+  setDomainAutoJoin,
+  verifyOrganizationDomain,
+  type OrganizationDomainView,
+} from "@/lib/actions/domain-actions";
+
+/**
+ * Email domains of the active organization. Each domain is verified with a
+ * DNS TXT record before new users with it can auto-join, or single sign-on
+ * can use it. Only shown to users who can update the organization's settings.
+ */
+export function DomainSettings() {
+  const [allowed, setAllowed] = useState(false);
+  const [domains, setDomains] = useState<OrganizationDomainView[]>([]);
+  const [newDomain, setNewDomain] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [busyDomain, setBusyDomain] = useState<string | null>(null);
+
+  const loadDomains = useCallback(async () => {
+    const result = await getOrganizationDomains();
+    if (!result.success) {
+      setAllowed(false);
+      return;
+    }
+    setAllowed(true);
+    setDomains(result.domains ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadDomains();
+  }, [loadDomains]);
+
+  if (!allowed) {
+    return null;
+  }
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      const result = await addOrganizationDomain(newDomain);
+      if (!result.success) {
+        toast.error(result.error || "Failed to add domain");
+        return;
+      }
+      setNewDomain("");
+      loadDomains();
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // Runs one action against a domain and reloads the list
+  const runForDomain = async (
+    domain: OrganizationDomainView,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    setBusyDomain(domain.id);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast.error(result.error || `Failed to update ${domain.domain}`);
+        return;
+      }
+      toast.success(successMessage);
+      loadDomains();
+    } finally {
+      setBusyDomain(null);
+    }
+  };
+
+  return (
+    <Card className="w-full flex-1">
+      <CardHeader>
+        <CardTitle className="text-2xl">Domains</CardTitle>
+        <CardDescription>
+          Verify the email domains your organization owns. People who sign up
+          with Google, GitHub, Microsoft or OpenID Connect using a verified
+          auto-join domain join this organization, and single sign-on can use
+          verified domains.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {domains.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No domains added yet</p>
+        ) : (
+          domains.map((domain) => (
+            <div key={domain.id} className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <Globe className="h-5 w-5 text-muted-foreground" />
+                  <span className="text-sm font-medium">{domain.domain}</span>
+                  <Badge variant={domain.verified_at ? "secondary" : "outline"}>
+                    {domain.verified_at ? "Verified" : "Not verified"}
+                  </Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${domain.domain}`}
+                  disabled={busyDomain !== null}
+                  onClick={() =>
+                    runForDomain(domain, () => removeOrganizationDomain(domain.id), `${domain.domain} removed`)
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {domain.verified_at ? (
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`auto-join-${domain.id}`} className="text-sm font-normal">
+                    New users with this domain join this organization
+                  </Label>
+                  <Switch
+                    id={`auto-join-${domain.id}`}
+                    checked={domain.auto_join}
+                    disabled={busyDomain !== null}
+                    onCheckedChange={(checked) =>
+                      runForDomain(
+                        domain,
+                        () => setDomainAutoJoin(domain.id, checked),
+                        checked ? `${domain.domain} now auto-joins` : `${domain.domain} no longer auto-joins`
+                      )
+                    }
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Add this TXT record to the domain&apos;s DNS, then verify
+                  </p>
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Name</p>
+                    <code className="block break-all text-xs">{domain.record.name}</code>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Value</p>
+                    <code className="block break-all text-xs">{domain.record.value}</code>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      disabled={busyDomain !== null}
+                      onClick={() =>
+                        runForDomain(domain, () => verifyOrganizationDomain(domain.id), `${domain.domain} verified`)
+                      }
+                    >
+                      {busyDomain === domain.id ? "Verifying..." : "Verify"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="new-domain">Add a domain</Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-domain"
+              placeholder="example.com"
+              value={newDomain}
+              onChange={(e) => setNewDomain(e.target.value)}
+            />
+            <Button disabled={adding || !newDomain.trim()} onClick={handleAdd}>
+              {adding ? "Adding..." : "Add"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
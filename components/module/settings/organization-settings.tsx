@@ -15,7 +15,10 @@ import { toast } from "sonner";
 import { saveFile } from "@/supabase/actions/save-file";
 import { AvatarCropper } from "@/components/ui/avatar-cropper";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
 import { Building } from "lucide-react";
+import ConflictDialog from "@/components/ui/conflict-dialog";
+import { isConflictError } from "@/lib/BaseService";
 
 export type OrganizationSettings = {
   logo?: string;
@@ -23,8 +26,47 @@ export type OrganizationSettings = {
   primaryColor: string;
   name: string;
   logo_setting: string;
+  magicLinkEnabled: boolean;
+  emailOtpEnabled: boolean;
 };
 
+type OrganizationPayload = Pick<
+  Settings,
+  | "site_name"
+  | "logo_url"
+  | "logo_horizontal_url"
+  | "primary_color"
+  | "logo_setting"
+  | "favicon_url"
+  | "magic_link_enabled"
+  | "email_otp_enabled"
+>;
+
+function toPayload(settings: Settings): OrganizationPayload {
+  return {
+    site_name: settings.site_name,
+    logo_url: settings.logo_url,
+    logo_horizontal_url: settings.logo_horizontal_url,
+    primary_color: settings.primary_color,
+    logo_setting: settings.logo_setting,
+    favicon_url: settings.favicon_url,
+    magic_link_enabled: settings.magic_link_enabled ?? false,
+    email_otp_enabled: settings.email_otp_enabled ?? false,
+  };
+}
+
+function toFormState(settings: Settings): OrganizationSettings {
+  return {
+    logo: settings.logo_url,
+    logo_horizontal: settings.logo_horizontal_url,
+    primaryColor: settings.primary_color || "#3b82f6",
+    name: settings.site_name || "My Organization",
+    logo_setting: settings.logo_setting || "square",
+    magicLinkEnabled: settings.magic_link_enabled ?? false,
+    emailOtpEnabled: settings.email_otp_enabled ?? false,
+  };
+}
+
 export function OrganizationSettings({ settings }: { settings?: Settings }) {
   const [loading, setLoading] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
@@ -41,37 +83,58 @@ export function OrganizationSettings({ settings }: { settings?: Settings }) {
       primaryColor: settings?.primary_color || "#3b82f6",
       name: settings?.site_name || "My Organization",
       logo_setting: settings?.logo_setting || "square",
+      magicLinkEnabled: settings?.magic_link_enabled ?? false,
+      emailOtpEnabled: settings?.email_otp_enabled ?? false,
     });
+  const [conflict, setConflict] = useState<{
+    mine: OrganizationPayload;
+    theirs: Settings;
+  } | null>(null);
 
   // If settings is undefined, return null after hook initialization
   if (!settings) {
     return null;
   }
 
-  const submitSettings = async (data: any) => {
+  // Saves only over the version last loaded; a conflict opens the merge prompt
+  const saveSettings = async (payload: OrganizationPayload, expectedUpdatedAt?: string) => {
     setLoading(true);
-    const payload = {
-      site_name: data.name,
-      logo_url: data.logo,
-      logo_horizontal_url: data.logo_horizontal,
-      primary_color: data.primaryColor,
-      logo_setting: data.logo_setting,
-      favicon_url: data.logo,
-    };
-    const updateResult = await settingsServiceClient.updateSettingsById(payload);
+    const updateResult = await settingsServiceClient.updateSettingsById(
+      payload,
+      undefined,
+      settings?.organization_id,
+      expectedUpdatedAt
+    );
     if (updateResult.success) {
-      // Update local state with the new values
+      // Update local state with the saved record (including its new updated_at)
       setSettingOrganization((prev) =>
-        prev ? { ...prev, ...payload } : undefined
+        prev ? { ...prev, ...payload, ...updateResult.data } : undefined
       );
+      setConflict(null);
       toast.success("Settings updated successfully");
       window.dispatchEvent(new CustomEvent("settings-update"));
+    } else if (isConflictError<Settings>(updateResult.error)) {
+      setConflict({ mine: payload, theirs: updateResult.error.details.current });
     } else {
       toast.error("Failed to update settings");
     }
     setLoading(false);
   };
 
+  const submitSettings = async (data: any) => {
+    const payload: OrganizationPayload = {
+      site_name: data.name,
+      logo_url: data.logo,
+      logo_horizontal_url: data.logo_horizontal,
+      primary_color: data.primaryColor,
+      logo_setting: data.logo_setting,
+      favicon_url: data.logo,
+      magic_link_enabled: data.magicLinkEnabled,
+      email_otp_enabled: data.emailOtpEnabled,
+    };
+    await saveSettings(payload, (settingOrganization ?? settings).updated_at);
+  };
+
   // Handle image change from AvatarCropper
   const handleLogoChange = async (file: File | null) => {
     setIsUploading(true);
@@ -122,134 +185,205 @@ export function OrganizationSettings({ settings }: { settings?: Settings }) {
   };
 
   return (
-    <Card className="w-full flex-1">
-      <CardHeader>
-        <CardTitle className="text-2xl">Organization Settings</CardTitle>
-        <CardDescription>
-          Customize your organization's branding and appearance
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        {/* Organization Information */}
-        <div className="rounded-lg space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="org-name">Organization Name</Label>
-            <Input
-              id="org-name"
-              placeholder="Enter organization name"
-              value={organizationSettings.name}
-              onChange={(e) =>
+    <>
+      <Card className="w-full flex-1">
+        <CardHeader>
+          <CardTitle className="text-2xl">Organization Settings</CardTitle>
+          <CardDescription>
+            Customize your organization's branding and appearance
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Organization Information */}
+          <div className="rounded-lg space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="org-name">Organization Name</Label>
+              <Input
+                id="org-name"
+                placeholder="Enter organization name"
+                value={organizationSettings.name}
+                onChange={(e) =>
+                  setOrganizationSettings((prev) => ({
+                    ...prev,
+                    name: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          </div>
+
+          {/* Organization Square Logo (Icon) */}
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Square Logo (Icon)</Label>
+              <p className="text-sm text-muted-foreground">
+                Upload a square icon logo for square spaces, favicons, and app
+                icons
+              </p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <AvatarCropper
+                profileImage={organizationSettings.logo}
+                onImageChange={handleLogoChange}
+                isUploading={isUploading}
+                size="lg"
+                shape="square"
+              />
+              <span className="text-sm text-muted-foreground">
+                {isUploading
+                  ? "Uploading..."
+                  : "Click or drag to upload square logo"}
+              </span>
+            </div>
+          </div>
+
+          {/* Organization Horizontal Logo (Full Brand) */}
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">
+                Horizontal Logo (Full Brand)
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Upload a horizontal logo with your brand name for headers and wide
+                spaces
+              </p>
+            </div>
+            <div className="flex items-center space-x-4">
+              <AvatarCropper
+                profileImage={organizationSettings.logo_horizontal}
+                onImageChange={handleHorizontalLogoChange}
+                isUploading={isUploadingHorizontal}
+                size="lg"
+                shape="horizontal"
+                aspectRatio={4 / 1}
+              />
+              <span className="text-sm text-muted-foreground">
+                {isUploadingHorizontal
+                  ? "Uploading..."
+                  : "Click or drag to upload horizontal logo"}
+              </span>
+            </div>
+          </div>
+
+          {/* Logo Display Style */}
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Logo Display Style</Label>
+              <p className="text-sm text-muted-foreground">
+                Choose which logo to display in the sidebar
+              </p>
+            </div>
+            <RadioGroup
+              value={organizationSettings.logo_setting}
+              onValueChange={(value) =>
                 setOrganizationSettings((prev) => ({
                   ...prev,
-                  name: e.target.value,
+                  logo_setting: value,
                 }))
               }
-            />
-          </div>
-        </div>
-
-        {/* Organization Square Logo (Icon) */}
-        <div className="space-y-4">
-          <div className="space-y-1">
-            <Label className="text-base font-medium">Square Logo (Icon)</Label>
-            <p className="text-sm text-muted-foreground">
-              Upload a square icon logo for square spaces, favicons, and app
-              icons
-            </p>
-          </div>
-          <div className="flex items-center space-x-4">
-            <AvatarCropper
-              profileImage={organizationSettings.logo}
-              onImageChange={handleLogoChange}
-              isUploading={isUploading}
-              size="lg"
-              shape="square"
-            />
-            <span className="text-sm text-muted-foreground">
-              {isUploading
-                ? "Uploading..."
-                : "Click or drag to upload square logo"}
-            </span>
-          </div>
-        </div>
-
-        {/* Organization Horizontal Logo (Full Brand) */}
-        <div className="space-y-4">
-          <div className="space-y-1">
-            <Label className="text-base font-medium">
-              Horizontal Logo (Full Brand)
-            </Label>
-            <p className="text-sm text-muted-foreground">
-              Upload a horizontal logo with your brand name for headers and wide
-              spaces
-            </p>
-          </div>
-          <div className="flex items-center space-x-4">
-            <AvatarCropper
-              profileImage={organizationSettings.logo_horizontal}
-              onImageChange={handleHorizontalLogoChange}
-              isUploading={isUploadingHorizontal}
-              size="lg"
-              shape="horizontal"
-              aspectRatio={4 / 1}
-            />
-            <span className="text-sm text-muted-foreground">
-              {isUploadingHorizontal
-                ? "Uploading..."
-                : "Click or drag to upload horizontal logo"}
-            </span>
+              className="space-y-3"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="square" id="square-logo-display" />
+                <Label
+                  htmlFor="square-logo-display"
+                  className="text-sm font-normal cursor-pointer"
+                >
+                  Square
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="horizontal" id="horizontal-logo-display" />
+                <Label
+                  htmlFor="horizontal-logo-display"
+                  className="text-sm font-normal cursor-pointer"
+                >
+                  Horizontal
+                </Label>
+              </div>
+            </RadioGroup>
           </div>
-        </div>
-
-        {/* Logo Display Style */}
-        <div className="space-y-4">
-          <div className="space-y-1">
-            <Label className="text-base font-medium">Logo Display Style</Label>
-            <p className="text-sm text-muted-foreground">
-              Choose which logo to display in the sidebar
-            </p>
-          </div>
-          <RadioGroup
-            value={organizationSettings.logo_setting}
-            onValueChange={(value) =>
-              setOrganizationSettings((prev) => ({
-                ...prev,
-                logo_setting: value,
-              }))
-            }
-            className="space-y-3"
-          >
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="square" id="square-logo-display" />
-              <Label
-                htmlFor="square-logo-display"
-                className="text-sm font-normal cursor-pointer"
-              >
-                Square
+
+          {/* Sign-in Methods */}
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Sign-in Methods</Label>
+              <p className="text-sm text-muted-foreground">
+                Let members sign in without a password, in addition to email and
+                password
+              </p>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="magic-link-enabled" className="text-sm font-normal">
+                Magic link by email
               </Label>
+              <Switch
+                id="magic-link-enabled"
+                checked={organizationSettings.magicLinkEnabled}
+                onCheckedChange={(checked) =>
+                  setOrganizationSettings((prev) => ({
+                    ...prev,
+                    magicLinkEnabled: checked,
+                  }))
+                }
+              />
             </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="horizontal" id="horizontal-logo-display" />
-              <Label
-                htmlFor="horizontal-logo-display"
-                className="text-sm font-normal cursor-pointer"
-              >
-                Horizontal
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="email-otp-enabled" className="text-sm font-normal">
+                Six-digit code by email
               </Label>
+              <Switch
+                id="email-otp-enabled"
+                checked={organizationSettings.emailOtpEnabled}
+                onCheckedChange={(checked) =>
+                  setOrganizationSettings((prev) => ({
+                    ...prev,
+                    emailOtpEnabled: checked,
+                  }))
+                }
+              />
             </div>
-          </RadioGroup>
-        </div>
-
-        {/* Save Button */}
-        <div className="flex justify-end pt-2">
-          <Button
-            disabled={loading}
-            onClick={() => submitSettings(organizationSettings)}
-          >
-            {loading ? "Saving..." : "Save Changes"}
-          </Button>
-        </div>
-      </CardContent>
-    </Card>
+          </div>
+
+          {/* Save Button */}
+          <div className="flex justify-end pt-2">
+            <Button
+              disabled={loading}
+              onClick={() => submitSettings(organizationSettings)}
+            >
+              {loading ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+      {conflict && (
+        <ConflictDialog<OrganizationPayload>
+          isOpen={!!conflict}
+          setIsOpen={(isOpen) => !isOpen && setConflict(null)}
+          fields={[
+            { key: "site_name", label: "Organization name" },
+            { key: "primary_color", label: "Primary color" },
+            { key: "logo_setting", label: "Logo display style" },
+            { key: "logo_url", label: "Square logo" },
+            { key: "logo_horizontal_url", label: "Horizontal logo" },
+            { key: "magic_link_enabled", label: "Magic link sign-in" },
+            { key: "email_otp_enabled", label: "Email code sign-in" },
+          ]}
+          base={toPayload(settingOrganization ?? settings)}
+          mine={conflict.mine}
+          theirs={toPayload(conflict.theirs)}
+          loading={loading}
+          onKeepTheirs={() => {
+            setSettingOrganization(conflict.theirs);
+            setOrganizationSettings(toFormState(conflict.theirs));
+            setConflict(null);
+          }}
+          onMerge={(merged) => saveSettings(merged, conflict.theirs.updated_at)}
+          onOverwrite={() =>
+            saveSettings(conflict.mine, conflict.theirs.updated_at)
+          }
+        />
+      )}
+    </>
   );
 }
@@ -41,6 +41,9 @@ import {
 } from "lucide-react";
 import { Area, getCroppedImg } from "@/utils/image-crop";
 import { useAuth } from "@/context/AuthContext";
+import { TwoFactorSettings } from "./two-factor-settings";
+import { ConnectedAccounts } from "./connected-accounts";
+import { ActiveSessions } from "./active-sessions";
 
 export type UserProfile = {
   first_name: string;
@@ -198,199 +201,207 @@ export function ProfileSettings() {
   };
 
   return (
-    <Card className="w-full flex-1">
-      <CardHeader>
-        <CardTitle className="text-2xl">Personal Information</CardTitle>
-        <CardDescription>
-          Update your personal details and profile picture
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        {/* Profile Picture with Image Cropper */}
-        <div className=" rounded-lg space-y-4">
-          <div className="flex items-center space-x-4">
-            <div className="relative inline-flex">
-              <button
-                className="relative flex h-20 w-20 items-center justify-center overflow-hidden rounded-full border border-input bg-background hover:bg-accent/50 data-[dragging=true]:bg-accent/50"
-                onClick={openFileDialog}
-                onDragEnter={handleDragEnter}
-                onDragLeave={handleDragLeave}
-                onDragOver={handleDragOver}
-                onDrop={handleDrop}
-                data-dragging={isDragging || undefined}
-                aria-label={
-                  userProfile?.profile ? "Change image" : "Upload image"
-                }
-              >
-                {userProfile?.profile ? (
-                  <Image
-                    className="h-full w-full object-cover"
-                    src={userProfile.profile}
-                    alt="User avatar"
-                    width={80}
-                    height={80}
-                  />
-                ) : (
-                  <div aria-hidden="true">
-                    <UserIcon className="h-8 w-8 opacity-60" />
-                  </div>
-                )}
-              </button>
-              {userProfile?.profile && (
-                <Button
-                  onClick={handleRemoveAvatar}
-                  size="icon"
-                  className="absolute -top-1 -right-1 h-6 w-6 rounded-full border-2 border-background shadow-none focus-visible:border-background"
-                  aria-label="Remove image"
+    <div className="w-full flex-1 space-y-6">
+      <Card className="w-full flex-1">
+        <CardHeader>
+          <CardTitle className="text-2xl">Personal Information</CardTitle>
+          <CardDescription>
+            Update your personal details and profile picture
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Profile Picture with Image Cropper */}
+          <div className=" rounded-lg space-y-4">
+            <div className="flex items-center space-x-4">
+              <div className="relative inline-flex">
+                <button
+                  className="relative flex h-20 w-20 items-center justify-center overflow-hidden rounded-full border border-input bg-background hover:bg-accent/50 data-[dragging=true]:bg-accent/50"
+                  onClick={openFileDialog}
+                  onDragEnter={handleDragEnter}
+                  onDragLeave={handleDragLeave}
+                  onDragOver={handleDragOver}
+                  onDrop={handleDrop}
+                  data-dragging={isDragging || undefined}
+                  aria-label={
+                    userProfile?.profile ? "Change image" : "Upload image"
+                  }
                 >
-                  <XIcon className="h-3.5 w-3.5" />
-                </Button>
-              )}
-              <input
-                {...getInputProps()}
-                className="sr-only"
-                aria-label="Upload profile picture"
-                tabIndex={-1}
-              />
+                  {userProfile?.profile ? (
+                    <Image
+                      className="h-full w-full object-cover"
+                      src={userProfile.profile}
+                      alt="User avatar"
+                      width={80}
+                      height={80}
+                    />
+                  ) : (
+                    <div aria-hidden="true">
+                      <UserIcon className="h-8 w-8 opacity-60" />
+                    </div>
+                  )}
+                </button>
+                {userProfile?.profile && (
+                  <Button
+                    onClick={handleRemoveAvatar}
+                    size="icon"
+                    className="absolute -top-1 -right-1 h-6 w-6 rounded-full border-2 border-background shadow-none focus-visible:border-background"
+                    aria-label="Remove image"
+                  >
+                    <XIcon className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                <input
+                  {...getInputProps()}
+                  className="sr-only"
+                  aria-label="Upload profile picture"
+                  tabIndex={-1}
+                />
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {isUploading ? "Uploading..." : "Click or drag to upload"}
+              </span>
             </div>
-            <span className="text-sm text-muted-foreground">
-              {isUploading ? "Uploading..." : "Click or drag to upload"}
-            </span>
           </div>
-        </div>
 
-        {/* Name Fields in Responsive Row */}
-        <div className="space-y-4">
-          <div className="space-y-1">
-            <Label className="text-base font-medium">Full Name</Label>
-            <p className="text-sm text-muted-foreground">
-              Your first and last name as you'd like it to appear
-            </p>
+          {/* Name Fields in Responsive Row */}
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Full Name</Label>
+              <p className="text-sm text-muted-foreground">
+                Your first and last name as you'd like it to appear
+              </p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="first-name">First Name</Label>
+                <Input
+                  id="first-name"
+                  placeholder="Enter first name"
+                  value={userProfile?.first_name || ""}
+                  onChange={(e) =>
+                    setUserProfile((prev) => ({
+                      ...prev!,
+                      first_name: e.target.value,
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="last-name">Last Name</Label>
+                <Input
+                  id="last-name"
+                  placeholder="Enter last name"
+                  value={userProfile?.last_name || ""}
+                  onChange={(e) =>
+                    setUserProfile((prev) => ({
+                      ...prev!,
+                      last_name: e.target.value,
+                    }))
+                  }
+                />
+              </div>
+            </div>
           </div>
-          <div className="grid gap-4 sm:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="first-name">First Name</Label>
-              <Input
-                id="first-name"
-                placeholder="Enter first name"
-                value={userProfile?.first_name || ""}
-                onChange={(e) =>
-                  setUserProfile((prev) => ({
-                    ...prev!,
-                    first_name: e.target.value,
-                  }))
-                }
-              />
+
+          {/* Email Field */}
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Email Address</Label>
+              <p className="text-sm text-muted-foreground">
+                Your email address is used for signing in
+              </p>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="last-name">Last Name</Label>
+              <Label htmlFor="email">Email</Label>
               <Input
-                id="last-name"
-                placeholder="Enter last name"
-                value={userProfile?.last_name || ""}
-                onChange={(e) =>
-                  setUserProfile((prev) => ({
-                    ...prev!,
-                    last_name: e.target.value,
-                  }))
-                }
+                id="email"
+                type="email"
+                placeholder="Enter email address"
+                value={userProfile?.email || ""}
+                disabled
+                className="bg-muted/50"
               />
+              <p className="text-xs text-muted-foreground">
+                Email cannot be changed. Contact an administrator for assistance.
+              </p>
             </div>
           </div>
-        </div>
 
-        {/* Email Field */}
-        <div className="space-y-4">
-          <div className="space-y-1">
-            <Label className="text-base font-medium">Email Address</Label>
-            <p className="text-sm text-muted-foreground">
-              Your email address is used for signing in
-            </p>
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
-            <Input
-              id="email"
-              type="email"
-              placeholder="Enter email address"
-              value={userProfile?.email || ""}
-              disabled
-              className="bg-muted/50"
-            />
-            <p className="text-xs text-muted-foreground">
-              Email cannot be changed. Contact an administrator for assistance.
-            </p>
+          {/* Save Button */}
+          <div className="flex justify-end pt-2">
+            <Button onClick={handleUpdateUserProfile} disabled={isLoading}>
+              {isLoading ? "Saving..." : "Save Changes"}
+            </Button>
           </div>
-        </div>
+        </CardContent>
 
-        {/* Save Button */}
-        <div className="flex justify-end pt-2">
-          <Button onClick={handleUpdateUserProfile} disabled={isLoading}>
-            {isLoading ? "Saving..." : "Save Changes"}
-          </Button>
-        </div>
-      </CardContent>
-
-      {/* Image Cropper Dialog */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Crop Profile Picture</DialogTitle>
-            <DialogDescription>
-              Adjust your profile picture to fit the circular frame
-            </DialogDescription>
-          </DialogHeader>
-          {previewUrl && (
-            <Cropper
-              className="h-96"
-              image={previewUrl}
-              zoom={zoom}
-              onCropChange={handleCropChange}
-              onZoomChange={setZoom}
-            >
-              <CropperDescription />
-              <CropperImage />
-              <CropperCropArea />
-            </Cropper>
-          )}
-          <DialogFooter className="border-t px-4 py-6">
-            <div className="flex flex-col gap-4 w-full">
-              {/* Zoom Controls */}
-              <div className="mx-auto flex w-full max-w-80 items-center gap-4">
-                <ZoomOutIcon
-                  className="shrink-0 opacity-60"
-                  size={16}
-                  aria-hidden="true"
-                />
-                <Slider
-                  defaultValue={[1]}
-                  value={[zoom]}
-                  min={1}
-                  max={3}
-                  step={0.1}
-                  onValueChange={(value) => setZoom(value[0])}
-                  aria-label="Zoom slider"
-                />
-                <ZoomInIcon
-                  className="shrink-0 opacity-60"
-                  size={16}
-                  aria-hidden="true"
-                />
-              </div>
-              {/* Apply Button */}
-              <div className="flex justify-end">
-                <Button
-                  onClick={handleApplyCrop}
-                  disabled={!previewUrl || isUploading}
-                  className="min-w-24"
-                >
-                  {isUploading ? "Processing..." : "Apply"}
-                </Button>
+        {/* Image Cropper Dialog */}
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Crop Profile Picture</DialogTitle>
+              <DialogDescription>
+                Adjust your profile picture to fit the circular frame
+              </DialogDescription>
+            </DialogHeader>
+            {previewUrl && (
+              <Cropper
+                className="h-96"
+                image={previewUrl}
+                zoom={zoom}
+                onCropChange={handleCropChange}
+                onZoomChange={setZoom}
+              >
+                <CropperDescription />
+                <CropperImage />
+                <CropperCropArea />
+              </Cropper>
+            )}
+            <DialogFooter className="border-t px-4 py-6">
+              <div className="flex flex-col gap-4 w-full">
+                {/* Zoom Controls */}
+                <div className="mx-auto flex w-full max-w-80 items-center gap-4">
+                  <ZoomOutIcon
+                    className="shrink-0 opacity-60"
+                    size={16}
+                    aria-hidden="true"
+                  />
+                  <Slider
+                    defaultValue={[1]}
+                    value={[zoom]}
+                    min={1}
+                    max={3}
+                    step={0.1}
+                    onValueChange={(value) => setZoom(value[0])}
+                    aria-label="Zoom slider"
+                  />
+                  <ZoomInIcon
+                    className="shrink-0 opacity-60"
+                    size={16}
+                    aria-hidden="true"
+                  />
+                </div>
+                {/* Apply Button */}
+                <div className="flex justify-end">
+                  <Button
+                    onClick={handleApplyCrop}
+                    disabled={!previewUrl || isUploading}
+                    className="min-w-24"
+                  >
+                    {isUploading ? "Processing..." : "Apply"}
+                  </Button>
+                </div>
               </div>
-            </div>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-    </Card>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </Card>
+
+      <TwoFactorSettings />
+
+      <ConnectedAccounts />
+
+      <ActiveSessions />
+    </div>
   );
 }
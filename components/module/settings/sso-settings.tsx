@@ -0,0 +1,381 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { rolesService } from "@/modules/roles/services/roles-service";
+import { Role } from "@/modules/roles/models/role";
+import type { SsoGroupMappingInput, SsoProtocol } from "@/modules/sso-connections";
+import {
+  getSsoConfiguration,
+  saveSsoConnection,
+  saveSsoGroupMappings,
+  type SsoConnectionForm,
+  type SsoConnectionView,
+} from "@/lib/actions/sso-actions";
+import {
+  SAML_ACS_ROUTE,
+  SAML_METADATA_ROUTE,
+  SSO_OIDC_CALLBACK_ROUTE,
+} from "@/lib/oauth-providers";
+
+// Select value for "use the app's default role"
+const APP_DEFAULT_ROLE = "app-default";
+
+type FormState = Omit<SsoConnectionForm, "domains"> & {
+  // Comma-separated, as typed
+  domains: string;
+};
+
+function toFormState(connection: SsoConnectionView | null): FormState {
+  return {
+    protocol: (connection?.protocol as SsoProtocol) ?? "saml",
+    enabled: connection?.enabled ?? false,
+    domains: (connection?.domains ?? []).join(", "),
+    metadataUrl: connection?.metadata_url ?? "",
+    metadataXml: connection?.metadata_url ? "" : connection?.metadata_xml ?? "",
+    oidcIssuer: connection?.oidc_issuer ?? "",
+    oidcClientId: connection?.oidc_client_id ?? "",
+    oidcClientSecret: "",
+    groupsAttribute: connection?.groups_attribute ?? "groups",
+    defaultRoleId: connection?.default_role_id ?? null,
+  };
+}
+
+/**
+ * Single sign-on for the active organization: the identity provider, the
+ * email domains routed to it, and which groups grant which role. Only shown
+ * to users who can update the organization's settings.
+ */
+export function SsoSettings() {
+  const [allowed, setAllowed] = useState(false);
+  const [connection, setConnection] = useState<SsoConnectionView | null>(null);
+  const [form, setForm] = useState<FormState>(() => toFormState(null));
+  const [mappings, setMappings] = useState<SsoGroupMappingInput[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [origin, setOrigin] = useState("");
+  const [savingConnection, setSavingConnection] = useState(false);
+  const [savingMappings, setSavingMappings] = useState(false);
+
+  const loadConfiguration = useCallback(async () => {
+    const result = await getSsoConfiguration();
+    if (!result.success) {
+      setAllowed(false);
+      return;
+    }
+    setAllowed(true);
+    setConnection(result.connection ?? null);
+    setForm(toFormState(result.connection ?? null));
+    setMappings(
+      (result.mappings ?? []).map(({ group_name, role_id, priority }) => ({ group_name, role_id, priority }))
+    );
+  }, []);
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+    loadConfiguration();
+    rolesService.getAllRoles().then(setRoles);
+  }, [loadConfiguration]);
+
+  if (!allowed) {
+    return null;
+  }
+
+  const update = (changes: Partial<FormState>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleSaveConnection = async () => {
+    setSavingConnection(true);
+    try {
+      const result = await saveSsoConnection({
+        ...form,
+        domains: form.domains.split(/[\s,]+/).filter(Boolean),
+      });
+      if (!result.success) {
+        toast.error(result.error || "Failed to save single sign-on");
+        return;
+      }
+      toast.success("Single sign-on saved");
+      setConnection(result.connection ?? null);
+      setForm(toFormState(result.connection ?? null));
+    } finally {
+      setSavingConnection(false);
+    }
+  };
+
+  const handleSaveMappings = async () => {
+    setSavingMappings(true);
+    try {
+      const result = await saveSsoGroupMappings(mappings);
+      if (!result.success) {
+        toast.error(result.error || "Failed to save group mappings");
+        return;
+      }
+      toast.success("Group mappings saved. They apply from each member's next sign-in.");
+    } finally {
+      setSavingMappings(false);
+    }
+  };
+
+  const updateMapping = (index: number, changes: Partial<SsoGroupMappingInput>) =>
+    setMappings((prev) => prev.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)));
+
+  const serviceProviderDetails =
+    form.protocol === "saml"
+      ? [
+          { label: "Entity ID / metadata URL", value: `${origin}${SAML_METADATA_ROUTE}` },
+          { label: "Assertion consumer service URL", value: `${origin}${SAML_ACS_ROUTE}` },
+        ]
+      : [{ label: "Redirect URI", value: `${origin}${SSO_OIDC_CALLBACK_ROUTE}` }];
+
+  return (
+    <Card className="w-full flex-1">
+      <CardHeader>
+        <CardTitle className="text-2xl">Single Sign-On</CardTitle>
+        <CardDescription>
+          Let members sign in with your identity provider and get their role from its groups
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <KeyRound className="h-5 w-5 text-muted-foreground" />
+            <Label htmlFor="sso-enabled" className="text-base font-medium">
+              Enable single sign-on
+            </Label>
+          </div>
+          <Switch
+            id="sso-enabled"
+            checked={form.enabled}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sso-domains">Email domains</Label>
+          <Input
+            id="sso-domains"
+            placeholder="example.com, example.org"
+            value={form.domains}
+            onChange={(e) => update({ domains: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            People with these email domains are sent to your identity provider from the login page. Verify each domain under Domains first.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-base font-medium">Protocol</Label>
+          <RadioGroup
+            value={form.protocol}
+            onValueChange={(value) => update({ protocol: value as SsoProtocol })}
+            className="flex gap-6"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="saml" id="sso-protocol-saml" />
+              <Label htmlFor="sso-protocol-saml" className="text-sm font-normal cursor-pointer">
+                SAML 2.0
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="oidc" id="sso-protocol-oidc" />
+              <Label htmlFor="sso-protocol-oidc" className="text-sm font-normal cursor-pointer">
+                OpenID Connect
+              </Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <div className="rounded-md border p-3 space-y-2">
+          <p className="text-sm font-medium">Give your identity provider these details</p>
+          {serviceProviderDetails.map(({ label, value }) => (
+            <div key={label} className="space-y-1">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <code className="block break-all text-xs">{value}</code>
+            </div>
+          ))}
+        </div>
+
+        {form.protocol === "saml" ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sso-metadata-url">Identity provider metadata URL</Label>
+              <Input
+                id="sso-metadata-url"
+                placeholder="https://idp.example.com/metadata.xml"
+                value={form.metadataUrl ?? ""}
+                onChange={(e) => update({ metadataUrl: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sso-metadata-xml">Or paste the metadata XML</Label>
+              <Textarea
+                id="sso-metadata-xml"
+                rows={5}
+                placeholder="<EntityDescriptor ...>"
+                value={form.metadataXml ?? ""}
+                disabled={!!form.metadataUrl}
+                onChange={(e) => update({ metadataXml: e.target.value })}
+              />
+              {connection?.idp_entity_id && (
+                <p className="text-xs text-muted-foreground">
+                  Connected to {connection.idp_entity_id}
+                </p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sso-oidc-issuer">Issuer URL</Label>
+              <Input
+                id="sso-oidc-issuer"
+                placeholder="https://login.example.com"
+                value={form.oidcIssuer ?? ""}
+                onChange={(e) => update({ oidcIssuer: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sso-oidc-client-id">Client ID</Label>
+              <Input
+                id="sso-oidc-client-id"
+                value={form.oidcClientId ?? ""}
+                onChange={(e) => update({ oidcClientId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sso-oidc-client-secret">Client secret</Label>
+              <Input
+                id="sso-oidc-client-secret"
+                type="password"
+                placeholder={connection?.has_client_secret ? "Saved; leave empty to keep it" : ""}
+                value={form.oidcClientSecret ?? ""}
+                onChange={(e) => update({ oidcClientSecret: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="sso-groups-attribute">Groups attribute</Label>
+            <Input
+              id="sso-groups-attribute"
+              placeholder="groups"
+              value={form.groupsAttribute ?? ""}
+              onChange={(e) => update({ groupsAttribute: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role when no group matches</Label>
+            <Select
+              value={form.defaultRoleId ?? APP_DEFAULT_ROLE}
+              onValueChange={(value) => update({ defaultRoleId: value === APP_DEFAULT_ROLE ? null : value })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={APP_DEFAULT_ROLE}>Default role</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.id} value={role.id}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button disabled={savingConnection} onClick={handleSaveConnection}>
+            {savingConnection ? "Saving..." : "Save Identity Provider"}
+          </Button>
+        </div>
+
+        {connection && (
+          <div className="space-y-4 border-t pt-6">
+            <div className="space-y-1">
+              <Label className="text-base font-medium">Group Mappings</Label>
+              <p className="text-sm text-muted-foreground">
+                Members get the role of their first matching group (lowest priority first) each time they sign in
+              </p>
+            </div>
+            {mappings.map((mapping, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  aria-label="Group"
+                  placeholder="Group name"
+                  value={mapping.group_name}
+                  onChange={(e) => updateMapping(index, { group_name: e.target.value })}
+                />
+                <Select
+                  value={mapping.role_id}
+                  onValueChange={(value) => updateMapping(index, { role_id: value })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role.id} value={role.id}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label="Priority"
+                  type="number"
+                  className="w-24"
+                  value={mapping.priority}
+                  onChange={(e) => updateMapping(index, { priority: Number(e.target.value) || 0 })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove mapping"
+                  onClick={() => setMappings((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  setMappings((prev) => [...prev, { group_name: "", role_id: "", priority: prev.length }])
+                }
+              >
+                <Plus className="h-4 w-4" />
+                Add Mapping
+              </Button>
+              <Button disabled={savingMappings} onClick={handleSaveMappings}>
+                {savingMappings ? "Saving..." : "Save Mappings"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
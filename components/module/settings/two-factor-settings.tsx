@@ -0,0 +1,210 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import type { Factor } from "@supabase/supabase-js";
+import { ShieldCheckIcon } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import ConfirmationDialogBox from "@/components/ui/confirmation-dialog-box";
+import { MfaEnrollment } from "@/components/auth/mfa-enrollment";
+import { RecoveryCodesList } from "@/components/auth/recovery-codes-list";
+import { useAuth } from "@/context/AuthContext";
+import { authServiceUnified } from "@/modules/auth";
+import {
+  generateRecoveryCodes,
+  getRecoveryCodeCount,
+} from "@/lib/actions/mfa-actions";
+
+export function TwoFactorSettings() {
+  const { userProfile } = useAuth();
+  const [factor, setFactor] = useState<Factor | null>(null);
+  const [recoveryCodeCount, setRecoveryCodeCount] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [isRemoveOpen, setIsRemoveOpen] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  // Members of roles that require MFA can't turn it off
+  const isRequired = userProfile?.roles?.mfa_required === true;
+
+  const loadStatus = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const factors = await authServiceUnified.listMfaFactors();
+      const verified = factors.data?.find((f) => f.status === "verified") ?? null;
+      setFactor(verified);
+
+      if (verified) {
+        const count = await getRecoveryCodeCount();
+        setRecoveryCodeCount(count.success ? count.count ?? 0 : null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleEnrolled = () => {
+    setIsEnrolling(false);
+    toast.success("Two-factor authentication enabled");
+    loadStatus();
+  };
+
+  const handleRemove = async () => {
+    if (!factor) return;
+
+    setIsRemoving(true);
+    try {
+      const result = await authServiceUnified.unenrollFactor(factor.id);
+      if (!result.success) {
+        toast.error(result.error?.message || "Failed to turn off two-factor authentication");
+        return;
+      }
+      await authServiceUnified.refreshSession();
+      toast.success("Two-factor authentication turned off");
+      setIsRemoveOpen(false);
+      loadStatus();
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const handleGenerateCodes = async () => {
+    setIsGenerating(true);
+    try {
+      const result = await generateRecoveryCodes();
+      if (!result.success || !result.codes) {
+        toast.error(result.error || "Failed to generate recovery codes");
+        return;
+      }
+      setNewCodes(result.codes);
+      setRecoveryCodeCount(result.codes.length);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Card className="w-full flex-1">
+      <CardHeader>
+        <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : factor ? (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <ShieldCheckIcon className="h-5 w-5 text-green-600" />
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {factor.friendly_name || "Authenticator app"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Added {new Date(factor.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setIsRemoveOpen(true)}
+                disabled={isRequired}
+              >
+                Turn off
+              </Button>
+            </div>
+            {isRequired && (
+              <p className="text-xs text-muted-foreground">
+                Your role requires two-factor authentication.
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Recovery codes</p>
+                <p className="text-xs text-muted-foreground">
+                  {recoveryCodeCount === null
+                    ? "Use a recovery code if you lose your device"
+                    : `${recoveryCodeCount} unused code${recoveryCodeCount === 1 ? "" : "s"} left`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleGenerateCodes}
+                disabled={isGenerating}
+              >
+                {isGenerating ? "Generating..." : "Generate new codes"}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Two-factor authentication is off.
+            </p>
+            <Button onClick={() => setIsEnrolling(true)}>Set up</Button>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Enrollment Dialog */}
+      <Dialog open={isEnrolling} onOpenChange={setIsEnrolling}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              Link an authenticator app to your account
+            </DialogDescription>
+          </DialogHeader>
+          {isEnrolling && <MfaEnrollment onComplete={handleEnrolled} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* New Recovery Codes Dialog */}
+      <Dialog open={newCodes !== null} onOpenChange={(open) => !open && setNewCodes(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Recovery Codes</DialogTitle>
+            <DialogDescription>
+              Your previous recovery codes no longer work
+            </DialogDescription>
+          </DialogHeader>
+          {newCodes && <RecoveryCodesList codes={newCodes} />}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialogBox
+        title="Turn off two-factor authentication?"
+        description="You'll only need your password to sign in, and your recovery codes will stop working."
+        confirmText="Turn off"
+        type="delete"
+        onConfirm={handleRemove}
+        isOpen={isRemoveOpen}
+        setIsOpen={setIsRemoveOpen}
+        loading={isRemoving}
+      />
+    </Card>
+  );
+}
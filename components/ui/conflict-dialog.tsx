@@ -0,0 +1,133 @@
+import React from "react";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { mergeChanges } from "@/lib/merge-changes";
+import { Loader2 } from "lucide-react";
+
+interface ConflictDialogProps<T extends Record<string, any>> {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  // Editable fields and how to label them
+  fields: { key: keyof T & string; label: string; format?: (value: T[keyof T]) => string }[];
+  base: T;
+  mine: T;
+  theirs: T;
+  loading?: boolean;
+  onKeepTheirs: () => void;
+  onMerge: (merged: T) => void;
+  onOverwrite: () => void;
+}
+
+const formatDefault = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "—" : String(value);
+
+/**
+ * Shown when a save fails because someone else changed the record first.
+ * Lets the user keep the other changes, merge non-conflicting fields, or overwrite.
+ */
+export default function ConflictDialog<T extends Record<string, any>>({
+  isOpen,
+  setIsOpen,
+  fields,
+  base,
+  mine,
+  theirs,
+  loading = false,
+  onKeepTheirs,
+  onMerge,
+  onOverwrite,
+}: ConflictDialogProps<T>) {
+  const { merged, conflicts, theirChanges } = mergeChanges(
+    base,
+    mine,
+    theirs,
+    fields.map((field) => field.key)
+  );
+  const changedFields = fields.filter(
+    (field) =>
+      conflicts.includes(field.key) ||
+      theirChanges.includes(field.key) ||
+      formatDefault(mine[field.key]) !== formatDefault(base[field.key])
+  );
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+      <AlertDialogContent className="sm:max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Someone else saved changes</AlertDialogTitle>
+          <AlertDialogDescription>
+            This record was updated while you were editing it.
+            {conflicts.length > 0
+              ? " Fields marked as conflicts were changed by both of you."
+              : " None of their changes touch the fields you edited, so they can be merged."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Their value</TableHead>
+              <TableHead>Your value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changedFields.map((field) => {
+              const format = field.format || formatDefault;
+              return (
+                <TableRow key={field.key}>
+                  <TableCell className="font-medium">
+                    {field.label}
+                    {conflicts.includes(field.key) && (
+                      <Badge variant="destructive" className="ml-2 text-xs">
+                        Conflict
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="break-all whitespace-normal">
+                    {format(theirs[field.key])}
+                  </TableCell>
+                  <TableCell className="break-all whitespace-normal">
+                    {format(mine[field.key])}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+          <Button variant="outline" disabled={loading} onClick={onKeepTheirs}>
+            Use their version
+          </Button>
+          <Button variant="outline" disabled={loading} onClick={() => onMerge(merged)}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Merge
+          </Button>
+          <Button variant="destructive" disabled={loading} onClick={onOverwrite}>
+            Overwrite
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
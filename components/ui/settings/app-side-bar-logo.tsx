@@ -8,8 +8,24 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { RiCheckLine, RiExpandUpDownLine } from "@remixicon/react";
 import { useRouter } from "next/navigation";
-import { Settings } from "@/modules/settings";
+import { toast } from "sonner";
+import { Settings, settingsServiceClient } from "@/modules/settings";
+import { usersService } from "@/modules/users";
+import { useAuth } from "@/context/AuthContext";
+import {
+  getMyOrganizations,
+  switchOrganization,
+  type OrganizationSummary,
+} from "@/lib/actions/organization-actions";
 
 // Function to handle image loading errors
 const handleImageError = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
@@ -23,88 +39,191 @@ const handleImageError = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
   e.currentTarget.onerror = null; // Prevent infinite fallback loop
 };
 
-export function TeamSwitcher({
-  teams,
-  onTeamChange,
-  settings,
-}: {
-  teams: {
-    name: string;
-    logo: string;
-    logo_horizontal?: string;
-    logo_setting: string;
-  }[];
-  onTeamChange?: (team: { name: string; logo: string }) => void;
-  settings?: Settings;
-}) {
+export function TeamSwitcher({ settings }: { settings?: Settings }) {
   const router = useRouter();
-  const [activeTeam, setActiveTeam] = React.useState(teams[0] ?? null);
-  if (!teams.length) return null;
+  const { user, setUserProfile, setSettings } = useAuth();
+  const [organizations, setOrganizations] = React.useState<
+    OrganizationSummary[]
+  >([]);
+  const [isSwitching, setIsSwitching] = React.useState(false);
 
-  return (
-    <SidebarMenu>
-      <SidebarMenuItem>
-        <SidebarMenuButton
-          onClick={() => router.push("/")}
-          size="lg"
-          className="data-[state=open]:bg-sidebar-accent cursor-pointer data-[state=open]:text-sidebar-accent-foreground gap-3 [&>svg]:size-auto"
-        >
-          {/* Square Logo + Organization Name */}
-          {settings &&
-            settings.logo_setting === "square" &&
-            settings.logo_url && (
-              <>
-                <div className="flex aspect-square size-8 items-center justify-center rounded-lg overflow-hidden bg-primary/10 text-sidebar-primary-foreground">
-                  <Image
-                    src={settings.logo_url}
-                    width={32}
-                    height={32}
-                    alt={
-                      settings.site_name ??
-                      process.env.NEXT_PUBLIC_SITE_NAME ??
-                      ""
-                    }
-                    className="object-cover w-full h-full"
-                    onError={handleImageError}
-                  />
-                </div>
-                <div className="grid flex-1 text-left text-base leading-tight">
-                  <span className="truncate font-medium">
-                    {settings?.site_name ?? process.env.NEXT_PUBLIC_SITE_NAME}
-                  </span>
-                </div>
-              </>
-            )}
+  React.useEffect(() => {
+    const fetchOrganizations = async () => {
+      const result = await getMyOrganizations();
+      if (result.success) {
+        setOrganizations(result.organizations);
+      }
+    };
+    fetchOrganizations();
+  }, []);
+
+  // Switch server-side, then reload the profile (role follows the organization)
+  // and the new organization's branding
+  const handleSwitch = async (organization: OrganizationSummary) => {
+    if (organization.isActive || isSwitching) return;
+    setIsSwitching(true);
+    try {
+      const result = await switchOrganization(organization.id);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to switch organization");
+      }
+
+      if (user?.id) {
+        const profile = await usersService.getUserById(user.id);
+        if (profile.success && profile.data) {
+          setUserProfile(profile.data);
+        }
+      }
+
+      const nextSettings = await settingsServiceClient.getSettingsById(
+        undefined,
+        organization.id
+      );
+      if (nextSettings.success && nextSettings.data) {
+        setSettings(nextSettings.data);
+      }
 
-          {/* Horizontal Logo Only */}
-          {settings &&
-            settings.logo_setting === "horizontal" &&
-            settings.logo_horizontal_url && (
-              <div className="flex w-full h-8 items-center justify-center overflow-hidden">
-                <Image
-                  src={settings.logo_horizontal_url}
-                  width={120}
-                  height={32}
-                  alt={
-                    settings.site_name ??
-                    process.env.NEXT_PUBLIC_SITE_NAME ??
-                    ""
-                  }
-                  className="object-contain w-full h-full"
-                  onError={handleImageError}
-                />
-              </div>
-            )}
+      setOrganizations((prev) =>
+        prev.map((item) => ({ ...item, isActive: item.id === organization.id }))
+      );
+      toast.success(`Switched to ${organization.name}`);
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to switch organization"
+      );
+    } finally {
+      setIsSwitching(false);
+    }
+  };
 
-          {/* Fallback: Show organization name if no logo */}
-          {settings && !settings.logo_url && !settings.logo_horizontal_url && (
+  const brand = (
+    <>
+      {/* Square Logo + Organization Name */}
+      {settings &&
+        settings.logo_setting === "square" &&
+        settings.logo_url && (
+          <>
+            <div className="flex aspect-square size-8 items-center justify-center rounded-lg overflow-hidden bg-primary/10 text-sidebar-primary-foreground">
+              <Image
+                src={settings.logo_url}
+                width={32}
+                height={32}
+                alt={
+                  settings.site_name ??
+                  process.env.NEXT_PUBLIC_SITE_NAME ??
+                  ""
+                }
+                className="object-cover w-full h-full"
+                onError={handleImageError}
+              />
+            </div>
             <div className="grid flex-1 text-left text-base leading-tight">
               <span className="truncate font-medium">
                 {settings?.site_name ?? process.env.NEXT_PUBLIC_SITE_NAME}
               </span>
             </div>
-          )}
-        </SidebarMenuButton>
+          </>
+        )}
+
+      {/* Horizontal Logo Only */}
+      {settings &&
+        settings.logo_setting === "horizontal" &&
+        settings.logo_horizontal_url && (
+          <div className="flex w-full h-8 items-center justify-center overflow-hidden">
+            <Image
+              src={settings.logo_horizontal_url}
+              width={120}
+              height={32}
+              alt={
+                settings.site_name ??
+                process.env.NEXT_PUBLIC_SITE_NAME ??
+                ""
+              }
+              className="object-contain w-full h-full"
+              onError={handleImageError}
+            />
+          </div>
+        )}
+
+      {/* Fallback: Show organization name if no logo */}
+      {settings && !settings.logo_url && !settings.logo_horizontal_url && (
+        <div className="grid flex-1 text-left text-base leading-tight">
+          <span className="truncate font-medium">
+            {settings?.site_name ?? process.env.NEXT_PUBLIC_SITE_NAME}
+          </span>
+        </div>
+      )}
+    </>
+  );
+
+  // Nothing to switch between: the logo just links home
+  if (organizations.length <= 1) {
+    return (
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <SidebarMenuButton
+            onClick={() => router.push("/")}
+            size="lg"
+            className="data-[state=open]:bg-sidebar-accent cursor-pointer data-[state=open]:text-sidebar-accent-foreground gap-3 [&>svg]:size-auto"
+          >
+            {brand}
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      </SidebarMenu>
+    );
+  }
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton
+              size="lg"
+              disabled={isSwitching}
+              className="data-[state=open]:bg-sidebar-accent cursor-pointer data-[state=open]:text-sidebar-accent-foreground gap-3 [&>svg]:size-auto"
+            >
+              {brand}
+              <RiExpandUpDownLine
+                className="ms-auto text-muted-foreground/60"
+                size={20}
+                aria-hidden="true"
+              />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            className="w-(--radix-dropdown-menu-trigger-width) min-w-56 rounded-lg"
+            align="start"
+            side="bottom"
+            sideOffset={4}
+          >
+            <DropdownMenuLabel className="uppercase text-muted-foreground/60 text-xs">
+              Organizations
+            </DropdownMenuLabel>
+            {organizations.map((organization) => (
+              <DropdownMenuItem
+                key={organization.id}
+                onClick={() => handleSwitch(organization)}
+                className="gap-2 p-2"
+              >
+                <div className="grid flex-1 leading-tight">
+                  <span className="truncate font-medium">
+                    {organization.name}
+                  </span>
+                  {organization.role && (
+                    <span className="truncate text-xs text-muted-foreground uppercase">
+                      {organization.role}
+                    </span>
+                  )}
+                </div>
+                {organization.isActive && (
+                  <RiCheckLine size={16} aria-hidden="true" />
+                )}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </SidebarMenuItem>
     </SidebarMenu>
   );
@@ -16,12 +16,13 @@ import {
   useMemo,
   useRef,
 } from "react";
-import { Session, WeakPassword } from "@supabase/supabase-js";
+import { Session, WeakPassword, type User as AuthUser } from "@supabase/supabase-js";
 import { authService, AuthSignupData, AuthResponse } from "@/modules/auth";
 import { ServiceResponse } from "@/lib/BaseService";
 import { getSupabaseClient } from "@/lib/supabase/client";
+import { clearQueryCache } from "@/lib/query-cache";
 import { usersService } from "@/modules/users";
-import { User } from "@/types/types";
+import type { User } from "@/modules/users";
 import { Settings } from "@/modules/settings";
 import { settingsServiceClient } from "@/modules/settings";
 import Loader from "@/components/loader";
@@ -32,9 +33,11 @@ import {
 import { useRouter, usePathname } from "next/navigation";
 import { toast } from "sonner";
 import { clearAuthSession } from "@/utils/clear-auth-session";
+import { checkCurrentSession, recordSignIn, recordSignOut } from "@/lib/actions/session-actions";
 
 type AuthContextType = {
-  user: User | null;
+  // The Supabase auth user; `userProfile` is their user_profile row
+  user: AuthUser | null;
   userProfile: User | null;
   session: Session | null;
   loading: boolean;
@@ -43,7 +46,7 @@ type AuthContextType = {
   signIn: (email: string, password: string) => Promise<AuthResponse | null>;
   signOut: () => Promise<void>;
 
-  setUser: (user: User | null) => void;
+  setUser: (user: AuthUser | null) => void;
   setUserProfile: (userProfile: any | null) => void;
   setSettings: (settings: Settings | null) => void;
 };
@@ -55,7 +58,7 @@ const DEFAULT_AUTH_ROUTE = "/auth/login";
 const DEFAULT_PROTECTED_ROUTE = "/";
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [userProfile, setUserProfile] = useState<any | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
@@ -75,6 +78,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       "/auth/forgot-password",
       "/auth/reset-password",
       "/auth/verify",
+      "/auth/accept-invite",
     ],
     []
   );
@@ -135,6 +139,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             }
 
             // Fetch user profile data from user_profile table
+            let activeOrganizationId: string | null | undefined = null;
             try {
               const userData = await usersService.getUserById(supabaseUser.id);
               if (userData.success && userData.data && isMounted.current) {
@@ -151,6 +156,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                   return;
                 }
                 setUserProfile(userData.data);
+                activeOrganizationId = userData.data.active_organization_id;
               } else if (!userData.success && isMounted.current) {
                 // User doesn't exist in database but has Supabase session
                 console.log("User not found in database, logging out...");
@@ -180,8 +186,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
             // Fetch settings data only once per session
             if (!settings) {
-              const settingsData =
-                await settingsServiceClient.getSettingsById();
+              const settingsData = await settingsServiceClient.getSettingsById(
+                undefined,
+                activeOrganizationId
+              );
               if (
                 settingsData.success &&
                 settingsData.data &&
@@ -296,6 +304,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           setSession(null);
           setUser(null);
           setUserProfile(null);
+          clearQueryCache();
         }
 
         if (isMounted.current) {
@@ -315,7 +324,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   useEffect(() => {
     if (!initialized || loading) return;
 
-    const isAuthPage = PUBLIC_ROUTES.includes(pathname);
+    // Prefix match so tokenised routes like /auth/accept-invite/<token> stay public
+    const isAuthPage = PUBLIC_ROUTES.some(
+      (route) => pathname === route || pathname.startsWith(`${route}/`)
+    );
 
     // Use a more controlled navigation approach to prevent loops
     const navigateIfNeeded = async () => {
@@ -534,11 +546,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
             try {
               const startTime = performance.now();
-              const sessionValidation =
+              const userValidation =
                 await UserSessionManager.validateUserSession(
                   user.id,
                   usersService.getUserById
                 );
+              // A valid user can still have had this session revoked
+              const sessionValidation = userValidation.isValid
+                ? await UserSessionManager.validateCurrentSession(checkCurrentSession)
+                : userValidation;
               const duration = Math.round(performance.now() - startTime);
 
               if (!sessionValidation.isValid) {
@@ -623,11 +639,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     };
   }, [user, validateUserInDatabase]);
 
-  // Listen for settings updates
+  // Listen for settings updates (including organization switches)
+  const activeOrganizationId = userProfile?.active_organization_id;
   useEffect(() => {
     const handleSettingsUpdate = async () => {
       try {
-        const fetchedSettings = await settingsServiceClient.getSettingsById();
+        const fetchedSettings = await settingsServiceClient.getSettingsById(
+          undefined,
+          activeOrganizationId
+        );
         if (fetchedSettings.success && fetchedSettings.data) {
           setSettings(fetchedSettings.data);
         }
@@ -640,7 +660,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     return () => {
       window.removeEventListener("settings-update", handleSettingsUpdate);
     };
-  }, []);
+  }, [activeOrganizationId]);
 
   // Remove client-side routing logic - let middleware handle redirects
   // const checkRouteAccess = (path: string, userData: User | null) => {
@@ -659,6 +679,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   ): Promise<AuthResponse | null> => {
     try {
       const result = await authService.signIn(email, password);
+      if (result?.session) {
+        // Shows up under Sessions; sign-in goes ahead even if this fails
+        await recordSignIn().catch((error) => console.error("Error recording sign-in:", error));
+      }
       // Supabase auth state listener will handle setting user state
       return result || null; // Ensure we return null instead of undefined
     } catch (error) {
@@ -675,7 +699,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       setUser(null);
       setUserProfile(null);
 
-      // Sign out from Supabase auth
+      // Sign out from Supabase auth, ending this session in the Sessions list first
+      await recordSignOut().catch((error) => console.error("Error recording sign-out:", error));
       await authService.signOut();
 
       // Clear any local storage items related to auth
@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useInView } from "react-intersection-observer";
+
+export type InfinitePage<T> = {
+  data: T[];
+  nextCursor: string | null;
+  total?: number | null;
+  error?: string;
+};
+
+/**
+ * A hook that loads cursor-paginated pages as a sentinel element scrolls into view.
+ * Changing `fetchPage` (e.g. when its filters change) starts again from the first page.
+ * @param fetchPage Loads the page after the given cursor (null for the first page)
+ * @param options.rootMargin How far ahead of the sentinel to start loading
+ * @returns The loaded items, loading state and a ref for the sentinel element
+ */
+export function useInfiniteScroll<T>(
+  fetchPage: (cursor: string | null) => Promise<InfinitePage<T>>,
+  options?: { rootMargin?: string }
+) {
+  const [items, setItems] = useState<T[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+  // Responses from before the last reload are dropped
+  const generation = useRef(0);
+  const inFlight = useRef(false);
+  const { ref: sentinelRef, inView } = useInView({
+    rootMargin: options?.rootMargin ?? "200px",
+  });
+
+  const load = useCallback(
+    async (cursor: string | null) => {
+      const current = generation.current;
+      inFlight.current = true;
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+
+      try {
+        const page = await fetchPage(cursor);
+        if (current !== generation.current) return;
+
+        setItems((previous) => (cursor ? [...previous, ...page.data] : page.data));
+        setNextCursor(page.nextCursor);
+        if (page.total !== undefined) setTotal(page.total);
+        setError(page.error || "");
+      } catch (error) {
+        if (current !== generation.current) return;
+        console.error("Error loading page:", error);
+        setNextCursor(null);
+        setError(error instanceof Error ? error.message : "Failed to load records");
+      } finally {
+        if (current === generation.current) {
+          inFlight.current = false;
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [fetchPage]
+  );
+
+  const reload = useCallback(() => {
+    generation.current += 1;
+    inFlight.current = false;
+    setNextCursor(null);
+    return load(null);
+  }, [load]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Keep loading while the sentinel stays visible (short pages, tall screens)
+  useEffect(() => {
+    if (inView && nextCursor && !inFlight.current) {
+      load(nextCursor);
+    }
+  }, [inView, nextCursor, load]);
+
+  return {
+    items,
+    total,
+    hasMore: nextCursor !== null,
+    loading,
+    loadingMore,
+    error,
+    sentinelRef,
+    reload,
+  };
+}
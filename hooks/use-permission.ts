@@ -0,0 +1,20 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { hasPermission, type PermissionAction } from "@/lib/permissions";
+
+/**
+ * A hook that checks the signed-in user's role_access grants
+ * @param resource The resource to check, e.g. "users"
+ * @param action The action to check, e.g. "create"
+ * @returns Whether the current user holds the permission
+ */
+export function usePermission(resource: string, action: PermissionAction): boolean {
+  const { userProfile } = useAuth();
+
+  return useMemo(
+    () => hasPermission(userProfile, resource, action),
+    [userProfile, resource, action]
+  );
+}
@@ -2,6 +2,33 @@
 import { SupabaseClient } from "@supabase/supabase-js";
 import { supabaseAdmin } from "@/lib/supabase/admin";
 import { getSupabaseClient } from "@/lib/supabase/client";
+import { getDataAdapter } from "@/lib/data-adapter";
+import { UNAUDITED_TABLES, type AuditAction, type AuditEventInput } from "@/lib/audit";
+import { recordBrowserAuditEvents } from "@/lib/actions/audit-actions";
+import {
+  invalidateTables,
+  selectedTables,
+  tableTag,
+  withCache,
+  type CacheOptions,
+} from "@/lib/query-cache";
+import {
+  compileFilter,
+  encodeCursor,
+  keysetFilter,
+  normalizeSortOrder,
+  searchFilter,
+  type Filter,
+  type FilterClause,
+  type SortOrder,
+} from "@/lib/query-filters";
+import {
+  createRetryMetrics,
+  retry,
+  type RetryMetrics,
+  type RetryOptions,
+} from "@/lib/retry-policy";
+import type { Database, Tables, TablesInsert, TablesUpdate } from "@/types/database";
 
 
 /* ============================================================
@@ -12,7 +39,7 @@ export type ServiceResponse<T> = {
   success: boolean;
   data?: T;
   error?: ServiceError;
-  meta?: Record<string, any>;
+  meta?: Record<string, any> & { retry?: RetryMetrics };
 };
 
 export type ServiceError = {
@@ -22,18 +49,128 @@ export type ServiceError = {
   requestId?: string;
 };
 
+/**
+ * Returned by `update` when `expectedUpdatedAt` no longer matches: someone else
+ * saved the record first. `details.current` is the record as it is now.
+ */
+export type ConflictError<T = Record<string, any>> = ServiceError & {
+  code: "CONFLICT";
+  details: { current: T };
+};
+
+export function isConflictError<T = Record<string, any>>(
+  error?: ServiceError
+): error is ConflictError<T> {
+  return error?.code === "CONFLICT";
+}
+
 export type ClientEnvironment = "client" | "server" | "admin";
 
+/**
+ * Tables in the generated `Database` schema. BaseService methods are keyed by
+ * table name, so inserts and updates are checked against the table's columns.
+ * Regenerate `types/database.ts` with `npm run db:types` after a migration.
+ */
+export type TableName = keyof Database["public"]["Tables"];
+export type TableRow<K extends TableName> = Tables<K>;
+export type TableInsert<K extends TableName> = TablesInsert<K>;
+export type TableUpdate<K extends TableName> = TablesUpdate<K>;
+
+/**
+ * Equality filters keyed by column. Embedded columns use PostgREST dot notation
+ * ("organization_members.organization_id"); null matches IS NULL.
+ */
+export type EqualityFilters = Record<string, string | number | boolean | null>;
+
+export type {
+  Filter,
+  FilterCondition,
+  FilterGroup,
+  FilterValue,
+  SortOrder,
+} from "@/lib/query-filters";
+
+/**
+ * Tables with a `deleted_at` column. Deletes on these only set `deleted_at`;
+ * use `restore` to undo and `purge` to remove the row for good.
+ */
+export const SOFT_DELETE_TABLES: ReadonlySet<string> = new Set(["user_profile"]);
+
+/**
+ * Tables whose `id` is a serial integer generated by the database. Every other
+ * table has uuid ids, which inserts generate up front (see `prepareInsert`).
+ */
+export const SERIAL_ID_TABLES: ReadonlySet<string> = new Set(["settings"]);
+
+/**
+ * Whether reads on soft-delete tables return live rows ("exclude", the
+ * default), every row ("include") or only the trash ("only")
+ */
+export type DeletedMode = "exclude" | "include" | "only";
+
 export type PaginationParams = {
   page?: number;
   limit?: number;
   offset?: number;
   search?: string;
   searchFields?: string[];
-  orderBy?: {
-    field: string;
-    ascending?: boolean;
-  };
+  filters?: EqualityFilters;
+  where?: Filter;
+  orderBy?: SortOrder | SortOrder[];
+  // "exact" by default; "estimated"/"planned" are much cheaper on large tables
+  count?: CountMode;
+  deleted?: DeletedMode;
+};
+
+export type CountMode = "exact" | "planned" | "estimated";
+
+export type CursorPaginationParams = {
+  limit?: number;
+  // Opaque cursor from the previous page's `nextCursor`; omit for the first page
+  cursor?: string | null;
+  search?: string;
+  searchFields?: string[];
+  filters?: EqualityFilters;
+  where?: Filter;
+  // Keyset column (non-nullable), with `id` as the tie-breaker. Defaults to created_at desc.
+  orderBy?: Omit<SortOrder, "nullsFirst">;
+  // Counting is skipped unless requested
+  count?: CountMode;
+  deleted?: DeletedMode;
+};
+
+export type CursorPage<T> = {
+  data: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  total: number | null;
+};
+
+/**
+ * The outcome for one record of a bulk operation
+ */
+export type BulkItemResult<T> = {
+  // Position of the record in the input
+  index: number;
+  id?: string;
+  success: boolean;
+  data?: T;
+  error?: ServiceError;
+};
+
+/**
+ * Bulk operations write every record they can. The response fails with
+ * PARTIAL_FAILURE when any record failed, but `data` always has every item.
+ */
+export type BulkResult<T> = {
+  items: BulkItemResult<T>[];
+  succeeded: number;
+  failed: number;
+};
+
+export type BulkUpdateItem<K extends TableName> = {
+  id: string;
+  changes: TableUpdate<K>;
 };
 
 /* ============================================================
@@ -44,6 +181,9 @@ export type PaginationParams = {
  * Get appropriate Supabase client by environment
  */
 export function getClient(environment: ClientEnvironment = "server"): SupabaseClient {
+  const adapter = getDataAdapter();
+  if (adapter) return adapter;
+
   switch (environment) {
     case "client":
       return getSupabaseClient();
@@ -88,31 +228,16 @@ export function response<T>(
 }
 
 /**
- * Retry wrapper with exponential backoff
+ * Retry wrapper: transient failures are retried with jittered backoff within a
+ * time budget, permanent ones fail at once (see lib/retry-policy.ts). Pass a
+ * number to only change the retry count.
  */
 export async function executeWithRetry<T>(
-  operation: () => Promise<T>,
+  operation: (attempt: number) => Promise<T>,
   operationName: string,
-  retryAttempts = 2
+  options: RetryOptions | number = {}
 ): Promise<T> {
-  let attempt = 0;
-  let lastError: any;
-
-  while (attempt <= retryAttempts) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error;
-      attempt++;
-      if (attempt > retryAttempts) break;
-
-      const backoff = Math.pow(2, attempt) * 100;
-      console.warn(`[WARN] Retrying ${operationName} (attempt ${attempt})`, error);
-      await new Promise((resolve) => setTimeout(resolve, backoff));
-    }
-  }
-
-  throw lastError;
+  return retry(operation, operationName, typeof options === "number" ? { retries: options } : options);
 }
 
 /* ============================================================
@@ -126,6 +251,7 @@ export async function uploadFile(
   options?: { upsert?: boolean; environment?: ClientEnvironment }
 ): Promise<ServiceResponse<{ path: string; fullPath: string }>> {
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
     const result = await executeWithRetry(async () => {
@@ -135,14 +261,15 @@ export async function uploadFile(
       });
       if (error) throw error;
       return { path: path, fullPath: `${bucket}/${path}` };
-    }, "uploadFile");
+    }, "uploadFile", { circuit: `storage:${bucket}`, metrics: retryMetrics });
 
-    return response(true, result, undefined, { requestId });
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     return response(
       false, 
       { path: '', fullPath: '' },
-      handleError(error, "uploadFile", requestId)
+      handleError(error, "uploadFile", requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
@@ -153,6 +280,7 @@ export async function deleteFile(
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<{ path: string }[]>> {
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
     const result = await executeWithRetry(async () => {
@@ -161,14 +289,15 @@ export async function deleteFile(
       if (error) throw error;
       // Transform the result to match expected return type
       return paths.map(path => ({ path }));
-    }, "deleteFile");
+    }, "deleteFile", { circuit: `storage:${bucket}`, metrics: retryMetrics });
 
-    return response(true, result, undefined, { requestId });
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     return response(
       false, 
       paths.map(path => ({ path })),
-      handleError(error, "deleteFile", requestId)
+      handleError(error, "deleteFile", requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
@@ -183,6 +312,276 @@ export function getFileUrl(
   return data.publicUrl;
 }
 
+/* ============================================================
+   Audit Helpers
+============================================================ */
+
+function isAudited(table: string): boolean {
+  return !UNAUDITED_TABLES.has(table);
+}
+
+/**
+ * Record mutations in the audit log: directly on the server, through the
+ * server action in the browser. Failures are logged and never fail the
+ * mutation itself, which has already been committed.
+ */
+async function audit(
+  table: string,
+  action: AuditAction,
+  requestId: string,
+  records: { before: Record<string, any> | null; after: Record<string, any> | null }[]
+): Promise<void> {
+  if (!isAudited(table) || records.length === 0) return;
+
+  const events: AuditEventInput[] = records.map(({ before, after }) => ({
+    table_name: table,
+    record_id: String((after ?? before)?.id ?? "") || null,
+    action,
+    before,
+    after,
+    request_id: requestId,
+  }));
+
+  try {
+    const result =
+      typeof window === "undefined"
+        ? await (await import("@/lib/audit-log")).recordAuditEvents(events)
+        : await recordBrowserAuditEvents(events);
+    if (!result.success) {
+      console.error(`[AUDIT] Failed to record ${action} on ${table}:`, result.error);
+    }
+  } catch (error) {
+    console.error(`[AUDIT] Failed to record ${action} on ${table}:`, error);
+  }
+}
+
+/**
+ * Read the current state of a record before it is changed (audited tables only)
+ */
+async function readBeforeState(
+  client: SupabaseClient,
+  table: string,
+  id: string
+): Promise<Record<string, any> | null> {
+  if (!isAudited(table)) return null;
+  const { data } = await client.from(table).select("*").eq("id", id).maybeSingle();
+  return data ?? null;
+}
+
+/**
+ * Read the current rows matching `column IN values` (audited tables only)
+ */
+async function readBeforeStates(
+  client: SupabaseClient,
+  table: string,
+  column: string,
+  values: unknown[]
+): Promise<Record<string, any>[]> {
+  if (!isAudited(table) || values.length === 0) return [];
+  const { data } = await client.from(table).select("*").in(column, values);
+  return data ?? [];
+}
+
+/* ============================================================
+   Query Helpers
+============================================================ */
+
+function isSoftDeletable(table: string): boolean {
+  return SOFT_DELETE_TABLES.has(table);
+}
+
+/**
+ * The `deleted_at` condition for a read, if the table is soft-deletable
+ */
+function deletedFilter(table: string, mode: DeletedMode = "exclude"): Filter | undefined {
+  if (!isSoftDeletable(table) || mode === "include") return undefined;
+  return { column: "deleted_at", op: mode === "only" ? "not_is" : "is", value: null };
+}
+
+/**
+ * Cache key for a read; option objects are compared by value
+ */
+function cacheKey(...parts: unknown[]): string {
+  return JSON.stringify(parts);
+}
+
+/**
+ * Give every record an id before the first attempt, so a retried insert whose
+ * earlier attempt reached the database is recognizable (see
+ * `findLandedInserts`). Serial-id tables can't be keyed up front, so their
+ * inserts aren't retried.
+ */
+function prepareInsert<K extends TableName>(
+  table: K,
+  records: TableInsert<K>[]
+): { records: TableInsert<K>[]; retries?: number } {
+  if (SERIAL_ID_TABLES.has(table)) return { records, retries: 0 };
+
+  return {
+    records: records.map((record) =>
+      (record as { id?: string }).id ? record : { ...record, id: crypto.randomUUID() }
+    ),
+  };
+}
+
+/**
+ * After a retried insert fails on a unique key: the rows, if every one of them
+ * is already stored because an earlier attempt landed; otherwise null.
+ */
+async function findLandedInserts<K extends TableName>(
+  client: SupabaseClient,
+  table: K,
+  records: TableInsert<K>[],
+  error: any
+): Promise<Record<string, any>[] | null> {
+  if (error?.code !== "23505") return null;
+
+  const ids = records.map((record) => (record as { id?: string }).id);
+  if (ids.some((id) => !id)) return null;
+
+  const { data, error: readError } = await client.from(table).select().in("id", ids);
+  if (readError || !data || data.length !== ids.length) return null;
+  return data;
+}
+
+/**
+ * Combine equality filters, filter trees (where, search, soft delete) into the
+ * clauses applied to a read query. Throws INVALID_FILTER for bad columns.
+ */
+function buildFilterClauses(
+  filters?: EqualityFilters,
+  ...trees: (Filter | undefined)[]
+): FilterClause[] {
+  const equality: Filter[] = Object.entries(filters || {}).map(([column, value]) =>
+    value === null
+      ? { column, op: "is" as const, value: null }
+      : { column, op: "eq" as const, value }
+  );
+
+  return compileFilter({
+    and: [...equality, ...trees.filter((tree): tree is Filter => tree !== undefined)],
+  });
+}
+
+/* ============================================================
+   Bulk Helpers
+============================================================ */
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+function recordId(record: unknown): string | undefined {
+  const id = (record as { id?: unknown } | null)?.id;
+  return id === undefined || id === null ? undefined : String(id);
+}
+
+/**
+ * Line up returned rows with the records that were sent: by id when every
+ * record has one, otherwise by position. Missing rows come back as null.
+ */
+function alignRows<T>(records: unknown[], rows: T[]): (T | null)[] {
+  const ids = records.map(recordId);
+  if (ids.some((id) => id === undefined)) {
+    return records.map((_, index) => rows[index] ?? null);
+  }
+
+  const byId = new Map(rows.map((row) => [recordId(row), row]));
+  return ids.map((id) => byId.get(id) ?? null);
+}
+
+/**
+ * Write `items` in batches. When a batch fails, its items are written one at a
+ * time, so only the records that can't be written are reported as failed.
+ * `write` returns one row per item, in order; null means no row matched.
+ */
+async function writeInBatches<I, T>(
+  items: I[],
+  options: {
+    batchSize?: number;
+    operation: string;
+    requestId: string;
+    retry: RetryOptions;
+    notFound: (item: I) => string;
+  },
+  write: (batch: I[], attempt: number) => Promise<(T | null)[]>
+): Promise<BulkItemResult<T>[]> {
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const results: BulkItemResult<T>[] = [];
+
+  const toResult = (item: I, index: number, row: T | null): BulkItemResult<T> =>
+    row
+      ? { index, id: recordId(row) ?? recordId(item), success: true, data: row }
+      : {
+          index,
+          id: recordId(item),
+          success: false,
+          error: { code: "RECORD_NOT_FOUND", message: options.notFound(item), requestId: options.requestId },
+        };
+
+  const run = (batch: I[]) =>
+    executeWithRetry((attempt) => write(batch, attempt), options.operation, options.retry);
+
+  for (let start = 0; start < items.length; start += batchSize) {
+    const batch = items.slice(start, start + batchSize);
+
+    try {
+      const rows = await run(batch);
+      batch.forEach((item, offset) => results.push(toResult(item, start + offset, rows[offset])));
+      continue;
+    } catch (error) {
+      if (batch.length === 1) {
+        results.push({
+          index: start,
+          id: recordId(batch[0]),
+          success: false,
+          error: handleError(error, options.operation, options.requestId),
+        });
+        continue;
+      }
+    }
+
+    for (const [offset, item] of batch.entries()) {
+      try {
+        const [row] = await run([item]);
+        results.push(toResult(item, start + offset, row));
+      } catch (error) {
+        results.push({
+          index: start + offset,
+          id: recordId(item),
+          success: false,
+          error: handleError(error, options.operation, options.requestId),
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Wrap bulk results in a response; any failed item fails it with PARTIAL_FAILURE
+ */
+function bulkResponse<T>(
+  items: BulkItemResult<T>[],
+  meta: Record<string, any>
+): ServiceResponse<BulkResult<T>> {
+  const failed = items.filter((item) => !item.success).length;
+  const result: BulkResult<T> = { items, succeeded: items.length - failed, failed };
+
+  if (failed === 0) return response(true, result, undefined, meta);
+
+  return response(
+    false,
+    result,
+    {
+      code: "PARTIAL_FAILURE",
+      message: `${failed} of ${items.length} records failed`,
+      details: items.filter((item) => !item.success),
+      requestId: meta.requestId,
+    },
+    meta
+  );
+}
+
 /* ============================================================
    Database Helpers
 ============================================================ */
@@ -190,28 +589,39 @@ export function getFileUrl(
 /**
  * Create a new record
  */
-export async function create<T>(
-  table: string,
-  data: Record<string, any>,
+export async function create<K extends TableName, T = TableRow<K>>(
+  table: K,
+  data: TableInsert<K>,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<T>> {
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
-    const result = await executeWithRetry(async () => {
+    const insert = prepareInsert(table, [data]);
+    const result = await executeWithRetry(async (attempt) => {
       const client = getClient(options?.environment);
-      const { data: createdData, error } = await client.from(table).insert(data).select().single();
-      if (error) throw error;
+      const { data: createdData, error } = await client.from(table).insert(insert.records[0]).select().single();
+      if (error) {
+        const landed = attempt > 1 ? await findLandedInserts(client, table, insert.records, error) : null;
+        if (landed) return landed[0] as T;
+        throw error;
+      }
       return createdData as T;
-    }, "create");
+    }, "create", { circuit: table, retries: insert.retries, metrics: retryMetrics });
+
+    invalidateTables([table]);
 
-    return response(true, result, undefined, { requestId });
+    await audit(table, "create", requestId, [{ before: null, after: result as Record<string, any> }]);
+
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     // Provide a default value for the generic type to satisfy TypeScript
     return response(
       false,
       {} as T, // Empty object cast to T to satisfy the generic constraint
-      handleError(error, `create-${table}`, requestId)
+      handleError(error, `create-${table}`, requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
@@ -219,21 +629,43 @@ export async function create<T>(
 /**
  * Read a record by ID
  */
-export async function readById<T>(
-  table: string,
+export async function readById<K extends TableName, T = TableRow<K>>(
+  table: K,
   id: string,
-  options?: { select?: string; environment?: ClientEnvironment }
+  options?: {
+    select?: string;
+    deleted?: DeletedMode;
+    environment?: ClientEnvironment;
+    cache?: CacheOptions;
+  }
 ): Promise<ServiceResponse<T>> {
+  if (options?.cache) {
+    const { cache, ...readOptions } = options;
+    return withCache(
+      cacheKey("readById", table, id, readOptions),
+      selectedTables(table, readOptions.select).map(tableTag),
+      cache,
+      () => readById<K, T>(table, id, readOptions)
+    );
+  }
+
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
+    const clauses = buildFilterClauses({ id }, deletedFilter(table, options?.deleted));
+
     const result = await executeWithRetry(async () => {
       const client = getClient(options?.environment);
-      const { data, error } = await client
-        .from(table)
-        .select(options?.select || "*")
-        .eq("id", id)
-        .single();
+      let query = client.from(table).select(options?.select || "*");
+
+      for (const clause of clauses) {
+        query = clause.type === "or"
+          ? query.or(clause.expression)
+          : query.filter(clause.column, clause.operator, clause.value);
+      }
+
+      const { data, error } = await query.single();
 
       if (error) {
         if (error.code === "PGRST116") {
@@ -246,131 +678,322 @@ export async function readById<T>(
         throw error;
       }
       return data as T;
-    }, "readById");
+    }, "readById", { circuit: table, metrics: retryMetrics });
 
-    return response(true, result, undefined, { requestId });
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     return response(
       false,
       {} as T,
-      handleError(error, `readById-${table}`, requestId)
+      handleError(error, `readById-${table}`, requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
 
 /**
- * Read all records
+ * Read all records, optionally filtered and ordered by several keys
  */
-export async function readAll<T>(
-  table: string,
+export async function readAll<K extends TableName, T = TableRow<K>>(
+  table: K,
   options?: {
     select?: string;
-    orderBy?: { column: string; ascending?: boolean };
+    filters?: EqualityFilters;
+    where?: Filter;
+    orderBy?: SortOrder | SortOrder[];
+    deleted?: DeletedMode;
     environment?: ClientEnvironment;
+    cache?: CacheOptions;
   }
 ): Promise<ServiceResponse<T[]>> {
+  if (options?.cache) {
+    const { cache, ...readOptions } = options;
+    return withCache(
+      cacheKey("readAll", table, readOptions),
+      selectedTables(table, readOptions.select).map(tableTag),
+      cache,
+      () => readAll<K, T>(table, readOptions)
+    );
+  }
+
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
+    const clauses = buildFilterClauses(
+      options?.filters,
+      options?.where,
+      deletedFilter(table, options?.deleted)
+    );
+    const sortOrder = normalizeSortOrder(options?.orderBy);
+
     const result = await executeWithRetry(async () => {
       const client = getClient(options?.environment);
       let query = client.from(table).select(options?.select || "*");
 
-      if (options?.orderBy) {
-        query = query.order(options.orderBy.column, {
-          ascending: options.orderBy.ascending !== false,
+      for (const clause of clauses) {
+        query = clause.type === "or"
+          ? query.or(clause.expression)
+          : query.filter(clause.column, clause.operator, clause.value);
+      }
+
+      for (const key of sortOrder) {
+        query = query.order(key.column, {
+          ascending: key.ascending !== false,
+          nullsFirst: key.nullsFirst,
         });
       }
 
       const { data, error } = await query;
       if (error) throw error;
       return data as T[];
-    }, "readAll");
+    }, "readAll", { circuit: table, metrics: retryMetrics });
 
-    return response(true, result, undefined, { requestId });
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     return response(
       false,
       [] as T[],
-      handleError(error, `readAll-${table}`, requestId)
+      handleError(error, `readAll-${table}`, requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
 
 /**
- * Update a record
+ * Update a record. With `expectedUpdatedAt` the write only succeeds if the
+ * record still has that `updated_at`; otherwise a CONFLICT error is returned.
+ * Such conditional updates aren't retried: a retry after a write that landed
+ * would find its own `updated_at` and report a conflict.
  */
-export async function update<T>(
-  table: string,
+export async function update<K extends TableName, T = TableRow<K>>(
+  table: K,
+  id: string,
+  data: TableUpdate<K>,
+  options?: { environment?: ClientEnvironment; expectedUpdatedAt?: string | null }
+): Promise<ServiceResponse<T>> {
+  const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
+  const expectedUpdatedAt = options?.expectedUpdatedAt;
+
+  try {
+    let before: Record<string, any> | null = null;
+    const result = await executeWithRetry(async () => {
+      const client = getClient(options?.environment);
+      before = await readBeforeState(client, table, id);
+      let query = client.from(table).update(data).eq("id", id);
+
+      if (expectedUpdatedAt) {
+        query = query.eq("updated_at", expectedUpdatedAt);
+      }
+
+      const { data: updatedData, error } = await query.select().maybeSingle();
+      if (error) throw error;
+      if (updatedData) return { updated: updatedData as T, current: null };
+
+      // Nothing matched: either the record is gone or it changed underneath us
+      const { data: current, error: readError } = await client
+        .from(table)
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+      if (readError) throw readError;
+      return { updated: null, current: current as T | null };
+    }, "update", { circuit: table, retries: expectedUpdatedAt ? 0 : undefined, metrics: retryMetrics });
+
+    invalidateTables([table]);
+
+    if (!result.updated) {
+      const error: ServiceError = result.current && expectedUpdatedAt
+        ? {
+            code: "CONFLICT",
+            message: "This record was changed by someone else since you loaded it",
+            details: { current: result.current },
+            requestId,
+          }
+        : {
+            code: "RECORD_NOT_FOUND",
+            message: `No record found in ${table} with ID ${id}`,
+            requestId,
+          };
+      return response(false, {} as T, error, { requestId, retry: retryMetrics });
+    }
+
+    await audit(table, "update", requestId, [{ before, after: result.updated as Record<string, any> }]);
+
+    return response(true, result.updated, undefined, { requestId, retry: retryMetrics });
+  } catch (error) {
+    return response(
+      false,
+      {} as T,
+      handleError(error, `update-${table}`, requestId),
+      { requestId, retry: retryMetrics }
+    );
+  }
+}
+
+/**
+ * Delete a record. On soft-delete tables this only sets `deleted_at`.
+ */
+export async function remove<K extends TableName, T = TableRow<K>>(
+  table: K,
   id: string,
-  data: Record<string, any>,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<T>> {
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
+    if (isSoftDeletable(table)) {
+      let before: Record<string, any> | null = null;
+      const result = await executeWithRetry(async () => {
+        const client = getClient(options?.environment);
+        before = await readBeforeState(client, table, id);
+        const { data, error } = await client
+          .from(table)
+          .update({ deleted_at: new Date().toISOString() })
+          .eq("id", id)
+          .is("deleted_at", null)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data as T;
+      }, "remove", { circuit: table, metrics: retryMetrics });
+
+      invalidateTables([table]);
+
+      await audit(table, "delete", requestId, [{ before, after: result as Record<string, any> }]);
+
+      return response(true, result, undefined, { requestId, softDeleted: true, retry: retryMetrics });
+    }
+
     const result = await executeWithRetry(async () => {
       const client = getClient(options?.environment);
-      const { data: updatedData, error } = await client
+      const { data, error } = await client
         .from(table)
-        .update(data)
+        .delete()
         .eq("id", id)
         .select()
         .single();
 
       if (error) throw error;
-      return updatedData as T;
-    }, "update");
+      return data as T;
+    }, "remove", { circuit: table, metrics: retryMetrics });
 
-    return response(true, result, undefined, { requestId });
+    invalidateTables([table]);
+
+    // The deleted row returned by PostgREST is the before state
+    await audit(table, "delete", requestId, [{ before: result as Record<string, any>, after: null }]);
+
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     return response(
       false,
       {} as T,
-      handleError(error, `update-${table}`, requestId)
+      handleError(error, `remove-${table}`, requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
 
 /**
- * Delete a record
+ * Bring a soft-deleted record back
  */
-export async function remove<T>(
-  table: string,
+export async function restore<K extends TableName, T = TableRow<K>>(
+  table: K,
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<T>> {
+  const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
+
+  try {
+    if (!isSoftDeletable(table)) {
+      throw { code: "NOT_SOFT_DELETABLE", message: `${table} does not support soft delete` };
+    }
+
+    let before: Record<string, any> | null = null;
+    const result = await executeWithRetry(async () => {
+      const client = getClient(options?.environment);
+      before = await readBeforeState(client, table, id);
+      const { data, error } = await client
+        .from(table)
+        .update({ deleted_at: null })
+        .eq("id", id)
+        .not("deleted_at", "is", null)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as T;
+    }, "restore", { circuit: table, metrics: retryMetrics });
+
+    invalidateTables([table]);
+
+    await audit(table, "update", requestId, [{ before, after: result as Record<string, any> }]);
+
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
+  } catch (error) {
+    return response(
+      false,
+      {} as T,
+      handleError(error, `restore-${table}`, requestId),
+      { requestId, retry: retryMetrics }
+    );
+  }
+}
+
+/**
+ * Permanently delete a soft-deleted record. Live records must be deleted first.
+ */
+export async function purge<K extends TableName, T = TableRow<K>>(
+  table: K,
   id: string,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<T>> {
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
+    if (!isSoftDeletable(table)) {
+      throw { code: "NOT_SOFT_DELETABLE", message: `${table} does not support soft delete` };
+    }
+
     const result = await executeWithRetry(async () => {
       const client = getClient(options?.environment);
       const { data, error } = await client
         .from(table)
         .delete()
         .eq("id", id)
+        .not("deleted_at", "is", null)
         .select()
         .single();
 
       if (error) throw error;
       return data as T;
-    }, "remove");
+    }, "purge", { circuit: table, metrics: retryMetrics });
+
+    invalidateTables([table]);
+
+    await audit(table, "delete", requestId, [{ before: result as Record<string, any>, after: null }]);
 
-    return response(true, result, undefined, { requestId });
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     return response(
       false,
       {} as T,
-      handleError(error, `remove-${table}`, requestId)
+      handleError(error, `purge-${table}`, requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
 
 /**
- * Pagination with search, ordering, etc.
+ * Pagination with filters, escaped search and multi-key ordering
  */
-export async function paginate<T>(
-  table: string,
+export async function paginate<K extends TableName, T = TableRow<K>>(
+  table: K,
   params: PaginationParams = {},
   options?: {
     select?: string;
@@ -378,31 +1001,39 @@ export async function paginate<T>(
   }
 ): Promise<ServiceResponse<{ data: T[]; total: number; page: number; pageSize: number }>> {
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
   const page = params.page || 1;
   const pageSize = params.limit || 10;
   const offset = params.offset || (page - 1) * pageSize;
 
   try {
+    // Compiled up front so an invalid filter fails fast instead of being retried
+    const clauses = buildFilterClauses(
+      params.filters,
+      params.where,
+      searchFilter(params.search, params.searchFields),
+      deletedFilter(table, params.deleted)
+    );
+    const sortOrder = normalizeSortOrder(params.orderBy);
+
     const result = await executeWithRetry(async () => {
       const client = getClient(options?.environment);
       
       // Start building query
-      let query = client.from(table).select(options?.select || "*", { count: "exact" });
-      
-      // Add search if provided
-      if (params.search && params.searchFields?.length) {
-        // Create OR conditions for each search field
-        const searchConditions = params.searchFields.map(field => 
-          `${field}.ilike.%${params.search}%`
-        );
-        
-        query = query.or(searchConditions.join(','));
+      let query = client.from(table).select(options?.select || "*", { count: params.count || "exact" });
+
+      // Add filters and the escaped search group
+      for (const clause of clauses) {
+        query = clause.type === "or"
+          ? query.or(clause.expression)
+          : query.filter(clause.column, clause.operator, clause.value);
       }
       
-      // Add ordering
-      if (params.orderBy) {
-        query = query.order(params.orderBy.field, { 
-          ascending: params.orderBy.ascending !== false 
+      // Add ordering, in priority order
+      for (const key of sortOrder) {
+        query = query.order(key.column, {
+          ascending: key.ascending !== false,
+          nullsFirst: key.nullsFirst,
         });
       }
       
@@ -420,48 +1051,333 @@ export async function paginate<T>(
         page,
         pageSize,
       };
-    }, "paginate");
+    }, "paginate", { circuit: table, metrics: retryMetrics });
 
-    return response(true, result, undefined, { requestId });
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
     return response(
       false,
       { data: [] as T[], total: 0, page: 1, pageSize: 10 },
-      handleError(error, `paginate-${table}`, requestId)
+      handleError(error, `paginate-${table}`, requestId),
+      { requestId, retry: retryMetrics }
     );
   }
 }
 
 /**
- * Batch operations
+ * Keyset pagination: rows after an opaque cursor, ordered on one column with
+ * `id` as the tie-breaker. Avoids OFFSET scans and exact counts on large tables.
  */
-export async function bulkInsert<T>(
-  table: string,
-  records: any[],
-  options?: { batchSize?: number; environment?: ClientEnvironment }
-): Promise<ServiceResponse<T[]>> {
+export async function paginateByCursor<K extends TableName, T = TableRow<K>>(
+  table: K,
+  params: CursorPaginationParams = {},
+  options?: {
+    select?: string;
+    environment?: ClientEnvironment;
+  }
+): Promise<ServiceResponse<CursorPage<T>>> {
   const requestId = generateRequestId();
-  const batchSize = options?.batchSize || 1000;
-  const results: T[] = [];
+  const retryMetrics = createRetryMetrics();
+  const limit = params.limit || 20;
+  const key = params.orderBy || { column: "created_at", ascending: false };
+  const ascending = key.ascending !== false;
 
   try {
-    for (let i = 0; i < records.length; i += batchSize) {
-      const batch = records.slice(i, i + batchSize);
+    const clauses = buildFilterClauses(
+      params.filters,
+      params.cursor
+        ? { and: [...(params.where ? [params.where] : []), keysetFilter(params.cursor, key)] }
+        : params.where,
+      searchFilter(params.search, params.searchFields),
+      deletedFilter(table, params.deleted)
+    );
 
-      const batchResult = await executeWithRetry(async () => {
-        const client = getClient(options?.environment);
-        const { data: result, error } = await client.from(table).insert(batch).select();
+    const result = await executeWithRetry(async () => {
+      const client = getClient(options?.environment);
+
+      let query = client
+        .from(table)
+        .select(options?.select || "*", params.count ? { count: params.count } : undefined);
+
+      for (const clause of clauses) {
+        query = clause.type === "or"
+          ? query.or(clause.expression)
+          : query.filter(clause.column, clause.operator, clause.value);
+      }
+
+      query = query.order(key.column, { ascending });
+      if (key.column !== "id") {
+        query = query.order("id", { ascending });
+      }
+
+      // One extra row tells us whether another page exists
+      const { data, error, count } = await query.limit(limit + 1);
+      if (error) throw error;
+
+      const rows = (data || []) as Record<string, any>[];
+      const hasMore = rows.length > limit;
+      const page = hasMore ? rows.slice(0, limit) : rows;
+
+      return {
+        data: page as T[],
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1], key.column) : null,
+        hasMore,
+        total: params.count ? count ?? null : null,
+      };
+    }, "paginateByCursor", { circuit: table, metrics: retryMetrics });
+
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
+  } catch (error) {
+    return response(
+      false,
+      { data: [] as T[], nextCursor: null, hasMore: false, total: null },
+      handleError(error, `paginateByCursor-${table}`, requestId),
+      { requestId, retry: retryMetrics }
+    );
+  }
+}
+
+/* ============================================================
+   Bulk Operations
+============================================================ */
+
+/**
+ * Insert many records in batches. Records that fail don't stop the rest.
+ */
+export async function bulkInsert<K extends TableName, T = TableRow<K>>(
+  table: K,
+  records: TableInsert<K>[],
+  options?: { batchSize?: number; environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<T>>> {
+  const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
+  const insert = prepareInsert(table, records);
+
+  const items = await writeInBatches<TableInsert<K>, T>(
+    insert.records,
+    {
+      batchSize: options?.batchSize,
+      operation: `bulkInsert-${table}`,
+      requestId,
+      retry: { circuit: table, retries: insert.retries, metrics: retryMetrics },
+      notFound: () => `Insert into ${table} returned no row`,
+    },
+    async (batch, attempt) => {
+      const client = getClient(options?.environment);
+      const { data, error } = await client.from(table).insert(batch).select();
+      if (error) {
+        const landed = attempt > 1 ? await findLandedInserts(client, table, batch, error) : null;
+        if (landed) return alignRows(batch, landed as T[]);
+        throw error;
+      }
+      return alignRows(batch, data as T[]);
+    }
+  );
+
+  const created = items.filter((item) => item.success);
+  if (created.length > 0) {
+    invalidateTables([table]);
+    await audit(
+      table,
+      "create",
+      requestId,
+      created.map((item) => ({ before: null, after: item.data as Record<string, any> }))
+    );
+  }
+
+  return bulkResponse(items, { requestId, retry: retryMetrics });
+}
+
+/**
+ * Insert records, updating the existing row instead when one matches on the
+ * conflict columns (the primary key by default)
+ *
+ * @param onConflict - Comma-separated columns of a unique constraint
+ */
+export async function upsert<K extends TableName, T = TableRow<K>>(
+  table: K,
+  records: TableInsert<K>[],
+  options?: { onConflict?: string; batchSize?: number; environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<T>>> {
+  const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
+  const conflictColumns = (options?.onConflict || "id").split(",").map((column) => column.trim());
+  const keyOf = (record: Record<string, any>) =>
+    JSON.stringify(conflictColumns.map((column) => record[column] ?? null));
+  const before = new Map<string, Record<string, any>>();
+
+  const items = await writeInBatches<TableInsert<K>, T>(
+    records,
+    {
+      batchSize: options?.batchSize,
+      operation: `upsert-${table}`,
+      requestId,
+      retry: { circuit: table, metrics: retryMetrics },
+      notFound: () => `Upsert into ${table} returned no row`,
+    },
+    async (batch) => {
+      const client = getClient(options?.environment);
+      const existing = await readBeforeStates(
+        client,
+        table,
+        conflictColumns[0],
+        batch
+          .map((record) => (record as Record<string, any>)[conflictColumns[0]])
+          .filter((value) => value !== undefined && value !== null)
+      );
+      for (const row of existing) {
+        if (!before.has(keyOf(row))) before.set(keyOf(row), row);
+      }
+
+      const { data, error } = await client
+        .from(table)
+        .upsert(batch, { onConflict: conflictColumns.join(",") })
+        .select();
+      if (error) throw error;
+      return alignRows(batch, data as T[]);
+    }
+  );
+
+  const written = items.filter((item) => item.success);
+  if (written.length > 0) {
+    invalidateTables([table]);
+    const changes = written.map((item) => {
+      const after = item.data as Record<string, any>;
+      return { before: before.get(keyOf(after)) ?? null, after };
+    });
+    await audit(table, "create", requestId, changes.filter((change) => !change.before));
+    await audit(table, "update", requestId, changes.filter((change) => change.before));
+  }
+
+  return bulkResponse(items, { requestId, retry: retryMetrics });
+}
+
+/**
+ * Apply changes to many records. Records that share the same changes are
+ * written with one query per batch.
+ */
+export async function bulkUpdate<K extends TableName, T = TableRow<K>>(
+  table: K,
+  updates: BulkUpdateItem<K>[],
+  options?: { batchSize?: number; environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<T>>> {
+  const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
+  const before = new Map<string, Record<string, any>>();
+
+  const items = await writeInBatches<BulkUpdateItem<K>, T>(
+    updates,
+    {
+      batchSize: options?.batchSize,
+      operation: `bulkUpdate-${table}`,
+      requestId,
+      retry: { circuit: table, metrics: retryMetrics },
+      notFound: (item) => `No record found in ${table} with ID ${item.id}`,
+    },
+    async (batch) => {
+      const client = getClient(options?.environment);
+      const ids = batch.map((item) => item.id);
+      for (const row of await readBeforeStates(client, table, "id", ids)) {
+        if (!before.has(String(row.id))) before.set(String(row.id), row);
+      }
+
+      const groups = new Map<string, BulkUpdateItem<K>[]>();
+      for (const item of batch) {
+        const key = JSON.stringify(item.changes);
+        groups.set(key, [...(groups.get(key) ?? []), item]);
+      }
+
+      const rows: T[] = [];
+      for (const group of Array.from(groups.values())) {
+        const { data, error } = await client
+          .from(table)
+          .update(group[0].changes)
+          .in("id", group.map((item) => item.id))
+          .select();
+        if (error) throw error;
+        rows.push(...(data as T[]));
+      }
+      return alignRows(batch, rows);
+    }
+  );
+
+  const updated = items.filter((item) => item.success);
+  if (updated.length > 0) {
+    invalidateTables([table]);
+    await audit(
+      table,
+      "update",
+      requestId,
+      updated.map((item) => ({ before: before.get(item.id ?? "") ?? null, after: item.data as Record<string, any> }))
+    );
+  }
+
+  return bulkResponse(items, { requestId, retry: retryMetrics });
+}
+
+/**
+ * Delete many records by ID. On soft-delete tables this only sets `deleted_at`.
+ */
+export async function bulkDelete<K extends TableName, T = TableRow<K>>(
+  table: K,
+  ids: string[],
+  options?: { batchSize?: number; environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<T>>> {
+  const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
+  const softDelete = isSoftDeletable(table);
+  const before = new Map<string, Record<string, any>>();
+
+  const items = await writeInBatches<{ id: string }, T>(
+    ids.map((id) => ({ id })),
+    {
+      batchSize: options?.batchSize,
+      operation: `bulkDelete-${table}`,
+      requestId,
+      retry: { circuit: table, metrics: retryMetrics },
+      notFound: (item) => `No record found in ${table} with ID ${item.id}`,
+    },
+    async (batch) => {
+      const client = getClient(options?.environment);
+      const batchIds = batch.map((item) => item.id);
+
+      if (!softDelete) {
+        const { data, error } = await client.from(table).delete().in("id", batchIds).select();
         if (error) throw error;
-        return result as T[];
-      }, "bulkInsert");
+        return alignRows(batch, data as T[]);
+      }
 
-      results.push(...batchResult);
+      for (const row of await readBeforeStates(client, table, "id", batchIds)) {
+        if (!before.has(String(row.id))) before.set(String(row.id), row);
+      }
+      const { data, error } = await client
+        .from(table)
+        .update({ deleted_at: new Date().toISOString() })
+        .in("id", batchIds)
+        .is("deleted_at", null)
+        .select();
+      if (error) throw error;
+      return alignRows(batch, data as T[]);
     }
+  );
 
-    return response(true, results, undefined, { requestId });
-  } catch (error) {
-    return response(false, [] as T[], handleError(error, "bulkInsert", requestId));
+  const deleted = items.filter((item) => item.success);
+  if (deleted.length > 0) {
+    invalidateTables([table]);
+    // Hard deletes return the removed row, which is the before state
+    await audit(
+      table,
+      "delete",
+      requestId,
+      deleted.map((item) =>
+        softDelete
+          ? { before: before.get(item.id ?? "") ?? null, after: item.data as Record<string, any> }
+          : { before: item.data as Record<string, any>, after: null }
+      )
+    );
   }
+
+  return bulkResponse(items, { requestId, retry: retryMetrics, softDeleted: softDelete });
 }
 
 /**
@@ -470,9 +1386,27 @@ export async function bulkInsert<T>(
 export async function callFunction<T>(
   functionName: string,
   params?: Record<string, any>,
-  options?: { environment?: ClientEnvironment }
+  options?: {
+    environment?: ClientEnvironment;
+    // Only for functions that don't write. BaseService can't see what a
+    // function reads, so cached results are dropped by the tables listed here.
+    cache?: CacheOptions & { tables: [TableName, ...TableName[]] };
+    // Tables the function writes, whose cached reads are dropped once it succeeds
+    invalidates?: TableName[];
+  }
 ): Promise<ServiceResponse<T>> {
+  if (options?.cache) {
+    const { cache, ...callOptions } = options;
+    return withCache(
+      cacheKey("rpc", functionName, params, callOptions.environment),
+      [],
+      cache,
+      () => callFunction<T>(functionName, params, callOptions)
+    );
+  }
+
   const requestId = generateRequestId();
+  const retryMetrics = createRetryMetrics();
 
   try {
     const result = await executeWithRetry(async () => {
@@ -480,11 +1414,16 @@ export async function callFunction<T>(
       const { data, error } = await client.rpc(functionName, params);
       if (error) throw error;
       return data as T;
-    }, `rpc-${functionName}`);
+    }, `rpc-${functionName}`, { circuit: `rpc:${functionName}`, metrics: retryMetrics });
+
+    invalidateTables(options?.invalidates ?? []);
 
-    return response(true, result, undefined, { requestId });
+    return response(true, result, undefined, { requestId, retry: retryMetrics });
   } catch (error) {
-    return response(false, {} as T, handleError(error, `rpc-${functionName}`, requestId));
+    return response(false, {} as T, handleError(error, `rpc-${functionName}`, requestId), {
+      requestId,
+      retry: retryMetrics,
+    });
   }
 }
 
@@ -527,7 +1466,10 @@ export const baseService = {
   readAll,
   update,
   delete: remove, // Renamed because 'delete' is a reserved keyword
+  restore,
+  purge,
   paginate,
+  paginateByCursor,
   
   // File Operations
   uploadFile,
@@ -536,6 +1478,9 @@ export const baseService = {
   
   // Batch Operations
   bulkInsert,
+  bulkUpdate,
+  bulkDelete,
+  upsert,
   
   // Database Functions
   callFunction,
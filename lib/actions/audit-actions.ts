@@ -0,0 +1,68 @@
+"use server";
+
+/**
+ * Audit Actions
+ *
+ * `recordBrowserAuditEvents` is how BaseService audits mutations made in the
+ * browser; mutations made on the server are written by lib/audit-log directly.
+ * Only signed-in users can record events, always as themselves, for records
+ * of their organization they may update. What is stored comes from the
+ * database and the log, not from the browser.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import { auditableEvents, confirmAuditEvents, getAuditActor, writeAuditEvents } from "../audit-log";
+import type { AuditEventInput } from "../audit";
+import { auditLogService, type AuditLogFilters } from "@/modules/audit-log";
+
+/**
+ * Store audit entries for mutations BaseService made in the browser
+ *
+ * @param events - One event per mutated record
+ */
+export async function recordBrowserAuditEvents(events: AuditEventInput[]) {
+  try {
+    const auditable = auditableEvents(events);
+    if (auditable.length === 0) {
+      return { success: true };
+    }
+
+    const actor = await getAuditActor();
+    if (!actor) {
+      return { success: false, error: "Authentication required", code: "UNAUTHORIZED" };
+    }
+
+    const result = await writeAuditEvents(await confirmAuditEvents(auditable, actor), actor);
+    if (!result.success) {
+      console.error("Error writing audit log:", result.error);
+    }
+    return result;
+  } catch (error) {
+    console.error("Unexpected error writing audit log:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error writing audit log"
+    };
+  }
+}
+
+/**
+ * Browse the audit log of the active organization, newest first
+ *
+ * @param params - Exact-match filters, the cursor from the previous page and page size
+ */
+export async function getAuditLog(
+  params: Omit<AuditLogFilters, "organizationId"> & { cursor?: string | null; pageSize?: number }
+) {
+  const auth = await authorizeRequest({ resource: "audit", action: "read" });
+  if (!auth.success) {
+    return { success: false, error: auth.error.message, code: auth.error.code, entries: [], nextCursor: null, total: null };
+  }
+
+  const result = await auditLogService.getAuditLogByCursor(
+    { ...params, organizationId: auth.data.organizationId },
+    "admin"
+  );
+
+  return { success: !result.error, ...result };
+}
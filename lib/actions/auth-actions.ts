@@ -9,46 +9,18 @@
 
 import { emailService } from "../email-service";
 import { createAdminClient } from "../supabase/admin";
-import { baseService } from "../BaseService";
-import crypto from "crypto";
+import { authorizeRequest } from "../with-auth";
+import { generateToken, hashToken } from "../tokens";
+import { isOrganizationMember } from "../user-deletion";
+import { usersService } from "@/modules/users";
+import { passwordResetsService, isPasswordResetUsable } from "@/modules/password-resets";
 
-/**
- * Delete a user from Supabase auth
- * This must be run as a server action
- * 
- * @param userId - User ID to delete
- * @param type - Type of user ('user' or other)
- */
-export async function deleteAuthUser(userId: string, type: string) {
-  try {
-    let error: any = null;
-    let data: any = null;   
-    // First check if user exists in auth
-    if(type === 'user'){
-      const supabase = createAdminClient();
-      const { data: user, error: checkError } = await supabase.auth.admin.deleteUser(userId);
-      error = checkError;
-      data = user;
-    } 
-    
-    if (error) {
-      return { success: false, error: error.message };
-    }
-    
-    // If user doesn't exist in auth, return success (already deleted)
-    if (!data) {
-      return { success: true, message: "User not found in auth, already deleted." };
-    }
-    
-    return { success: true };
-  } catch (error) {
-    console.error("Unexpected error deleting auth user:", error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : "Unknown error deleting auth user" 
-    };
-  }
-}
+// Reset links are valid for 1 hour (matches the reset email copy)
+const PASSWORD_RESET_TTL_MS = 1000 * 60 * 60;
+
+// At most 3 reset emails per address per 15 minutes
+const PASSWORD_RESET_WINDOW_MS = 1000 * 60 * 15;
+const PASSWORD_RESET_MAX_REQUESTS = 3;
 
 /**
  * Create a new user in Supabase auth
@@ -61,6 +33,11 @@ export async function deleteAuthUser(userId: string, type: string) {
  */
 export async function createAuthUser(email: string, password: string, metadata: object = {}, type: string) {
   try {
+    const auth = await authorizeRequest({ resource: "users", action: "create" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code, user: null };
+    }
+
     let error: any = null;
     let data: any = null;
     if(type === 'user'){
@@ -91,74 +68,79 @@ export async function createAuthUser(email: string, password: string, metadata:
 } 
 
 /**
- * Request a password reset: generates a token, stores it, and sends an email
+ * Request a password reset: generates a token, stores its hash, and sends an email.
+ *
+ * Always resolves with the same response whether or not the email belongs to an
+ * account, so the endpoint can't be used to discover registered addresses.
  * 
  * @param email - User email
  * @param type - Type of user ('user' or other)
  */
 export async function requestPasswordReset(email: string, type: string) {
+  const genericResponse = {
+    success: true,
+    message: "If an account exists for this email, a reset link has been sent."
+  };
+
   try {
-    // 1. Find user by email
-    let userId: string | null = null;
-    if (type === "user") {
-      // Define interface for user type
-      interface UserProfile {
-        id: string;
-        email: string;
-      }
-      
-      // Using BaseService to query user by email
-      const result = await baseService.paginate<UserProfile>("user_profile", {
-        search: email,
-        searchFields: ["email"]
-      }, {
-        select: "id",
-        environment: "admin"
-      });
-      
-      if (!result.success || !result.data || result.data.data.length === 0) {
-        throw new Error("User not found");
-      }
-      
-      userId = result.data.data[0].id;
-    } else if (type === "developer") {
+    if (type === "developer") {
       // Add developer logic if needed
       return { success: false, error: "Developer reset not implemented" };
     }
-    
-    if (!userId) throw new Error("User not found");
 
-    // 2. Generate secure token
-    const token = crypto.randomBytes(32).toString("hex");
-    const expiresAt = new Date(Date.now() + 1000 * 60 * 60); // 1 hour
+    const normalizedEmail = email.trim().toLowerCase();
+
+    // 1. Rate limit per email address
+    const windowStart = new Date(Date.now() - PASSWORD_RESET_WINDOW_MS).toISOString();
+    const recent = await passwordResetsService.countRecentPasswordResets(normalizedEmail, windowStart, "admin");
+    if (!recent.success) {
+      throw new Error(recent.error?.message || "Error checking reset requests");
+    }
+    if ((recent.data || 0) >= PASSWORD_RESET_MAX_REQUESTS) {
+      return genericResponse;
+    }
 
-    // 3. Store token in password_resets table using BaseService
-    const insertResult = await baseService.create(
-      "password_resets",
+    // 2. Find user by email (exact match)
+    const userResult = await usersService.getUserByEmail(normalizedEmail, "admin");
+    if (!userResult.success) {
+      throw new Error(userResult.error?.message || "Error looking up user");
+    }
+    const user = userResult.data;
+    if (!user || user.is_active === false) {
+      return genericResponse;
+    }
+
+    // 3. Only the newest link should work
+    await passwordResetsService.invalidatePasswordResets(user.id, "admin");
+
+    // 4. Store the hashed token
+    const { token, tokenHash, expiresAt } = generateToken(PASSWORD_RESET_TTL_MS);
+    const insertResult = await passwordResetsService.createPasswordReset(
       {
-        user_id: userId,
-        email,
-        token,
-        expires_at: expiresAt.toISOString(),
+        user_id: user.id,
+        email: normalizedEmail,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
       },
-      { environment: "admin" }
+      "admin"
     );
     
     if (!insertResult.success) {
       throw new Error(insertResult.error?.message || "Error storing reset token");
     }
 
-    // 4. Send email with reset link
+    // 5. Send email with reset link
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3010";
     const resetLink = `${baseUrl}/auth/reset-password?token=${token}`;
     await emailService.sendEmail({
-      to: email,
+      to: normalizedEmail,
       subject: "Reset your password",
       html: `<p>Click <a href="${resetLink}">here</a> to reset your password. This link expires in 1 hour.</p><p>If you did not request this, ignore this email.</p>`
     });
     
-    return { success: true };
+    return genericResponse;
   } catch (error) {
+    console.error("Error requesting password reset:", error);
     return { 
       success: false,
       error: "Something went wrong, so please try again later."
@@ -175,49 +157,36 @@ export async function requestPasswordReset(email: string, type: string) {
  */
 export async function resetPassword(token: string, newPassword: string, type: string) {
   try {
-    // Define type for password reset record
-    interface PasswordReset {
-      id: string;
-      user_id: string;
-      expires_at: string;
-      used_at: string | null;
-      token: string;
+    if (type !== "user") throw new Error("Only user type supported");
+
+    // 1. Exact match on the token hash
+    const lookup = await passwordResetsService.getPasswordResetByTokenHash(hashToken(token), "admin");
+    const reset = lookup.data;
+    if (!lookup.success || !reset || !isPasswordResetUsable(reset)) {
+      throw new Error("Invalid or expired token");
     }
 
-    // Using BaseService to query password_resets by token
-    const tokenResult = await baseService.paginate<PasswordReset>("password_resets", {
-      search: token,
-      searchFields: ["token"]
-    }, {
-      select: "id, user_id, expires_at, used_at, token",
-      environment: "admin"
-    });
-    
-    if (!tokenResult.success || !tokenResult.data || tokenResult.data.data.length === 0) {
+    // 2. Consume the token before using it so it can't be redeemed twice
+    const consumed = await passwordResetsService.consumePasswordReset(reset.id, "admin");
+    if (!consumed.success || !consumed.data) {
       throw new Error("Invalid or expired token");
     }
-    
-    const data = tokenResult.data.data[0];
-    if (data.used_at) throw new Error("Token already used");
-    if (new Date(data.expires_at) < new Date()) throw new Error("Token expired");
 
-    // 2. Update password using Supabase admin
-    if (type !== "user") throw new Error("Only user type supported");
+    // 3. Update password using Supabase admin. If Supabase refuses the new
+    // password, reopen the token so the user can try another one.
     const supabase = createAdminClient();
     const { error: updateError } = await supabase.auth.admin.updateUserById(
-      data.user_id, 
+      reset.user_id, 
       { password: newPassword }
     );
     
-    if (updateError) throw new Error(updateError.message);
+    if (updateError) {
+      await passwordResetsService.releasePasswordReset(reset.id, "admin");
+      throw new Error(updateError.message);
+    }
 
-    // 3. Mark token as used using BaseService
-    await baseService.update(
-      "password_resets",
-      data.id,
-      { used_at: new Date().toISOString() },
-      { environment: "admin" }
-    );
+    // 4. Any other outstanding links for this user stop working too
+    await passwordResetsService.invalidatePasswordResets(reset.user_id, "admin");
 
     return { success: true };
   } catch (error) {
@@ -230,13 +199,22 @@ export async function resetPassword(token: string, newPassword: string, type: st
 
 /**
  * Update user password using admin API
- * This must be run as a server action
+ * This must be run as a server action. Admins only reach members of their
+ * active organization.
  * 
  * @param userId - User ID
  * @param newPassword - New password
  */
 export async function updateUserPassword(userId: string, newPassword: string) {
   try {
+    const auth = await authorizeRequest({ resource: "users", action: "update" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+    if (!(await isOrganizationMember(userId, auth.data.organizationId))) {
+      return { success: false, error: "User not found" };
+    }
+
     const supabase = createAdminClient();
     const { data, error } = await supabase.auth.admin.updateUserById(
       userId,
@@ -0,0 +1,219 @@
+"use server";
+
+/**
+ * Domain Actions
+ *
+ * Server-side actions for the email domains of the active organization:
+ * claiming a domain, verifying it through DNS, choosing whether new users with
+ * it auto-join, and giving it up. Only users who can update the organization's
+ * settings manage domains.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import {
+  createVerificationToken,
+  hasVerificationRecord,
+  isPublicEmailDomain,
+  normalizeDomain,
+  verificationRecord,
+} from "../domain-verification";
+import { organizationDomainsService, type OrganizationDomain } from "@/modules/organization-domains";
+
+export type OrganizationDomainView = Omit<OrganizationDomain, "verification_token"> & {
+  // The TXT record to publish; shown until the domain is verified
+  record: { name: string; value: string };
+};
+
+function toView({ verification_token, ...domain }: OrganizationDomain): OrganizationDomainView {
+  return { ...domain, record: verificationRecord(domain.domain, verification_token) };
+}
+
+/**
+ * Authorize settings:update and resolve the active organization
+ */
+async function authorizeDomains() {
+  const auth = await authorizeRequest({ resource: "settings", action: "update" });
+  if (!auth.success) {
+    return { success: false as const, error: auth.error.message, code: auth.error.code };
+  }
+  if (!auth.data.organizationId) {
+    return { success: false as const, error: "No active organization" };
+  }
+  return { success: true as const, organizationId: auth.data.organizationId };
+}
+
+/**
+ * One of the active organization's domains
+ */
+async function findOrganizationDomain(id: string, organizationId: string) {
+  const domain = await organizationDomainsService.getDomainById(id, "admin");
+  return domain.success && domain.data?.organization_id === organizationId ? domain.data : null;
+}
+
+/**
+ * List the active organization's domains with their verification records
+ */
+export async function getOrganizationDomains() {
+  try {
+    const auth = await authorizeDomains();
+    if (!auth.success) return auth;
+
+    const domains = await organizationDomainsService.getDomainsForOrganization(auth.organizationId, "admin");
+    return { success: true, domains: domains.map(toView) };
+  } catch (error) {
+    console.error("Unexpected error loading domains:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error loading domains"
+    };
+  }
+}
+
+/**
+ * Claim a domain for the active organization. It does nothing until verified.
+ *
+ * @param value - The domain as typed, e.g. "example.com"
+ */
+export async function addOrganizationDomain(value: string) {
+  try {
+    const auth = await authorizeDomains();
+    if (!auth.success) return auth;
+
+    const domain = normalizeDomain(value);
+    if (!domain) {
+      return { success: false, error: `"${value.trim()}" isn't a domain name` };
+    }
+    if (isPublicEmailDomain(domain)) {
+      return { success: false, error: `${domain} is a public email provider and can't be claimed` };
+    }
+
+    const claimed = await organizationDomainsService.getDomainsForOrganization(auth.organizationId, "admin");
+    if (claimed.some((existing) => existing.domain === domain)) {
+      return { success: false, error: `${domain} has already been added` };
+    }
+
+    const result = await organizationDomainsService.addDomain(
+      auth.organizationId,
+      domain,
+      createVerificationToken(),
+      "admin"
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error?.message || "Failed to add domain" };
+    }
+
+    return { success: true, domain: toView(result.data) };
+  } catch (error) {
+    console.error("Unexpected error adding domain:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error adding domain"
+    };
+  }
+}
+
+/**
+ * Check the domain's DNS for its verification record and mark it verified
+ *
+ * @param id - The domain ID
+ */
+export async function verifyOrganizationDomain(id: string) {
+  try {
+    const auth = await authorizeDomains();
+    if (!auth.success) return auth;
+
+    const domain = await findOrganizationDomain(id, auth.organizationId);
+    if (!domain) {
+      return { success: false, error: "Domain not found" };
+    }
+    if (domain.verified_at) {
+      return { success: true, domain: toView(domain) };
+    }
+
+    const owner = await organizationDomainsService.getVerifiedDomain(domain.domain, "admin");
+    if (!owner.success) {
+      return { success: false, error: owner.error?.message || "Failed to verify domain" };
+    }
+    if (owner.data) {
+      return { success: false, error: `${domain.domain} is already verified by another organization` };
+    }
+
+    if (!(await hasVerificationRecord(domain.domain, domain.verification_token))) {
+      const { name } = verificationRecord(domain.domain, domain.verification_token);
+      return { success: false, error: `No verification record found at ${name}. DNS changes can take a while to appear.` };
+    }
+
+    const result = await organizationDomainsService.markDomainVerified(id, "admin");
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error?.message || "Failed to verify domain" };
+    }
+
+    return { success: true, domain: toView(result.data) };
+  } catch (error) {
+    console.error("Unexpected error verifying domain:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error verifying domain"
+    };
+  }
+}
+
+/**
+ * Choose whether new users with the domain's email addresses join the
+ * active organization
+ *
+ * @param id - The domain ID
+ * @param autoJoin - Whether they join
+ */
+export async function setDomainAutoJoin(id: string, autoJoin: boolean) {
+  try {
+    const auth = await authorizeDomains();
+    if (!auth.success) return auth;
+
+    if (!(await findOrganizationDomain(id, auth.organizationId))) {
+      return { success: false, error: "Domain not found" };
+    }
+
+    const result = await organizationDomainsService.setAutoJoin(id, autoJoin, "admin");
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error?.message || "Failed to update domain" };
+    }
+
+    return { success: true, domain: toView(result.data) };
+  } catch (error) {
+    console.error("Unexpected error updating domain:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error updating domain"
+    };
+  }
+}
+
+/**
+ * Give up one of the active organization's domains
+ *
+ * @param id - The domain ID
+ */
+export async function removeOrganizationDomain(id: string) {
+  try {
+    const auth = await authorizeDomains();
+    if (!auth.success) return auth;
+
+    if (!(await findOrganizationDomain(id, auth.organizationId))) {
+      return { success: false, error: "Domain not found" };
+    }
+
+    const result = await organizationDomainsService.removeDomain(id, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to remove domain" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error removing domain:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error removing domain"
+    };
+  }
+}
@@ -0,0 +1,71 @@
+"use server";
+
+/**
+ * Identity Actions
+ *
+ * Server-side actions for the OpenID Connect accounts linked to the current
+ * user. Google, GitHub and Microsoft identities live in Supabase Auth and are
+ * managed from the browser through the auth service instead.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import { userIdentitiesService } from "@/modules/user-identities";
+
+/**
+ * List the OpenID Connect accounts linked to the current user
+ */
+export async function getLinkedIdentities() {
+  try {
+    const auth = await authorizeRequest();
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const result = await userIdentitiesService.getIdentitiesForUser(auth.data.user.id, "admin");
+    const identities = result.map(({ id, provider, email, created_at, last_sign_in_at }) => ({
+      id,
+      provider,
+      email,
+      created_at,
+      last_sign_in_at,
+    }));
+
+    return { success: true, identities };
+  } catch (error) {
+    console.error("Unexpected error listing linked identities:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error listing linked identities"
+    };
+  }
+}
+
+/**
+ * Unlink one of the current user's OpenID Connect accounts
+ *
+ * @param identityId - The identity to unlink
+ */
+export async function unlinkOidcIdentity(identityId: string) {
+  try {
+    const auth = await authorizeRequest();
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const result = await userIdentitiesService.deleteIdentity(identityId, auth.data.user.id, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to unlink account" };
+    }
+    if (!result.data) {
+      return { success: false, error: "Linked account not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error unlinking identity:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error unlinking identity"
+    };
+  }
+}
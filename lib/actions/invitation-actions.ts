@@ -0,0 +1,275 @@
+"use server";
+
+/**
+ * Invitation Actions
+ *
+ * Server-side actions for inviting users. Admin actions are guarded with
+ * `authorizeRequest`; looking up and accepting an invitation is public and
+ * relies on the single-use, expiring token instead.
+ */
+
+import { emailService } from "../email-service";
+import { authorizeRequest } from "../with-auth";
+import { generateToken, hashToken } from "../tokens";
+import { invitationsService, getInvitationStatus, type Invitation } from "@/modules/invitations";
+import { usersService } from "@/modules/users";
+import { runUnitOfWork, unwrap } from "../unit-of-work";
+import { provisionUserSteps } from "../user-provisioning";
+
+// Invitation links are valid for 24 hours (matches the invite email copy)
+const INVITATION_TTL_MS = 1000 * 60 * 60 * 24;
+
+export type InvitationSummary = Omit<Invitation, "token_hash"> & {
+  status: ReturnType<typeof getInvitationStatus>;
+};
+
+function toSummary(invitation: Invitation): InvitationSummary {
+  const { token_hash, ...rest } = invitation;
+  return { ...rest, status: getInvitationStatus(invitation) };
+}
+
+// Admins can only manage invitations issued for their active organization
+function belongsToOrganization(invitation: Invitation, organizationId: string | null): boolean {
+  return !invitation.organization_id || invitation.organization_id === organizationId;
+}
+
+/**
+ * Send the invite email. When email is not configured the link is
+ * returned so the admin can share it manually.
+ */
+async function deliverInvitation(email: string, token: string) {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3010";
+  const inviteLink = `${baseUrl}/auth/accept-invite/${token}`;
+
+  try {
+    const result = await emailService.sendInviteEmail(email, inviteLink);
+    if (result.success) {
+      return { emailSent: true };
+    }
+  } catch (error) {
+    console.error("Error sending invite email:", error);
+  }
+
+  return { emailSent: false, inviteLink };
+}
+
+/**
+ * Invite a user by email with the given role
+ *
+ * @param email - Email address to invite
+ * @param roleId - Role assigned when the invitation is accepted
+ */
+export async function inviteUser(email: string, roleId: string) {
+  try {
+    const auth = await authorizeRequest({ resource: "users", action: "create" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const existingUser = await usersService.getUserByEmail(normalizedEmail, "admin", true);
+    if (existingUser.data?.deleted_at) {
+      return { success: false, error: "A deleted user has this email. Restore them from Deleted Users instead." };
+    }
+    if (existingUser.data) {
+      return { success: false, error: "A user with this email already exists" };
+    }
+
+    const openInvitation = await invitationsService.getOpenInvitationByEmail(normalizedEmail, "admin");
+    if (openInvitation.data) {
+      if (getInvitationStatus(openInvitation.data) === "pending") {
+        return { success: false, error: "This email already has a pending invitation. Resend it instead." };
+      }
+      // Expired invitations are revoked so a fresh one can be issued
+      await invitationsService.revokeInvitation(openInvitation.data.id, "admin");
+    }
+
+    const { token, tokenHash, expiresAt } = generateToken(INVITATION_TTL_MS);
+    const result = await invitationsService.createInvitation(
+      {
+        email: normalizedEmail,
+        role_id: roleId,
+        organization_id: auth.data.organizationId,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        invited_by: auth.data.user.id,
+      },
+      "admin"
+    );
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error?.message || "Failed to create invitation" };
+    }
+
+    const delivery = await deliverInvitation(normalizedEmail, token);
+    return { success: true, invitation: toSummary(result.data), ...delivery };
+  } catch (error) {
+    console.error("Unexpected error inviting user:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error inviting user"
+    };
+  }
+}
+
+/**
+ * Issue a new token for an invitation, extend its expiry and email it again.
+ * The previous link stops working.
+ *
+ * @param id - Invitation ID
+ */
+export async function resendInvitation(id: string) {
+  try {
+    const auth = await authorizeRequest({ resource: "users", action: "create" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const existing = await invitationsService.getInvitationById(id, "admin");
+    if (!existing.success || !existing.data || !belongsToOrganization(existing.data, auth.data.organizationId)) {
+      return { success: false, error: "Invitation not found" };
+    }
+
+    const status = getInvitationStatus(existing.data);
+    if (status === "accepted" || status === "revoked") {
+      return { success: false, error: `Invitation has already been ${status}` };
+    }
+
+    const { token, tokenHash, expiresAt } = generateToken(INVITATION_TTL_MS);
+    const result = await invitationsService.updateInvitation(
+      id,
+      { token_hash: tokenHash, expires_at: expiresAt },
+      "admin"
+    );
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error?.message || "Failed to resend invitation" };
+    }
+
+    const delivery = await deliverInvitation(existing.data.email, token);
+    return { success: true, invitation: toSummary({ ...existing.data, ...result.data }), ...delivery };
+  } catch (error) {
+    console.error("Unexpected error resending invitation:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error resending invitation"
+    };
+  }
+}
+
+/**
+ * Revoke an invitation
+ *
+ * @param id - Invitation ID
+ */
+export async function revokeInvitation(id: string) {
+  try {
+    const auth = await authorizeRequest({ resource: "users", action: "create" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const existing = await invitationsService.getInvitationById(id, "admin");
+    if (!existing.success || !existing.data || !belongsToOrganization(existing.data, auth.data.organizationId)) {
+      return { success: false, error: "Invitation not found" };
+    }
+
+    const result = await invitationsService.revokeInvitation(id, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to revoke invitation" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error revoking invitation:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error revoking invitation"
+    };
+  }
+}
+
+/**
+ * List invitations for the admin UI (token hashes are never returned)
+ */
+export async function listInvitations() {
+  const auth = await authorizeRequest({ resource: "users", action: "read" });
+  if (!auth.success) {
+    return { success: false, error: auth.error.message, code: auth.error.code, invitations: [] };
+  }
+
+  const invitations = await invitationsService.getInvitations("admin", auth.data.organizationId);
+  return { success: true, invitations: invitations.map(toSummary) };
+}
+
+/**
+ * Resolve an invitation token for the accept page
+ *
+ * @param token - Raw invitation token from the link
+ */
+export async function getInvitationByToken(token: string) {
+  const result = await invitationsService.getInvitationByTokenHash(hashToken(token), "admin");
+  if (!result.success || !result.data) {
+    return { success: false, error: "This invitation link is invalid" };
+  }
+
+  const status = getInvitationStatus(result.data);
+  if (status !== "pending") {
+    return { success: false, error: `This invitation has ${status === "expired" ? "expired" : `been ${status}`}` };
+  }
+
+  return {
+    success: true,
+    invitation: { email: result.data.email, role: result.data.roles?.name || null },
+  };
+}
+
+/**
+ * Accept an invitation: creates the auth user and the user_profile row
+ * with the invited role, then consumes the token.
+ *
+ * @param token - Raw invitation token from the link
+ * @param details - Name and password chosen by the invitee
+ */
+export async function acceptInvitation(
+  token: string,
+  details: { firstName: string; lastName: string; password: string }
+) {
+  try {
+    const lookup = await invitationsService.getInvitationByTokenHash(hashToken(token), "admin");
+    const invitation = lookup.data;
+    if (!lookup.success || !invitation || getInvitationStatus(invitation) !== "pending") {
+      return { success: false, error: "This invitation link is invalid or has expired" };
+    }
+
+    // Accepting consumes the invitation, so it is undone along with the account
+    const result = await runUnitOfWork("accept-invitation", async (uow) => {
+      const user = await provisionUserSteps(uow, {
+        email: invitation.email,
+        password: details.password,
+        firstName: details.firstName,
+        lastName: details.lastName,
+        roleId: invitation.role_id,
+        organizationId: invitation.organization_id ?? null,
+        metadata: { role_id: invitation.role_id },
+      });
+
+      await uow.step("mark-invitation-accepted", async () =>
+        unwrap(await invitationsService.markInvitationAccepted(invitation.id, user.id, "admin"))
+      );
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to create account" };
+    }
+
+    return { success: true, email: invitation.email };
+  } catch (error) {
+    console.error("Unexpected error accepting invitation:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error accepting invitation"
+    };
+  }
+}
@@ -0,0 +1,97 @@
+"use server";
+
+/**
+ * MFA Actions
+ *
+ * Server-side actions for two-factor recovery codes. Generating codes takes a
+ * session that has completed MFA; redeeming one is for users stuck at the MFA
+ * challenge, so it is allowed while the challenge is pending.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import { createClient } from "../supabase/server";
+import { issueRecoveryCodes, redeemRecoveryCode } from "../mfa-recovery";
+import { mfaRecoveryCodesService } from "@/modules/mfa-recovery-codes";
+
+/**
+ * Generate a new set of recovery codes, replacing any earlier ones. The codes
+ * are returned once and can't be read back.
+ */
+export async function generateRecoveryCodes() {
+  try {
+    const auth = await authorizeRequest();
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    // Codes only make sense for users with an authenticator, verified this session
+    const supabase = await createClient();
+    const { data: level } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (level?.currentLevel !== "aal2") {
+      return { success: false, error: "Set up an authenticator app first" };
+    }
+
+    const codes = await issueRecoveryCodes(auth.data.user.id);
+    return { success: true, codes };
+  } catch (error) {
+    console.error("Unexpected error generating recovery codes:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error generating recovery codes"
+    };
+  }
+}
+
+/**
+ * How many unused recovery codes the current user has left
+ */
+export async function getRecoveryCodeCount() {
+  try {
+    const auth = await authorizeRequest();
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const count = await mfaRecoveryCodesService.countUnusedRecoveryCodes(auth.data.user.id, "admin");
+    if (!count.success) {
+      return { success: false, error: count.error?.message || "Failed to count recovery codes" };
+    }
+
+    return { success: true, count: count.data ?? 0 };
+  } catch (error) {
+    console.error("Unexpected error counting recovery codes:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error counting recovery codes"
+    };
+  }
+}
+
+/**
+ * Sign in with a recovery code instead of the authenticator app. The code is
+ * used up and the user's authenticators are removed; the client refreshes its
+ * session and, if their role requires MFA, enrolls a new one.
+ *
+ * @param code - A recovery code, as entered
+ */
+export async function signInWithRecoveryCode(code: string) {
+  try {
+    const auth = await authorizeRequest({ allowPendingMfa: true });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const redeemed = await redeemRecoveryCode(auth.data.user.id, code);
+    if (!redeemed) {
+      return { success: false, error: "Invalid or already used recovery code" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error redeeming recovery code:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error redeeming recovery code"
+    };
+  }
+}
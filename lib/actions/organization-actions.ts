@@ -0,0 +1,105 @@
+"use server";
+
+/**
+ * Organization Actions
+ *
+ * Server-side actions for listing the signed-in user's organizations and
+ * switching the active one. The switch is done in the database so RLS,
+ * permission checks and settings all follow the new organization.
+ */
+
+import { createClient } from "../supabase/server";
+import { authorizeRequest } from "../with-auth";
+import { organizationsService } from "@/modules/organizations";
+import { usersService } from "@/modules/users";
+
+export type OrganizationSummary = {
+  id: string;
+  name: string;
+  slug: string;
+  role: string | null;
+  isActive: boolean;
+};
+
+/**
+ * List the organizations the signed-in user belongs to
+ */
+export async function getMyOrganizations() {
+  const auth = await authorizeRequest();
+  if (!auth.success) {
+    return { success: false, error: auth.error.message, code: auth.error.code, organizations: [] };
+  }
+
+  const memberships = await organizationsService.getMembershipsForUser(auth.data.user.id, "admin");
+  const organizations: OrganizationSummary[] = memberships
+    .filter((membership) => membership.organizations)
+    .map((membership) => ({
+      id: membership.organization_id,
+      name: membership.organizations!.name,
+      slug: membership.organizations!.slug,
+      role: membership.roles?.name ?? null,
+      isActive: membership.organization_id === auth.data.organizationId,
+    }));
+
+  return { success: true, organizations, activeOrganizationId: auth.data.organizationId };
+}
+
+/**
+ * Switch the signed-in user's active organization
+ *
+ * @param organizationId - Organization to switch to (must be a member)
+ */
+export async function switchOrganization(organizationId: string) {
+  try {
+    const auth = await authorizeRequest();
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const result = await organizationsService.switchActiveOrganization(
+      auth.data.user.id,
+      organizationId,
+      "admin"
+    );
+
+    if (!result.success) {
+      const notMember = result.error?.code === "42501";
+      return {
+        success: false,
+        error: notMember
+          ? "You are not a member of this organization"
+          : result.error?.message || "Failed to switch organization",
+        code: notMember ? "FORBIDDEN" : undefined,
+      };
+    }
+
+    return { success: true, organizationId, roleId: result.data };
+  } catch (error) {
+    console.error("Unexpected error switching organization:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error switching organization"
+    };
+  }
+}
+
+/**
+ * Get the signed-in user's active organization ID, or null when signed out.
+ * Safe to call from server components (e.g. metadata generation).
+ */
+export async function getCurrentOrganizationId(): Promise<string | null> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) return null;
+
+    const result = await usersService.getUserById(user.id, "admin");
+    return result.data?.active_organization_id ?? null;
+  } catch (error) {
+    console.error("Unexpected error resolving organization:", error);
+    return null;
+  }
+}
@@ -0,0 +1,86 @@
+"use server";
+
+/**
+ * Passwordless Actions
+ *
+ * Public server actions behind the magic link and email code modes of the
+ * login page. Requests answer the same way whether or not the email has an
+ * account; only the rate limit is reported.
+ */
+
+import * as z from "zod";
+import { getRequestOrigin } from "../request-origin";
+import {
+  LOGIN_CODE_METHODS,
+  isLoginCodeRequestLimited,
+  sendLoginCode,
+  verifyPasswordlessLogin,
+  type LoginCodeMethod,
+} from "../passwordless-login";
+
+const emailSchema = z.string().trim().toLowerCase().email();
+
+/**
+ * Email a magic link or a six-digit sign-in code
+ *
+ * @param email - Email address to sign in
+ * @param method - "magic_link" or "email_otp"
+ */
+export async function requestLoginCode(email: string, method: LoginCodeMethod) {
+  const genericResponse = {
+    success: true,
+    message: method === "magic_link"
+      ? "If an account exists for this email, a sign-in link has been sent."
+      : "If an account exists for this email, a sign-in code has been sent.",
+  };
+
+  try {
+    const parsed = emailSchema.safeParse(email);
+    if (!parsed.success || !LOGIN_CODE_METHODS.includes(method)) {
+      return { success: false, error: "Enter a valid email address" };
+    }
+
+    const { ipAddress } = await getRequestOrigin();
+    if (await isLoginCodeRequestLimited(parsed.data, method, ipAddress)) {
+      return {
+        success: false,
+        error: "Too many sign-in requests. Please try again in a few minutes.",
+        code: "RATE_LIMITED",
+      };
+    }
+
+    await sendLoginCode(parsed.data, method);
+    return genericResponse;
+  } catch (error) {
+    console.error("Error requesting sign-in code:", error);
+    return {
+      success: false,
+      error: "Something went wrong, so please try again later."
+    };
+  }
+}
+
+/**
+ * Sign in with a code from a sign-in email. The session is set in the
+ * request cookies.
+ *
+ * @param email - Email address the code was sent to
+ * @param code - The six-digit code
+ */
+export async function verifyLoginCode(email: string, code: string) {
+  try {
+    const parsed = emailSchema.safeParse(email);
+    if (!parsed.success || !/^\d{6}$/.test(code.trim())) {
+      return { success: false, error: "Enter the six-digit code from the email" };
+    }
+
+    const result = await verifyPasswordlessLogin({ email: parsed.data, code });
+    return result.success ? { success: true } : { success: false, error: result.error };
+  } catch (error) {
+    console.error("Error verifying sign-in code:", error);
+    return {
+      success: false,
+      error: "Something went wrong, so please try again later."
+    };
+  }
+}
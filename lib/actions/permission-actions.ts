@@ -0,0 +1,48 @@
+"use server";
+
+/**
+ * Permission Actions
+ *
+ * Server-side helpers that resolve the signed-in user from the request
+ * cookies and evaluate their role_access grants with the permission engine.
+ */
+
+import { createClient } from "../supabase/server";
+import { usersService } from "@/modules/users";
+import { hasPermission, getRoleAccess, type PermissionAction } from "../permissions";
+import type { RoleAccess } from "@/modules/roles/models/role";
+
+/**
+ * Get the role_access grants of the currently signed-in user
+ */
+export async function getCurrentUserPermissions(): Promise<RoleAccess[]> {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) return [];
+
+    const result = await usersService.getUserById(user.id, "admin");
+    if (!result.success || !result.data || !result.data.is_active) {
+      return [];
+    }
+
+    return getRoleAccess(result.data);
+  } catch (error) {
+    console.error("Unexpected error loading permissions:", error);
+    return [];
+  }
+}
+
+/**
+ * Check whether the currently signed-in user may perform `action` on `resource`
+ *
+ * @param resource - Resource name, e.g. 'users'
+ * @param action - Action name, e.g. 'delete'
+ */
+export async function checkPermission(resource: string, action: PermissionAction): Promise<boolean> {
+  const grants = await getCurrentUserPermissions();
+  return hasPermission(grants, resource, action);
+}
@@ -0,0 +1,94 @@
+"use server";
+
+/**
+ * Role Actions
+ *
+ * Server-side actions for saving and removing roles. The role management
+ * functions and writes to the roles table are only open to the service role,
+ * so the role dialog and the roles table go through here.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import { rolesService, type RoleInput } from "@/modules/roles";
+
+/**
+ * Create a role with its permissions
+ *
+ * @param role - Role name, description, MFA requirement and access entries
+ */
+export async function createRole(role: RoleInput) {
+  try {
+    const auth = await authorizeRequest({ resource: "roles", action: "create" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const result = await rolesService.createRole(role, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to create role" };
+    }
+
+    return { success: true, role: result.data };
+  } catch (error) {
+    console.error("Unexpected error creating role:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error creating role"
+    };
+  }
+}
+
+/**
+ * Update a role and replace its permissions
+ *
+ * @param id - The role to update
+ * @param updates - New name/description/MFA requirement and optionally the full access list
+ */
+export async function updateRole(id: string, updates: Partial<RoleInput>) {
+  try {
+    const auth = await authorizeRequest({ resource: "roles", action: "update" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const result = await rolesService.updateRole(id, updates, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to update role" };
+    }
+
+    return { success: true, role: result.data };
+  } catch (error) {
+    console.error("Unexpected error updating role:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error updating role"
+    };
+  }
+}
+
+/**
+ * Delete a role. Roles still assigned to users cannot be deleted.
+ *
+ * @param id - The role to delete
+ */
+export async function deleteRole(id: string) {
+  try {
+    const auth = await authorizeRequest({ resource: "roles", action: "delete" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const result = await rolesService.deleteRole(id, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to delete role", code: result.error?.code };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error deleting role:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error deleting role"
+    };
+  }
+}
@@ -0,0 +1,220 @@
+"use server";
+
+/**
+ * Session Actions
+ *
+ * Server-side actions for the current user's sessions: recording password
+ * sign-ins and sign-outs made in the browser, the periodic check that signs
+ * out revoked sessions, and listing and revoking sessions from the profile
+ * settings.
+ * Sign-ins that happen on the server record their session themselves.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import { createClient } from "../supabase/server";
+import { getCurrentSessionId, recordUserSession, revokeUserSessions } from "../user-sessions";
+import { userSessionsService } from "@/modules/user-sessions";
+
+// Supabase Auth error code for a token whose session no longer exists
+const SESSION_NOT_FOUND = "session_not_found";
+
+/**
+ * The signed-in user and the ID of the session the request carries.
+ * Sessions that still owe an MFA step count: they are sessions all the same.
+ */
+async function authorizeSession() {
+  const auth = await authorizeRequest({ allowPendingMfa: true });
+  if (!auth.success) {
+    return { success: false as const, error: auth.error.message, code: auth.error.code };
+  }
+
+  const sessionId = await getCurrentSessionId(await createClient());
+  if (!sessionId) {
+    return { success: false as const, error: "Session not found" };
+  }
+
+  return { success: true as const, userId: auth.data.user.id, sessionId };
+}
+
+/**
+ * Record the session a password sign-in in the browser just started
+ */
+export async function recordSignIn() {
+  try {
+    const auth = await authorizeRequest({ allowPendingMfa: true });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const { data } = await (await createClient()).auth.getSession();
+    const session = data.session ? await recordUserSession(data.session.access_token) : null;
+    if (!session) {
+      return { success: false, error: "Failed to record session" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error recording sign-in:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error recording sign-in"
+    };
+  }
+}
+
+/**
+ * Mark the current session as ended, just before the browser signs out
+ */
+export async function recordSignOut() {
+  try {
+    const auth = await authorizeSession();
+    if (!auth.success) {
+      return auth;
+    }
+
+    const result = await userSessionsService.markSessionsRevoked(auth.userId, { only: [auth.sessionId] }, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to record sign-out" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error recording sign-out:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error recording sign-out"
+    };
+  }
+}
+
+/**
+ * Check the current session is still live and note that it was used.
+ * Sessions from before sessions were recorded are recorded now.
+ *
+ * @returns `revoked` when the session was revoked, from here or elsewhere.
+ *   Other failures are plain errors, since they don't mean the session ended.
+ */
+export async function checkCurrentSession() {
+  try {
+    const auth = await authorizeRequest({ allowPendingMfa: true });
+    if (!auth.success) {
+      // Supabase Auth reports the session gone once it is revoked
+      const ended = auth.error.details?.authCode === SESSION_NOT_FOUND;
+      return { success: false, error: auth.error.message, code: auth.error.code, revoked: ended };
+    }
+
+    const sessionId = await getCurrentSessionId(await createClient());
+    if (!sessionId) {
+      return { success: false, error: "Session not found", revoked: false };
+    }
+
+    const existing = await userSessionsService.getSessionById(sessionId, "admin");
+    if (!existing.success) {
+      return { success: false, error: existing.error?.message || "Failed to check session", revoked: false };
+    }
+    if (existing.data?.revoked_at) {
+      return { success: true, revoked: true };
+    }
+
+    if (existing.data) {
+      await userSessionsService.touchSession(sessionId, "admin");
+    } else {
+      const { data } = await (await createClient()).auth.getSession();
+      if (data.session) {
+        await recordUserSession(data.session.access_token);
+      }
+    }
+
+    return { success: true, revoked: false };
+  } catch (error) {
+    console.error("Unexpected error checking session:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error checking session",
+      revoked: false
+    };
+  }
+}
+
+/**
+ * List where the current user is signed in, most recently used first
+ */
+export async function getMySessions() {
+  try {
+    const auth = await authorizeSession();
+    if (!auth.success) {
+      return auth;
+    }
+
+    const result = await userSessionsService.getActiveSessionsForUser(auth.userId, "admin");
+    const sessions = result.map(({ id, device, ip_address, user_agent, created_at, last_seen_at }) => ({
+      id,
+      device,
+      ip_address,
+      user_agent,
+      created_at,
+      last_seen_at,
+      current: id === auth.sessionId,
+    }));
+
+    return { success: true, sessions };
+  } catch (error) {
+    console.error("Unexpected error listing sessions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error listing sessions"
+    };
+  }
+}
+
+/**
+ * Sign out one of the current user's other sessions
+ *
+ * @param sessionId - The session to revoke
+ */
+export async function revokeMySession(sessionId: string) {
+  try {
+    const auth = await authorizeSession();
+    if (!auth.success) {
+      return auth;
+    }
+    if (sessionId === auth.sessionId) {
+      return { success: false, error: "Sign out to end this session" };
+    }
+
+    const revoked = await revokeUserSessions(auth.userId, { only: [sessionId] });
+    if (revoked === 0) {
+      return { success: false, error: "Session not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error revoking session:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error revoking session"
+    };
+  }
+}
+
+/**
+ * Sign out every session of the current user except this one
+ */
+export async function revokeOtherSessions() {
+  try {
+    const auth = await authorizeSession();
+    if (!auth.success) {
+      return auth;
+    }
+
+    const revoked = await revokeUserSessions(auth.userId, { except: auth.sessionId });
+
+    return { success: true, revoked };
+  } catch (error) {
+    console.error("Unexpected error revoking other sessions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error revoking other sessions"
+    };
+  }
+}
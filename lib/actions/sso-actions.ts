@@ -0,0 +1,253 @@
+"use server";
+
+/**
+ * SSO Actions
+ *
+ * Server-side actions for the active organization's single sign-on
+ * connection and group-to-role mappings. Connections hold client secrets, so
+ * they are only read and written through here, by users who can update the
+ * organization's settings. The secret itself is never sent back.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import { fetchIdpMetadata, parseIdpMetadata } from "../saml";
+import { discoverOidcProvider } from "../oidc";
+import { organizationDomainsService } from "@/modules/organization-domains";
+import {
+  ssoConnectionsService,
+  type SsoConnection,
+  type SsoConnectionInput,
+  type SsoGroupMappingInput,
+  type SsoProtocol,
+} from "@/modules/sso-connections";
+
+export type SsoConnectionView = Omit<SsoConnection, "oidc_client_secret"> & {
+  has_client_secret: boolean;
+};
+
+export type SsoConnectionForm = {
+  protocol: SsoProtocol;
+  enabled: boolean;
+  domains: string[];
+  metadataUrl?: string | null;
+  metadataXml?: string | null;
+  oidcIssuer?: string | null;
+  oidcClientId?: string | null;
+  // Left empty to keep the saved secret
+  oidcClientSecret?: string | null;
+  groupsAttribute?: string | null;
+  defaultRoleId?: string | null;
+};
+
+function toView(connection: SsoConnection): SsoConnectionView {
+  const { oidc_client_secret, ...rest } = connection;
+  return { ...rest, has_client_secret: !!oidc_client_secret };
+}
+
+function normalizeDomains(domains: string[]): string[] {
+  const normalized = domains
+    .map((domain) => domain.trim().toLowerCase().replace(/^@/, ""))
+    .filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * The connection fields for a SAML form: the metadata as given, plus the
+ * parts parsed from it. OpenID Connect fields are cleared.
+ */
+async function samlFields(form: SsoConnectionForm): Promise<Partial<SsoConnectionInput>> {
+  const metadataUrl = form.metadataUrl?.trim() || null;
+  const { xml, metadata } = metadataUrl
+    ? await fetchIdpMetadata(metadataUrl)
+    : { xml: form.metadataXml?.trim() || "", metadata: parseIdpMetadata(form.metadataXml?.trim() || "") };
+
+  return {
+    metadata_url: metadataUrl,
+    metadata_xml: xml,
+    idp_entity_id: metadata.entityId,
+    idp_sso_url: metadata.ssoUrl,
+    idp_certificates: metadata.certificates,
+    oidc_issuer: null,
+    oidc_client_id: null,
+    oidc_client_secret: null,
+  };
+}
+
+/**
+ * The connection fields for an OpenID Connect form, after checking the issuer
+ * publishes a discovery document. SAML fields are cleared.
+ */
+async function oidcFields(
+  form: SsoConnectionForm,
+  existing: SsoConnection | null
+): Promise<Partial<SsoConnectionInput>> {
+  const issuer = form.oidcIssuer?.trim() || "";
+  const clientId = form.oidcClientId?.trim() || "";
+  const clientSecret = form.oidcClientSecret?.trim() || existing?.oidc_client_secret || "";
+  if (!issuer || !clientId || !clientSecret) {
+    throw new Error("Issuer, client ID and client secret are required");
+  }
+
+  await discoverOidcProvider(issuer);
+  return {
+    oidc_issuer: issuer,
+    oidc_client_id: clientId,
+    oidc_client_secret: clientSecret,
+    metadata_url: null,
+    metadata_xml: null,
+    idp_entity_id: null,
+    idp_sso_url: null,
+    idp_certificates: [],
+  };
+}
+
+/**
+ * Get the active organization's connection and group mappings
+ */
+export async function getSsoConfiguration() {
+  try {
+    const auth = await authorizeRequest({ resource: "settings", action: "update" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+    if (!auth.data.organizationId) {
+      return { success: false, error: "No active organization" };
+    }
+
+    const connection = await ssoConnectionsService.getConnectionForOrganization(auth.data.organizationId, "admin");
+    if (!connection.success) {
+      return { success: false, error: connection.error?.message || "Failed to load single sign-on" };
+    }
+    if (!connection.data) {
+      return { success: true, connection: null, mappings: [] };
+    }
+
+    const mappings = await ssoConnectionsService.getGroupMappings(connection.data.id, "admin");
+    return { success: true, connection: toView(connection.data), mappings };
+  } catch (error) {
+    console.error("Unexpected error loading single sign-on:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error loading single sign-on"
+    };
+  }
+}
+
+/**
+ * Create or update the active organization's connection. SAML metadata is
+ * downloaded (from a URL) or read (from XML) and checked before saving, and
+ * every domain has to be one the organization has verified.
+ *
+ * @param form - The connection settings
+ */
+export async function saveSsoConnection(form: SsoConnectionForm) {
+  try {
+    const auth = await authorizeRequest({ resource: "settings", action: "update" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+    const organizationId = auth.data.organizationId;
+    if (!organizationId) {
+      return { success: false, error: "No active organization" };
+    }
+
+    const domains = normalizeDomains(form.domains);
+    if (form.enabled && domains.length === 0) {
+      return { success: false, error: "Add at least one email domain before turning single sign-on on" };
+    }
+
+    // Only domains the organization proved it owns can lead to its identity
+    // provider. Each is verified by at most one organization.
+    for (const domain of domains) {
+      const verified = await organizationDomainsService.getVerifiedDomain(domain, "admin");
+      if (!verified.success) {
+        return { success: false, error: verified.error?.message || "Failed to check domains" };
+      }
+      if (verified.data?.organization_id !== organizationId) {
+        return { success: false, error: `Verify ${domain} under Domains before using it for single sign-on` };
+      }
+    }
+
+    const existing = await ssoConnectionsService.getConnectionForOrganization(organizationId, "admin");
+    if (!existing.success) {
+      return { success: false, error: existing.error?.message || "Failed to load single sign-on" };
+    }
+
+    let protocolFields: Partial<SsoConnectionInput>;
+    try {
+      protocolFields = form.protocol === "saml"
+        ? await samlFields(form)
+        : await oidcFields(form, existing.data ?? null);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : "Invalid identity provider settings" };
+    }
+
+    const result = await ssoConnectionsService.saveConnection(
+      organizationId,
+      {
+        protocol: form.protocol,
+        enabled: form.enabled,
+        domains,
+        groups_attribute: form.groupsAttribute?.trim() || "groups",
+        default_role_id: form.defaultRoleId || null,
+        ...protocolFields,
+      },
+      "admin"
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error?.message || "Failed to save single sign-on" };
+    }
+
+    return { success: true, connection: toView(result.data) };
+  } catch (error) {
+    console.error("Unexpected error saving single sign-on:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error saving single sign-on"
+    };
+  }
+}
+
+/**
+ * Replace the active organization's group-to-role mappings. They apply from
+ * each user's next sign-in.
+ *
+ * @param mappings - Group names and the role each grants; lower priority wins
+ */
+export async function saveSsoGroupMappings(mappings: SsoGroupMappingInput[]) {
+  try {
+    const auth = await authorizeRequest({ resource: "settings", action: "update" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+    if (!auth.data.organizationId) {
+      return { success: false, error: "No active organization" };
+    }
+
+    const connection = await ssoConnectionsService.getConnectionForOrganization(auth.data.organizationId, "admin");
+    if (!connection.success || !connection.data) {
+      return { success: false, error: connection.error?.message || "Set up single sign-on first" };
+    }
+
+    const cleaned = mappings
+      .map((mapping) => ({ ...mapping, group_name: mapping.group_name.trim() }))
+      .filter((mapping) => mapping.group_name && mapping.role_id);
+    const names = cleaned.map((mapping) => mapping.group_name.toLowerCase());
+    if (new Set(names).size !== names.length) {
+      return { success: false, error: "Each group can only be mapped once" };
+    }
+
+    const result = await ssoConnectionsService.replaceGroupMappings(connection.data.id, cleaned, "admin");
+    if (!result.success) {
+      return { success: false, error: result.error?.message || "Failed to save group mappings" };
+    }
+
+    return { success: true, mappings: result.data || [] };
+  } catch (error) {
+    console.error("Unexpected error saving group mappings:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error saving group mappings"
+    };
+  }
+}
@@ -0,0 +1,239 @@
+"use server";
+
+/**
+ * User Actions
+ *
+ * Server-side actions for creating, deleting, restoring and purging users,
+ * resetting their two-factor authentication and signing them out everywhere
+ * from the admin users page. Admins can only act on members of their active
+ * organization, and never delete themselves.
+ */
+
+import { authorizeRequest } from "../with-auth";
+import {
+  deletionBlocker,
+  isOrganizationMember,
+  purgeDeletedUser,
+  restoreDeletedUser,
+  softDeleteUser,
+  softDeleteUsers,
+  type BulkDeletionResult,
+} from "../user-deletion";
+import { provisionUser, type NewUserAccount } from "../user-provisioning";
+import { resetMfaFactors } from "../mfa-recovery";
+import { revokeUserSessions } from "../user-sessions";
+
+/**
+ * Authorize a users:delete action against a target user
+ */
+async function authorizeUserDeletion(userId: string) {
+  const auth = await authorizeRequest({ resource: "users", action: "delete" });
+  if (!auth.success) {
+    return { success: false as const, error: auth.error.message, code: auth.error.code };
+  }
+
+  const blocker = await deletionBlocker(userId, auth.data.user.id, auth.data.organizationId);
+  if (blocker) {
+    return { success: false as const, error: blocker };
+  }
+
+  return { success: true as const };
+}
+
+/**
+ * Create a user with a password. The auth user and profile are created
+ * together; if the profile fails, the auth user is removed again.
+ *
+ * @param account - The new user's details; they join the admin's active organization
+ */
+export async function createUser(account: Omit<NewUserAccount, "organizationId" | "metadata">) {
+  try {
+    const auth = await authorizeRequest({ resource: "users", action: "create" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    const result = await provisionUser({
+      ...account,
+      email: account.email.trim().toLowerCase(),
+      organizationId: auth.data.organizationId,
+    });
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error?.message || "Failed to create user" };
+    }
+
+    return { success: true, user: result.data };
+  } catch (error) {
+    console.error("Unexpected error creating user:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error creating user"
+    };
+  }
+}
+
+/**
+ * Move a user to the trash. They can be restored until the retention period ends.
+ *
+ * @param userId - The user to delete
+ */
+export async function deleteUser(userId: string) {
+  try {
+    const auth = await authorizeUserDeletion(userId);
+    if (!auth.success) return auth;
+
+    return await softDeleteUser(userId);
+  } catch (error) {
+    console.error("Unexpected error deleting user:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error deleting user"
+    };
+  }
+}
+
+/**
+ * Move several users to the trash. Users the admin can't delete are reported
+ * as failed; the rest are still deleted.
+ *
+ * @param userIds - The users to delete
+ */
+export async function deleteUsers(userIds: string[]): Promise<BulkDeletionResult & { code?: string }> {
+  try {
+    const auth = await authorizeRequest({ resource: "users", action: "delete" });
+    if (!auth.success) {
+      return { success: false, results: [], error: auth.error.message, code: auth.error.code };
+    }
+
+    const ids = Array.from(new Set(userIds));
+    const blocked: BulkDeletionResult["results"] = [];
+    const allowed: string[] = [];
+    for (const id of ids) {
+      const blocker = await deletionBlocker(id, auth.data.user.id, auth.data.organizationId);
+      if (blocker) blocked.push({ id, success: false, error: blocker });
+      else allowed.push(id);
+    }
+
+    const deleted = await softDeleteUsers(allowed);
+    const results = [...deleted.results, ...blocked];
+    const failed = results.filter((result) => !result.success).length;
+
+    return failed === 0
+      ? { success: true, results }
+      : {
+          success: false,
+          results,
+          error: deleted.results.length === 0 && deleted.error
+            ? deleted.error
+            : `${failed} of ${results.length} users could not be deleted`,
+        };
+  } catch (error) {
+    console.error("Unexpected error deleting users:", error);
+    return {
+      success: false,
+      results: [],
+      error: error instanceof Error ? error.message : "Unknown error deleting users"
+    };
+  }
+}
+
+/**
+ * Restore a user from the trash
+ *
+ * @param userId - The user to restore
+ */
+export async function restoreUser(userId: string) {
+  try {
+    const auth = await authorizeUserDeletion(userId);
+    if (!auth.success) return auth;
+
+    return await restoreDeletedUser(userId);
+  } catch (error) {
+    console.error("Unexpected error restoring user:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error restoring user"
+    };
+  }
+}
+
+/**
+ * Permanently delete a user from the trash, including their auth account
+ *
+ * @param userId - The user to purge
+ */
+export async function purgeUser(userId: string) {
+  try {
+    const auth = await authorizeUserDeletion(userId);
+    if (!auth.success) return auth;
+
+    return await purgeDeletedUser(userId);
+  } catch (error) {
+    console.error("Unexpected error purging user:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error purging user"
+    };
+  }
+}
+
+/**
+ * Remove a user's two-factor authenticators and recovery codes, for users who
+ * lost their device. They sign in with their password next time and enroll
+ * again if their role requires it.
+ *
+ * @param userId - The user whose factors are removed
+ */
+export async function resetUserMfa(userId: string) {
+  try {
+    const auth = await authorizeRequest({ resource: "users", action: "update" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    if (!(await isOrganizationMember(userId, auth.data.organizationId))) {
+      return { success: false, error: "User not found" };
+    }
+
+    const removed = await resetMfaFactors(userId);
+    return { success: true, removed };
+  } catch (error) {
+    console.error("Unexpected error resetting two-factor authentication:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error resetting two-factor authentication"
+    };
+  }
+}
+
+/**
+ * End every session a user has, e.g. when their device or password may be
+ * compromised. They can sign in again straight away.
+ *
+ * @param userId - The user to sign out
+ */
+export async function signOutUserEverywhere(userId: string) {
+  try {
+    const auth = await authorizeRequest({ resource: "users", action: "update" });
+    if (!auth.success) {
+      return { success: false, error: auth.error.message, code: auth.error.code };
+    }
+
+    if (userId === auth.data.user.id) {
+      return { success: false, error: "Sign out your own sessions from your profile" };
+    }
+    if (!(await isOrganizationMember(userId, auth.data.organizationId))) {
+      return { success: false, error: "User not found" };
+    }
+
+    const revoked = await revokeUserSessions(userId);
+    return { success: true, revoked };
+  } catch (error) {
+    console.error("Unexpected error signing out user:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error signing out user"
+    };
+  }
+}
@@ -0,0 +1,110 @@
+"use server";
+
+/**
+ * User Import Actions
+ *
+ * Server-side actions behind the users import wizard: a dry run that shows
+ * what each row would do, and the import itself. The import plans the rows
+ * again rather than trusting the preview, since users may have changed since.
+ */
+
+import { authorizeRequest, type AuthContext } from "../with-auth";
+import { hasPermission } from "../permissions";
+import {
+  MAX_IMPORT_ROWS,
+  planUserImport,
+  runUserImport,
+  type UserImportPlanItem,
+  type UserImportResult,
+  type UserImportRow,
+} from "../user-import";
+
+/**
+ * A plan row as shown in the preview; resolved account details stay on the server
+ */
+export type UserImportPreviewItem = Omit<UserImportPlanItem, "account" | "userId">;
+
+type ImportAuthorization =
+  | { success: true; auth: AuthContext }
+  | { success: false; error: string; code?: string };
+
+async function authorizeImport(rows: UserImportRow[]): Promise<ImportAuthorization> {
+  const auth = await authorizeRequest({ resource: "users", action: "create" });
+  if (!auth.success) {
+    return { success: false, error: auth.error.message, code: auth.error.code };
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return { success: false, error: "The file has no rows to import" };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { success: false, error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  return { success: true, auth: auth.data };
+}
+
+/**
+ * Plan the rows for the admin's organization. Updates need users:update as
+ * well; without it they are rejected.
+ */
+async function planForAdmin(rows: UserImportRow[], auth: AuthContext) {
+  const plan = await planUserImport(rows, auth.organizationId);
+  if (hasPermission(auth.permissions, "users", "update")) return plan;
+
+  return plan.map((item) =>
+    item.action === "update"
+      ? { ...item, action: "error" as const, errors: ["You don't have permission to update existing users"] }
+      : item
+  );
+}
+
+/**
+ * Validate mapped rows and report what importing them would do, without
+ * writing anything
+ *
+ * @param rows - Spreadsheet rows mapped to user fields
+ */
+export async function previewUserImport(rows: UserImportRow[]) {
+  try {
+    const authorization = await authorizeImport(rows);
+    if (!authorization.success) return authorization;
+
+    const plan = await planForAdmin(rows, authorization.auth);
+    const items: UserImportPreviewItem[] = plan.map(
+      ({ account: _account, userId: _userId, ...item }) => item
+    );
+
+    return { success: true as const, items };
+  } catch (error) {
+    console.error("Unexpected error previewing user import:", error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : "Unknown error previewing import"
+    };
+  }
+}
+
+/**
+ * Create and update users from mapped rows. Rows that fail validation are
+ * skipped and reported; the others are imported.
+ *
+ * @param rows - Spreadsheet rows mapped to user fields
+ */
+export async function importUsers(rows: UserImportRow[]) {
+  try {
+    const authorization = await authorizeImport(rows);
+    if (!authorization.success) return authorization;
+
+    const plan = await planForAdmin(rows, authorization.auth);
+    const results: UserImportResult[] = await runUserImport(plan, authorization.auth.organizationId);
+
+    return { success: true as const, results };
+  } catch (error) {
+    console.error("Unexpected error importing users:", error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : "Unknown error importing users"
+    };
+  }
+}
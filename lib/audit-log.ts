@@ -0,0 +1,193 @@
+/**
+ * Audit Log
+ *
+ * Writes the audit entries for BaseService mutations. Mutations made on the
+ * server are recorded here directly; mutations made in the browser go through
+ * `recordBrowserAuditEvents`, which only trusts the signed-in user's
+ * permissions, the database and the log itself. The actor, organization, IP
+ * and user agent are resolved from the request rather than taken from the
+ * caller. Server only: this module is never exposed as a server action.
+ */
+
+import { getClient } from "./BaseService";
+import { authorizeRequest } from "./with-auth";
+import { getRequestOrigin } from "./request-origin";
+import { diffRecords, redactRecord, UNAUDITED_TABLES, type AuditEventInput } from "./audit";
+import { isOrganizationMember } from "./user-deletion";
+import { auditLogService } from "@/modules/audit-log";
+
+// Upper bound per call so a single request can't flood the log
+export const MAX_EVENTS_PER_CALL = 1000;
+
+export type AuditActor = {
+  id: string;
+  email: string | null;
+  organizationId: string | null;
+};
+
+/* ============================================================
+   Actors
+============================================================ */
+
+/**
+ * The signed-in user the current request runs for, or null outside a signed-in
+ * request (e.g. a sign-in that hasn't finished yet, or a script)
+ */
+export async function getAuditActor(): Promise<AuditActor | null> {
+  const auth = await authorizeRequest({ allowPendingMfa: true });
+  if (!auth.success) return null;
+
+  return {
+    id: auth.data.user.id,
+    email: auth.data.user.email ?? null,
+    organizationId: auth.data.organizationId,
+  };
+}
+
+/* ============================================================
+   Entries
+============================================================ */
+
+/**
+ * Events for tables that are audited, capped at MAX_EVENTS_PER_CALL
+ */
+export function auditableEvents(events: AuditEventInput[]): AuditEventInput[] {
+  return (Array.isArray(events) ? events : [])
+    .filter((event) => event && !UNAUDITED_TABLES.has(event.table_name))
+    .slice(0, MAX_EVENTS_PER_CALL);
+}
+
+/**
+ * Redact, diff and store audit entries for an actor
+ *
+ * @param events - One event per mutated record
+ * @param actor - Who made the change; null for changes the server made on its own
+ */
+export async function writeAuditEvents(
+  events: AuditEventInput[],
+  actor: AuditActor | null
+): Promise<{ success: boolean; error?: string }> {
+  const { ipAddress, userAgent } = await getRequestOrigin();
+
+  const entries = auditableEvents(events)
+    .map((event) => {
+      const before = redactRecord(event.before);
+      const after = redactRecord(event.after);
+      return {
+        request_id: event.request_id,
+        actor_id: actor?.id ?? null,
+        actor_email: actor?.email ?? null,
+        organization_id: actor?.organizationId ?? null,
+        table_name: event.table_name,
+        record_id: event.record_id,
+        action: event.action,
+        before,
+        after,
+        changes: diffRecords(before, after),
+        ip_address: ipAddress,
+        user_agent: userAgent,
+      };
+    })
+    // Updates that changed nothing aren't worth a row
+    .filter((entry) => entry.action !== "update" || Object.keys(entry.changes).length > 0);
+
+  if (entries.length === 0) {
+    return { success: true };
+  }
+
+  const result = await auditLogService.createAuditLogEntries(entries, "admin");
+  if (!result.success) {
+    return { success: false, error: result.error?.message || "Failed to write audit log" };
+  }
+  return { success: true };
+}
+
+/**
+ * Store audit entries for mutations BaseService made on the server
+ *
+ * @param events - One event per mutated record
+ */
+export async function recordAuditEvents(events: AuditEventInput[]) {
+  if (auditableEvents(events).length === 0) {
+    return { success: true };
+  }
+  return await writeAuditEvents(events, await getAuditActor());
+}
+
+/**
+ * Tables the browser may report changes to: the resource whose `update`
+ * permission the change needs, and whether a record belongs to an organization
+ */
+const BROWSER_AUDITED_TABLES: Record<
+  string,
+  { resource: string; inOrganization: (row: Record<string, any>, organizationId: string) => Promise<boolean> }
+> = {
+  user_profile: {
+    resource: "users",
+    inOrganization: (row, organizationId) => isOrganizationMember(String(row.id), organizationId),
+  },
+  settings: {
+    resource: "settings",
+    inOrganization: async (row, organizationId) => row.organization_id === organizationId,
+  },
+};
+
+/**
+ * The state of a record the log last recorded, or null if it was never logged
+ */
+async function lastLoggedState(table: string, recordId: string): Promise<Record<string, any> | null> {
+  const latest = await auditLogService.getLatestEntryForRecord(table, recordId, "admin");
+  return latest.data?.after ?? null;
+}
+
+/**
+ * Rebuild what a browser reported about its mutations from what the server
+ * knows. Only changes the actor may make, to records of their active
+ * organization, are kept. The record is read back from the database, and
+ * what it was before comes from the log, never from the browser. Deletes
+ * can't be proven once the record is gone, so they are dropped.
+ *
+ * @param events - The events the browser reported
+ * @param actor - The signed-in user who reported them
+ */
+export async function confirmAuditEvents(events: AuditEventInput[], actor: AuditActor): Promise<AuditEventInput[]> {
+  const organizationId = actor.organizationId;
+  if (!organizationId) return [];
+
+  const client = getClient("admin");
+  const confirmed: AuditEventInput[] = [];
+
+  const byTable = new Map<string, AuditEventInput[]>();
+  events.forEach((event) => {
+    if (!event.record_id || event.action === "delete" || !BROWSER_AUDITED_TABLES[event.table_name]) return;
+    byTable.set(event.table_name, [...(byTable.get(event.table_name) || []), event]);
+  });
+
+  for (const [table, tableEvents] of byTable) {
+    const { resource, inOrganization } = BROWSER_AUDITED_TABLES[table];
+    const permitted = await authorizeRequest({ resource, action: "update", allowPendingMfa: true });
+    if (!permitted.success) continue;
+
+    const ids = [...new Set(tableEvents.map((event) => event.record_id as string))];
+    const { data, error } = await client.from(table).select("*").in("id", ids);
+    if (error) {
+      console.error(`[AUDIT] Unable to confirm changes to ${table}:`, error);
+      continue;
+    }
+
+    const current = new Map<string, Record<string, any>>(
+      (data || []).map((row: Record<string, any>) => [String(row.id), row])
+    );
+    for (const event of tableEvents) {
+      const row = current.get(event.record_id as string);
+      if (!row || !(await inOrganization(row, organizationId))) continue;
+
+      const before = await lastLoggedState(table, event.record_id as string);
+      // A record the log already knows wasn't created just now
+      if (event.action === "create" && before) continue;
+      confirmed.push({ ...event, before, after: row });
+    }
+  }
+
+  return confirmed;
+}
@@ -0,0 +1,69 @@
+/**
+ * Audit helpers
+ *
+ * Shared types and pure helpers for the audit log. BaseService builds
+ * `AuditEventInput`s for every mutation; lib/audit-log attaches the actor,
+ * organization and IP, redacts secrets and stores the diff.
+ */
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditEventInput = {
+  table_name: string;
+  record_id: string | null;
+  action: AuditAction;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  request_id: string;
+};
+
+export type AuditChanges = Record<string, { from: any; to: any }>;
+
+// Tables whose mutations are never audited (the log itself and bookkeeping)
+export const UNAUDITED_TABLES: ReadonlySet<string> = new Set(["audit_log", "migration_logs"]);
+
+// Columns that never reach the audit log in clear text
+const SENSITIVE_COLUMN = /password|token|secret/i;
+
+// Columns that change on every write and would only add noise to diffs
+const IGNORED_DIFF_COLUMNS: ReadonlySet<string> = new Set(["updated_at"]);
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Replace the values of sensitive columns with a placeholder
+ */
+export function redactRecord(record: Record<string, any> | null): Record<string, any> | null {
+  if (!record) return null;
+
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      SENSITIVE_COLUMN.test(key) && value !== null && value !== undefined ? REDACTED : value,
+    ])
+  );
+}
+
+/**
+ * Column-level diff between two versions of a record.
+ * Creates diff against null (every column "from" null), deletes against null "to".
+ */
+export function diffRecords(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null
+): AuditChanges {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: AuditChanges = {};
+
+  keys.forEach((key) => {
+    if (IGNORED_DIFF_COLUMNS.has(key)) return;
+
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,33 @@
+/**
+ * Data Adapter
+ *
+ * Every Supabase client the server-side code uses (BaseService's `getClient`,
+ * `createAdminClient` and the cookie-based server client) resolves through
+ * here first. Installing an adapter swaps the backing store for all of them at
+ * once, which is how the service tests run against the in-memory adapter
+ * instead of a live project.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * The parts of the Supabase client the app depends on: table queries, RPC,
+ * storage and auth
+ */
+export type DataAdapter = Pick<SupabaseClient, "from" | "rpc" | "storage" | "auth">;
+
+let activeAdapter: DataAdapter | null = null;
+
+/**
+ * Route every client through `adapter`. Pass null to go back to Supabase.
+ */
+export function setDataAdapter(adapter: DataAdapter | null): void {
+  activeAdapter = adapter;
+}
+
+/**
+ * The installed adapter as a Supabase client, or null when none is installed
+ */
+export function getDataAdapter(): SupabaseClient | null {
+  return activeAdapter as SupabaseClient | null;
+}
@@ -0,0 +1,138 @@
+/**
+ * Domain Verification
+ *
+ * Organizations prove they own an email domain before it can auto-join new
+ * users or route sign-ins to their single sign-on. Each claim gets a random
+ * token, which the organization publishes as a DNS TXT record at
+ * `_kaizen-verification.<domain>`; verifying looks the record up. Public email
+ * providers can't be claimed at all, since nobody's mailbox there says
+ * anything about the organization they work for.
+ */
+
+import { randomBytes } from "node:crypto";
+import dns from "node:dns";
+
+// Subdomain holding the TXT record, so it doesn't crowd the domain's own records
+const VERIFICATION_SUBDOMAIN = "_kaizen-verification";
+
+// Prefix of the TXT record value
+const VERIFICATION_VALUE_PREFIX = "kaizen-verification=";
+
+// DNS answers for a name without the record, rather than a failed lookup
+const MISSING_RECORD_CODES: ReadonlySet<string> = new Set([dns.NODATA, dns.NOTFOUND]);
+
+// A hostname of two or more labels, e.g. "example.com" or "mail.example.co.uk"
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+/**
+ * Email providers anyone can sign up with
+ */
+export const PUBLIC_EMAIL_DOMAINS: ReadonlySet<string> = new Set([
+  "aol.com",
+  "fastmail.com",
+  "gmail.com",
+  "gmx.com",
+  "gmx.de",
+  "googlemail.com",
+  "hey.com",
+  "hotmail.com",
+  "icloud.com",
+  "live.com",
+  "mac.com",
+  "mail.com",
+  "mail.ru",
+  "me.com",
+  "msn.com",
+  "outlook.com",
+  "pm.me",
+  "proton.me",
+  "protonmail.com",
+  "qq.com",
+  "tutanota.com",
+  "web.de",
+  "yahoo.com",
+  "yandex.com",
+  "yandex.ru",
+  "zoho.com",
+]);
+
+/* ============================================================
+   Domains
+============================================================ */
+
+/**
+ * A domain as stored: lowercase, without a leading "@" or trailing dot.
+ * Null when the value isn't a domain name.
+ *
+ * @param value - A domain as typed, e.g. "@Example.com"
+ */
+export function normalizeDomain(value: string): string | null {
+  const domain = value.trim().toLowerCase().replace(/^@/, "").replace(/\.$/, "");
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+/**
+ * Whether a domain belongs to a public email provider
+ *
+ * @param domain - A normalized domain
+ */
+export function isPublicEmailDomain(domain: string): boolean {
+  return PUBLIC_EMAIL_DOMAINS.has(domain);
+}
+
+/**
+ * The domain of an email address, normalized, or null
+ *
+ * @param email - An email address
+ */
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  return at === -1 ? null : normalizeDomain(email.slice(at + 1));
+}
+
+/* ============================================================
+   Verification
+============================================================ */
+
+/**
+ * A new token for a domain claim
+ */
+export function createVerificationToken(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * The TXT record an organization publishes to verify a domain
+ *
+ * @param domain - The claimed domain
+ * @param token - The claim's verification token
+ */
+export function verificationRecord(domain: string, token: string): { name: string; value: string } {
+  return {
+    name: `${VERIFICATION_SUBDOMAIN}.${domain}`,
+    value: `${VERIFICATION_VALUE_PREFIX}${token}`,
+  };
+}
+
+/**
+ * Whether the domain publishes the verification record for a token. A name
+ * without the record is a plain no; other DNS failures are thrown.
+ *
+ * @param domain - The claimed domain
+ * @param token - The claim's verification token
+ */
+export async function hasVerificationRecord(domain: string, token: string): Promise<boolean> {
+  const { name, value } = verificationRecord(domain, token);
+
+  try {
+    const records = await dns.promises.resolveTxt(name);
+    // Long TXT values arrive split into chunks
+    return records.some((chunks) => chunks.join("").trim() === value);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException)?.code;
+    if (code && MISSING_RECORD_CODES.has(code)) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -49,6 +49,47 @@ export const emailService = {
       </div>
     `;
 
+    return emailService.sendEmail({ to: email, subject, html });
+  },
+
+  sendMagicLinkEmail: async (email: string, magicLink: string) => {
+    const subject = 'Your sign-in link';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Sign in</h2>
+        <p>Click the button below to sign in. The link can be used once.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${magicLink}" 
+             style="background-color: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+            Sign In
+          </a>
+        </div>
+        <p>If the button above doesn't work, you can copy and paste this link into your browser:</p>
+        <p style="word-break: break-all;">${magicLink}</p>
+        <p>This link will expire in 1 hour.</p>
+        <p>If you didn't try to sign in, please ignore this email.</p>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #666; font-size: 12px;">This is an automated message, please do not reply to this email.</p>
+      </div>
+    `;
+
+    return emailService.sendEmail({ to: email, subject, html });
+  },
+
+  sendLoginCodeEmail: async (email: string, code: string) => {
+    const subject = `Your sign-in code is ${code}`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Sign in</h2>
+        <p>Enter this code on the sign-in page:</p>
+        <p style="text-align: center; margin: 30px 0; font-size: 32px; font-weight: bold; letter-spacing: 8px;">${code}</p>
+        <p>This code will expire in 1 hour and can be used once.</p>
+        <p>If you didn't try to sign in, please ignore this email.</p>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #666; font-size: 12px;">This is an automated message, please do not reply to this email.</p>
+      </div>
+    `;
+
     return emailService.sendEmail({ to: email, subject, html });
   }
 }; 
\ No newline at end of file
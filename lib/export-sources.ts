@@ -0,0 +1,134 @@
+/**
+ * Export Sources
+ *
+ * What each exportable table offers the export route: the permission it
+ * needs, its columns, the search and filter parameters it accepts and how
+ * to walk every matching record. Records are always scoped to the caller's
+ * organization on the server, whatever the parameters say.
+ *
+ * To make a table exportable, add a source here under the resource name and
+ * pass `exportOptions={{ resource }}` to its DataTable.
+ */
+
+import * as z from "zod";
+import type { AuthContext, AuthRequirement } from "./with-auth";
+import type { ExportColumn } from "./export-writers";
+import { hasPermission } from "./permissions";
+import { usersServiceUnified, type User } from "@/modules/users";
+
+/* ============================================================
+   Types
+============================================================ */
+
+export type ExportSourceColumn<T> = ExportColumn<T> & {
+  // DataTable column the field belongs to, when it isn't the id
+  tableColumn?: string;
+};
+
+export type ExportSource<T = unknown, P = unknown> = {
+  requirement: AuthRequirement;
+  columns: ExportSourceColumn<T>[];
+  params: z.ZodType<P>;
+  pages: (params: P, auth: AuthContext) => AsyncGenerator<T[]>;
+};
+
+// Records fetched per query while exporting
+export const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Walk keyset pages until the last one. Stops with an error if a page fails,
+ * since a silently truncated export looks complete.
+ */
+async function* cursorPages<T>(
+  fetchPage: (cursor: string | null) => Promise<{ data: T[]; nextCursor: string | null }>
+): AsyncGenerator<T[]> {
+  let cursor: string | null = null;
+  do {
+    const page = await fetchPage(cursor);
+    yield page.data;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+/* ============================================================
+   Users
+============================================================ */
+
+const userExportParams = z.object({
+  search: z.string().optional(),
+  filters: z
+    .object({
+      roleIds: z.array(z.string()).optional(),
+      isActive: z.boolean().optional(),
+      createdFrom: z.string().datetime().optional(),
+      createdTo: z.string().datetime().optional(),
+    })
+    .optional(),
+  deleted: z.enum(["exclude", "only"]).optional(),
+});
+
+const users: ExportSource<User, z.infer<typeof userExportParams>> = {
+  requirement: { resource: "users", action: "read" },
+  columns: [
+    { id: "first_name", tableColumn: "name", header: "First name", value: (user) => user.first_name },
+    { id: "last_name", tableColumn: "name", header: "Last name", value: (user) => user.last_name },
+    { id: "email", tableColumn: "name", header: "Email", value: (user) => user.email },
+    { id: "role", header: "Role", value: (user) => user.roles?.name ?? user.role_id },
+    { id: "status", header: "Status", value: (user) => (user.is_active === false ? "Inactive" : "Active") },
+    { id: "created_at", header: "Created", value: (user) => user.created_at },
+    { id: "deleted_at", header: "Deleted", value: (user) => user.deleted_at },
+  ],
+  params: userExportParams,
+  pages: (params, auth) =>
+    cursorPages(async (cursor) => {
+      const result = await usersServiceUnified.getUsersByCursor(
+        {
+          search: params.search,
+          filters: params.filters,
+          organizationId: auth.organizationId,
+          // The trash is only listed for admins who can delete users, as in the table
+          deleted: params.deleted === "only" && hasPermission(auth.permissions, "users", "delete")
+            ? "only"
+            : "exclude",
+          cursor,
+          pageSize: EXPORT_PAGE_SIZE,
+        },
+        { environment: "server" }
+      );
+      if (!result.success || !result.data) {
+        throw new Error(result.error?.message || "Failed to load users");
+      }
+      return result.data;
+    }),
+};
+
+/* ============================================================
+   Registry
+============================================================ */
+
+// Each source keeps its own record and params types
+const EXPORT_SOURCES = {
+  users,
+};
+
+export type ExportResource = keyof typeof EXPORT_SOURCES;
+
+export type RegisteredExportSource = (typeof EXPORT_SOURCES)[ExportResource];
+
+export function getExportSource(resource: string): RegisteredExportSource | undefined {
+  return Object.prototype.hasOwnProperty.call(EXPORT_SOURCES, resource)
+    ? EXPORT_SOURCES[resource as ExportResource]
+    : undefined;
+}
+
+/**
+ * The source's columns for the given DataTable column ids, in source order.
+ * Every column when none are given.
+ */
+export function selectExportColumns<T>(
+  source: Pick<ExportSource<T>, "columns">,
+  tableColumns?: string[]
+): ExportColumn<T>[] {
+  if (!tableColumns?.length) return source.columns;
+  return source.columns.filter((column) => tableColumns.includes(column.tableColumn ?? column.id));
+}
@@ -0,0 +1,218 @@
+/**
+ * Export Writers
+ *
+ * Turn pages of records into a CSV, XLSX or JSON file as a byte stream. Each
+ * page is written as soon as it arrives, so an export of any size holds only
+ * one page in memory. XLSX files are zipped on the fly with fflate, and each
+ * sheet cell is written as an inline string, number or boolean.
+ *
+ * @example
+ * const stream = writeExport("csv", [{ id: "email", header: "Email", value: (user) => user.email }], pages);
+ * return new Response(stream, { headers: { "Content-Type": EXPORT_FORMATS.csv.contentType } });
+ */
+
+import { Zip, ZipDeflate, strToU8 } from "fflate";
+import { toCsv } from "./spreadsheet";
+import type { ExportFormat } from "./table-export";
+
+/* ============================================================
+   Types
+============================================================ */
+
+export type ExportColumn<T = unknown> = {
+  id: string;
+  header: string;
+  value: (record: T) => unknown;
+};
+
+type Cell = string | number | boolean | null;
+
+/* ============================================================
+   Cells
+============================================================ */
+
+function toCell(value: unknown): Cell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function toCells<T>(columns: ExportColumn<T>[], record: T): Cell[] {
+  return columns.map((column) => toCell(column.value(record)));
+}
+
+// Spreadsheet apps run CSV cells starting with these as formulas
+function escapeFormula(cell: Cell): Cell {
+  return typeof cell === "string" && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+}
+
+/* ============================================================
+   CSV and JSON
+============================================================ */
+
+async function* csvChunks<T>(columns: ExportColumn<T>[], pages: AsyncIterable<T[]>) {
+  // The byte order mark makes Excel read the file as UTF-8
+  yield strToU8(`\uFEFF${toCsv([columns.map((column) => column.header)])}`);
+
+  for await (const records of pages) {
+    if (records.length === 0) continue;
+    const rows = records.map((record) => toCells(columns, record).map(escapeFormula));
+    yield strToU8(`\r\n${toCsv(rows)}`);
+  }
+}
+
+async function* jsonChunks<T>(columns: ExportColumn<T>[], pages: AsyncIterable<T[]>) {
+  let first = true;
+  yield strToU8("[");
+
+  for await (const records of pages) {
+    if (records.length === 0) continue;
+    const objects = records.map((record) =>
+      JSON.stringify(Object.fromEntries(columns.map((column) => [column.id, toCell(column.value(record))])))
+    );
+    yield strToU8(`${first ? "" : ","}\n${objects.join(",\n")}`);
+    first = false;
+  }
+
+  yield strToU8("\n]\n");
+}
+
+/* ============================================================
+   XLSX
+============================================================ */
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// The smallest package Excel opens: one workbook with one worksheet
+const XLSX_PARTS: Record<string, string> = {
+  "[Content_Types].xml":
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    "</Types>",
+  "_rels/.rels":
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>",
+  "xl/workbook.xml":
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets>' +
+    "</workbook>",
+  "xl/_rels/workbook.xml.rels":
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    "</Relationships>",
+};
+
+const SHEET_START =
+  XML_DECLARATION + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+const SHEET_END = "</sheetData></worksheet>";
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters aren't allowed in XML at all
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xlsxRow(rowNumber: number, cells: Cell[]): string {
+  const xml = cells.map((cell, index) => {
+    const ref = `${columnName(index)}${rowNumber}`;
+    if (cell === null || cell === "") return "";
+    if (typeof cell === "number") return `<c r="${ref}"><v>${cell}</v></c>`;
+    if (typeof cell === "boolean") return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${xml.join("")}</row>`;
+}
+
+async function* xlsxChunks<T>(columns: ExportColumn<T>[], pages: AsyncIterable<T[]>) {
+  const output: Uint8Array[] = [];
+  let failure: Error | null = null;
+  const zip = new Zip((error, chunk) => {
+    if (error) failure = error;
+    else output.push(chunk);
+  });
+  // fflate compresses synchronously, so whatever a push produced is ready here
+  const flush = () => {
+    if (failure) throw failure;
+    return output.splice(0);
+  };
+
+  for (const [path, xml] of Object.entries(XLSX_PARTS)) {
+    const part = new ZipDeflate(path, { level: 6 });
+    zip.add(part);
+    part.push(strToU8(XML_DECLARATION + xml), true);
+  }
+
+  const sheet = new ZipDeflate("xl/worksheets/sheet1.xml", { level: 6 });
+  zip.add(sheet);
+  sheet.push(strToU8(SHEET_START + xlsxRow(1, columns.map((column) => column.header))));
+  yield* flush();
+
+  let rowNumber = 1;
+  for await (const records of pages) {
+    const rows = records.map((record) => xlsxRow(++rowNumber, toCells(columns, record)));
+    sheet.push(strToU8(rows.join("")));
+    yield* flush();
+  }
+
+  sheet.push(strToU8(SHEET_END), true);
+  zip.end();
+  yield* flush();
+}
+
+/* ============================================================
+   Streams
+============================================================ */
+
+function toStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      // The download was aborted; stop fetching pages
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Write pages of records as a file in the given format. Pages are read as
+ * the stream is consumed; an error while reading one aborts the stream.
+ *
+ * @param format - File format
+ * @param columns - Columns in file order; JSON uses their ids as keys
+ * @param pages - Records, a page at a time
+ */
+export function writeExport<T>(
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  pages: AsyncIterable<T[]>
+): ReadableStream<Uint8Array> {
+  const writers = { csv: csvChunks, xlsx: xlsxChunks, json: jsonChunks };
+  return toStream(writers[format](columns, pages));
+}
@@ -0,0 +1,1236 @@
+/**
+ * In-Memory Adapter
+ *
+ * A DataAdapter that keeps tables, auth users and storage objects in memory so
+ * services can run without a Supabase project. It implements the slice of
+ * PostgREST the app uses: selects with embedded relations, filters including
+ * `or()` logic trees, ordering, range/limit, counts, single/maybeSingle and
+ * insert/update/upsert/delete with returning. Unique and foreign key
+ * violations come back with the Postgres codes the services check for.
+ * Database functions are not emulated; register them with `stubRpc`.
+ *
+ * @example
+ * const adapter = createInMemoryAdapter({ tables: { roles: [{ id: ROLE_ID, name: "admin" }] } });
+ * setDataAdapter(adapter);
+ */
+
+import type { AuthenticatorAssuranceLevels, Factor, User as AuthUser } from "@supabase/supabase-js";
+import type { DataAdapter } from "./data-adapter";
+import type { TableName } from "./BaseService";
+import {
+  FOREIGN_KEYS,
+  SERIAL_ID_TABLES,
+  TRIGGERS,
+  UNIQUE_COLUMNS,
+  columnDefaults,
+  hasUpdatedAt,
+} from "./in-memory-schema";
+
+/* ============================================================
+   Types
+============================================================ */
+
+type Row = Record<string, any>;
+
+export type InMemoryError = {
+  code: string;
+  message: string;
+  details: string | null;
+  hint: string | null;
+};
+
+type QueryResult = {
+  data: any;
+  error: InMemoryError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+};
+
+export type RpcHandler = (params: Record<string, any>, adapter: InMemoryAdapter) => unknown;
+
+export type InMemorySeed = {
+  tables?: Partial<Record<TableName, Row[]>>;
+  authUsers?: Array<{ id: string; email: string; password?: string; user_metadata?: Record<string, any> }>;
+};
+
+/**
+ * Make matching operations fail. `table` is a table name, or the function
+ * name for RPC calls; `times` defaults to once.
+ */
+export type InjectedFailure = {
+  table: string;
+  action?: "select" | "insert" | "update" | "upsert" | "delete" | "rpc";
+  error?: Partial<InMemoryError>;
+  times?: number;
+  /** Apply the write first, then fail, as when the response is lost */
+  afterWrite?: boolean;
+};
+
+export type InMemoryAdapter = DataAdapter & {
+  /** Rows by table. Seed or inspect directly in tests. */
+  tables: Record<string, Row[]>;
+  /** Auth users by ID */
+  authUsers: Map<string, AuthUser>;
+  /** Stored files by "bucket/path" */
+  files: Map<string, Blob | ArrayBuffer | string>;
+  stubRpc(name: string, handler: RpcHandler): void;
+  /** Set the user `auth.getUser()` returns; null signs out. Sessions are aal1 with a new ID unless stated. */
+  signIn(userId: string | null, options?: { aal?: AuthenticatorAssuranceLevels; sessionId?: string }): void;
+  /** Enroll a TOTP factor for a user, verified unless stated */
+  addFactor(userId: string, options?: { verified?: boolean; friendlyName?: string }): Factor;
+  /**
+   * Query with the signed-in user's token, as a browser client does: triggers
+   * see their ID as auth.uid(). Everything else queries as the service role.
+   * Row level security is not emulated.
+   */
+  asUser(): Pick<DataAdapter, "from">;
+  /** End a Supabase Auth session, as signing out elsewhere does. `auth.getUser()` then reports it gone. */
+  endSession(sessionId: string): void;
+  injectFailure(failure: InjectedFailure): void;
+  /** Insert rows as-is (defaults applied, constraints skipped) */
+  seed(seed: InMemorySeed): void;
+};
+
+/* ============================================================
+   Errors
+============================================================ */
+
+class QueryError extends Error {
+  constructor(public readonly error: InMemoryError) {
+    super(error.message);
+  }
+}
+
+function pgError(code: string, message: string, details: string | null = null): QueryError {
+  return new QueryError({ code, message, details, hint: null });
+}
+
+/* ============================================================
+   Parsing
+============================================================ */
+
+/**
+ * Split on commas that are outside parentheses and double quotes
+ */
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      current += char;
+      if (char === "\\" && i + 1 < input.length) {
+        current += input[++i];
+      } else if (char === '"') {
+        quoted = false;
+      }
+      continue;
+    }
+    if (char === '"') quoted = true;
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return value;
+}
+
+type SelectNode =
+  | { kind: "star" }
+  | { kind: "column"; name: string; alias: string }
+  | { kind: "embed"; relation: string; alias: string; inner: boolean; children: SelectNode[] };
+
+function parseSelect(columns: string): SelectNode[] {
+  return splitTopLevel(columns).map((item): SelectNode => {
+    if (item === "*") return { kind: "star" };
+
+    const open = item.indexOf("(");
+    const head = (open === -1 ? item : item.slice(0, open)).trim();
+    const [alias, target] = head.includes(":") ? head.split(":").map((part) => part.trim()) : [null, head];
+
+    if (open === -1) {
+      const name = target.split("::")[0];
+      return { kind: "column", name, alias: alias ?? name };
+    }
+
+    const [relation, hint] = target.split("!");
+    return {
+      kind: "embed",
+      relation,
+      alias: alias ?? relation,
+      inner: hint === "inner",
+      children: parseSelect(item.slice(open + 1, item.lastIndexOf(")"))),
+    };
+  });
+}
+
+const OPERATORS = new Set(["eq", "neq", "gt", "gte", "lt", "lte", "in", "is", "like", "ilike", "not"]);
+
+type Condition = { column: string; op: string; value: unknown; negate: boolean };
+
+type Predicate =
+  | { type: "condition"; condition: Condition }
+  | { type: "and" | "or"; items: Predicate[]; negate: boolean };
+
+/**
+ * Parse a filter value given as text, as in `filter()` and logic trees
+ */
+function parseValue(op: string, raw: string): unknown {
+  if (op === "in") {
+    const list = raw.trim().replace(/^\(/, "").replace(/\)$/, "");
+    return splitTopLevel(list).map(unquote);
+  }
+  if (op === "is") {
+    const value = unquote(raw).toLowerCase();
+    return value === "null" ? null : value === "true";
+  }
+  return unquote(raw);
+}
+
+function parseOperator(operator: string): { op: string; negate: boolean } {
+  return operator.startsWith("not.")
+    ? { op: operator.slice(4), negate: true }
+    : { op: operator, negate: false };
+}
+
+/**
+ * Parse "column.op.value" (column may be dotted, e.g. "roles.name")
+ */
+function parseConditionText(text: string): Condition {
+  const columnParts: string[] = [];
+  let rest = text;
+
+  while (true) {
+    const match = /^([A-Za-z_][A-Za-z0-9_]*)\./.exec(rest);
+    if (!match) throw pgError("PGRST100", `Failed to parse filter "${text}"`);
+    rest = rest.slice(match[0].length);
+    if (OPERATORS.has(match[1]) && columnParts.length > 0) {
+      let op = match[1];
+      let negate = false;
+      if (op === "not") {
+        const next = /^([a-z]+)\./.exec(rest);
+        if (!next) throw pgError("PGRST100", `Failed to parse filter "${text}"`);
+        op = next[1];
+        negate = true;
+        rest = rest.slice(next[0].length);
+      }
+      return { column: columnParts.join("."), op, value: parseValue(op, rest), negate };
+    }
+    columnParts.push(match[1]);
+  }
+}
+
+function parseLogicTree(expression: string): Predicate[] {
+  return splitTopLevel(expression).map((item): Predicate => {
+    const group = /^(not\.)?(and|or)\(([\s\S]*)\)$/.exec(item);
+    if (group) {
+      return { type: group[2] as "and" | "or", items: parseLogicTree(group[3]), negate: Boolean(group[1]) };
+    }
+    return { type: "condition", condition: parseConditionText(item) };
+  });
+}
+
+/* ============================================================
+   Evaluation
+============================================================ */
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === "number") return a - Number(b);
+  if (typeof a === "boolean") return a === (b === true || b === "true") ? 0 : 1;
+  if (typeof a === "object") return JSON.stringify(a) === JSON.stringify(b) ? 0 : 1;
+
+  const left = String(a);
+  const right = String(b);
+  if (TIMESTAMP_PATTERN.test(left) && TIMESTAMP_PATTERN.test(right)) {
+    const difference = Date.parse(left) - Date.parse(right);
+    if (!Number.isNaN(difference)) return difference;
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    } else if (char === "%") {
+      source += "[\\s\\S]*";
+    } else if (char === "_") {
+      source += "[\\s\\S]";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? "i" : "");
+}
+
+/**
+ * Evaluate one operator against a single value. Returns null for SQL unknown.
+ */
+function testValue(value: unknown, op: string, expected: unknown): boolean | null {
+  if (op === "is") return expected === null ? value == null : value === expected;
+  if (value == null) return null;
+
+  switch (op) {
+    case "eq":
+      return compare(value, expected) === 0;
+    case "neq":
+      return compare(value, expected) !== 0;
+    case "gt":
+      return compare(value, expected) > 0;
+    case "gte":
+      return compare(value, expected) >= 0;
+    case "lt":
+      return compare(value, expected) < 0;
+    case "lte":
+      return compare(value, expected) <= 0;
+    case "in":
+      return (expected as unknown[]).some((item) => compare(value, item) === 0);
+    case "like":
+      return likeToRegExp(String(expected), false).test(String(value));
+    case "ilike":
+      return likeToRegExp(String(expected), true).test(String(value));
+    default:
+      throw pgError("PGRST100", `Unsupported operator "${op}"`);
+  }
+}
+
+/**
+ * Values at a (possibly dotted) path; embedded arrays fan out
+ */
+function valuesAt(row: Row, path: string[]): unknown[] {
+  const [head, ...rest] = path;
+  const value = row?.[head];
+  if (rest.length === 0) return [value];
+  if (Array.isArray(value)) return value.flatMap((item) => valuesAt(item, rest));
+  if (value && typeof value === "object") return valuesAt(value, rest);
+  return [undefined];
+}
+
+function testCondition(row: Row, condition: Condition): boolean {
+  return valuesAt(row, condition.column.split(".")).some((value) => {
+    const result = testValue(value, condition.op, condition.value);
+    if (result === null) return false;
+    return condition.negate ? !result : result;
+  });
+}
+
+function testPredicate(row: Row, predicate: Predicate): boolean {
+  if (predicate.type === "condition") return testCondition(row, predicate.condition);
+  const result = predicate.type === "and"
+    ? predicate.items.every((item) => testPredicate(row, item))
+    : predicate.items.some((item) => testPredicate(row, item));
+  return predicate.negate ? !result : result;
+}
+
+/* ============================================================
+   Query Builder
+============================================================ */
+
+type Action = "select" | "insert" | "update" | "upsert" | "delete";
+
+type Order = { column: string; ascending: boolean; nullsFirst?: boolean };
+
+class InMemoryQuery implements PromiseLike<QueryResult> {
+  private action: Action = "select";
+  private payload: Row[] = [];
+  private changes: Row = {};
+  private onConflict: string[] = ["id"];
+  private columns: string | null = null;
+  private returning = false;
+  private countMode: string | null = null;
+  private head = false;
+  private predicates: Predicate[] = [];
+  private orders: Order[] = [];
+  private rangeFrom: number | null = null;
+  private rangeTo: number | null = null;
+  private singleMode: "single" | "maybeSingle" | null = null;
+
+  /**
+   * @param uid - auth.uid() for the query: the signed-in user when it carries
+   *   their token, null for the service role
+   */
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly table: string,
+    private readonly uid: string | null = null
+  ) {}
+
+  select(columns = "*", options?: { count?: string; head?: boolean }) {
+    this.columns = columns;
+    if (this.action === "select") {
+      this.countMode = options?.count ?? null;
+      this.head = options?.head ?? false;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = "insert";
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: { onConflict?: string }) {
+    this.action = "upsert";
+    this.payload = Array.isArray(values) ? values : [values];
+    if (options?.onConflict) this.onConflict = options.onConflict.split(",").map((column) => column.trim());
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = "update";
+    this.changes = values;
+    return this;
+  }
+
+  delete() {
+    this.action = "delete";
+    return this;
+  }
+
+  private where(column: string, op: string, value: unknown, negate = false) {
+    this.predicates.push({ type: "condition", condition: { column, op, value, negate } });
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.where(column, "eq", value); }
+  neq(column: string, value: unknown) { return this.where(column, "neq", value); }
+  gt(column: string, value: unknown) { return this.where(column, "gt", value); }
+  gte(column: string, value: unknown) { return this.where(column, "gte", value); }
+  lt(column: string, value: unknown) { return this.where(column, "lt", value); }
+  lte(column: string, value: unknown) { return this.where(column, "lte", value); }
+  like(column: string, pattern: string) { return this.where(column, "like", pattern); }
+  ilike(column: string, pattern: string) { return this.where(column, "ilike", pattern); }
+  in(column: string, values: unknown[]) { return this.where(column, "in", values); }
+  is(column: string, value: null | boolean) { return this.where(column, "is", value); }
+
+  not(column: string, operator: string, value: unknown) {
+    return this.where(column, operator, typeof value === "string" ? parseValue(operator, value) : value, true);
+  }
+
+  filter(column: string, operator: string, value: unknown) {
+    const { op, negate } = parseOperator(operator);
+    return this.where(column, op, typeof value === "string" ? parseValue(op, value) : value, negate);
+  }
+
+  match(query: Row) {
+    for (const [column, value] of Object.entries(query)) this.eq(column, value);
+    return this;
+  }
+
+  or(expression: string) {
+    this.predicates.push({ type: "or", items: parseLogicTree(expression), negate: false });
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) {
+    this.orders.push({ column, ascending: options?.ascending !== false, nullsFirst: options?.nullsFirst });
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from;
+    this.rangeTo = to;
+    return this;
+  }
+
+  limit(count: number) {
+    this.rangeFrom = this.rangeFrom ?? 0;
+    this.rangeTo = this.rangeFrom + count - 1;
+    return this;
+  }
+
+  single() {
+    this.singleMode = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    try {
+      this.store.checkFailure(this.table, this.action);
+      if (!(this.table in this.store.tables)) {
+        throw pgError("42P01", `relation "public.${this.table}" does not exist`);
+      }
+
+      const nodes = parseSelect(this.columns ?? "*");
+      if (this.action === "select") return this.finish(this.read(nodes), 200);
+
+      const rows = this.store.transaction(() => this.mutate());
+      this.store.checkFailure(this.table, this.action, true);
+      if (!this.returning) return { data: null, error: null, count: null, status: this.action === "insert" ? 201 : 204, statusText: "" };
+      return this.finish(rows.map((row) => this.store.shape(this.table, row, nodes)), this.action === "insert" ? 201 : 200);
+    } catch (error) {
+      if (error instanceof QueryError) {
+        return { data: null, error: error.error, count: null, status: 400, statusText: "Bad Request" };
+      }
+      throw error;
+    }
+  }
+
+  private read(nodes: SelectNode[]): Row[] {
+    const embeds = nodes.filter((node) => node.kind === "embed");
+    const topLevel = this.predicates.filter(
+      (predicate) => predicate.type !== "condition" || !predicate.condition.column.includes(".")
+    );
+    const embedded = this.predicates.flatMap((predicate) =>
+      predicate.type === "condition" && predicate.condition.column.includes(".") ? [predicate.condition] : []
+    );
+
+    // Full rows plus embeds, so filters and ordering can use any column
+    let views = this.store.tables[this.table].map((row) => ({
+      row,
+      view: { ...row, ...this.store.shape(this.table, row, embeds) },
+    }));
+
+    // Filters on embedded columns narrow the embedded rows; !inner drops the parent
+    for (const condition of embedded) {
+      const [relation, ...path] = condition.column.split(".");
+      const node = embeds.find((embed) => embed.kind === "embed" && embed.alias === relation);
+      views = views.filter(({ view }) => {
+        const value = view[relation];
+        const nested = { ...condition, column: path.join(".") };
+        if (Array.isArray(value)) {
+          view[relation] = value.filter((item) => testCondition(item, nested));
+          return !(node?.kind === "embed" && node.inner) || view[relation].length > 0;
+        }
+        if (value && !testCondition(value, nested)) {
+          view[relation] = null;
+          return !(node?.kind === "embed" && node.inner);
+        }
+        return true;
+      });
+    }
+
+    views = views.filter(({ view }) => topLevel.every((predicate) => testPredicate(view, predicate)));
+    views.sort((a, b) => this.compareRows(a.view, b.view));
+
+    return views.map(({ row, view }) =>
+      nodes.reduce<Row>((output, node) => {
+        if (node.kind === "star") Object.assign(output, row);
+        else output[node.alias] = node.kind === "column" ? row[node.name] : view[node.alias];
+        return output;
+      }, {})
+    );
+  }
+
+  private compareRows(a: Row, b: Row): number {
+    for (const { column, ascending, nullsFirst } of this.orders) {
+      const left = valuesAt(a, column.split("."))[0];
+      const right = valuesAt(b, column.split("."))[0];
+      if (left == null || right == null) {
+        if (left == null && right == null) continue;
+        // Postgres puts nulls last ascending and first descending unless told otherwise
+        const nullFirst = nullsFirst ?? !ascending;
+        return (left == null) === nullFirst ? -1 : 1;
+      }
+      const difference = compare(left, right);
+      if (difference !== 0) return ascending ? difference : -difference;
+    }
+    return 0;
+  }
+
+  private matches(row: Row): boolean {
+    return this.predicates.every((predicate) => testPredicate(row, predicate));
+  }
+
+  private mutate(): Row[] {
+    switch (this.action) {
+      case "insert":
+        return this.payload.map((values) => this.store.insertRow(this.table, values, this.uid));
+      case "upsert":
+        return this.payload.map((values) => this.store.upsertRow(this.table, values, this.onConflict, this.uid));
+      case "update":
+        return this.store.tables[this.table]
+          .filter((row) => this.matches(row))
+          .map((row) => this.store.updateRow(this.table, row, this.changes, this.uid));
+      case "delete":
+        return this.store.tables[this.table]
+          .filter((row) => this.matches(row))
+          .map((row) => this.store.deleteRow(this.table, row));
+      default:
+        return [];
+    }
+  }
+
+  private finish(rows: Row[], status: number): QueryResult {
+    const count = this.countMode ? rows.length : null;
+    let data: any = rows;
+
+    if (this.rangeFrom !== null && this.action === "select") {
+      data = rows.slice(this.rangeFrom, (this.rangeTo ?? rows.length - 1) + 1);
+    }
+    if (this.head) data = null;
+
+    if (this.singleMode && data) {
+      if (data.length > 1 || (data.length === 0 && this.singleMode === "single")) {
+        throw pgError(
+          "PGRST116",
+          "JSON object requested, multiple (or no) rows returned",
+          `The result contains ${data.length} rows`
+        );
+      }
+      data = data[0] ?? null;
+    }
+
+    return { data, error: null, count, status, statusText: "OK" };
+  }
+}
+
+/* ============================================================
+   Store
+============================================================ */
+
+class InMemoryStore {
+  tables: Record<string, Row[]> = {};
+  authUsers = new Map<string, AuthUser>();
+  passwords = new Map<string, string>();
+  // MFA factors by user ID
+  factors = new Map<string, Factor[]>();
+  // IDs of Supabase Auth sessions that were ended elsewhere
+  endedSessions = new Set<string>();
+  // Outstanding magic link / email code by user ID
+  emailOtps = new Map<string, { otp: string; hashedToken: string }>();
+  failures: InjectedFailure[] = [];
+  private lastTimestamp = 0;
+  private serial: Record<string, number> = {};
+
+  constructor(tableNames: string[]) {
+    for (const table of tableNames) this.tables[table] = [];
+  }
+
+  /**
+   * Strictly increasing timestamps, like clock_timestamp(), so updated_at
+   * always changes between writes
+   */
+  now(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+
+  checkFailure(table: string, action: string, afterWrite = false) {
+    const failure = this.failures.find(
+      (candidate) =>
+        candidate.table === table &&
+        (!candidate.action || candidate.action === action) &&
+        Boolean(candidate.afterWrite) === afterWrite
+    );
+    if (!failure) return;
+
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) this.failures.splice(this.failures.indexOf(failure), 1);
+    throw new QueryError({
+      code: failure.error?.code ?? "XX000",
+      message: failure.error?.message ?? `Injected failure on ${table}`,
+      details: failure.error?.details ?? null,
+      hint: failure.error?.hint ?? null,
+    });
+  }
+
+  /**
+   * Run a write; any error rolls every table back
+   */
+  transaction<T>(run: () => T): T {
+    const snapshot = structuredClone(this.tables);
+    try {
+      const result = run();
+      this.checkUnique();
+      return result;
+    } catch (error) {
+      this.tables = snapshot;
+      throw error;
+    }
+  }
+
+  /**
+   * Like `transaction`, for RPC stubs that await their own queries
+   */
+  async transactionAsync<T>(run: () => Promise<T>): Promise<T> {
+    const snapshot = structuredClone(this.tables);
+    try {
+      const result = await run();
+      this.checkUnique();
+      return result;
+    } catch (error) {
+      this.tables = snapshot;
+      throw error;
+    }
+  }
+
+  withDefaults(table: string, values: Row): Row {
+    const id = values.id ?? (SERIAL_ID_TABLES.has(table)
+      ? (this.serial[table] = Math.max(this.serial[table] ?? 0, ...this.tables[table].map((row) => Number(row.id) || 0)) + 1)
+      : crypto.randomUUID());
+    return { ...columnDefaults(table, this.now()), ...values, id };
+  }
+
+  /**
+   * What triggers see of the store. Their own writes run as the same caller.
+   *
+   * @param uid - auth.uid() of the write, null for the service role
+   */
+  private triggerStore(uid: string | null) {
+    return {
+      rows: (table: TableName) => this.tables[table],
+      upsert: (table: TableName, row: Row, onConflict: string[]) => {
+        this.upsertRow(table, row, onConflict, uid);
+      },
+      uid,
+      raise: (code: string, message: string): never => {
+        throw pgError(code, message);
+      },
+    };
+  }
+
+  insertRow(table: string, values: Row, uid: string | null = null): Row {
+    const row = this.withDefaults(table, structuredClone(values));
+    TRIGGERS[table as TableName]?.beforeInsert?.(row, this.triggerStore(uid));
+    this.checkReferences(table, row);
+    this.tables[table].push(row);
+    TRIGGERS[table as TableName]?.afterWrite?.(row, null, this.triggerStore(uid));
+    return row;
+  }
+
+  updateRow(table: string, row: Row, changes: Row, uid: string | null = null): Row {
+    const previous = { ...row };
+    Object.assign(row, structuredClone(changes));
+    if (hasUpdatedAt(table)) row.updated_at = this.now();
+    TRIGGERS[table as TableName]?.beforeUpdate?.(row, previous, this.triggerStore(uid));
+    this.checkReferences(table, row);
+    TRIGGERS[table as TableName]?.afterWrite?.(row, previous, this.triggerStore(uid));
+    return row;
+  }
+
+  upsertRow(table: string, values: Row, onConflict: string[], uid: string | null = null): Row {
+    const existing = this.tables[table].find((row) =>
+      onConflict.every((column) => values[column] !== undefined && compare(row[column], values[column]) === 0)
+    );
+    return existing ? this.updateRow(table, existing, values, uid) : this.insertRow(table, values, uid);
+  }
+
+  deleteRow(table: string, row: Row): Row {
+    const index = this.tables[table].indexOf(row);
+    if (index === -1) return row;
+    this.tables[table].splice(index, 1);
+    this.releaseReferences(table, row.id);
+    return row;
+  }
+
+  /**
+   * Apply ON DELETE behaviour for rows referencing `table`.`id`
+   */
+  releaseReferences(table: string, id: unknown) {
+    for (const key of FOREIGN_KEYS.filter((foreignKey) => foreignKey.references === table)) {
+      const referencing = this.tables[key.table].filter((row) => row[key.column] === id);
+      if (referencing.length === 0) continue;
+
+      if (key.onDelete === "restrict") {
+        throw pgError(
+          "23503",
+          `update or delete on table "${table}" violates foreign key constraint "${key.table}_${key.column}_fkey" on table "${key.table}"`
+        );
+      }
+      for (const row of referencing) {
+        if (key.onDelete === "cascade") this.deleteRow(key.table, row);
+        else row[key.column] = null;
+      }
+    }
+  }
+
+  private checkReferences(table: string, row: Row) {
+    for (const key of FOREIGN_KEYS.filter((foreignKey) => foreignKey.table === table)) {
+      const value = row[key.column];
+      if (value == null) continue;
+      const exists = key.references === "auth.users"
+        ? this.authUsers.has(value)
+        : this.tables[key.references].some((candidate) => candidate.id === value);
+      if (!exists) {
+        throw pgError(
+          "23503",
+          `insert or update on table "${table}" violates foreign key constraint "${table}_${key.column}_fkey"`
+        );
+      }
+    }
+  }
+
+  private checkUnique() {
+    for (const [table, constraints] of Object.entries(UNIQUE_COLUMNS)) {
+      for (const columns of constraints ?? []) {
+        const seen = new Set<string>();
+        for (const row of this.tables[table]) {
+          if (columns.some((column) => row[column] == null)) continue;
+          const key = JSON.stringify(columns.map((column) => row[column]));
+          if (seen.has(key)) {
+            throw pgError("23505", `duplicate key value violates unique constraint "${table}_${columns.join("_")}_key"`);
+          }
+          seen.add(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Project a row through select nodes, resolving embedded relations along
+   * foreign keys in either direction
+   */
+  shape(table: string, row: Row, nodes: SelectNode[]): Row {
+    const output: Row = {};
+    for (const node of nodes) {
+      if (node.kind === "star") Object.assign(output, row);
+      else if (node.kind === "column") output[node.alias] = row[node.name];
+      else output[node.alias] = this.embed(table, row, node);
+    }
+    return output;
+  }
+
+  private embed(table: string, row: Row, node: Extract<SelectNode, { kind: "embed" }>) {
+    const manyToOne = FOREIGN_KEYS.find((key) => key.table === table && key.references === node.relation);
+    if (manyToOne) {
+      const target = this.tables[node.relation].find((candidate) => candidate.id === row[manyToOne.column]);
+      return target ? this.shape(node.relation, target, node.children) : null;
+    }
+
+    const oneToMany = FOREIGN_KEYS.find((key) => key.table === node.relation && key.references === table);
+    if (oneToMany) {
+      return this.tables[node.relation]
+        .filter((candidate) => candidate[oneToMany.column] === row.id)
+        .map((candidate) => this.shape(node.relation, candidate, node.children));
+    }
+
+    throw pgError(
+      "PGRST200",
+      `Could not find a relationship between '${table}' and '${node.relation}' in the schema cache`
+    );
+  }
+}
+
+/* ============================================================
+   Auth & Storage
+============================================================ */
+
+function authError(message: string, status: number, code?: string) {
+  return { name: "AuthApiError", message, status, code };
+}
+
+// As in supabase/config.toml
+const MINIMUM_PASSWORD_LENGTH = 6;
+
+function weakPasswordError() {
+  return authError(`Password should be at least ${MINIMUM_PASSWORD_LENGTH} characters.`, 422, "weak_password");
+}
+
+type InMemorySession = { userId: string; aal: AuthenticatorAssuranceLevels; sessionId: string } | null;
+
+/**
+ * An unsigned JWT with the claims the app reads from Supabase access tokens
+ */
+function accessToken(session: NonNullable<InMemorySession>): string {
+  const encode = (value: Record<string, unknown>) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode({ sub: session.userId, session_id: session.sessionId, aal: session.aal })}.`;
+}
+
+function createAuth(store: InMemoryStore, getSession: () => InMemorySession, setSession: (session: InMemorySession) => void) {
+  const getSignedIn = () => getSession()?.userId ?? null;
+  const verifiedFactors = (userId: string) =>
+    (store.factors.get(userId) ?? []).filter((factor) => factor.status === "verified");
+
+  const findByEmail = (email: string) =>
+    Array.from(store.authUsers.values()).find((user) => user.email === email.trim().toLowerCase());
+
+  return {
+    async getUser() {
+      const sessionId = getSession()?.sessionId;
+      if (sessionId && store.endedSessions.has(sessionId)) {
+        return { data: { user: null }, error: authError("Session from session_id claim in JWT does not exist", 403, "session_not_found") };
+      }
+      const id = getSignedIn();
+      const user = id ? store.authUsers.get(id) ?? null : null;
+      return user
+        ? { data: { user }, error: null }
+        : { data: { user: null }, error: authError("Auth session missing!", 401) };
+    },
+
+    async signInWithPassword({ email, password }: { email: string; password: string }) {
+      const user = findByEmail(email);
+      if (!user || store.passwords.get(user.id) !== password) {
+        return { data: { user: null, session: null }, error: authError("Invalid login credentials", 400, "invalid_credentials") };
+      }
+      const session = { userId: user.id, aal: "aal1" as const, sessionId: crypto.randomUUID() };
+      setSession(session);
+      return { data: { user, session: { user, access_token: accessToken(session) } }, error: null };
+    },
+
+    async getSession() {
+      const session = getSession();
+      const user = session ? store.authUsers.get(session.userId) ?? null : null;
+      return {
+        data: { session: session && user ? { user, access_token: accessToken(session) } : null },
+        error: null,
+      };
+    },
+
+    async signOut() {
+      setSession(null);
+      return { error: null };
+    },
+
+    async verifyOtp(params: { email?: string; token?: string; token_hash?: string; type: string }) {
+      const entry = Array.from(store.emailOtps.entries()).find(([userId, otp]) =>
+        params.token_hash
+          ? otp.hashedToken === params.token_hash
+          : otp.otp === params.token && store.authUsers.get(userId)?.email === params.email?.trim().toLowerCase()
+      );
+      if (!entry) {
+        return { data: { user: null, session: null }, error: authError("Token has expired or is invalid", 403, "otp_expired") };
+      }
+      const user = store.authUsers.get(entry[0])!;
+      store.emailOtps.delete(user.id);
+      const session = { userId: user.id, aal: "aal1" as const, sessionId: crypto.randomUUID() };
+      setSession(session);
+      return { data: { user, session: { user, access_token: accessToken(session) } }, error: null };
+    },
+
+    mfa: {
+      async getAuthenticatorAssuranceLevel() {
+        const session = getSession();
+        if (!session) {
+          return { data: null, error: authError("Auth session missing!", 401) };
+        }
+        return {
+          data: {
+            currentLevel: session.aal,
+            nextLevel: verifiedFactors(session.userId).length > 0 ? "aal2" : session.aal,
+            currentAuthenticationMethods: [],
+          },
+          error: null,
+        };
+      },
+
+      async listFactors() {
+        const id = getSignedIn();
+        if (!id) return { data: null, error: authError("Auth session missing!", 401) };
+        const all = store.factors.get(id) ?? [];
+        return { data: { all, totp: verifiedFactors(id), phone: [] }, error: null };
+      },
+    },
+
+    admin: {
+      async createUser(attributes: {
+        email: string;
+        password?: string;
+        email_confirm?: boolean;
+        user_metadata?: Record<string, any>;
+      }) {
+        if (findByEmail(attributes.email)) {
+          return {
+            data: { user: null },
+            error: authError("A user with this email address has already been registered", 422, "email_exists"),
+          };
+        }
+
+        const now = store.now();
+        const user = {
+          id: crypto.randomUUID(),
+          aud: "authenticated",
+          role: "authenticated",
+          email: attributes.email.trim().toLowerCase(),
+          email_confirmed_at: attributes.email_confirm ? now : undefined,
+          app_metadata: { provider: "email", providers: ["email"] },
+          user_metadata: attributes.user_metadata ?? {},
+          created_at: now,
+          updated_at: now,
+        } as AuthUser;
+
+        store.authUsers.set(user.id, user);
+        if (attributes.password) store.passwords.set(user.id, attributes.password);
+        return { data: { user }, error: null };
+      },
+
+      async getUserById(id: string) {
+        const user = store.authUsers.get(id);
+        return user
+          ? { data: { user }, error: null }
+          : { data: { user: null }, error: authError("User not found", 404, "user_not_found") };
+      },
+
+      async updateUserById(id: string, attributes: Record<string, any>) {
+        const user = store.authUsers.get(id);
+        if (!user) return { data: { user: null }, error: authError("User not found", 404, "user_not_found") };
+
+        const { password, ban_duration, user_metadata, ...rest } = attributes;
+        if (password !== undefined && String(password).length < MINIMUM_PASSWORD_LENGTH) {
+          return { data: { user: null }, error: weakPasswordError() };
+        }
+        if (password) store.passwords.set(id, password);
+        if (ban_duration !== undefined) {
+          const hours = Number.parseInt(ban_duration, 10);
+          (user as AuthUser & { banned_until?: string | null }).banned_until =
+            ban_duration === "none" ? null : new Date(Date.now() + hours * 3600 * 1000).toISOString();
+        }
+        Object.assign(user, rest, user_metadata ? { user_metadata: { ...user.user_metadata, ...user_metadata } } : {});
+        user.updated_at = store.now();
+        return { data: { user }, error: null };
+      },
+
+      async deleteUser(id: string) {
+        if (!store.authUsers.has(id)) {
+          return { data: { user: null }, error: authError("User not found", 404, "user_not_found") };
+        }
+        // user_profile.id references auth.users without a cascade
+        if (store.tables.user_profile?.some((profile) => profile.id === id)) {
+          return { data: { user: null }, error: authError("Database error deleting user", 500, "unexpected_failure") };
+        }
+        const user = store.authUsers.get(id)!;
+        store.authUsers.delete(id);
+        store.passwords.delete(id);
+        return { data: { user }, error: null };
+      },
+
+      async generateLink({ type, email }: { type: string; email: string }) {
+        const user = findByEmail(email);
+        if (type !== "magiclink" || !user) {
+          return { data: { user: null, properties: null }, error: authError("User not found", 404, "user_not_found") };
+        }
+        const otp = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, "0");
+        const hashedToken = crypto.randomUUID().replace(/-/g, "");
+        store.emailOtps.set(user.id, { otp, hashedToken });
+        return {
+          data: {
+            user,
+            properties: {
+              action_link: `https://in-memory.local/auth/v1/verify?token=${hashedToken}&type=magiclink`,
+              email_otp: otp,
+              hashed_token: hashedToken,
+              redirect_to: "",
+              verification_type: "magiclink",
+            },
+          },
+          error: null,
+        };
+      },
+
+      async listUsers() {
+        return { data: { users: Array.from(store.authUsers.values()), aud: "authenticated" }, error: null };
+      },
+
+      mfa: {
+        async listFactors({ userId }: { userId: string }) {
+          return { data: { factors: store.factors.get(userId) ?? [] }, error: null };
+        },
+
+        async deleteFactor({ id, userId }: { id: string; userId: string }) {
+          const factors = store.factors.get(userId) ?? [];
+          if (!factors.some((factor) => factor.id === id)) {
+            return { data: null, error: authError("Factor not found", 404, "mfa_factor_not_found") };
+          }
+          store.factors.set(userId, factors.filter((factor) => factor.id !== id));
+          return { data: { id }, error: null };
+        },
+      },
+    },
+  };
+}
+
+function createStorage(files: Map<string, Blob | ArrayBuffer | string>) {
+  return {
+    from(bucket: string) {
+      const key = (path: string) => `${bucket}/${path}`;
+      return {
+        async upload(path: string, body: Blob | ArrayBuffer | string, options?: { upsert?: boolean }) {
+          if (files.has(key(path)) && !options?.upsert) {
+            return { data: null, error: { name: "StorageApiError", message: "The resource already exists", statusCode: "409" } };
+          }
+          files.set(key(path), body);
+          return { data: { id: key(path), path, fullPath: key(path) }, error: null };
+        },
+        async download(path: string) {
+          const body = files.get(key(path));
+          return body === undefined
+            ? { data: null, error: { name: "StorageApiError", message: "Object not found", statusCode: "404" } }
+            : { data: body instanceof Blob ? body : new Blob([body]), error: null };
+        },
+        async remove(paths: string[]) {
+          const removed = paths.filter((path) => files.delete(key(path)));
+          return { data: removed.map((path) => ({ name: path, bucket_id: bucket })), error: null };
+        },
+        async list(prefix = "") {
+          const names = Array.from(files.keys())
+            .filter((name) => name.startsWith(`${bucket}/${prefix}`))
+            .map((name) => ({ name: name.slice(bucket.length + 1) }));
+          return { data: names, error: null };
+        },
+        getPublicUrl(path: string) {
+          return { data: { publicUrl: `memory://storage/${key(path)}` } };
+        },
+      };
+    },
+  };
+}
+
+/* ============================================================
+   Adapter
+============================================================ */
+
+const TABLE_NAMES: TableName[] = [
+  "audit_log",
+  "invitations",
+  "login_code_requests",
+  "mfa_recovery_codes",
+  "migration_logs",
+  "organization_domains",
+  "organization_members",
+  "organizations",
+  "password_resets",
+  "role_access",
+  "roles",
+  "settings",
+  "sso_connections",
+  "sso_group_mappings",
+  "sso_requests",
+  "user_identities",
+  "user_profile",
+  "user_sessions",
+];
+
+/**
+ * Create an empty in-memory database, optionally seeded
+ */
+export function createInMemoryAdapter(seed?: InMemorySeed): InMemoryAdapter {
+  const store = new InMemoryStore(TABLE_NAMES);
+  const files = new Map<string, Blob | ArrayBuffer | string>();
+  const rpcHandlers = new Map<string, RpcHandler>();
+  let session: InMemorySession = null;
+
+  const adapter = {
+    get tables() {
+      return store.tables;
+    },
+    authUsers: store.authUsers,
+    files,
+
+    from(table: string) {
+      return new InMemoryQuery(store, table);
+    },
+
+    asUser() {
+      return {
+        from: (table: string) => new InMemoryQuery(store, table, session?.userId ?? null),
+      };
+    },
+
+    async rpc(name: string, params: Record<string, any> = {}) {
+      try {
+        store.checkFailure(name, "rpc");
+        const handler = rpcHandlers.get(name);
+        if (!handler) {
+          throw pgError("PGRST202", `Could not find the function public.${name} in the schema cache`);
+        }
+        const data = await store.transactionAsync(async () => handler(params, adapter as unknown as InMemoryAdapter));
+        return { data: data ?? null, error: null, count: null, status: 200, statusText: "OK" };
+      } catch (error) {
+        // Stubs raise like plpgsql: a query error they rethrow, or any Error (P0001)
+        const raised: Partial<InMemoryError> = error instanceof QueryError
+          ? error.error
+          : error instanceof Error ? { message: error.message } : (error as Partial<InMemoryError>);
+        return {
+          data: null,
+          error: { code: raised.code ?? "P0001", message: raised.message ?? String(error), details: raised.details ?? null, hint: raised.hint ?? null },
+          count: null,
+          status: 400,
+          statusText: "Bad Request",
+        };
+      }
+    },
+
+    storage: createStorage(files),
+    auth: createAuth(store, () => session, (next) => { session = next; }),
+
+    stubRpc(name: string, handler: RpcHandler) {
+      rpcHandlers.set(name, handler);
+    },
+
+    signIn(userId: string | null, options?: { aal?: AuthenticatorAssuranceLevels; sessionId?: string }) {
+      session = userId ? { userId, aal: options?.aal ?? "aal1", sessionId: options?.sessionId ?? crypto.randomUUID() } : null;
+    },
+
+    addFactor(userId: string, options?: { verified?: boolean; friendlyName?: string }) {
+      const now = store.now();
+      const factor = {
+        id: crypto.randomUUID(),
+        friendly_name: options?.friendlyName,
+        factor_type: "totp",
+        status: options?.verified === false ? "unverified" : "verified",
+        created_at: now,
+        updated_at: now,
+      } as Factor;
+      store.factors.set(userId, [...(store.factors.get(userId) ?? []), factor]);
+      return factor;
+    },
+
+    endSession(sessionId: string) {
+      store.endedSessions.add(sessionId);
+    },
+
+    injectFailure(failure: InjectedFailure) {
+      store.failures.push({ times: 1, ...failure });
+    },
+
+    seed({ tables, authUsers }: InMemorySeed) {
+      for (const user of authUsers ?? []) {
+        const now = store.now();
+        store.authUsers.set(user.id, {
+          id: user.id,
+          aud: "authenticated",
+          email: user.email,
+          email_confirmed_at: now,
+          app_metadata: { provider: "email" },
+          user_metadata: user.user_metadata ?? {},
+          created_at: now,
+        } as AuthUser);
+        if (user.password) store.passwords.set(user.id, user.password);
+      }
+      for (const [table, rows] of Object.entries(tables ?? {})) {
+        for (const row of rows ?? []) store.tables[table].push(store.withDefaults(table, structuredClone(row)));
+      }
+    },
+  };
+
+  if (seed) adapter.seed(seed);
+  return adapter as unknown as InMemoryAdapter;
+}
@@ -0,0 +1,168 @@
+/**
+ * In-Memory Schema
+ *
+ * The parts of the database schema the in-memory adapter enforces: column
+ * defaults, unique columns and foreign keys (used for embedded selects and
+ * delete behaviour). Mirrors supabase/migrations; keep it in step with
+ * types/database.ts when a migration changes these.
+ */
+
+import type { TableName } from "./BaseService";
+
+export type ForeignKey = {
+  table: TableName;
+  column: string;
+  references: TableName | "auth.users";
+  onDelete: "cascade" | "restrict" | "set null";
+};
+
+export const FOREIGN_KEYS: ForeignKey[] = [
+  { table: "role_access", column: "role_id", references: "roles", onDelete: "cascade" },
+  { table: "user_profile", column: "id", references: "auth.users", onDelete: "restrict" },
+  { table: "user_profile", column: "role_id", references: "roles", onDelete: "restrict" },
+  { table: "user_profile", column: "active_organization_id", references: "organizations", onDelete: "set null" },
+  { table: "invitations", column: "role_id", references: "roles", onDelete: "cascade" },
+  { table: "invitations", column: "invited_by", references: "user_profile", onDelete: "set null" },
+  { table: "invitations", column: "accepted_user_id", references: "user_profile", onDelete: "set null" },
+  { table: "invitations", column: "organization_id", references: "organizations", onDelete: "cascade" },
+  { table: "password_resets", column: "user_id", references: "user_profile", onDelete: "cascade" },
+  { table: "mfa_recovery_codes", column: "user_id", references: "user_profile", onDelete: "cascade" },
+  { table: "user_identities", column: "user_id", references: "user_profile", onDelete: "cascade" },
+  { table: "user_sessions", column: "user_id", references: "user_profile", onDelete: "cascade" },
+  { table: "organization_members", column: "organization_id", references: "organizations", onDelete: "cascade" },
+  { table: "organization_members", column: "user_id", references: "user_profile", onDelete: "cascade" },
+  { table: "organization_members", column: "role_id", references: "roles", onDelete: "restrict" },
+  { table: "settings", column: "organization_id", references: "organizations", onDelete: "cascade" },
+  { table: "organization_domains", column: "organization_id", references: "organizations", onDelete: "cascade" },
+  { table: "sso_connections", column: "organization_id", references: "organizations", onDelete: "cascade" },
+  { table: "sso_connections", column: "default_role_id", references: "roles", onDelete: "set null" },
+  { table: "sso_group_mappings", column: "connection_id", references: "sso_connections", onDelete: "cascade" },
+  { table: "sso_group_mappings", column: "role_id", references: "roles", onDelete: "cascade" },
+  { table: "sso_requests", column: "connection_id", references: "sso_connections", onDelete: "cascade" },
+  { table: "audit_log", column: "organization_id", references: "organizations", onDelete: "set null" },
+];
+
+/**
+ * Column sets that must be unique, per table
+ */
+export const UNIQUE_COLUMNS: Partial<Record<TableName, string[][]>> = {
+  roles: [["name"]],
+  role_access: [["role_id", "resource", "action"]],
+  user_profile: [["email"]],
+  invitations: [["token_hash"]],
+  password_resets: [["token_hash"]],
+  mfa_recovery_codes: [["code_hash"]],
+  user_identities: [["issuer", "subject"]],
+  organizations: [["slug"]],
+  organization_members: [["organization_id", "user_id"]],
+  // Verified domains are also unique (a partial index the adapter doesn't model)
+  organization_domains: [["organization_id", "domain"]],
+  settings: [["organization_id"]],
+  sso_connections: [["organization_id"]],
+  sso_group_mappings: [["connection_id", "group_name"]],
+  sso_requests: [["token_hash"]],
+};
+
+// Tables whose `id` is a serial integer rather than a uuid
+export { SERIAL_ID_TABLES } from "./BaseService";
+
+/**
+ * Column defaults applied on insert, besides `id`
+ */
+export function columnDefaults(table: string, now: string): Record<string, unknown> {
+  switch (table) {
+    case "password_resets":
+    case "mfa_recovery_codes":
+    case "login_code_requests":
+      return { created_at: now };
+    case "user_identities":
+      return { created_at: now, last_sign_in_at: null };
+    case "sso_requests":
+      return { created_at: now, used_at: null };
+    case "user_sessions":
+      return { created_at: now, last_seen_at: now, revoked_at: null };
+    case "roles":
+      return { created_at: now, updated_at: now, mfa_required: false };
+    case "audit_log":
+      return { created_at: now, changes: {} };
+    case "sso_connections":
+      return {
+        created_at: now,
+        updated_at: now,
+        enabled: false,
+        domains: [],
+        idp_certificates: [],
+        groups_attribute: "groups",
+        default_role_id: null,
+      };
+    case "organization_domains":
+      return { created_at: now, updated_at: now, verified_at: null, auto_join: false };
+    case "sso_group_mappings":
+      return { created_at: now, updated_at: now, priority: 0 };
+    case "migration_logs":
+      return { executed_at: now };
+    case "user_profile":
+      return { created_at: now, updated_at: now, is_active: true, deleted_at: null };
+    case "organizations":
+      return { created_at: now, updated_at: now, is_default: false };
+    case "settings":
+      return { created_at: now, updated_at: now, magic_link_enabled: false, email_otp_enabled: false };
+    default:
+      return { created_at: now, updated_at: now };
+  }
+}
+
+/**
+ * Whether updates bump `updated_at` (the set_updated_at trigger)
+ */
+export function hasUpdatedAt(table: string): boolean {
+  return !["password_resets", "mfa_recovery_codes", "login_code_requests", "sso_requests", "user_identities", "user_sessions", "audit_log", "migration_logs"].includes(table);
+}
+
+type TriggerStore = {
+  rows: (table: TableName) => Record<string, any>[];
+  upsert: (table: TableName, row: Record<string, any>, onConflict: string[]) => void;
+  /** auth.uid(): the user whose token made the write, null for the service role */
+  uid: string | null;
+  /** RAISE EXCEPTION, failing the write */
+  raise: (code: string, message: string) => never;
+};
+
+/**
+ * Row triggers from the migrations. `before` may change the row being
+ * written or refuse it; `after` runs once it is stored.
+ */
+export const TRIGGERS: Partial<Record<TableName, {
+  beforeInsert?: (row: Record<string, any>, store: TriggerStore) => void;
+  beforeUpdate?: (row: Record<string, any>, previous: Record<string, any>, store: TriggerStore) => void;
+  afterWrite?: (row: Record<string, any>, previous: Record<string, any> | null, store: TriggerStore) => void;
+}>> = {
+  user_profile: {
+    // set_default_active_organization
+    beforeInsert(row, store) {
+      if (row.active_organization_id == null) {
+        row.active_organization_id =
+          store.rows("organizations").find((organization) => organization.is_default)?.id ?? null;
+      }
+    },
+    // guard_user_profile_organization
+    beforeUpdate(row, previous, store) {
+      if (
+        store.uid &&
+        (row.role_id !== previous.role_id || row.active_organization_id !== previous.active_organization_id)
+      ) {
+        store.raise("42501", "Users cannot change their own role or active organization");
+      }
+    },
+    // sync_active_organization_membership (on insert or role_id change, by the service role)
+    afterWrite(row, previous, store) {
+      if (store.uid || !row.active_organization_id) return;
+      if (previous && previous.role_id === row.role_id) return;
+      store.upsert(
+        "organization_members",
+        { organization_id: row.active_organization_id, user_id: row.id, role_id: row.role_id },
+        ["organization_id", "user_id"]
+      );
+    },
+  },
+};
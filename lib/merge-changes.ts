@@ -0,0 +1,44 @@
+/**
+ * Three-way merge used when a save is rejected with a CONFLICT error.
+ *
+ * `base` is the record the form was loaded from, `mine` the values being
+ * saved and `theirs` the record as someone else saved it in the meantime.
+ */
+
+export type MergeResult<T> = {
+  // Their record with every field the user changed applied on top
+  merged: T;
+  // Fields changed on both sides to different values (the user's value wins in `merged`)
+  conflicts: (keyof T)[];
+  // Fields only the other side changed
+  theirChanges: (keyof T)[];
+};
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function mergeChanges<T extends Record<string, any>>(
+  base: T,
+  mine: T,
+  theirs: T,
+  fields: (keyof T)[]
+): MergeResult<T> {
+  const merged = { ...mine };
+  const conflicts: (keyof T)[] = [];
+  const theirChanges: (keyof T)[] = [];
+
+  for (const field of fields) {
+    const changedByMe = !isSame(mine[field], base[field]);
+    const changedByThem = !isSame(theirs[field], base[field]);
+
+    if (changedByThem && !changedByMe) {
+      merged[field] = theirs[field];
+      theirChanges.push(field);
+    } else if (changedByThem && changedByMe && !isSame(mine[field], theirs[field])) {
+      conflicts.push(field);
+    }
+  }
+
+  return { merged, conflicts, theirChanges };
+}
@@ -0,0 +1,110 @@
+/**
+ * MFA Recovery
+ *
+ * Recovery codes and factor resets for users who lose their authenticator.
+ * Codes are shown once when generated and stored as SHA-256 hashes. Redeeming
+ * one removes the user's factors so they can sign in with their password and
+ * enroll a new authenticator; admins reset a user's factors the same way.
+ * Callers are responsible for authorization.
+ */
+
+import crypto from "crypto";
+import { createAdminClient } from "./supabase/admin";
+import { hashToken } from "./tokens";
+import { mfaRecoveryCodesServiceUnified } from "@/modules/mfa-recovery-codes";
+
+// Codes issued at a time
+export const RECOVERY_CODE_COUNT = 10;
+
+// No 0/o, 1/l/i: codes are often copied by hand
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const RECOVERY_CODE_LENGTH = 10;
+
+/* ============================================================
+   Codes
+============================================================ */
+
+function randomCode(): string {
+  const chars = Array.from(
+    { length: RECOVERY_CODE_LENGTH },
+    () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+  ).join("");
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * Hash a code as entered; case, spaces and dashes don't matter
+ */
+export function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[\s-]/g, ""));
+}
+
+/**
+ * Issue a new set of recovery codes for a user, replacing any earlier set
+ *
+ * @returns The codes, to be shown to the user once
+ */
+export async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomCode);
+
+  const result = await mfaRecoveryCodesServiceUnified.replaceRecoveryCodes(
+    userId,
+    codes.map(hashRecoveryCode),
+    { environment: "admin" }
+  );
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to save recovery codes");
+  }
+
+  return codes;
+}
+
+/* ============================================================
+   Factors
+============================================================ */
+
+/**
+ * Remove every MFA factor and recovery code a user has. Their current
+ * sessions drop to password-only (aal1).
+ *
+ * @returns How many factors were removed
+ */
+export async function resetMfaFactors(userId: string): Promise<number> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase.auth.admin.mfa.listFactors({ userId });
+  if (error) throw error;
+
+  for (const factor of data?.factors ?? []) {
+    const { error: deleteError } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+    if (deleteError) throw deleteError;
+  }
+
+  const codes = await mfaRecoveryCodesServiceUnified.deleteRecoveryCodes(userId, { environment: "admin" });
+  if (!codes.success) {
+    throw new Error(codes.error?.message || "Failed to remove recovery codes");
+  }
+
+  return data?.factors.length ?? 0;
+}
+
+/**
+ * Redeem a recovery code: when it is valid and unused, the user's factors
+ * are removed.
+ *
+ * @returns Whether the code was accepted
+ */
+export async function redeemRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const consumed = await mfaRecoveryCodesServiceUnified.consumeRecoveryCode(
+    userId,
+    hashRecoveryCode(code),
+    { environment: "admin" }
+  );
+  if (!consumed.success) {
+    throw new Error(consumed.error?.message || "Failed to check recovery code");
+  }
+  if (!consumed.data) return false;
+
+  await resetMfaFactors(userId);
+  return true;
+}
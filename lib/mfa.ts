@@ -0,0 +1,38 @@
+/**
+ * Multi-Factor Authentication
+ *
+ * Decides whether a signed-in user has an MFA step left before they can use
+ * the app: a challenge when they have a verified authenticator but the
+ * session only proves their password (aal1), or enrollment when their role
+ * requires MFA and they have no authenticator yet. The middleware sends such
+ * users to MFA_ROUTE and `authorizeRequest` refuses their requests. Runs on
+ * the edge, so it only talks to Supabase through the client it is given.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type MfaStep = "challenge" | "enroll";
+
+// Where users complete a pending step; reachable while the step is pending
+export const MFA_ROUTE = "/auth/mfa";
+
+/**
+ * The MFA step the session still has to take, or null when it is complete
+ *
+ * @param supabase - Client carrying the user's session
+ * @param roleRequiresMfa - Whether the user's role requires MFA; only called
+ *   when the user has no verified factor
+ */
+export async function getPendingMfaStep(
+  supabase: SupabaseClient,
+  roleRequiresMfa: () => boolean | Promise<boolean>
+): Promise<MfaStep | null> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  // Fail closed: the MFA page works out what the user can do from there
+  if (error || !data) return "challenge";
+  if (data.currentLevel === "aal2") return null;
+  if (data.nextLevel === "aal2") return "challenge";
+
+  return (await roleRequiresMfa()) ? "enroll" : null;
+}
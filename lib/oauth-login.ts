@@ -0,0 +1,264 @@
+/**
+ * OAuth Login
+ *
+ * What happens after a provider vouches for someone. Supabase providers
+ * (Google, GitHub, Microsoft) create the auth user themselves, so first
+ * sign-ins only need a profile. OpenID Connect sign-ins are matched to a user
+ * here — by linked identity, then by verified email — and get a session from
+ * a one-time magic link token. Either way, new users get the default role and
+ * join the organization that verified their email domain for auto-join (the
+ * default organization otherwise). Callers are responsible for the redirects.
+ */
+
+import { createAdminClient } from "./supabase/admin";
+import { provisionUser } from "./user-provisioning";
+import { verifyPasswordlessLogin } from "./passwordless-login";
+import type { OidcClaims } from "./oidc";
+import { emailDomain, isPublicEmailDomain } from "./domain-verification";
+import { usersService, usersServiceUnified } from "@/modules/users";
+import { rolesServiceUnified } from "@/modules/roles";
+import { organizationDomainsServiceUnified } from "@/modules/organization-domains";
+import { userIdentitiesService } from "@/modules/user-identities";
+
+// Role given to users created by a provider sign-in
+const DEFAULT_ROLE_NAME = "user";
+
+export type OAuthLoginResult =
+  | { success: true; userId: string; created: boolean }
+  | { success: false; error: string };
+
+type ProviderUser = {
+  id: string;
+  email?: string | null;
+  user_metadata?: Record<string, unknown> | null;
+};
+
+/* ============================================================
+   Provisioning
+============================================================ */
+
+/**
+ * First and last name from provider claims or Supabase user_metadata
+ */
+export function namesFromClaims(claims: Record<string, unknown>): { firstName: string; lastName: string } {
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+  const firstName = text(claims.given_name) || text(claims.first_name);
+  const lastName = text(claims.family_name) || text(claims.last_name);
+  if (firstName || lastName) {
+    return { firstName, lastName };
+  }
+
+  const [first = "", ...rest] = (text(claims.full_name) || text(claims.name)).split(/\s+/);
+  return { firstName: first, lastName: rest.join(" ") };
+}
+
+/**
+ * The organization a new user joins: the one that verified their email domain
+ * and lets it auto-join, or null for the default organization
+ */
+async function organizationForEmail(email: string): Promise<string | null> {
+  const domain = emailDomain(email);
+  if (!domain || isPublicEmailDomain(domain)) return null;
+
+  const result = await organizationDomainsServiceUnified.getVerifiedDomain(domain, { environment: "admin" });
+  if (!result.success) {
+    throw new Error(result.error?.message || "Error looking up auto-join domain");
+  }
+  return result.data?.auto_join ? result.data.organization_id : null;
+}
+
+/**
+ * The role new users get
+ */
+export async function defaultRoleId(): Promise<string> {
+  const result = await rolesServiceUnified.getRoleByName(DEFAULT_ROLE_NAME, { environment: "admin" });
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || "Error looking up the default role");
+  }
+  return result.data;
+}
+
+function inactiveError(): { success: false; error: string } {
+  return { success: false, error: "This account can't sign in" };
+}
+
+/**
+ * Make sure a user who signed in with a Supabase provider has an active
+ * profile, creating it on their first sign-in
+ *
+ * @param user - The Supabase auth user from the exchanged session
+ */
+export async function provisionOAuthUser(user: ProviderUser): Promise<OAuthLoginResult> {
+  const existing = await usersService.getUserById(user.id, "admin");
+  if (existing.success && existing.data) {
+    return existing.data.is_active === false ? inactiveError() : { success: true, userId: user.id, created: false };
+  }
+  if (existing.error?.code !== "RECORD_NOT_FOUND") {
+    return { success: false, error: existing.error?.message || "Error looking up user" };
+  }
+  if (!user.email) {
+    return { success: false, error: "The provider didn't share an email address" };
+  }
+
+  const email = user.email.trim().toLowerCase();
+  const { firstName, lastName } = namesFromClaims(user.user_metadata || {});
+  const created = await usersService.createUser(
+    {
+      id: user.id,
+      email,
+      first_name: firstName,
+      last_name: lastName,
+      profile: "",
+      role_id: await defaultRoleId(),
+      is_active: true,
+      active_organization_id: await organizationForEmail(email),
+    },
+    "admin"
+  );
+
+  if (!created.success) {
+    return { success: false, error: created.error?.message || "Failed to create user profile" };
+  }
+  return { success: true, userId: user.id, created: true };
+}
+
+/* ============================================================
+   OpenID Connect
+============================================================ */
+
+/**
+ * Find or create the user for an OpenID Connect account. Unknown accounts
+ * are linked to the user with the same verified email, or get a new user.
+ */
+async function resolveOidcUser(claims: OidcClaims, provider: string): Promise<OAuthLoginResult> {
+  const identity = await userIdentitiesService.getIdentity(claims.iss, claims.sub, "admin");
+  if (!identity.success) {
+    return { success: false, error: identity.error?.message || "Error looking up identity" };
+  }
+
+  const email = claims.email?.trim().toLowerCase() || null;
+  if (identity.data) {
+    await userIdentitiesService.recordIdentitySignIn(identity.data.id, email, "admin");
+    return { success: true, userId: identity.data.user_id, created: false };
+  }
+
+  // Only an email the provider vouches for may be matched to an existing user
+  if (!email || claims.email_verified !== true) {
+    return { success: false, error: "The provider didn't share a verified email address" };
+  }
+
+  const existing = await usersServiceUnified.getUserByEmail(email, { environment: "admin" });
+  if (!existing.success) {
+    return { success: false, error: existing.error?.message || "Error looking up user" };
+  }
+
+  let userId = existing.data?.id;
+  let created = false;
+  if (!userId) {
+    const { firstName, lastName } = namesFromClaims(claims);
+    const provisioned = await provisionUser({
+      email,
+      firstName,
+      lastName,
+      roleId: await defaultRoleId(),
+      organizationId: await organizationForEmail(email),
+      metadata: { provider },
+    });
+    if (!provisioned.success || !provisioned.data) {
+      return { success: false, error: provisioned.error?.message || "Failed to create user" };
+    }
+    userId = provisioned.data.id;
+    created = true;
+  }
+
+  const linked = await userIdentitiesService.createIdentity(
+    { user_id: userId, provider, issuer: claims.iss, subject: claims.sub, email },
+    "admin"
+  );
+  if (!linked.success) {
+    return { success: false, error: linked.error?.message || "Failed to link identity" };
+  }
+
+  return { success: true, userId, created };
+}
+
+/**
+ * Sign in with checked OpenID Connect claims. The session is set in the
+ * request cookies.
+ *
+ * @param claims - Claims from `exchangeOidcCode`
+ * @param provider - Provider key stored on new identities
+ */
+export async function signInWithOidcClaims(claims: OidcClaims, provider: string): Promise<OAuthLoginResult> {
+  const resolved = await resolveOidcUser(claims, provider);
+  if (!resolved.success) return resolved;
+
+  const session = await startSessionForUser(resolved.userId);
+  return session.success ? resolved : session;
+}
+
+/**
+ * Sign in a user the app has already vouched for (e.g. after an identity
+ * provider sign-in), if their profile is active. The session is set in the
+ * request cookies.
+ *
+ * @param userId - The user to sign in
+ */
+export async function startSessionForUser(
+  userId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const profile = await usersService.getUserById(userId, "admin");
+  if (!profile.success || !profile.data || profile.data.is_active === false || !profile.data.email) {
+    return inactiveError();
+  }
+
+  // The same one-time token a magic link carries, redeemed straight away
+  const { data, error } = await createAdminClient().auth.admin.generateLink({
+    type: "magiclink",
+    email: profile.data.email,
+  });
+  if (error || !data.properties) {
+    return { success: false, error: error?.message || "Error starting session" };
+  }
+
+  const session = await verifyPasswordlessLogin({ tokenHash: data.properties.hashed_token });
+  return session.success ? { success: true } : session;
+}
+
+/**
+ * Link an OpenID Connect account to a signed-in user
+ *
+ * @param claims - Claims from `exchangeOidcCode`
+ * @param provider - Provider key stored on the identity
+ * @param userId - The signed-in user
+ */
+export async function linkOidcIdentity(
+  claims: OidcClaims,
+  provider: string,
+  userId: string
+): Promise<OAuthLoginResult> {
+  const identity = await userIdentitiesService.getIdentity(claims.iss, claims.sub, "admin");
+  if (!identity.success) {
+    return { success: false, error: identity.error?.message || "Error looking up identity" };
+  }
+  if (identity.data) {
+    return identity.data.user_id === userId
+      ? { success: true, userId, created: false }
+      : { success: false, error: "This account is already linked to another user" };
+  }
+
+  const linked = await userIdentitiesService.createIdentity(
+    {
+      user_id: userId,
+      provider,
+      issuer: claims.iss,
+      subject: claims.sub,
+      email: claims.email?.trim().toLowerCase() || null,
+    },
+    "admin"
+  );
+  return linked.success
+    ? { success: true, userId, created: false }
+    : { success: false, error: linked.error?.message || "Failed to link identity" };
+}
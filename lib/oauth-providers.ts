@@ -0,0 +1,91 @@
+/**
+ * OAuth Providers
+ *
+ * The social and OpenID Connect providers offered on the login and signup
+ * pages. Google, GitHub and Microsoft go through Supabase Auth and must also
+ * be enabled in Supabase (`[auth.external.*]` in supabase/config.toml); the
+ * generic OpenID Connect provider is handled by the app (lib/oidc.ts) because
+ * Supabase has no generic one. Safe to import from client components.
+ */
+
+import type { Provider } from "@supabase/supabase-js";
+
+export type OAuthProviderId = "google" | "github" | "azure" | "oidc";
+
+export interface OAuthProvider {
+  id: OAuthProviderId;
+  name: string;
+  // Supabase provider name; absent for the app-side OpenID Connect provider
+  supabaseProvider?: Provider;
+}
+
+const PROVIDERS: Record<OAuthProviderId, OAuthProvider> = {
+  google: { id: "google", name: "Google", supabaseProvider: "google" },
+  github: { id: "github", name: "GitHub", supabaseProvider: "github" },
+  azure: { id: "azure", name: "Microsoft", supabaseProvider: "azure" },
+  oidc: { id: "oidc", name: "Single sign-on" },
+};
+
+// Where provider sign-ins and links come back to
+export const OAUTH_CALLBACK_ROUTE = "/api/auth/oauth/callback";
+export const OIDC_START_ROUTE = "/api/auth/oidc";
+export const OIDC_CALLBACK_ROUTE = "/api/auth/oidc/callback";
+
+// Organization single sign-on (lib/sso-login.ts)
+export const SSO_ROUTE_PREFIX = "/api/auth/sso";
+export const SSO_START_ROUTE = SSO_ROUTE_PREFIX;
+export const SSO_OIDC_CALLBACK_ROUTE = `${SSO_ROUTE_PREFIX}/oidc/callback`;
+export const SAML_ACS_ROUTE = `${SSO_ROUTE_PREFIX}/saml/acs`;
+export const SAML_METADATA_ROUTE = `${SSO_ROUTE_PREFIX}/saml/metadata`;
+
+/**
+ * Look up a provider by ID
+ */
+export function getOAuthProvider(id: string): OAuthProvider | null {
+  if (!Object.prototype.hasOwnProperty.call(PROVIDERS, id)) return null;
+  const provider = PROVIDERS[id as OAuthProviderId];
+  return id === "oidc" && process.env.NEXT_PUBLIC_OIDC_PROVIDER_NAME
+    ? { ...provider, name: process.env.NEXT_PUBLIC_OIDC_PROVIDER_NAME }
+    : provider;
+}
+
+/**
+ * The providers listed in NEXT_PUBLIC_OAUTH_PROVIDERS (comma separated, e.g.
+ * "google,github,azure,oidc"), in that order. Unknown names are ignored.
+ */
+export function getEnabledOAuthProviders(): OAuthProvider[] {
+  const ids = (process.env.NEXT_PUBLIC_OAUTH_PROVIDERS || "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return Array.from(new Set(ids))
+    .map(getOAuthProvider)
+    .filter((provider): provider is OAuthProvider => provider !== null);
+}
+
+/**
+ * Build the URL that starts signing in (or linking, when `link` is set) with
+ * a provider from the browser. Supabase providers are started through the
+ * auth service instead; this is for the OpenID Connect provider.
+ */
+export function getOidcStartUrl(next: string, options?: { link?: boolean }): string {
+  const params = new URLSearchParams({ next });
+  if (options?.link) params.set("link", "1");
+  return `${OIDC_START_ROUTE}?${params}`;
+}
+
+/**
+ * Build the URL that sends someone to their organization's identity provider,
+ * found from their email domain
+ */
+export function getSsoStartUrl(email: string, next = "/"): string {
+  return `${SSO_START_ROUTE}?${new URLSearchParams({ email, next })}`;
+}
+
+/**
+ * Keep post-sign-in redirects on this site
+ */
+export function safeNextPath(next: string | null | undefined, fallback = "/"): string {
+  return next && next.startsWith("/") && !next.startsWith("//") && !next.startsWith("/\\") ? next : fallback;
+}
@@ -0,0 +1,226 @@
+/**
+ * OpenID Connect Client
+ *
+ * A minimal authorization code flow (with PKCE) against any OpenID Connect
+ * provider, for providers Supabase Auth can't handle itself. The ID token is
+ * taken straight from the provider's token endpoint over TLS, so its claims
+ * are checked (issuer, audience, expiry, nonce) but its signature is not
+ * (OpenID Connect Core 3.1.3.7). Server only.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+
+export interface OidcClientConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string;
+}
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+export interface OidcAuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+// What the start route keeps in a cookie for the callback
+export interface OidcPendingRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  next: string;
+  link: boolean;
+}
+
+export const OIDC_REQUEST_COOKIE = "oidc_request";
+export const OIDC_REQUEST_MAX_AGE_SECONDS = 60 * 10;
+
+const DEFAULT_SCOPES = "openid email profile";
+// Allowed difference between our clock and the provider's
+const CLOCK_TOLERANCE_SECONDS = 60;
+const METADATA_TTL_MS = 1000 * 60 * 60;
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+
+/* ============================================================
+   Configuration
+============================================================ */
+
+/**
+ * The app-wide OpenID Connect provider from OIDC_ISSUER, OIDC_CLIENT_ID and
+ * OIDC_CLIENT_SECRET (and optionally OIDC_SCOPES), or null if not configured
+ */
+export function getOidcConfig(): OidcClientConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  if (!issuer || !clientId || !clientSecret) return null;
+
+  return { issuer, clientId, clientSecret, scopes: process.env.OIDC_SCOPES || undefined };
+}
+
+/**
+ * Fetch (and cache for an hour) the provider's discovery document
+ *
+ * @param issuer - The provider's issuer URL
+ */
+export async function discoverOidcProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(`${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`, {
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`OpenID Connect discovery failed with status ${response.status}`);
+  }
+
+  const metadata = (await response.json()) as OidcProviderMetadata;
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint) {
+    throw new Error("OpenID Connect discovery document is missing endpoints");
+  }
+  if (metadata.issuer !== issuer) {
+    throw new Error("OpenID Connect discovery document is for a different issuer");
+  }
+
+  metadataCache.set(issuer, { metadata, expiresAt: Date.now() + METADATA_TTL_MS });
+  return metadata;
+}
+
+/* ============================================================
+   Authorization code flow
+============================================================ */
+
+function randomToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Build the URL that sends the browser to the provider. Keep the returned
+ * state, nonce and code verifier (e.g. in a cookie) for the callback.
+ *
+ * @param config - The provider to sign in with
+ * @param redirectUri - Absolute URL of the callback route
+ */
+export async function createOidcAuthorizationRequest(
+  config: OidcClientConfig,
+  redirectUri: string
+): Promise<OidcAuthorizationRequest> {
+  const metadata = await discoverOidcProvider(config.issuer);
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", config.scopes || DEFAULT_SCOPES);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", createHash("sha256").update(codeVerifier).digest("base64url"));
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+/**
+ * Decode an ID token's claims without checking them
+ */
+export function decodeIdToken(idToken: string): OidcClaims {
+  const payload = idToken.split(".")[1];
+  if (!payload) {
+    throw new Error("Malformed ID token");
+  }
+  return JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as OidcClaims;
+}
+
+/**
+ * Check an ID token's issuer, audience, expiry and nonce
+ */
+export function validateIdTokenClaims(
+  claims: OidcClaims,
+  expected: { issuer: string; clientId: string; nonce: string }
+): void {
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== expected.issuer) {
+    throw new Error("ID token issuer does not match");
+  }
+  if (!audiences.includes(expected.clientId)) {
+    throw new Error("ID token was issued for a different client");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+    throw new Error("ID token has expired");
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw new Error("ID token nonce does not match");
+  }
+  if (!claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+}
+
+/**
+ * Exchange the authorization code from the callback for the ID token's
+ * claims, checked against the original request
+ *
+ * @param config - The provider the code came from
+ * @param params - The code, the callback URL and the saved request values
+ */
+export async function exchangeOidcCode(
+  config: OidcClientConfig,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+): Promise<OidcClaims> {
+  const metadata = await discoverOidcProvider(config.issuer);
+
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      code_verifier: params.codeVerifier,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    }),
+    cache: "no-store",
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.id_token !== "string") {
+    throw new Error(`OpenID Connect token exchange failed: ${body.error_description || body.error || response.status}`);
+  }
+
+  const claims = decodeIdToken(body.id_token);
+  validateIdTokenClaims(claims, { issuer: config.issuer, clientId: config.clientId, nonce: params.nonce });
+  return claims;
+}
@@ -0,0 +1,153 @@
+/**
+ * Passwordless Login
+ *
+ * Magic links and six-digit email codes. Both come from one Supabase magic
+ * link (`auth.admin.generateLink`): the email carries either the link, which
+ * lands on /api/auth/callback, or the code, which the login page submits.
+ * Each method is switched on per organization in settings; requests are rate
+ * limited per email and per IP address. Callers are responsible for returning
+ * the same response whether or not the email has an account.
+ */
+
+import { createAdminClient } from "./supabase/admin";
+import { createClient } from "./supabase/server";
+import { emailService } from "./email-service";
+import { recordUserSession } from "./user-sessions";
+import { usersService } from "@/modules/users";
+import { settingsServiceUnified, type Settings } from "@/modules/settings";
+import { loginCodeRequestsService, type LoginCodeMethod } from "@/modules/login-code-requests";
+
+export type { LoginCodeMethod };
+
+export const LOGIN_CODE_METHODS: readonly LoginCodeMethod[] = ["magic_link", "email_otp"];
+
+// At most 5 requests per address and 20 per IP address per 15 minutes
+const LOGIN_CODE_WINDOW_MS = 1000 * 60 * 15;
+const LOGIN_CODE_MAX_PER_EMAIL = 5;
+const LOGIN_CODE_MAX_PER_IP = 20;
+
+/* ============================================================
+   Settings
+============================================================ */
+
+/**
+ * Whether an organization's settings allow a passwordless method
+ */
+export function isLoginMethodEnabled(
+  settings: Pick<Settings, "magic_link_enabled" | "email_otp_enabled"> | null | undefined,
+  method: LoginCodeMethod
+): boolean {
+  return method === "magic_link" ? settings?.magic_link_enabled === true : settings?.email_otp_enabled === true;
+}
+
+async function isEnabledForOrganization(organizationId: string | null | undefined, method: LoginCodeMethod) {
+  const settings = await settingsServiceUnified.getSettingsById({ organizationId, environment: "admin" });
+  return settings.success && isLoginMethodEnabled(settings.data, method);
+}
+
+/* ============================================================
+   Requests
+============================================================ */
+
+/**
+ * Record a request and report whether it is over the limit. Requests over
+ * the limit are still recorded, so hammering the endpoint doesn't reset it.
+ */
+export async function isLoginCodeRequestLimited(
+  email: string,
+  method: LoginCodeMethod,
+  ipAddress: string | null
+): Promise<boolean> {
+  const since = new Date(Date.now() - LOGIN_CODE_WINDOW_MS).toISOString();
+
+  const [byEmail, byIp] = await Promise.all([
+    loginCodeRequestsService.countRecentLoginCodeRequests({ email }, since, "admin"),
+    ipAddress
+      ? loginCodeRequestsService.countRecentLoginCodeRequests({ ipAddress }, since, "admin")
+      : Promise.resolve({ success: true, data: 0 }),
+  ]);
+  if (!byEmail.success || !byIp.success) {
+    throw new Error("Error checking sign-in requests");
+  }
+
+  const recorded = await loginCodeRequestsService.recordLoginCodeRequest(
+    { email, method, ip_address: ipAddress },
+    "admin"
+  );
+  if (!recorded.success) {
+    throw new Error(recorded.error?.message || "Error recording sign-in request");
+  }
+
+  return (byEmail.data || 0) >= LOGIN_CODE_MAX_PER_EMAIL || (byIp.data || 0) >= LOGIN_CODE_MAX_PER_IP;
+}
+
+/**
+ * Email a magic link or sign-in code to an active user whose organization
+ * allows the method. Does nothing for anyone else.
+ *
+ * @returns Whether an email was sent
+ */
+export async function sendLoginCode(email: string, method: LoginCodeMethod): Promise<boolean> {
+  const userResult = await usersService.getUserByEmail(email, "admin");
+  if (!userResult.success) {
+    throw new Error(userResult.error?.message || "Error looking up user");
+  }
+  const user = userResult.data;
+  if (!user || user.is_active === false) {
+    return false;
+  }
+
+  if (!(await isEnabledForOrganization(user.active_organization_id, method))) {
+    return false;
+  }
+
+  const { data, error } = await createAdminClient().auth.admin.generateLink({ type: "magiclink", email });
+  if (error || !data.properties) {
+    throw error || new Error("Error generating sign-in link");
+  }
+
+  if (method === "magic_link") {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3010";
+    const params = new URLSearchParams({ token_hash: data.properties.hashed_token, type: "magiclink", next: "/" });
+    await emailService.sendMagicLinkEmail(email, `${baseUrl}/api/auth/callback?${params}`);
+  } else {
+    await emailService.sendLoginCodeEmail(email, data.properties.email_otp);
+  }
+
+  return true;
+}
+
+/* ============================================================
+   Verification
+============================================================ */
+
+/**
+ * Exchange a magic link token or an email code for a session (set in the
+ * request cookies) and record it. Users who are disabled or deleted are
+ * signed out again.
+ */
+export async function verifyPasswordlessLogin(
+  params: { tokenHash: string } | { email: string; code: string }
+): Promise<{ success: true; userId: string } | { success: false; error: string }> {
+  const supabase = await createClient();
+
+  const { data, error } = "tokenHash" in params
+    ? await supabase.auth.verifyOtp({ token_hash: params.tokenHash, type: "magiclink" })
+    : await supabase.auth.verifyOtp({ email: params.email, token: params.code.trim(), type: "email" });
+
+  if (error || !data.user) {
+    return { success: false, error: "This sign-in link or code is invalid or has expired" };
+  }
+
+  const profile = await usersService.getUserById(data.user.id, "admin");
+  if (!profile.success || !profile.data || profile.data.is_active === false || profile.data.deleted_at) {
+    await supabase.auth.signOut();
+    return { success: false, error: "This account can't sign in" };
+  }
+
+  if (data.session) {
+    await recordUserSession(data.session.access_token);
+  }
+
+  return { success: true, userId: data.user.id };
+}
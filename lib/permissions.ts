@@ -1,69 +1,139 @@
-interface RoleAccess {
-  action: string;
+/**
+ * Permission Engine
+ *
+ * Evaluates role_access grants (resource x action) against the shapes the app
+ * actually loads: a user_profile row with `roles(role_access(...))`, a
+ * `RoleWithAccess`, or a plain list of grants. Pure functions only, so the
+ * same checks run in server actions, route handlers, middleware and React.
+ *
+ * Grants support wildcards on either side: `users:*` allows every action on
+ * users, `*:read` allows reading every resource and `*:*` allows everything.
+ */
+
+import type { ServiceError } from "@/lib/BaseService";
+import type { RoleAccess } from "@/modules/roles/models/role";
+import type { User } from "@/modules/users/models/user";
+
+/* ============================================================
+   Types
+============================================================ */
+
+export const PERMISSION_WILDCARD = "*";
+
+export type PermissionAction = "create" | "read" | "update" | "delete" | (string & {});
+
+export interface Permission {
   resource: string;
+  action: PermissionAction;
 }
 
-interface Role {
-  name: string;
-  description: string;
-  role_accessCollection: {
-    edges: Array<{
-      node: RoleAccess;
-    }>;
-  };
+/**
+ * Anything that carries role_access grants
+ */
+export type PermissionSubject =
+  | Pick<User, "roles">
+  | { role_access?: RoleAccess[] | null }
+  | RoleAccess[]
+  | null
+  | undefined;
+
+/* ============================================================
+   Helpers
+============================================================ */
+
+/**
+ * Extract the role_access grants from a user, role or grant list
+ */
+export function getRoleAccess(subject: PermissionSubject): RoleAccess[] {
+  if (!subject) return [];
+  if (Array.isArray(subject)) return subject;
+  if ("role_access" in subject) return subject.role_access || [];
+  if ("roles" in subject) return subject.roles?.role_access || [];
+  return [];
 }
 
-interface UserProfile {
-  id: string;
-  email: string;
-  roles: Role;
-  role_id: string;
-  is_active: boolean;
-  first_name: string;
-  last_name: string;
-  created_at: string;
-  last_login: string | null;
-  updated_at: string;
-  profile: string;
+/**
+ * Parse a "resource:action" string into a permission
+ */
+export function parsePermission(permission: string): Permission {
+  const [resource = "", action = ""] = permission.split(":");
+  return { resource: resource.trim(), action: action.trim() };
 }
 
-interface UserData {
-  user: {
-    user_profileCollection: {
-      edges: Array<{
-        node: UserProfile;
-      }>;
-    };
-  };
+/**
+ * Format a permission as "resource:action"
+ */
+export function formatPermission({ resource, action }: Permission): string {
+  return `${resource}:${action}`;
 }
 
-export function hasPermission(userData: UserData, resource: string, action: string): boolean {
-  try {
-    const userProfile = userData.user.user_profileCollection.edges[0]?.node;
-    if (!userProfile) return false;
-
-    const roleAccess = userProfile.roles.role_accessCollection.edges;
-    
-    return roleAccess.some(
-      (access) => access.node.resource === resource && access.node.action === action
-    );
-  } catch (error) {
-    console.error('Error checking permissions:', error);
-    return false;
-  }
+function matchesPart(granted: string, requested: string): boolean {
+  return granted === PERMISSION_WILDCARD || granted === requested;
+}
+
+/**
+ * Check whether a single grant covers the requested resource and action
+ */
+export function grantMatches(grant: RoleAccess, resource: string, action: string): boolean {
+  return matchesPart(grant.resource, resource) && matchesPart(grant.action, action);
+}
+
+/* ============================================================
+   Checks
+============================================================ */
+
+/**
+ * Check whether the subject may perform `action` on `resource`
+ */
+export function hasPermission(subject: PermissionSubject, resource: string, action: PermissionAction): boolean {
+  return getRoleAccess(subject).some((grant) => grantMatches(grant, resource, action));
+}
+
+/**
+ * Check whether the subject holds at least one of the given permissions
+ */
+export function hasAnyPermission(subject: PermissionSubject, permissions: Array<Permission | string>): boolean {
+  const grants = getRoleAccess(subject);
+  return permissions.some((permission) => {
+    const { resource, action } = typeof permission === "string" ? parsePermission(permission) : permission;
+    return grants.some((grant) => grantMatches(grant, resource, action));
+  });
 }
 
-export function canAccessModule(userData: UserData, resource: string): boolean {
-  return hasPermission(userData, resource, 'read');
+/**
+ * Check whether the subject holds every one of the given permissions
+ */
+export function hasAllPermissions(subject: PermissionSubject, permissions: Array<Permission | string>): boolean {
+  const grants = getRoleAccess(subject);
+  return permissions.every((permission) => {
+    const { resource, action } = typeof permission === "string" ? parsePermission(permission) : permission;
+    return grants.some((grant) => grantMatches(grant, resource, action));
+  });
 }
 
-// This function is no longer needed with pure Supabase auth
-// but keeping for backward compatibility if used elsewhere
-export function parseUserData(userData: any): UserData | null {
-  try {
-    return userData;
-  } catch (error) {
-    console.error('Error parsing user data:', error);
+/**
+ * A module is accessible when its resource can be read
+ */
+export function canAccessModule(subject: PermissionSubject, resource: string): boolean {
+  return hasPermission(subject, resource, "read");
+}
+
+/**
+ * Authorize a subject for server-side use. Returns a `FORBIDDEN` error
+ * when the permission is missing and `null` when the call may proceed.
+ */
+export function authorize(
+  subject: PermissionSubject,
+  resource: string,
+  action: PermissionAction
+): ServiceError | null {
+  if (hasPermission(subject, resource, action)) {
     return null;
   }
-} 
\ No newline at end of file
+
+  return {
+    code: "FORBIDDEN",
+    message: `Missing permission ${formatPermission({ resource, action })}`,
+    details: { resource, action },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Query Cache
+ *
+ * Read cache for BaseService. Identical reads that are in flight at the same
+ * time share one query; in the browser, successful results are also kept for
+ * a TTL. Entries are tagged with the tables they read (embedded relations
+ * included), and BaseService writes invalidate their table's tag.
+ *
+ * On the server only in-flight deduplication applies: one process serves
+ * every user, and there is no per-request store to scope entries to.
+ *
+ * @example
+ * const user = await baseService.readById("user_profile", id, {
+ *   select: "*, roles(name)",
+ *   cache: { ttl: 30_000 },
+ * });
+ */
+
+import type { ServiceResponse } from "./BaseService";
+
+export type CacheOptions = {
+  // Milliseconds a result stays fresh (browser only). Defaults to 30 seconds.
+  ttl?: number;
+  // Extra tags to invalidate the entry by, on top of the tables it reads
+  tags?: string[];
+  // Tables the read depends on that BaseService can't see (RPC results)
+  tables?: string[];
+};
+
+type CacheEntry = {
+  value: ServiceResponse<unknown>;
+  expiresAt: number;
+  tags: string[];
+};
+
+export const DEFAULT_CACHE_TTL_MS = 30_000;
+
+// Oldest entries are dropped past this size
+const MAX_ENTRIES = 500;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, { request: Promise<ServiceResponse<unknown>>; tags: string[] }>();
+// Bumped on every invalidation, so reads that started earlier aren't stored
+const tagVersions = new Map<string, number>();
+
+function canStore(): boolean {
+  return typeof window !== "undefined";
+}
+
+/**
+ * The tag BaseService uses for every read of a table
+ */
+export function tableTag(table: string): string {
+  return `table:${table}`;
+}
+
+/**
+ * Tables a select reads: the base table plus every embedded relation
+ * ("*, roles(name, role_access(action))" → user_profile, roles, role_access)
+ */
+export function selectedTables(table: string, select?: string): string[] {
+  const embedded = Array.from((select ?? "").matchAll(/([A-Za-z_][A-Za-z0-9_]*)(?:![A-Za-z_]+)?\s*\(/g))
+    .map((match) => match[1]);
+  return Array.from(new Set([table, ...embedded]));
+}
+
+function versionOf(tags: string[]): string {
+  return tags.map((tag) => tagVersions.get(tag) ?? 0).join(",");
+}
+
+/**
+ * Run `load` through the cache. Failed responses are never stored.
+ *
+ * @param key - Identifies the read; equal keys must mean equal results
+ * @param tags - Invalidation tags for the entry
+ * @param options - TTL and extra tags
+ * @param load - Performs the read
+ */
+export async function withCache<T>(
+  key: string,
+  tags: string[],
+  options: CacheOptions,
+  load: () => Promise<ServiceResponse<T>>
+): Promise<ServiceResponse<T>> {
+  const cached = entries.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as ServiceResponse<T>;
+  }
+  entries.delete(key);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending.request as Promise<ServiceResponse<T>>;
+
+  const allTags = [...tags, ...(options.tables ?? []).map(tableTag), ...(options.tags ?? [])];
+  const version = versionOf(allTags);
+
+  const request = load()
+    .then((result) => {
+      if (result.success && canStore() && versionOf(allTags) === version) {
+        entries.set(key, {
+          value: result,
+          expiresAt: Date.now() + (options.ttl ?? DEFAULT_CACHE_TTL_MS),
+          tags: allTags,
+        });
+        if (entries.size > MAX_ENTRIES) {
+          entries.delete(entries.keys().next().value as string);
+        }
+      }
+      return result;
+    })
+    .finally(() => {
+      if (inFlight.get(key)?.request === request) inFlight.delete(key);
+    });
+
+  inFlight.set(key, { request, tags: allTags });
+  return request;
+}
+
+/**
+ * Drop every entry carrying one of the tags
+ */
+export function invalidateTags(tags: string[]): void {
+  if (tags.length === 0) return;
+
+  for (const tag of tags) {
+    tagVersions.set(tag, (tagVersions.get(tag) ?? 0) + 1);
+  }
+  for (const [key, entry] of Array.from(entries)) {
+    if (entry.tags.some((tag) => tags.includes(tag))) entries.delete(key);
+  }
+  // Later callers shouldn't join a read that started before the write
+  for (const [key, pending] of Array.from(inFlight)) {
+    if (pending.tags.some((tag) => tags.includes(tag))) inFlight.delete(key);
+  }
+}
+
+/**
+ * Drop every entry that read one of the tables. Call this after writes that
+ * bypass BaseService, e.g. from a server action.
+ */
+export function invalidateTables(tables: string[]): void {
+  invalidateTags(tables.map(tableTag));
+}
+
+/**
+ * Empty the cache (on sign-out, for instance)
+ */
+export function clearQueryCache(): void {
+  entries.clear();
+  inFlight.clear();
+}
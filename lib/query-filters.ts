@@ -0,0 +1,242 @@
+/**
+ * Query Filters
+ *
+ * A small typed filter DSL for BaseService reads. Filters are compiled into
+ * PostgREST clauses so that user-supplied values are always escaped instead of
+ * being interpolated into `or()` strings by hand.
+ *
+ * @example
+ * const where: Filter = {
+ *   and: [
+ *     { column: "is_active", op: "eq", value: true },
+ *     { column: "created_at", op: "between", value: ["2025-01-01", "2025-02-01"] },
+ *     { or: [
+ *       { column: "role_id", op: "in", value: [adminId, managerId] },
+ *       { column: "last_login", op: "is", value: null },
+ *     ]},
+ *   ],
+ * };
+ */
+
+export type FilterValue = string | number | boolean;
+
+export type ComparisonOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte";
+
+export type FilterCondition =
+  | { column: string; op: ComparisonOperator; value: FilterValue }
+  | { column: string; op: "in"; value: FilterValue[] }
+  | { column: string; op: "between"; value: [FilterValue, FilterValue] }
+  | { column: string; op: "is"; value: null | boolean }
+  | { column: string; op: "not_is"; value: null | boolean }
+  // Case-insensitive substring match; wildcards in the value are matched literally
+  | { column: string; op: "contains"; value: string };
+
+export type FilterGroup = { and: Filter[] } | { or: Filter[] };
+
+export type Filter = FilterCondition | FilterGroup;
+
+export type SortOrder = {
+  column: string;
+  ascending?: boolean;
+  nullsFirst?: boolean;
+};
+
+/**
+ * A single PostgREST query parameter: either a column filter applied with
+ * `query.filter()` or a logic tree applied with `query.or()`
+ */
+export type FilterClause =
+  | { type: "filter"; column: string; operator: string; value: string }
+  | { type: "or"; expression: string };
+
+// Plain and embedded ("roles.name") column names only
+const COLUMN_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+function invalidFilter(message: string): never {
+  throw { code: "INVALID_FILTER", message };
+}
+
+function assertColumn(column: string): string {
+  if (!COLUMN_PATTERN.test(column)) {
+    invalidFilter(`Invalid filter column "${column}"`);
+  }
+  return column;
+}
+
+/**
+ * Escape LIKE wildcards so user input only ever matches literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Quote a value for use inside a PostgREST logic tree or `in` list, where
+ * commas, dots, colons and parentheses are reserved
+ */
+export function quoteFilterValue(value: FilterValue): string {
+  return `"${String(value).replace(/["\\]/g, "\\$&")}"`;
+}
+
+function isGroup(filter: Filter): filter is FilterGroup {
+  return "and" in filter || "or" in filter;
+}
+
+function formatIs(value: null | boolean): string {
+  return value === null ? "null" : String(value);
+}
+
+/**
+ * Compile a condition into `[operator, value]` pairs. `quoted` is set when
+ * the value ends up inside an `or()`/`and()` expression.
+ */
+function compileCondition(condition: FilterCondition, quoted: boolean): [string, string][] {
+  const format = (value: FilterValue) => (quoted ? quoteFilterValue(value) : String(value));
+
+  switch (condition.op) {
+    case "in":
+      if (condition.value.length === 0) {
+        invalidFilter(`"in" filter on "${condition.column}" needs at least one value`);
+      }
+      return [["in", `(${condition.value.map(quoteFilterValue).join(",")})`]];
+    case "between":
+      return [
+        ["gte", format(condition.value[0])],
+        ["lte", format(condition.value[1])],
+      ];
+    case "is":
+      return [["is", formatIs(condition.value)]];
+    case "not_is":
+      return [["not.is", formatIs(condition.value)]];
+    case "contains":
+      return [["ilike", format(`%${escapeLikePattern(condition.value)}%`)]];
+    default:
+      return [[condition.op, format(condition.value)]];
+  }
+}
+
+/**
+ * Compile a filter into the body of a PostgREST logic tree
+ * ("a.eq.1,or(b.is.null,c.gt.2)"), joining top-level parts with commas
+ */
+function compileExpression(filter: Filter): string[] {
+  if (!isGroup(filter)) {
+    const column = assertColumn(filter.column);
+    return compileCondition(filter, true).map(([operator, value]) => `${column}.${operator}.${value}`);
+  }
+
+  if ("and" in filter) {
+    const parts = filter.and.flatMap(compileExpression);
+    return parts.length ? [`and(${parts.join(",")})`] : [];
+  }
+
+  const parts = filter.or.flatMap(compileExpression);
+  return parts.length ? [`or(${parts.join(",")})`] : [];
+}
+
+/**
+ * Flatten a filter into the clauses to apply to a query. Top-level AND
+ * conditions become individual filters; OR groups become logic trees.
+ */
+export function compileFilter(filter: Filter | undefined): FilterClause[] {
+  if (!filter) return [];
+
+  if (!isGroup(filter)) {
+    const column = assertColumn(filter.column);
+    return compileCondition(filter, false).map(([operator, value]) => ({
+      type: "filter",
+      column,
+      operator,
+      value,
+    }));
+  }
+
+  if ("and" in filter) {
+    return filter.and.flatMap(compileFilter);
+  }
+
+  const parts = filter.or.flatMap(compileExpression);
+  return parts.length ? [{ type: "or", expression: parts.join(",") }] : [];
+}
+
+/**
+ * Build the OR group used for free-text search across several columns
+ */
+export function searchFilter(search: string | undefined, columns: string[] | undefined): Filter | undefined {
+  const term = search?.trim();
+  if (!term || !columns?.length) return undefined;
+
+  return { or: columns.map((column) => ({ column, op: "contains" as const, value: term })) };
+}
+
+/**
+ * Normalize a single sort key or a list of keys, validating column names
+ */
+export function normalizeSortOrder(orderBy: SortOrder | SortOrder[] | undefined): SortOrder[] {
+  if (!orderBy) return [];
+  const keys = Array.isArray(orderBy) ? orderBy : [orderBy];
+  keys.forEach((key) => assertColumn(key.column));
+  return keys;
+}
+
+/* ============================================================
+   Keyset Cursors
+============================================================ */
+
+type CursorPayload = { v: FilterValue; id: FilterValue };
+
+/**
+ * Encode the position after `row` as an opaque, URL-safe cursor
+ */
+export function encodeCursor(row: Record<string, any>, column: string): string {
+  const payload: CursorPayload = { v: row[column], id: row.id };
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode a cursor produced by `encodeCursor`. Throws INVALID_CURSOR when the
+ * cursor is malformed.
+ */
+export function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    const payload = JSON.parse(new TextDecoder().decode(bytes));
+    if (payload?.v === undefined || payload.v === null || payload.id === undefined || payload.id === null) {
+      throw new Error("Missing cursor keys");
+    }
+    return payload as CursorPayload;
+  } catch {
+    throw { code: "INVALID_CURSOR", message: "Invalid pagination cursor" };
+  }
+}
+
+/**
+ * Rows strictly after the cursor position for an ordering on `column`, with
+ * `id` as the tie-breaker. The sort column must not be nullable.
+ */
+export function keysetFilter(cursor: string, key: SortOrder): Filter {
+  assertColumn(key.column);
+  const { v, id } = decodeCursor(cursor);
+  const op = key.ascending === false ? "lt" : "gt";
+
+  if (key.column === "id") {
+    return { column: "id", op, value: id };
+  }
+
+  return {
+    or: [
+      { column: key.column, op, value: v },
+      {
+        and: [
+          { column: key.column, op: "eq", value: v },
+          { column: "id", op, value: id },
+        ],
+      },
+    ],
+  };
+}
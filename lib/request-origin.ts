@@ -0,0 +1,30 @@
+/**
+ * Request Origin
+ *
+ * The IP address and user agent of the request a server action or route
+ * handler is running for, as reported by the proxy headers.
+ */
+
+import { headers } from "next/headers";
+
+export type RequestOrigin = {
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+/**
+ * Read the caller's IP address and user agent. Outside a request (e.g. a
+ * script) both are null.
+ */
+export async function getRequestOrigin(): Promise<RequestOrigin> {
+  try {
+    const requestHeaders = await headers();
+    const forwardedFor = requestHeaders.get("x-forwarded-for");
+    return {
+      ipAddress: forwardedFor?.split(",")[0].trim() || requestHeaders.get("x-real-ip") || null,
+      userAgent: requestHeaders.get("user-agent"),
+    };
+  } catch {
+    return { ipAddress: null, userAgent: null };
+  }
+}
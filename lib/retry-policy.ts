@@ -0,0 +1,242 @@
+/**
+ * Retry Policy
+ *
+ * Decides what `executeWithRetry` retries and how long it waits. Only
+ * transient failures are retried: network errors, timeouts, serialization
+ * failures and 5xx/429 responses. Constraint violations, permission denials
+ * and not-found errors fail straight away, since repeating the request can't
+ * change the answer.
+ *
+ * Waits use full jitter (a random delay up to an exponentially growing cap)
+ * and stop once the total wait would exceed the budget. A circuit breaker per
+ * table fails calls fast after repeated transient failures, then lets a single
+ * trial call through once the cooldown has passed.
+ */
+
+/* ============================================================
+   Types
+============================================================ */
+
+export type ErrorClass = "transient" | "permanent";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * What happened while running an operation; BaseService returns it as
+ * `meta.retry`
+ */
+export type RetryMetrics = {
+  attempts: number;
+  retries: number;
+  delayMs: number;
+  lastErrorCode?: string;
+  circuit?: CircuitState;
+};
+
+export type RetryOptions = {
+  // Retries after the first attempt
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Total time spent waiting between attempts
+  budgetMs?: number;
+  // Circuit breaker key, usually the table name
+  circuit?: string;
+  // Filled in as the operation runs
+  metrics?: RetryMetrics;
+};
+
+export const DEFAULT_RETRY_OPTIONS = {
+  retries: 2,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  budgetMs: 3000,
+} as const;
+
+// Consecutive transient failures that open a circuit
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30_000;
+
+/* ============================================================
+   Classification
+============================================================ */
+
+// serialization_failure, deadlock_detected, query_canceled (statement timeout),
+// admin/crash shutdown, cannot_connect_now, too_many_connections,
+// insufficient_resources, lock_not_available and PostgREST connection errors
+const TRANSIENT_CODES: ReadonlySet<string> = new Set([
+  "40001",
+  "40P01",
+  "57014",
+  "57P01",
+  "57P02",
+  "57P03",
+  "53300",
+  "53400",
+  "55P03",
+  "PGRST000",
+  "PGRST001",
+  "PGRST002",
+  "PGRST003",
+]);
+
+// Errors thrown by fetch or the socket when no response came back
+const NETWORK_ERROR = /fetch failed|network|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i;
+
+/**
+ * Whether retrying could help. Anything unrecognized is permanent.
+ */
+export function classifyError(error: any): ErrorClass {
+  if (!error) return "permanent";
+
+  const code = String(error.code ?? "");
+  // Class 08: connection exceptions
+  if (code.startsWith("08") || TRANSIENT_CODES.has(code)) return "transient";
+
+  const status = Number(error.status ?? error.statusCode);
+  if (status === 429 || (status >= 500 && status < 600)) return "transient";
+  if (code) return "permanent";
+
+  return NETWORK_ERROR.test(String(error.message ?? error)) ? "transient" : "permanent";
+}
+
+export function createRetryMetrics(): RetryMetrics {
+  return { attempts: 0, retries: 0, delayMs: 0 };
+}
+
+/* ============================================================
+   Circuit Breaker
+============================================================ */
+
+type Circuit = {
+  failures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+};
+
+const circuits = new Map<string, Circuit>();
+
+export function getCircuitState(key: string): CircuitState {
+  const circuit = circuits.get(key);
+  if (!circuit?.openedAt) return "closed";
+  return Date.now() - circuit.openedAt >= CIRCUIT_COOLDOWN_MS ? "half-open" : "open";
+}
+
+/**
+ * Throw CIRCUIT_OPEN unless the call may go ahead. In the half-open state only
+ * one trial call is let through.
+ */
+function enterCircuit(key: string): void {
+  const circuit = circuits.get(key);
+  const state = getCircuitState(key);
+  if (state === "closed" || !circuit) return;
+
+  if (state === "half-open" && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return;
+  }
+
+  const retryAfterMs = Math.max(0, CIRCUIT_COOLDOWN_MS - (Date.now() - (circuit.openedAt ?? 0)));
+  throw {
+    code: "CIRCUIT_OPEN",
+    message: `${key} is temporarily unavailable, so please try again shortly`,
+    details: { retryAfterMs },
+  };
+}
+
+function recordOutcome(key: string, errorClass: ErrorClass | null): void {
+  const circuit = circuits.get(key) ?? { failures: 0, openedAt: null, trialInFlight: false };
+  const wasTrial = circuit.trialInFlight;
+  circuit.trialInFlight = false;
+
+  if (errorClass === null) {
+    circuits.delete(key);
+    return;
+  }
+  // Permanent errors mean the backend answered; they say nothing about its health
+  if (errorClass === "permanent") {
+    if (!wasTrial) return;
+    circuits.delete(key);
+    return;
+  }
+
+  circuit.failures++;
+  if (wasTrial || circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+  }
+  circuits.set(key, circuit);
+}
+
+/**
+ * Close every circuit (tests, or after an outage is known to be over)
+ */
+export function resetCircuits(): void {
+  circuits.clear();
+}
+
+/* ============================================================
+   Retry Loop
+============================================================ */
+
+/**
+ * Full jitter: anywhere between 0 and the exponential cap for this retry
+ */
+function backoffDelay(retry: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retry));
+}
+
+/**
+ * Run `operation`, retrying transient failures within the retry budget
+ *
+ * @param operation - Receives the attempt number, starting at 1
+ * @param operationName - Used in log messages
+ * @param options - Retry limits, circuit key and metrics sink
+ */
+export async function retry<T>(
+  operation: (attempt: number) => Promise<T>,
+  operationName: string,
+  options: RetryOptions = {}
+): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRY_OPTIONS.retries;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+  const budgetMs = options.budgetMs ?? DEFAULT_RETRY_OPTIONS.budgetMs;
+  const metrics = options.metrics ?? createRetryMetrics();
+
+  while (true) {
+    if (options.circuit) {
+      try {
+        enterCircuit(options.circuit);
+      } finally {
+        metrics.circuit = getCircuitState(options.circuit);
+      }
+    }
+
+    metrics.attempts++;
+    try {
+      const result = await operation(metrics.attempts);
+      if (options.circuit) recordOutcome(options.circuit, null);
+      return result;
+    } catch (error: any) {
+      const errorClass = classifyError(error);
+      metrics.lastErrorCode = error?.code ?? undefined;
+      if (options.circuit) {
+        recordOutcome(options.circuit, errorClass);
+        metrics.circuit = getCircuitState(options.circuit);
+      }
+
+      const delay = backoffDelay(metrics.retries + 1, baseDelayMs, maxDelayMs);
+      const canRetry =
+        errorClass === "transient" &&
+        metrics.retries < retries &&
+        metrics.delayMs + delay <= budgetMs &&
+        metrics.circuit !== "open";
+      if (!canRetry) throw error;
+
+      metrics.retries++;
+      metrics.delayMs += delay;
+      console.warn(`[WARN] Retrying ${operationName} (attempt ${metrics.attempts + 1})`, error);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
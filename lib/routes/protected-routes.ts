@@ -1,4 +1,20 @@
 export const protectedRoutes = {
     '/users': 'users',
     '/roles': 'roles',
-  }
\ No newline at end of file
+    '/audit-log': 'audit',
+  }
+
+export const RESTRICTED_ROUTE = '/restricted' as const;
+
+/**
+ * Resolve the resource guarding a pathname, including nested paths
+ * ("/users/123" -> "users"). The longest matching prefix wins.
+ * Returns null for routes that only require a signed-in user.
+ */
+export function getProtectedResource(pathname: string): string | null {
+  const match = Object.keys(protectedRoutes)
+    .filter((route) => pathname === route || pathname.startsWith(`${route}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? protectedRoutes[match as keyof typeof protectedRoutes] : null;
+}
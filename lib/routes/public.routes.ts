@@ -3,6 +3,13 @@ export const PUBLIC_ROUTES = [
   '/auth/signup',
   '/auth/forgot-password',
   '/auth/verify',
+  '/auth/accept-invite',
+
+  // Email link and OAuth landing points, reached before there is a session
+  '/api/auth/callback',
+  '/api/auth/oauth',
+  '/api/auth/oidc',
+  '/api/auth/sso',
 
   '/restricted',
   '/_next',
@@ -17,5 +24,6 @@ export const PUBLIC_ROUTES_AUTH = {
   SIGNUP: '/auth/signup',
   FORGOT_PASSWORD: '/auth/forgot-password',
   VERIFY: '/auth/verify',
+  ACCEPT_INVITE: '/auth/accept-invite',
 
 } as const;
\ No newline at end of file
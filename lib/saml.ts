@@ -0,0 +1,234 @@
+/**
+ * SAML Service Provider
+ *
+ * The app's side of SAML 2.0 single sign-on for organizations that configure a
+ * SAML identity provider (see lib/sso-login.ts). Reads identity provider
+ * metadata, builds AuthnRequests and checks the signed responses that come
+ * back, using @node-saml/node-saml. Only sign-ins the app started are
+ * accepted: every response must answer a request ID kept in the browser's
+ * pending-request cookie, so IdP-initiated sign-in is not supported. Server only.
+ */
+
+import { DOMParser } from "@xmldom/xmldom";
+import {
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+  type CacheProvider,
+  type Profile,
+} from "@node-saml/node-saml";
+import { SAML_ACS_ROUTE, SAML_METADATA_ROUTE } from "./oauth-providers";
+import type { SsoConnection } from "@/modules/sso-connections";
+
+export interface SamlIdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  // Base64 DER signing certificates, without PEM armour
+  certificates: string[];
+}
+
+export interface SamlServiceProvider {
+  entityId: string;
+  acsUrl: string;
+}
+
+export interface SamlAuthorizationRequest {
+  url: string;
+  requestId: string;
+  // When the request was made, as node-saml records it
+  issuedAt: string;
+}
+
+const METADATA_NS = "urn:oasis:names:tc:SAML:2.0:metadata";
+const XMLDSIG_NS = "http://www.w3.org/2000/09/xmldsig#";
+const REDIRECT_BINDING = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect";
+const EMAIL_NAME_ID_FORMAT = "urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress";
+// Allowed difference between our clock and the identity provider's
+const CLOCK_SKEW_MS = 60_000;
+const REQUEST_MAX_AGE_MS = 1000 * 60 * 10;
+
+/* ============================================================
+   Identity provider metadata
+============================================================ */
+
+/**
+ * Read the entity ID, single sign-on URL (HTTP-Redirect binding) and signing
+ * certificates from identity provider metadata. Throws when any are missing.
+ *
+ * @param xml - An EntityDescriptor, or an EntitiesDescriptor with one IdP
+ */
+export function parseIdpMetadata(xml: string): SamlIdpMetadata {
+  const errors: string[] = [];
+  const document = new DOMParser({
+    errorHandler: { error: (message: string) => errors.push(message), fatalError: (message: string) => errors.push(message) },
+  }).parseFromString(xml, "text/xml");
+  if (errors.length > 0 || !document?.documentElement) {
+    throw new Error("SAML metadata is not valid XML");
+  }
+
+  const entities = Array.from(document.getElementsByTagNameNS(METADATA_NS, "EntityDescriptor"));
+  const entity = entities.find((candidate) =>
+    candidate.getElementsByTagNameNS(METADATA_NS, "IDPSSODescriptor").length > 0
+  );
+  const descriptor = entity?.getElementsByTagNameNS(METADATA_NS, "IDPSSODescriptor")[0];
+  const entityId = entity?.getAttribute("entityID");
+  if (!entity || !descriptor || !entityId) {
+    throw new Error("SAML metadata has no identity provider");
+  }
+
+  const ssoUrl = Array.from(descriptor.getElementsByTagNameNS(METADATA_NS, "SingleSignOnService"))
+    .find((service) => service.getAttribute("Binding") === REDIRECT_BINDING)
+    ?.getAttribute("Location");
+  if (!ssoUrl) {
+    throw new Error("SAML metadata has no HTTP-Redirect single sign-on service");
+  }
+
+  const certificates = Array.from(descriptor.getElementsByTagNameNS(METADATA_NS, "KeyDescriptor"))
+    .filter((key) => !key.getAttribute("use") || key.getAttribute("use") === "signing")
+    .flatMap((key) => Array.from(key.getElementsByTagNameNS(XMLDSIG_NS, "X509Certificate")))
+    .map((certificate) => (certificate.textContent || "").replace(/\s+/g, ""))
+    .filter(Boolean);
+  if (certificates.length === 0) {
+    throw new Error("SAML metadata has no signing certificate");
+  }
+
+  return { entityId, ssoUrl, certificates: Array.from(new Set(certificates)) };
+}
+
+/**
+ * Download and read identity provider metadata
+ *
+ * @param url - The identity provider's metadata URL
+ */
+export async function fetchIdpMetadata(url: string): Promise<{ xml: string; metadata: SamlIdpMetadata }> {
+  const response = await fetch(url, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`SAML metadata download failed with status ${response.status}`);
+  }
+
+  const xml = await response.text();
+  return { xml, metadata: parseIdpMetadata(xml) };
+}
+
+/* ============================================================
+   Service provider
+============================================================ */
+
+/**
+ * This app's entity ID and assertion consumer service URL, shared by every
+ * organization's connection
+ *
+ * @param origin - The app's origin, e.g. "https://app.example.com"
+ */
+export function getSamlServiceProvider(origin: string): SamlServiceProvider {
+  return {
+    entityId: `${origin}${SAML_METADATA_ROUTE}`,
+    acsUrl: `${origin}${SAML_ACS_ROUTE}`,
+  };
+}
+
+/**
+ * Service provider metadata for identity provider administrators
+ *
+ * @param origin - The app's origin
+ */
+export function getServiceProviderMetadata(origin: string): string {
+  const provider = getSamlServiceProvider(origin);
+  return generateServiceProviderMetadata({
+    issuer: provider.entityId,
+    callbackUrl: provider.acsUrl,
+    identifierFormat: EMAIL_NAME_ID_FORMAT,
+    wantAssertionsSigned: true,
+  });
+}
+
+/**
+ * A node-saml client for one connection. `requests` stands in for node-saml's
+ * request ID cache, which would not survive between serverless invocations.
+ */
+function createSamlClient(connection: SsoConnection, origin: string, requests: CacheProvider): SAML {
+  if (!connection.idp_sso_url || !connection.idp_entity_id || connection.idp_certificates.length === 0) {
+    throw new Error("SAML connection is missing identity provider metadata");
+  }
+
+  const provider = getSamlServiceProvider(origin);
+  return new SAML({
+    entryPoint: connection.idp_sso_url,
+    idpIssuer: connection.idp_entity_id,
+    idpCert: connection.idp_certificates,
+    issuer: provider.entityId,
+    audience: provider.entityId,
+    callbackUrl: provider.acsUrl,
+    identifierFormat: EMAIL_NAME_ID_FORMAT,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    disableRequestedAuthnContext: true,
+    acceptedClockSkewMs: CLOCK_SKEW_MS,
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: REQUEST_MAX_AGE_MS,
+    cacheProvider: requests,
+  });
+}
+
+/* ============================================================
+   Sign-in
+============================================================ */
+
+/**
+ * Build the URL that sends the browser to the identity provider. Keep the
+ * returned request ID and time (e.g. in a cookie) for the response.
+ *
+ * @param connection - The organization's SAML connection
+ * @param origin - The app's origin
+ * @param relayState - Passed through the identity provider untouched
+ */
+export async function createSamlAuthorizationRequest(
+  connection: SsoConnection,
+  origin: string,
+  relayState = ""
+): Promise<SamlAuthorizationRequest> {
+  const saved: { requestId?: string; issuedAt?: string } = {};
+  const client = createSamlClient(connection, origin, {
+    saveAsync: async (key, value) => {
+      saved.requestId = key;
+      saved.issuedAt = value;
+      return { value, createdAt: Date.now() };
+    },
+    getAsync: async () => null,
+    removeAsync: async () => null,
+  });
+
+  const url = await client.getAuthorizeUrlAsync(relayState, undefined, {});
+  if (!saved.requestId || !saved.issuedAt) {
+    throw new Error("SAML request ID was not generated");
+  }
+  return { url, requestId: saved.requestId, issuedAt: saved.issuedAt };
+}
+
+/**
+ * Check a SAMLResponse posted to the assertion consumer service: signature,
+ * issuer, audience, validity window, and that it answers `requestId`
+ *
+ * @param connection - The connection the request was sent to
+ * @param origin - The app's origin
+ * @param samlResponse - The base64 SAMLResponse form field
+ * @param request - The request ID and time kept from `createSamlAuthorizationRequest`
+ */
+export async function validateSamlResponse(
+  connection: SsoConnection,
+  origin: string,
+  samlResponse: string,
+  request: { requestId: string; issuedAt: string }
+): Promise<Profile> {
+  const client = createSamlClient(connection, origin, {
+    saveAsync: async () => null,
+    getAsync: async (key) => (key === request.requestId ? request.issuedAt : null),
+    removeAsync: async () => null,
+  });
+
+  const { profile } = await client.validatePostResponseAsync({ SAMLResponse: samlResponse });
+  if (!profile) {
+    throw new Error("SAML response has no assertion");
+  }
+  return profile;
+}
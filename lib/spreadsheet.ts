@@ -0,0 +1,125 @@
+/**
+ * Spreadsheet Helpers
+ *
+ * Reads CSV and XLSX files into rows of strings, and writes rows back out as
+ * CSV. CSV follows RFC 4180: quoted fields may contain commas, quotes ("") and
+ * line breaks. XLSX files are read from their first sheet.
+ *
+ * @example
+ * const rows = await readSpreadsheet(file); // [["email", "role"], ["ada@example.com", "admin"]]
+ * downloadCsv("errors.csv", [["row", "error"], [2, "Invalid email address"]]);
+ */
+
+export type SpreadsheetRow = string[];
+
+export const SPREADSHEET_ACCEPT =
+  ".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/* ============================================================
+   CSV
+============================================================ */
+
+/**
+ * Parse CSV text. Blank lines are skipped; a leading byte order mark is ignored.
+ */
+export function parseCsv(text: string): SpreadsheetRow[] {
+  const rows: SpreadsheetRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows as CSV text with CRLF line endings
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(toCsvField).join(",")).join("\r\n");
+}
+
+/* ============================================================
+   Files
+============================================================ */
+
+function isXlsx(file: File): boolean {
+  return /\.xlsx$/i.test(file.name) || file.type.includes("spreadsheetml");
+}
+
+/**
+ * Read a CSV or XLSX file into trimmed string cells
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetRow[]> {
+  if (!isXlsx(file)) {
+    return parseCsv(await file.text()).map((row) => row.map((cell) => cell.trim()));
+  }
+
+  // Only loaded when an XLSX file is picked
+  const { default: readXlsxFile } = await import("read-excel-file");
+  const rows = await readXlsxFile(file);
+  return rows
+    .map((row) =>
+      row.map((cell) =>
+        cell === null ? "" : cell instanceof Date ? cell.toISOString() : String(cell).trim()
+      )
+    )
+    .filter((row) => row.some((cell) => cell !== ""));
+}
+
+/**
+ * Offer rows to the browser as a CSV download
+ */
+export function downloadCsv(filename: string, rows: unknown[][]): void {
+  const blob = new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,420 @@
+/**
+ * SSO Login
+ *
+ * Sign-in through an organization's own identity provider (SAML or OpenID
+ * Connect), configured per organization in sso_connections. The login page
+ * routes people there by email domain; only domains the organization has
+ * verified (see lib/domain-verification) lead to its connection. Whoever the
+ * identity provider vouches for is matched by linked identity, then by email,
+ * and created just in time otherwise. Only users who belong to the
+ * organization, or to no organization yet, can sign in this way. Their role
+ * in the organization comes from the provider's groups through
+ * sso_group_mappings and is re-evaluated on every sign-in, so changes at the
+ * provider take effect the next time the user signs in. Callers are
+ * responsible for the redirects.
+ */
+
+import type { Profile } from "@node-saml/node-saml";
+import { provisionUser } from "./user-provisioning";
+import { defaultRoleId, namesFromClaims, startSessionForUser, type OAuthLoginResult } from "./oauth-login";
+import type { OidcClaims, OidcClientConfig } from "./oidc";
+import { emailDomain } from "./domain-verification";
+import { generateToken, hashToken } from "./tokens";
+import { usersService, usersServiceUnified } from "@/modules/users";
+import { organizationsService, organizationsServiceUnified } from "@/modules/organizations";
+import { organizationDomainsServiceUnified } from "@/modules/organization-domains";
+import { userIdentitiesService } from "@/modules/user-identities";
+import { ssoRequestsService } from "@/modules/sso-requests";
+import {
+  ssoConnectionsService,
+  ssoConnectionsServiceUnified,
+  type SsoConnection,
+} from "@/modules/sso-connections";
+
+// Provider key stored on identities created by SSO sign-ins
+export const SSO_PROVIDER = "sso";
+
+// What the start route keeps on the server for the identity provider's response
+export type SsoPendingRequest = {
+  connectionId: string;
+  next: string;
+} & (
+  | { protocol: "saml"; requestId: string; issuedAt: string }
+  | { protocol: "oidc"; state: string; nonce: string; codeVerifier: string }
+);
+
+export const SSO_REQUEST_COOKIE = "sso_request";
+export const SSO_REQUEST_MAX_AGE_SECONDS = 60 * 10;
+
+// Who the identity provider says signed in, whatever the protocol
+export interface SsoAssertion {
+  issuer: string;
+  subject: string;
+  email: string | null;
+  firstName: string;
+  lastName: string;
+  groups: string[];
+}
+
+// Where SAML identity providers commonly put these attributes
+const SAML_EMAIL_ATTRIBUTES = [
+  "email",
+  "mail",
+  "urn:oid:0.9.2342.19200300.100.1.3",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress",
+];
+const SAML_FIRST_NAME_ATTRIBUTES = [
+  "firstName",
+  "givenName",
+  "urn:oid:2.5.4.42",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname",
+];
+const SAML_LAST_NAME_ATTRIBUTES = [
+  "lastName",
+  "sn",
+  "surname",
+  "urn:oid:2.5.4.4",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname",
+];
+
+/* ============================================================
+   Connections
+============================================================ */
+
+/**
+ * The organization that verified an email's domain, or null
+ */
+async function verifiedOrganizationForEmail(email: string): Promise<string | null> {
+  const domain = emailDomain(email);
+  if (!domain) return null;
+
+  const result = await organizationDomainsServiceUnified.getVerifiedDomain(domain, { environment: "admin" });
+  if (!result.success) {
+    throw new Error(result.error?.message || "Error looking up the email's domain");
+  }
+  return result.data?.organization_id ?? null;
+}
+
+/**
+ * Whether a connection covers an email: the connection lists its domain, and
+ * the connection's organization has verified that domain
+ */
+async function connectionCoversEmail(connection: SsoConnection, email: string): Promise<boolean> {
+  const domain = emailDomain(email);
+  return (
+    !!domain &&
+    connection.domains.some((listed) => listed.trim().toLowerCase() === domain) &&
+    (await verifiedOrganizationForEmail(email)) === connection.organization_id
+  );
+}
+
+/**
+ * The enabled connection for an email's domain, or null when the domain
+ * doesn't use single sign-on
+ *
+ * @param email - The email typed on the login page
+ */
+export async function findSsoConnectionForEmail(email: string): Promise<SsoConnection | null> {
+  const organizationId = await verifiedOrganizationForEmail(email.trim());
+  if (!organizationId) return null;
+
+  const result = await ssoConnectionsService.getConnectionForOrganization(organizationId, "admin");
+  if (!result.success) {
+    throw new Error(result.error?.message || "Error looking up single sign-on");
+  }
+
+  const connection = result.data;
+  return connection?.enabled && (await connectionCoversEmail(connection, email.trim())) ? connection : null;
+}
+
+/**
+ * The OpenID Connect client settings of a connection, or null when it isn't
+ * a complete OpenID Connect connection
+ */
+export function getSsoOidcConfig(connection: SsoConnection): OidcClientConfig | null {
+  if (
+    connection.protocol !== "oidc" ||
+    !connection.oidc_issuer ||
+    !connection.oidc_client_id ||
+    !connection.oidc_client_secret
+  ) {
+    return null;
+  }
+  return {
+    issuer: connection.oidc_issuer,
+    clientId: connection.oidc_client_id,
+    clientSecret: connection.oidc_client_secret,
+  };
+}
+
+/* ============================================================
+   Assertions
+============================================================ */
+
+function toStrings(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string | number => typeof item === "string" || typeof item === "number")
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+}
+
+function firstAttribute(source: Record<string, unknown>, names: string[]): string {
+  for (const name of names) {
+    const [value] = toStrings(source[name]);
+    if (value) return value;
+  }
+  return "";
+}
+
+/**
+ * What a checked SAML assertion says about the user. The NameID stands in
+ * for the email when it looks like one.
+ *
+ * @param profile - From `validateSamlResponse`
+ * @param connection - The connection the response came through
+ */
+export function assertionFromSamlProfile(profile: Profile, connection: SsoConnection): SsoAssertion {
+  const attributes = { ...((profile.attributes as Record<string, unknown> | undefined) ?? {}), ...profile };
+  const email = firstAttribute(attributes, SAML_EMAIL_ATTRIBUTES) || (profile.nameID?.includes("@") ? profile.nameID : "");
+
+  return {
+    issuer: profile.issuer || connection.idp_entity_id || "",
+    subject: profile.nameID,
+    email: email ? email.toLowerCase() : null,
+    firstName: firstAttribute(attributes, SAML_FIRST_NAME_ATTRIBUTES),
+    lastName: firstAttribute(attributes, SAML_LAST_NAME_ATTRIBUTES),
+    groups: toStrings(attributes[connection.groups_attribute]),
+  };
+}
+
+/**
+ * What checked OpenID Connect claims say about the user
+ *
+ * @param claims - From `exchangeOidcCode`
+ * @param connection - The connection the claims came through
+ */
+export function assertionFromOidcClaims(claims: OidcClaims, connection: SsoConnection): SsoAssertion {
+  const { firstName, lastName } = namesFromClaims(claims);
+  return {
+    issuer: claims.iss,
+    subject: claims.sub,
+    // Only an email the identity provider vouches for identifies the user
+    email: claims.email_verified === true ? claims.email?.trim().toLowerCase() || null : null,
+    firstName,
+    lastName,
+    groups: toStrings(claims[connection.groups_attribute]),
+  };
+}
+
+/* ============================================================
+   Roles
+============================================================ */
+
+/**
+ * The role a set of identity provider groups grants: the highest priority
+ * mapped group, then the connection's default role, then the app's
+ *
+ * @param connection - The connection the groups came from
+ * @param groups - The groups the identity provider listed
+ */
+export async function resolveSsoRole(connection: SsoConnection, groups: string[]): Promise<string> {
+  const mappings = await ssoConnectionsServiceUnified.getGroupMappings(connection.id, { environment: "admin" });
+  if (!mappings.success) {
+    throw new Error(mappings.error?.message || "Error looking up group mappings");
+  }
+
+  const memberOf = new Set(groups.map((group) => group.toLowerCase()));
+  const match = (mappings.data || []).find((mapping) => memberOf.has(mapping.group_name.trim().toLowerCase()));
+
+  return match?.role_id ?? connection.default_role_id ?? (await defaultRoleId());
+}
+
+/**
+ * Give a user the role in the connection's organization and make it their
+ * active organization
+ */
+async function applySsoRole(userId: string, organizationId: string, roleId: string): Promise<string | null> {
+  const membership = await organizationsService.setMembershipRole(organizationId, userId, roleId, "admin");
+  if (!membership.success) {
+    return membership.error?.message || "Failed to update membership";
+  }
+
+  // user_profile.role_id mirrors the role in the active organization
+  const profile = await usersService.updateUser(
+    userId,
+    { active_organization_id: organizationId, role_id: roleId },
+    "admin"
+  );
+  return profile.success ? null : profile.error?.message || "Failed to update user";
+}
+
+/* ============================================================
+   Sign-in
+============================================================ */
+
+/**
+ * Why an existing user can't sign in through a connection, or null when they
+ * can. The identity provider only speaks for members of its organization and
+ * users who don't belong to any organization yet.
+ */
+async function membershipError(userId: string, organizationId: string): Promise<string | null> {
+  const memberships = await organizationsServiceUnified.getMembershipsForUser(userId, { environment: "admin" });
+  if (!memberships.success) {
+    return memberships.error?.message || "Error looking up memberships";
+  }
+
+  const organizationIds = (memberships.data || []).map((membership) => membership.organization_id);
+  return organizationIds.length === 0 || organizationIds.includes(organizationId)
+    ? null
+    : "This account belongs to another organization";
+}
+
+/**
+ * Find or create the user an identity provider vouched for
+ */
+async function resolveSsoUser(
+  connection: SsoConnection,
+  assertion: SsoAssertion & { email: string },
+  roleId: string
+): Promise<OAuthLoginResult> {
+  const identity = await userIdentitiesService.getIdentity(assertion.issuer, assertion.subject, "admin");
+  if (!identity.success) {
+    return { success: false, error: identity.error?.message || "Error looking up identity" };
+  }
+  if (identity.data) {
+    const refused = await membershipError(identity.data.user_id, connection.organization_id);
+    if (refused) {
+      return { success: false, error: refused };
+    }
+    await userIdentitiesService.recordIdentitySignIn(identity.data.id, assertion.email, "admin");
+    return { success: true, userId: identity.data.user_id, created: false };
+  }
+
+  // Deleted users are skipped: identities are never linked to them
+  const existing = await usersServiceUnified.getUserByEmail(assertion.email, { environment: "admin" });
+  if (!existing.success) {
+    return { success: false, error: existing.error?.message || "Error looking up user" };
+  }
+
+  let userId = existing.data?.id;
+  let created = false;
+  if (userId) {
+    const refused = await membershipError(userId, connection.organization_id);
+    if (refused) {
+      return { success: false, error: refused };
+    }
+  } else {
+    const provisioned = await provisionUser({
+      email: assertion.email,
+      firstName: assertion.firstName,
+      lastName: assertion.lastName,
+      roleId,
+      organizationId: connection.organization_id,
+      metadata: { provider: SSO_PROVIDER },
+    });
+    if (!provisioned.success || !provisioned.data) {
+      return { success: false, error: provisioned.error?.message || "Failed to create user" };
+    }
+    userId = provisioned.data.id;
+    created = true;
+  }
+
+  const linked = await userIdentitiesService.createIdentity(
+    {
+      user_id: userId,
+      provider: SSO_PROVIDER,
+      issuer: assertion.issuer,
+      subject: assertion.subject,
+      email: assertion.email,
+    },
+    "admin"
+  );
+  if (!linked.success) {
+    return { success: false, error: linked.error?.message || "Failed to link identity" };
+  }
+
+  return { success: true, userId, created };
+}
+
+/**
+ * Sign in with a checked assertion from an organization's identity provider.
+ * New users are created in the organization; everyone gets the role their
+ * groups map to. The session is set in the request cookies.
+ *
+ * @param connection - The connection the assertion came through
+ * @param assertion - From `assertionFromSamlProfile` or `assertionFromOidcClaims`
+ */
+export async function signInWithSso(connection: SsoConnection, assertion: SsoAssertion): Promise<OAuthLoginResult> {
+  if (!connection.enabled) {
+    return { success: false, error: "Single sign-on is turned off for this organization" };
+  }
+  if (!assertion.subject) {
+    return { success: false, error: "The identity provider didn't identify the user" };
+  }
+
+  const email = assertion.email;
+  if (!email || !(await connectionCoversEmail(connection, email))) {
+    return { success: false, error: "The identity provider didn't share a verified email address in the organization's domains" };
+  }
+
+  const roleId = await resolveSsoRole(connection, assertion.groups);
+  const resolved = await resolveSsoUser(connection, { ...assertion, email }, roleId);
+  if (!resolved.success) return resolved;
+
+  // New users were created with the role already
+  if (!resolved.created) {
+    const profile = await usersService.getUserById(resolved.userId, "admin");
+    if (!profile.success || !profile.data || profile.data.is_active === false) {
+      return { success: false, error: "This account can't sign in" };
+    }
+
+    const roleError = await applySsoRole(resolved.userId, connection.organization_id, roleId);
+    if (roleError) {
+      return { success: false, error: roleError };
+    }
+  }
+
+  const session = await startSessionForUser(resolved.userId);
+  return session.success ? resolved : session;
+}
+
+/**
+ * Keep a request sent to an identity provider on the server until its
+ * response arrives. The browser only gets a token for it.
+ *
+ * @param pending - The connection and protocol details of the request
+ * @returns The token to keep in the request cookie
+ */
+export async function saveSsoPendingRequest(pending: SsoPendingRequest): Promise<string> {
+  const { token, tokenHash, expiresAt } = generateToken(SSO_REQUEST_MAX_AGE_SECONDS * 1000);
+  const { connectionId, ...request } = pending;
+
+  const result = await ssoRequestsService.createRequest(
+    { connection_id: connectionId, token_hash: tokenHash, request, expires_at: expiresAt },
+    "admin"
+  );
+  if (!result.success) {
+    throw new Error(result.error?.message || "Error saving the single sign-on request");
+  }
+  return token;
+}
+
+/**
+ * Use up the request an identity provider's response answers. Each request
+ * can be used once, and only before it expires.
+ *
+ * @param cookie - The request cookie's value, if any
+ * @returns The request, or null when the token is unknown, used or expired
+ */
+export async function consumeSsoPendingRequest(cookie: string | undefined): Promise<SsoPendingRequest | null> {
+  if (!cookie) return null;
+
+  const result = await ssoRequestsService.consumeRequest(hashToken(cookie), "admin");
+  if (!result.success) {
+    throw new Error(result.error?.message || "Error looking up the single sign-on request");
+  }
+  return result.data
+    ? ({ ...result.data.request, connectionId: result.data.connection_id } as SsoPendingRequest)
+    : null;
+}
@@ -1,7 +1,11 @@
 import { createClient } from '@supabase/supabase-js';
+import { getDataAdapter } from '../data-adapter';
 
 // Admin client with service role key for admin operations
 export const createAdminClient = () => {
+  const adapter = getDataAdapter();
+  if (adapter) return adapter;
+
   return createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_SERVICE_ROLE_KEY!,
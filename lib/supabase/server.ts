@@ -1,7 +1,11 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { getDataAdapter } from '../data-adapter'
 
 export async function createClient() {
+  const adapter = getDataAdapter()
+  if (adapter) return adapter
+
   const cookieStore = await cookies()
 
   return createServerClient(
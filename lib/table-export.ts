@@ -0,0 +1,72 @@
+/**
+ * Table Export
+ *
+ * Shared by data tables and the export route (app/api/export/[resource]):
+ * the formats on offer and how a table asks for a download. The route runs
+ * the table's search and filters itself and streams every matching row, not
+ * just the page on screen, in the columns the table shows.
+ *
+ * @example
+ * await downloadExport("users", { format: "xlsx", columns: ["name", "role"], params: { search: "ada" } });
+ */
+
+export const EXPORT_FORMATS = {
+  csv: { label: "CSV", extension: "csv", contentType: "text/csv; charset=utf-8" },
+  xlsx: {
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  json: { label: "JSON", extension: "json", contentType: "application/json; charset=utf-8" },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export type ExportRequest = {
+  format: ExportFormat;
+  // Table column ids to include; every column the resource offers when omitted
+  columns?: string[];
+  // The resource's search and filters, as the table applies them
+  params?: Record<string, unknown>;
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+/**
+ * URL of the export route for a resource
+ */
+export function exportUrl(resource: string, request: ExportRequest): string {
+  const query = new URLSearchParams({ format: request.format });
+  if (request.columns?.length) query.set("columns", request.columns.join(","));
+  if (request.params) query.set("params", JSON.stringify(request.params));
+
+  return `/api/export/${encodeURIComponent(resource)}?${query}`;
+}
+
+function filenameFrom(response: Response, fallback: string): string {
+  const disposition = response.headers.get("content-disposition") || "";
+  return disposition.match(/filename="([^"]+)"/)?.[1] || fallback;
+}
+
+/**
+ * Export a resource and offer the file to the browser. Rejects with the
+ * route's error message when the export is refused or fails to start.
+ */
+export async function downloadExport(resource: string, request: ExportRequest): Promise<void> {
+  const response = await fetch(exportUrl(resource, request));
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Export failed (${response.status})`);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filenameFrom(response, `${resource}.${EXPORT_FORMATS[request.format].extension}`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,33 @@
+/**
+ * Single-use token helpers
+ *
+ * Tokens are random 32-byte hex strings that are emailed to the user. Only
+ * their SHA-256 hash is stored, so a leaked table can't be used to redeem them.
+ */
+
+import crypto from "crypto";
+
+/**
+ * Hash a raw token for storage or lookup
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generate a new token, its hash and an expiry timestamp
+ *
+ * @param ttlMs - How long the token stays valid, in milliseconds
+ */
+export function generateToken(ttlMs: number): {
+  token: string;
+  tokenHash: string;
+  expiresAt: string;
+} {
+  const token = crypto.randomBytes(32).toString("hex");
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Unit of Work
+ *
+ * Groups writes that span tables (or Supabase auth and the database) into one
+ * operation. Each step may register a compensating action; when a later step
+ * fails, the compensations of the completed steps run in reverse order so no
+ * half-finished state is left behind. Work that fits in a single transaction
+ * should be an RPC instead: use `uow.rpc` to run it as one step.
+ *
+ * @example
+ * const result = await runUnitOfWork("create-user", async (uow) => {
+ *   const authUser = await uow.step(
+ *     "create-auth-user",
+ *     () => createAuthAccount(email),
+ *     (user) => deleteAuthAccount(user.id)
+ *   );
+ *   return await uow.step("create-profile", async () =>
+ *     unwrap(await usersService.createUser({ id: authUser.id, email }, "admin"))
+ *   );
+ * });
+ */
+
+import {
+  callFunction,
+  generateRequestId,
+  handleError,
+  response,
+  type ClientEnvironment,
+  type ServiceError,
+  type ServiceResponse,
+  type TableName,
+} from "./BaseService";
+
+type Compensation = { name: string; undo: () => Promise<unknown> };
+
+export interface UnitOfWork {
+  /**
+   * Run a step. Throwing fails the unit of work; `compensate` receives the
+   * step's result and is only called if a later step fails.
+   */
+  step<T>(
+    name: string,
+    run: () => Promise<T>,
+    compensate?: (result: T) => Promise<unknown>
+  ): Promise<T>;
+
+  /**
+   * Run a database function as a step (admin client unless stated otherwise)
+   */
+  rpc<T>(
+    functionName: string,
+    params?: Record<string, any>,
+    options?: {
+      environment?: ClientEnvironment;
+      // Tables the function writes (see callFunction)
+      invalidates?: TableName[];
+      compensate?: (result: T) => Promise<unknown>;
+    }
+  ): Promise<T>;
+}
+
+/**
+ * Details attached to the error of a failed unit of work
+ */
+export type UnitOfWorkFailure = {
+  step: string;
+  compensated: string[];
+  compensationErrors: { step: string; message: string }[];
+  cause?: unknown;
+};
+
+/**
+ * Return the data of a successful service response, or throw its error so the
+ * surrounding unit of work rolls back
+ */
+export function unwrap<T>(result: ServiceResponse<T>, fallbackMessage = "Operation failed"): T {
+  if (!result.success) {
+    throw result.error ?? { code: "SERVICE_ERROR", message: fallbackMessage };
+  }
+  return result.data as T;
+}
+
+/**
+ * Run `work` as a unit of work. Resolves with the value returned by `work`, or
+ * with the failing step's error after every compensation has been attempted.
+ *
+ * @param name - Name used in logs and request ids
+ * @param work - Callback that runs the steps in order
+ */
+export async function runUnitOfWork<T>(
+  name: string,
+  work: (uow: UnitOfWork) => Promise<T>
+): Promise<ServiceResponse<T>> {
+  const requestId = generateRequestId();
+  const compensations: Compensation[] = [];
+  let currentStep = name;
+
+  const uow: UnitOfWork = {
+    async step(stepName, run, compensate) {
+      currentStep = stepName;
+      const result = await run();
+      if (compensate) {
+        compensations.push({ name: stepName, undo: () => compensate(result) });
+      }
+      return result;
+    },
+
+    rpc(functionName, params, options) {
+      return uow.step(
+        functionName,
+        async () =>
+          unwrap(
+            await callFunction(functionName, params, {
+              environment: options?.environment ?? "admin",
+              invalidates: options?.invalidates,
+            })
+          ),
+        options?.compensate
+      );
+    },
+  };
+
+  try {
+    const result = await work(uow);
+    return response(true, result, undefined, { requestId });
+  } catch (error) {
+    const failure: UnitOfWorkFailure = {
+      step: currentStep,
+      compensated: [],
+      compensationErrors: [],
+      cause: error,
+    };
+
+    for (const compensation of [...compensations].reverse()) {
+      try {
+        await compensation.undo();
+        failure.compensated.push(compensation.name);
+      } catch (undoError) {
+        // Keep going: the remaining steps are independent of this one
+        console.error(`[${name}] Failed to compensate "${compensation.name}":`, undoError);
+        failure.compensationErrors.push({
+          step: compensation.name,
+          message: (undoError as { message?: string })?.message ?? String(undoError),
+        });
+      }
+    }
+
+    const serviceError: ServiceError = {
+      ...handleError(error, name, requestId),
+      details: failure,
+    };
+
+    return response<T>(false, undefined, serviceError, { requestId });
+  }
+}
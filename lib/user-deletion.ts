@@ -0,0 +1,201 @@
+/**
+ * User Deletion
+ *
+ * Deleting a user moves their profile to the trash and bans their auth user so
+ * they can no longer sign in. Restoring lifts the ban; purging removes both for
+ * good. Each operation runs as a unit of work, so an auth failure rolls back
+ * the profile change. Callers are responsible for authorization;
+ * `deletionBlocker` tells them whether an admin may act on a user.
+ */
+
+import { createAdminClient } from "./supabase/admin";
+import { runUnitOfWork, unwrap } from "./unit-of-work";
+import { usersService } from "@/modules/users";
+import { organizationsService } from "@/modules/organizations";
+import type { ServiceResponse } from "./BaseService";
+
+// Supabase has no permanent ban, so deleted users are banned for ~100 years
+const DELETED_USER_BAN_DURATION = "876000h";
+
+/**
+ * Days a deleted user stays in the trash before the scheduled purge removes it
+ */
+export const USER_DELETE_RETENTION_DAYS =
+  Number(process.env.USER_DELETE_RETENTION_DAYS) > 0
+    ? Number(process.env.USER_DELETE_RETENTION_DAYS)
+    : 30;
+
+type DeletionResult = { success: boolean; error?: string };
+
+export type BulkDeletionResult = {
+  success: boolean;
+  results: { id: string; success: boolean; error?: string }[];
+  error?: string;
+};
+
+function toDeletionResult(result: ServiceResponse<unknown>, fallbackMessage: string): DeletionResult {
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error?.message || fallbackMessage };
+}
+
+/**
+ * Whether the user belongs to the organization
+ */
+export async function isOrganizationMember(userId: string, organizationId: string | null) {
+  const memberships = await organizationsService.getMembershipsForUser(userId, "admin");
+  return memberships.some((membership) => membership.organization_id === organizationId);
+}
+
+/**
+ * Why an admin can't delete, restore or purge the target user, or null if they can.
+ * Admins only reach members of their active organization, and never themselves.
+ *
+ * @param userId - The target user
+ * @param adminId - The admin acting on them
+ * @param organizationId - The admin's active organization
+ */
+export async function deletionBlocker(userId: string, adminId: string, organizationId: string | null) {
+  if (userId === adminId) {
+    return "You cannot delete your own account";
+  }
+
+  if (!(await isOrganizationMember(userId, organizationId))) {
+    return "User not found";
+  }
+
+  return null;
+}
+
+// Supabase auth errors are thrown so the surrounding unit of work rolls back
+async function setSignInBan(userId: string, banDuration: string) {
+  const supabase = createAdminClient();
+  const { error } = await supabase.auth.admin.updateUserById(userId, { ban_duration: banDuration });
+  if (error) throw error;
+}
+
+/**
+ * Move a user to the trash and block their sign-in
+ *
+ * @param userId - The user to delete
+ */
+export async function softDeleteUser(userId: string): Promise<DeletionResult> {
+  const result = await runUnitOfWork("delete-user", async (uow) => {
+    await uow.step(
+      "trash-profile",
+      async () => unwrap(await usersService.deleteUser(userId, "admin")),
+      // A deleted profile with a working login would lock the user out confusingly
+      async () => unwrap(await usersService.restoreUser(userId, "admin"))
+    );
+    await uow.step("block-sign-in", () => setSignInBan(userId, DELETED_USER_BAN_DURATION));
+  });
+
+  return toDeletionResult(result, "Failed to delete user");
+}
+
+/**
+ * Move several users to the trash and block their sign-in. The profiles are
+ * trashed together; a user whose sign-in can't be blocked is restored again
+ * and reported as failed.
+ *
+ * @param userIds - The users to delete
+ */
+export async function softDeleteUsers(userIds: string[]): Promise<BulkDeletionResult> {
+  if (userIds.length === 0) return { success: true, results: [] };
+
+  const trashed = await usersService.deleteUsers(userIds, "admin");
+  if (!trashed.data) {
+    return { success: false, results: [], error: trashed.error?.message || "Failed to delete users" };
+  }
+
+  const results: BulkDeletionResult["results"] = [];
+  for (const [index, item] of trashed.data.items.entries()) {
+    const id = userIds[index];
+    if (!item.success) {
+      results.push({ id, success: false, error: item.error?.message || "Failed to delete user" });
+      continue;
+    }
+
+    try {
+      await setSignInBan(id, DELETED_USER_BAN_DURATION);
+      results.push({ id, success: true });
+    } catch (error) {
+      await usersService.restoreUser(id, "admin");
+      results.push({
+        id,
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to block sign-in",
+      });
+    }
+  }
+
+  const failed = results.filter((result) => !result.success).length;
+  return failed === 0
+    ? { success: true, results }
+    : { success: false, results, error: `${failed} of ${results.length} users could not be deleted` };
+}
+
+/**
+ * Bring a user back from the trash and allow them to sign in again
+ *
+ * @param userId - The user to restore
+ */
+export async function restoreDeletedUser(userId: string): Promise<DeletionResult> {
+  const result = await runUnitOfWork("restore-user", async (uow) => {
+    await uow.step(
+      "unblock-sign-in",
+      () => setSignInBan(userId, "none"),
+      () => setSignInBan(userId, DELETED_USER_BAN_DURATION)
+    );
+    await uow.step("restore-profile", async () =>
+      unwrap(await usersService.restoreUser(userId, "admin"))
+    );
+  });
+
+  return toDeletionResult(result, "Failed to restore user");
+}
+
+/**
+ * Permanently delete a user that is already in the trash
+ *
+ * @param userId - The user to purge
+ */
+export async function purgeDeletedUser(userId: string): Promise<DeletionResult> {
+  const supabase = createAdminClient();
+
+  const result = await runUnitOfWork("purge-user", async (uow) => {
+    // The profile references auth.users, so it has to go first. Re-inserting it
+    // on rollback restores the active organization membership via trigger.
+    await uow.step(
+      "purge-profile",
+      async () => unwrap(await usersService.purgeUser(userId, "admin")),
+      async (profile) => unwrap(await usersService.createUser(profile, "admin"))
+    );
+    await uow.step("delete-auth-user", async () => {
+      const { error } = await supabase.auth.admin.deleteUser(userId);
+      if (error) throw error;
+    });
+  });
+
+  return toDeletionResult(result, "Failed to purge user");
+}
+
+/**
+ * Purge every user that has been in the trash longer than the retention period
+ *
+ * @param retentionDays - Days to keep deleted users (defaults to USER_DELETE_RETENTION_DAYS)
+ */
+export async function purgeExpiredUsers(retentionDays = USER_DELETE_RETENTION_DAYS) {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const expired = await usersService.getUsersDeletedBefore(cutoff, "admin");
+
+  const failed: { id: string; error?: string }[] = [];
+  for (const user of expired) {
+    const result = await purgeDeletedUser(user.id);
+    if (!result.success) {
+      failed.push({ id: user.id, error: result.error });
+    }
+  }
+
+  return { purged: expired.length - failed.length, failed, cutoff };
+}
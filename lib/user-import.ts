@@ -0,0 +1,284 @@
+/**
+ * User Import
+ *
+ * Turns spreadsheet rows into a plan: each row creates a user, updates an
+ * existing member of the organization, leaves them unchanged, or is rejected
+ * with the reasons. Rows are validated with the same schema as the Add User
+ * form. `runUserImport` carries out a plan: profile updates go through one
+ * bulk update, and new users are provisioned a few at a time. Callers are
+ * responsible for authorization.
+ */
+
+import { provisionUser } from "./user-provisioning";
+import { requestPasswordReset } from "./actions/auth-actions";
+import {
+  userDetailsSchema,
+  userPasswordSchema,
+  usersServiceUnified,
+  type UserWithMemberships,
+} from "@/modules/users";
+import { rolesServiceUnified } from "@/modules/roles/services/roles-service";
+import type { Role } from "@/modules/roles/models/role";
+
+/* ============================================================
+   Types
+============================================================ */
+
+export const USER_IMPORT_FIELDS = ["firstName", "lastName", "email", "role", "password"] as const;
+
+export type UserImportField = (typeof USER_IMPORT_FIELDS)[number];
+
+/**
+ * One spreadsheet row after column mapping. `rowNumber` is the row in the
+ * file, used in the preview and the error report.
+ */
+export type UserImportRow = Partial<Record<UserImportField, string>> & { rowNumber: number };
+
+export type UserImportAction = "create" | "update" | "unchanged" | "error";
+
+export type UserImportPlanItem = {
+  rowNumber: number;
+  email: string;
+  action: UserImportAction;
+  errors: string[];
+  // Profile fields an update changes
+  changes?: string[];
+  // Resolved values, set unless the row has errors
+  account?: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    roleId: string;
+    password?: string;
+  };
+  userId?: string;
+};
+
+export type UserImportResult = {
+  rowNumber: number;
+  email: string;
+  action: UserImportAction;
+  success: boolean;
+  error?: string;
+};
+
+// Rows accepted per import; larger files should be split
+export const MAX_IMPORT_ROWS = 1000;
+
+// New users provisioned at the same time
+const PROVISION_CONCURRENCY = 5;
+
+// Emails per lookup query, to keep the request URL short
+const LOOKUP_CHUNK_SIZE = 100;
+
+const importRowSchema = userDetailsSchema.extend({
+  password: userPasswordSchema.optional(),
+});
+
+/* ============================================================
+   Planning
+============================================================ */
+
+function findRole(roles: Role[], value: string): Role | undefined {
+  const name = value.trim().toLowerCase();
+  return roles.find((role) => role.id === value.trim() || role.name.toLowerCase() === name);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+}
+
+/**
+ * Validate rows and decide what importing each one would do. Nothing is written.
+ *
+ * @param rows - Mapped spreadsheet rows
+ * @param organizationId - Organization new users join; existing users must belong to it
+ */
+export async function planUserImport(
+  rows: UserImportRow[],
+  organizationId: string | null
+): Promise<UserImportPlanItem[]> {
+  const roles = await rolesServiceUnified.getAllRoles({ environment: "admin" });
+  if (!roles.success) {
+    throw new Error(roles.error?.message || "Failed to load roles");
+  }
+
+  const emails = Array.from(
+    new Set(rows.map((row) => row.email?.trim().toLowerCase()).filter((email): email is string => !!email))
+  );
+  const existing = new Map<string, UserWithMemberships>();
+  for (const batch of chunk(emails, LOOKUP_CHUNK_SIZE)) {
+    const result = await usersServiceUnified.getUsersByEmails(batch, { environment: "admin" });
+    if (!result.success) {
+      throw new Error(result.error?.message || "Failed to look up existing users");
+    }
+    for (const user of result.data || []) {
+      existing.set(user.email.toLowerCase(), user);
+    }
+  }
+
+  const firstRowByEmail = new Map<string, number>();
+
+  return rows.map((row) => {
+    const email = row.email?.trim().toLowerCase() ?? "";
+    const item: UserImportPlanItem = { rowNumber: row.rowNumber, email, action: "error", errors: [] };
+
+    const parsed = importRowSchema.safeParse({
+      firstName: row.firstName?.trim() ?? "",
+      lastName: row.lastName?.trim() ?? "",
+      email,
+      role: row.role?.trim() ?? "",
+      password: row.password || undefined,
+    });
+    if (!parsed.success) {
+      item.errors.push(...parsed.error.issues.map((issue) => issue.message));
+    }
+
+    const role = row.role?.trim() ? findRole(roles.data || [], row.role) : undefined;
+    if (row.role?.trim() && !role) {
+      item.errors.push(`Unknown role "${row.role.trim()}"`);
+    }
+
+    if (email) {
+      const firstRow = firstRowByEmail.get(email);
+      if (firstRow !== undefined) {
+        item.errors.push(`Same email as row ${firstRow}`);
+      } else {
+        firstRowByEmail.set(email, row.rowNumber);
+      }
+    }
+
+    const user = existing.get(email);
+    if (user?.deleted_at) {
+      item.errors.push("This user is in Deleted users; restore them instead");
+    } else if (user && !user.organization_members.some((member) => member.organization_id === organizationId)) {
+      item.errors.push("This email belongs to a user in another organization");
+    }
+
+    if (item.errors.length > 0 || !parsed.success || !role) return item;
+
+    item.account = {
+      firstName: parsed.data.firstName,
+      lastName: parsed.data.lastName,
+      email,
+      roleId: role.id,
+      password: parsed.data.password,
+    };
+
+    if (!user) {
+      item.action = "create";
+      return item;
+    }
+
+    item.userId = user.id;
+    item.changes = [
+      user.first_name !== item.account.firstName && "first name",
+      user.last_name !== item.account.lastName && "last name",
+      user.role_id !== item.account.roleId && "role",
+    ].filter((change): change is string => !!change);
+    item.action = item.changes.length > 0 ? "update" : "unchanged";
+    return item;
+  });
+}
+
+/* ============================================================
+   Import
+============================================================ */
+
+// Meets userPasswordSchema; users without a password in the file set their own
+function temporaryPassword(): string {
+  return `${crypto.randomUUID()}Aa1`;
+}
+
+async function importNewUser(item: UserImportPlanItem, organizationId: string | null): Promise<UserImportResult> {
+  const account = item.account!;
+  const result = await provisionUser({
+    email: account.email,
+    password: account.password || temporaryPassword(),
+    firstName: account.firstName,
+    lastName: account.lastName,
+    roleId: account.roleId,
+    organizationId,
+  });
+
+  if (!result.success) {
+    return {
+      rowNumber: item.rowNumber,
+      email: item.email,
+      action: "create",
+      success: false,
+      error: result.error?.message || "Failed to create user",
+    };
+  }
+
+  if (!account.password) {
+    await requestPasswordReset(account.email, "user");
+  }
+  return { rowNumber: item.rowNumber, email: item.email, action: "create", success: true };
+}
+
+/**
+ * Carry out a plan from `planUserImport`. Rows with errors or no changes are
+ * reported as they are. Users imported without a password are emailed a link
+ * to set one.
+ *
+ * @param plan - The plan to run
+ * @param organizationId - Organization new users join
+ */
+export async function runUserImport(
+  plan: UserImportPlanItem[],
+  organizationId: string | null
+): Promise<UserImportResult[]> {
+  const results = new Map<number, UserImportResult>();
+
+  for (const item of plan) {
+    if (item.action === "error" || item.action === "unchanged") {
+      results.set(item.rowNumber, {
+        rowNumber: item.rowNumber,
+        email: item.email,
+        action: item.action,
+        success: item.action === "unchanged",
+        error: item.errors.join("; ") || undefined,
+      });
+    }
+  }
+
+  const updates = plan.filter((item) => item.action === "update");
+  if (updates.length > 0) {
+    const updated = await usersServiceUnified.updateUserProfiles(
+      updates.map((item) => ({
+        id: item.userId!,
+        changes: {
+          first_name: item.account!.firstName,
+          last_name: item.account!.lastName,
+          role_id: item.account!.roleId,
+        },
+      })),
+      { environment: "admin" }
+    );
+
+    updates.forEach((item, index) => {
+      const outcome = updated.data?.items[index];
+      results.set(item.rowNumber, {
+        rowNumber: item.rowNumber,
+        email: item.email,
+        action: "update",
+        success: !!outcome?.success,
+        error: outcome?.success ? undefined : outcome?.error?.message || updated.error?.message || "Failed to update user",
+      });
+    });
+  }
+
+  const creates = plan.filter((item) => item.action === "create");
+  for (const batch of chunk(creates, PROVISION_CONCURRENCY)) {
+    for (const result of await Promise.all(batch.map((item) => importNewUser(item, organizationId)))) {
+      results.set(result.rowNumber, result);
+    }
+  }
+
+  return plan.map((item) => results.get(item.rowNumber)!);
+}
@@ -0,0 +1,97 @@
+/**
+ * User Provisioning
+ *
+ * Creating a user touches Supabase auth and user_profile, which cannot share a
+ * transaction. Both writes run as one unit of work so a failed profile insert
+ * never leaves an orphaned auth user behind. Callers are responsible for
+ * authorization.
+ */
+
+import { createAdminClient } from "./supabase/admin";
+import { runUnitOfWork, unwrap, type UnitOfWork } from "./unit-of-work";
+import { usersService, type User } from "@/modules/users";
+import type { ServiceResponse } from "./BaseService";
+
+export type NewUserAccount = {
+  email: string;
+  // Omitted for users who only sign in through an identity provider
+  password?: string;
+  firstName: string;
+  lastName: string;
+  roleId: string;
+  profile?: string;
+  // Organization the user joins; the default organization when omitted
+  organizationId?: string | null;
+  // Extra auth user_metadata on top of the names
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Add the auth user and profile steps for `account` to a unit of work.
+ * Both are undone if a later step fails.
+ *
+ * @param uow - The unit of work to add the steps to
+ * @param account - The account to create
+ */
+export async function provisionUserSteps(uow: UnitOfWork, account: NewUserAccount): Promise<User> {
+  const supabase = createAdminClient();
+
+  const authUser = await uow.step(
+    "create-auth-user",
+    async () => {
+      const { data, error } = await supabase.auth.admin.createUser({
+        email: account.email,
+        password: account.password,
+        email_confirm: true,
+        user_metadata: {
+          ...account.metadata,
+          first_name: account.firstName,
+          last_name: account.lastName,
+        },
+      });
+      if (error || !data.user) {
+        throw error ?? new Error("Failed to create authentication user");
+      }
+      return data.user;
+    },
+    async (user) => {
+      const { error } = await supabase.auth.admin.deleteUser(user.id);
+      if (error) throw error;
+    }
+  );
+
+  return await uow.step(
+    "create-profile",
+    async () =>
+      unwrap(
+        await usersService.createUser(
+          {
+            id: authUser.id,
+            email: account.email,
+            first_name: account.firstName,
+            last_name: account.lastName,
+            profile: account.profile || "",
+            role_id: account.roleId,
+            is_active: true,
+            active_organization_id: account.organizationId ?? null,
+          },
+          "admin"
+        ),
+        "Failed to create user profile"
+      ),
+    // Profiles are soft-deleted, so a rollback trashes and then purges the row
+    async (user) => {
+      unwrap(await usersService.deleteUser(user.id, "admin"));
+      unwrap(await usersService.purgeUser(user.id, "admin"));
+    }
+  );
+}
+
+/**
+ * Create an auth user and their profile, or neither
+ *
+ * @param account - The account to create
+ */
+export async function provisionUser(account: NewUserAccount): Promise<ServiceResponse<User>> {
+  return await runUnitOfWork("provision-user", (uow) => provisionUserSteps(uow, account));
+}
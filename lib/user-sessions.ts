@@ -0,0 +1,138 @@
+/**
+ * User Sessions
+ *
+ * Where each user is signed in. Every sign-in records its Supabase Auth
+ * session (the access token's session_id claim) in user_sessions with the
+ * device, IP address and user agent it came from, and the app touches the row
+ * while the session is used. Revoking a session deletes it from Supabase Auth,
+ * so its refresh token stops working and its access token is refused, and
+ * marks the row revoked so the browser holding it signs out at its next check.
+ * Callers are responsible for authorization. Server only.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { baseService } from "./BaseService";
+import { getRequestOrigin } from "./request-origin";
+import { userSessionsServiceUnified, type SessionScope, type UserSession } from "@/modules/user-sessions";
+
+// Checked in this order, so Edge is not reported as Chrome, nor Chrome as Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/CrOS/, "ChromeOS"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+/* ============================================================
+   Sessions
+============================================================ */
+
+/**
+ * A readable browser and platform for a user agent, e.g. "Chrome on macOS"
+ *
+ * @param userAgent - The User-Agent header
+ */
+export function describeDevice(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null;
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
+
+/**
+ * The user and session ID an access token was issued for. The token is not
+ * verified here; only read tokens Supabase Auth has already accepted.
+ *
+ * @param accessToken - A Supabase access token (JWT)
+ */
+export function readAccessToken(accessToken: string): { userId: string; sessionId: string } | null {
+  try {
+    const claims = JSON.parse(Buffer.from(accessToken.split(".")[1] || "", "base64url").toString("utf8"));
+    return typeof claims.sub === "string" && typeof claims.session_id === "string"
+      ? { userId: claims.sub, sessionId: claims.session_id }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The ID of the session a client carries, or null when signed out
+ *
+ * @param supabase - Client carrying the user's session
+ */
+export async function getCurrentSessionId(supabase: Pick<SupabaseClient, "auth">): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  return accessToken ? readAccessToken(accessToken)?.sessionId ?? null : null;
+}
+
+/**
+ * Record a new session with the device and address of the current request.
+ * Failures are logged and never fail the sign-in, which has already happened.
+ *
+ * @param accessToken - The access token the sign-in returned
+ */
+export async function recordUserSession(accessToken: string): Promise<UserSession | null> {
+  const token = readAccessToken(accessToken);
+  if (!token) {
+    console.error("Error recording session: access token has no session ID");
+    return null;
+  }
+
+  const { ipAddress, userAgent } = await getRequestOrigin();
+  const result = await userSessionsServiceUnified.recordSession(
+    {
+      id: token.sessionId,
+      user_id: token.userId,
+      device: describeDevice(userAgent),
+      ip_address: ipAddress,
+      user_agent: userAgent,
+    },
+    { environment: "admin" }
+  );
+  if (!result.success || !result.data) {
+    console.error("Error recording session:", result.error);
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * End some or all of a user's sessions
+ *
+ * @param userId - The user the sessions belong to
+ * @param scope - `only` these sessions, or every session `except` one; neither ends them all
+ * @returns How many recorded sessions were revoked
+ */
+export async function revokeUserSessions(userId: string, scope: SessionScope = {}): Promise<number> {
+  if (scope.only?.length === 0) return 0;
+
+  const ended = await baseService.callFunction<number>(
+    "revoke_auth_sessions",
+    { p_user_id: userId, p_session_ids: scope.only ?? null, p_keep_session_id: scope.except ?? null },
+    { environment: "admin" }
+  );
+  if (!ended.success) {
+    throw new Error(ended.error?.message || "Failed to end sessions");
+  }
+
+  const revoked = await userSessionsServiceUnified.markSessionsRevoked(userId, scope, { environment: "admin" });
+  if (!revoked.success) {
+    throw new Error(revoked.error?.message || "Failed to revoke sessions");
+  }
+  return revoked.data?.length ?? 0;
+}
@@ -0,0 +1,172 @@
+/**
+ * Auth Guard
+ *
+ * Resolves the Supabase session from the request cookies, loads the caller's
+ * user_profile with its role_access grants and checks an optional
+ * resource/action requirement. Sessions with a pending MFA step (see lib/mfa)
+ * are refused unless the requirement allows them. Used by app/api route
+ * handlers (`withAuth`) and by server actions in lib/actions (`authorizeRequest`).
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import type { User as SupabaseUser } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { generateRequestId, type ServiceError } from "@/lib/BaseService";
+import { authorize, getRoleAccess, type PermissionAction } from "@/lib/permissions";
+import { getPendingMfaStep } from "@/lib/mfa";
+import { usersService, type User } from "@/modules/users";
+import type { RoleAccess } from "@/modules/roles/models/role";
+
+/* ============================================================
+   Types
+============================================================ */
+
+export type AuthRequirement = {
+  resource?: string;
+  action?: PermissionAction;
+  /** Let sessions that still owe an MFA challenge or enrollment through */
+  allowPendingMfa?: boolean;
+};
+
+export type AuthErrorCode = "UNAUTHORIZED" | "FORBIDDEN" | "MFA_REQUIRED";
+
+export type AuthError = ServiceError & {
+  code: AuthErrorCode;
+  status: 401 | 403;
+};
+
+export type AuthContext = {
+  user: SupabaseUser;
+  profile: User;
+  permissions: RoleAccess[];
+  organizationId: string | null;
+  requestId: string;
+};
+
+export type AuthResult =
+  | { success: true; data: AuthContext; error?: undefined }
+  | { success: false; data?: undefined; error: AuthError };
+
+/**
+ * JSON body returned by guarded route handlers on 401/403
+ */
+export type AuthErrorBody = {
+  error: string;
+  code: AuthErrorCode;
+  requestId?: string;
+};
+
+/* ============================================================
+   Helpers
+============================================================ */
+
+function authError(code: AuthErrorCode, message: string, requestId: string, details?: any): AuthResult {
+  return {
+    success: false,
+    error: {
+      code,
+      status: code === "UNAUTHORIZED" ? 401 : 403,
+      message,
+      details,
+      requestId,
+    },
+  };
+}
+
+/**
+ * Resolve the caller from the request cookies and check the requirement.
+ * Works in route handlers and server actions.
+ *
+ * @param requirement - Optional resource/action the caller must hold
+ */
+export async function authorizeRequest(requirement: AuthRequirement = {}): Promise<AuthResult> {
+  const requestId = generateRequestId();
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser();
+
+    if (error || !user) {
+      // Supabase Auth's error code tells an ended session from a failed check
+      return authError("UNAUTHORIZED", "Authentication required", requestId, error?.code ? { authCode: error.code } : undefined);
+    }
+
+    const profileResult = await usersService.getUserById(user.id, "admin");
+    const profile = profileResult.data;
+
+    if (!profileResult.success || !profile?.id) {
+      return authError("UNAUTHORIZED", "User profile not found", requestId);
+    }
+
+    if (profile.is_active === false) {
+      return authError("FORBIDDEN", "User account is disabled", requestId);
+    }
+
+    if (!requirement.allowPendingMfa) {
+      const step = await getPendingMfaStep(supabase, () => profile.roles?.mfa_required === true);
+      if (step) {
+        return authError("MFA_REQUIRED", "Two-factor authentication required", requestId, { step });
+      }
+    }
+
+    if (requirement.resource) {
+      const denied = authorize(profile, requirement.resource, requirement.action || "read");
+      if (denied) {
+        return authError("FORBIDDEN", denied.message, requestId, denied.details);
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        user,
+        profile,
+        permissions: getRoleAccess(profile),
+        organizationId: profile.active_organization_id ?? null,
+        requestId,
+      },
+    };
+  } catch (error) {
+    console.error("Unexpected error authorizing request:", error);
+    return authError("UNAUTHORIZED", "Unable to verify session", requestId);
+  }
+}
+
+/**
+ * Build the JSON response for a failed authorization
+ */
+export function authErrorResponse(error: AuthError): NextResponse<AuthErrorBody> {
+  return NextResponse.json(
+    { error: error.message, code: error.code, requestId: error.requestId },
+    { status: error.status }
+  );
+}
+
+/**
+ * Wrap an app/api route handler so it only runs for authorized callers
+ *
+ * @example
+ * export const POST = withAuth({ resource: "users", action: "delete" }, async (request, { auth }) => {
+ *   ...
+ * });
+ */
+export function withAuth<TParams = unknown>(
+  requirement: AuthRequirement,
+  handler: (
+    request: NextRequest,
+    context: { params: Promise<TParams>; auth: AuthContext }
+  ) => Promise<Response>
+) {
+  return async (request: NextRequest, context: { params: Promise<TParams> }): Promise<Response> => {
+    const result = await authorizeRequest(requirement);
+
+    if (!result.success) {
+      return authErrorResponse(result.error);
+    }
+
+    return handler(request, { ...context, auth: result.data });
+  };
+}
@@ -1,5 +1,10 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
+import { hasPermission } from "@/lib/permissions";
+import { getPendingMfaStep, MFA_ROUTE } from "@/lib/mfa";
+import { getProtectedResource, RESTRICTED_ROUTE } from "@/lib/routes/protected-routes";
+import { PUBLIC_ROUTES } from "@/lib/routes/public.routes";
+import type { RoleAccess } from "@/modules/roles/models/role";
 
 export async function middleware(request: NextRequest) {
   // Allow ALL static assets, API routes, and Next.js internals without auth checking
@@ -53,20 +58,58 @@ export async function middleware(request: NextRequest) {
 
   // Define public routes that don't need auth
   const isAuthRoute = request.nextUrl.pathname.startsWith("/auth");
+  const isMfaRoute = request.nextUrl.pathname === MFA_ROUTE;
+  const isPublicRoute = PUBLIC_ROUTES.some(
+    (route) =>
+      request.nextUrl.pathname === route ||
+      request.nextUrl.pathname.startsWith(`${route}/`)
+  );
   
   // Handle authentication redirects
-  if (!user && !isAuthRoute) {
+  if (!user && !isAuthRoute && !isPublicRoute) {
     // No user, redirect to login
     const redirectUrl = new URL("/auth/login", request.url);
     return NextResponse.redirect(redirectUrl);
   }
 
-  if (user && isAuthRoute) {
+  if (user && isAuthRoute && !isMfaRoute) {
     // User is signed in and trying to access auth page, redirect to dashboard
     const redirectUrl = new URL("/", request.url);
     return NextResponse.redirect(redirectUrl);
   }
 
+  // Hold signed-in users at the MFA page until they complete their pending step
+  if (user && !isAuthRoute && !isPublicRoute) {
+    const step = await getPendingMfaStep(supabase, async () => {
+      const { data } = await supabase
+        .from("user_profile")
+        .select("roles(mfa_required)")
+        .eq("id", user.id)
+        .single<{ roles: { mfa_required: boolean } | null }>();
+      return data?.roles?.mfa_required === true;
+    });
+
+    if (step) {
+      return NextResponse.redirect(new URL(MFA_ROUTE, request.url));
+    }
+  }
+
+  // Enforce role_access for protected routes (including nested paths)
+  const resource = getProtectedResource(request.nextUrl.pathname);
+  if (user && resource) {
+    const { data: profile, error } = await supabase
+      .from("user_profile")
+      .select("is_active, roles(name, role_access(resource, action))")
+      .eq("id", user.id)
+      .single<{ is_active: boolean; roles: { name: string; role_access: RoleAccess[] } | null }>();
+
+    if (error || !profile?.is_active || !hasPermission(profile, resource, "read")) {
+      const redirectUrl = new URL(RESTRICTED_ROUTE, request.url);
+      redirectUrl.searchParams.set("from", request.nextUrl.pathname);
+      return NextResponse.redirect(redirectUrl);
+    }
+  }
+
   // For all other cases, continue with the response
   return response;
 }
@@ -0,0 +1,9 @@
+import { auditLogService, auditLogServiceUnified } from './services/audit-log-service';
+import { AuditLogEntry, AuditLogFilters } from './models/audit-log';
+
+export {
+  auditLogService,
+  auditLogServiceUnified,
+};
+
+export type { AuditLogEntry, AuditLogFilters };
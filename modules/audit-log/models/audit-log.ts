@@ -0,0 +1,26 @@
+import type { AuditAction, AuditChanges } from "@/lib/audit";
+
+export interface AuditLogEntry {
+  id: string;
+  request_id: string;
+  actor_id?: string | null;
+  actor_email?: string | null;
+  organization_id?: string | null;
+  table_name: string;
+  record_id?: string | null;
+  action: AuditAction;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  changes: AuditChanges;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  created_at?: string;
+}
+
+export interface AuditLogFilters {
+  organizationId?: string | null;
+  tableName?: string;
+  recordId?: string;
+  actorId?: string;
+  action?: AuditAction;
+}
@@ -0,0 +1,177 @@
+/**
+ * Audit Log Service
+ *
+ * This service centralizes all audit-log database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * Entries are append-only. audit_log is excluded from auditing in BaseService,
+ * so writing entries here doesn't recurse.
+ * The service uses a functional approach with direct function exports.
+ */
+
+import {
+  baseService,
+  type BulkResult,
+  type ServiceResponse,
+  type ClientEnvironment,
+  type CursorPage,
+  type EqualityFilters,
+} from "@/lib/BaseService";
+import { AuditLogEntry, AuditLogFilters } from "../models/audit-log";
+
+// Constants
+const TABLE_NAME = "audit_log";
+
+function toEqualityFilters(filters: AuditLogFilters): EqualityFilters {
+  const equality: EqualityFilters = {};
+  if (filters.organizationId !== undefined) equality.organization_id = filters.organizationId;
+  if (filters.tableName) equality.table_name = filters.tableName;
+  if (filters.recordId) equality.record_id = filters.recordId;
+  if (filters.actorId) equality.actor_id = filters.actorId;
+  if (filters.action) equality.action = filters.action;
+  return equality;
+}
+
+/**
+ * Append audit log entries
+ *
+ * @param entries - Entries to store (actor, diff and redaction already applied)
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function createAuditLogEntries(
+  entries: Omit<AuditLogEntry, "id" | "created_at">[],
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<AuditLogEntry>>> {
+  return await baseService.bulkInsert<typeof TABLE_NAME, AuditLogEntry>(
+    TABLE_NAME,
+    entries,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get audit log entries, newest first, with pagination and exact-match filters
+ *
+ * @param params - Filters and pagination parameters
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getAuditLogPaginated(
+  params: AuditLogFilters & {
+    page?: number;
+    pageSize?: number;
+  },
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<{ data: AuditLogEntry[]; total: number; page: number; pageSize: number }>> {
+  const { page = 1, pageSize = 10, ...filters } = params;
+
+  return await baseService.paginate<typeof TABLE_NAME, AuditLogEntry>(
+    TABLE_NAME,
+    {
+      page,
+      limit: pageSize,
+      filters: toEqualityFilters(filters),
+      orderBy: {
+        column: "created_at",
+        ascending: false
+      }
+    },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get audit log entries, newest first, one keyset page at a time. The total
+ * is estimated because exact counts get slow as the log grows.
+ *
+ * @param params - Filters, the cursor from the previous page and page size
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getAuditLogByCursor(
+  params: AuditLogFilters & {
+    cursor?: string | null;
+    pageSize?: number;
+  },
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<CursorPage<AuditLogEntry>>> {
+  const { cursor, pageSize = 25, ...filters } = params;
+
+  return await baseService.paginateByCursor<typeof TABLE_NAME, AuditLogEntry>(
+    TABLE_NAME,
+    {
+      cursor,
+      limit: pageSize,
+      filters: toEqualityFilters(filters),
+      orderBy: { column: "created_at", ascending: false },
+      count: "estimated"
+    },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get the newest entry for a record, e.g. to know its last recorded state
+ *
+ * @param tableName - The record's table
+ * @param recordId - The record's ID
+ * @param options - Options including environment (client/server/admin)
+ * @returns The entry, or null when the record was never logged
+ */
+export async function getLatestEntryForRecord(
+  tableName: string,
+  recordId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<AuditLogEntry | null>> {
+  const result = await baseService.paginateByCursor<typeof TABLE_NAME, AuditLogEntry>(
+    TABLE_NAME,
+    {
+      limit: 1,
+      filters: { table_name: tableName, record_id: recordId },
+      orderBy: { column: "created_at", ascending: false }
+    },
+    { environment: options?.environment }
+  );
+
+  return { ...result, data: result.success ? result.data?.data[0] ?? null : null };
+}
+
+// Export individual functions directly for the unified service
+export const auditLogServiceUnified = {
+  createAuditLogEntries,
+  getAuditLogPaginated,
+  getAuditLogByCursor,
+  getLatestEntryForRecord,
+};
+
+// Legacy-style export matching the other modules
+export const auditLogService = {
+  createAuditLogEntries: (
+    entries: Omit<AuditLogEntry, "id" | "created_at">[],
+    environment?: ClientEnvironment
+  ) => createAuditLogEntries(entries, { environment }),
+
+  getAuditLogPaginated: async (
+    params: AuditLogFilters & { page?: number; pageSize?: number },
+    environment?: ClientEnvironment
+  ) => {
+    const result = await getAuditLogPaginated(params, { environment });
+    return result.success
+      ? { entries: result.data?.data || [], total: result.data?.total || 0 }
+      : { entries: [], total: 0 };
+  },
+
+  getAuditLogByCursor: async (
+    params: AuditLogFilters & { cursor?: string | null; pageSize?: number },
+    environment?: ClientEnvironment
+  ) => {
+    const result = await getAuditLogByCursor(params, { environment });
+    return result.success
+      ? { entries: result.data?.data || [], nextCursor: result.data?.nextCursor ?? null, total: result.data?.total ?? null }
+      : { entries: [], nextCursor: null, total: null, error: result.error?.message };
+  },
+
+  getLatestEntryForRecord: (tableName: string, recordId: string, environment?: ClientEnvironment) =>
+    getLatestEntryForRecord(tableName, recordId, { environment }),
+};
+
+// Export types
+export type { AuditLogEntry, AuditLogFilters };
@@ -8,4 +8,4 @@ export {
 };
 
 // Re-export types from unified service
-export type { AuthSignupData, AuthResponse } from './services/auth-service-unified'; 
\ No newline at end of file
+export type { AuthSignupData, AuthResponse, AssuranceLevel, TotpEnrollment } from './services/auth-service-unified'; 
\ No newline at end of file
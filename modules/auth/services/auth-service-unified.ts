@@ -10,7 +10,8 @@
 
 import { getSupabaseClient } from "@/lib/supabase/client";
 import { supabaseAdmin } from "@/lib/supabase/admin";
-import type { SupabaseClient } from "@supabase/supabase-js";
+import { clearQueryCache } from "@/lib/query-cache";
+import type { AuthenticatorAssuranceLevels, Factor, Provider, SupabaseClient, UserIdentity } from "@supabase/supabase-js";
 
 /* ============================================================
    Types
@@ -53,6 +54,18 @@ export interface ServiceResponse<T> {
   };
 }
 
+export interface AssuranceLevel {
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  // otpauth:// URI the authenticator app scans
+  uri: string;
+  secret: string;
+}
+
 /* ============================================================
    Helper functions
 ============================================================ */
@@ -152,17 +165,21 @@ export async function signIn(
 }
 
 /**
- * Sign out the current user
+ * Sign out the current user on this device. Their other sessions are ended
+ * from the Sessions section of the profile settings.
  */
 export async function signOut(): Promise<ServiceResponse<boolean>> {
   try {
     const client = getClient('client');
-    const { error } = await client.auth.signOut();
+    const { error } = await client.auth.signOut({ scope: "local" });
 
     if (error) {
       return handleError(error, "sign-out");
     }
 
+    // Cached reads belong to the signed-out user
+    clearQueryCache();
+
     return {
       success: true,
       data: true
@@ -268,6 +285,263 @@ export async function getUser(): Promise<ServiceResponse<any>> {
   }
 }
 
+/**
+ * Get the session's authenticator assurance level and the level it can reach
+ */
+export async function getAssuranceLevel(): Promise<ServiceResponse<AssuranceLevel>> {
+  try {
+    const client = getClient('client');
+    const { data, error } = await client.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (error) {
+      return handleError(error, "get-assurance-level");
+    }
+
+    return {
+      success: true,
+      data: { currentLevel: data.currentLevel, nextLevel: data.nextLevel }
+    };
+  } catch (error) {
+    return handleError(error, "get-assurance-level");
+  }
+}
+
+/**
+ * List the current user's TOTP factors, verified or not
+ */
+export async function listMfaFactors(): Promise<ServiceResponse<Factor[]>> {
+  try {
+    const client = getClient('client');
+    const { data, error } = await client.auth.mfa.listFactors();
+
+    if (error) {
+      return handleError(error, "list-factors");
+    }
+
+    return {
+      success: true,
+      data: data.all.filter((factor) => factor.factor_type === "totp")
+    };
+  } catch (error) {
+    return handleError(error, "list-factors");
+  }
+}
+
+/**
+ * Start enrolling an authenticator app. Unverified factors left over from
+ * abandoned enrollments are removed first.
+ *
+ * @param friendlyName - Name shown in the factor list
+ */
+export async function enrollTotp(
+  friendlyName?: string
+): Promise<ServiceResponse<TotpEnrollment>> {
+  try {
+    const client = getClient('client');
+    const { data: factors, error: listError } = await client.auth.mfa.listFactors();
+
+    if (listError) {
+      return handleError(listError, "enroll-totp");
+    }
+
+    for (const factor of factors.all) {
+      if (factor.factor_type === "totp" && factor.status === "unverified") {
+        await client.auth.mfa.unenroll({ factorId: factor.id });
+      }
+    }
+
+    const { data, error } = await client.auth.mfa.enroll({ factorType: "totp", friendlyName });
+
+    if (error) {
+      return handleError(error, "enroll-totp");
+    }
+
+    return {
+      success: true,
+      data: { factorId: data.id, uri: data.totp.uri, secret: data.totp.secret }
+    };
+  } catch (error) {
+    return handleError(error, "enroll-totp");
+  }
+}
+
+/**
+ * Verify a code from the authenticator app. Completes an enrollment or an
+ * MFA challenge; either way the session is raised to aal2.
+ *
+ * @param factorId - Factor the code was generated for
+ * @param code - Six-digit code
+ */
+export async function verifyTotp(
+  factorId: string,
+  code: string
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const client = getClient('client');
+    const { error } = await client.auth.mfa.challengeAndVerify({ factorId, code: code.trim() });
+
+    if (error) {
+      return handleError(error, "verify-totp");
+    }
+
+    return {
+      success: true,
+      data: true
+    };
+  } catch (error) {
+    return handleError(error, "verify-totp");
+  }
+}
+
+/**
+ * Remove one of the current user's factors
+ *
+ * @param factorId - Factor to remove
+ */
+export async function unenrollFactor(
+  factorId: string
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const client = getClient('client');
+    const { error } = await client.auth.mfa.unenroll({ factorId });
+
+    if (error) {
+      return handleError(error, "unenroll-factor");
+    }
+
+    return {
+      success: true,
+      data: true
+    };
+  } catch (error) {
+    return handleError(error, "unenroll-factor");
+  }
+}
+
+/**
+ * Refresh the session, picking up factor changes made on the server
+ */
+export async function refreshSession(): Promise<ServiceResponse<boolean>> {
+  try {
+    const client = getClient('client');
+    const { error } = await client.auth.refreshSession();
+
+    if (error) {
+      return handleError(error, "refresh-session");
+    }
+
+    return {
+      success: true,
+      data: true
+    };
+  } catch (error) {
+    return handleError(error, "refresh-session");
+  }
+}
+
+/**
+ * Start signing in with an OAuth provider configured in Supabase. The
+ * browser leaves for the provider and comes back to `redirectTo`.
+ *
+ * @param provider - Supabase provider name, e.g. "google"
+ * @param redirectTo - Absolute URL of the OAuth callback route
+ */
+export async function signInWithOAuth(
+  provider: Provider,
+  redirectTo: string
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const client = getClient('client');
+    const { error } = await client.auth.signInWithOAuth({ provider, options: { redirectTo } });
+
+    if (error) {
+      return handleError(error, "sign-in-with-oauth");
+    }
+
+    return {
+      success: true,
+      data: true
+    };
+  } catch (error) {
+    return handleError(error, "sign-in-with-oauth");
+  }
+}
+
+/**
+ * List the identities linked to the current user, including the email one
+ */
+export async function getUserIdentities(): Promise<ServiceResponse<UserIdentity[]>> {
+  try {
+    const client = getClient('client');
+    const { data, error } = await client.auth.getUserIdentities();
+
+    if (error) {
+      return handleError(error, "get-user-identities");
+    }
+
+    return {
+      success: true,
+      data: data.identities
+    };
+  } catch (error) {
+    return handleError(error, "get-user-identities");
+  }
+}
+
+/**
+ * Link an OAuth provider to the current user. Like signing in, the browser
+ * leaves for the provider and comes back to `redirectTo`.
+ *
+ * @param provider - Supabase provider name, e.g. "github"
+ * @param redirectTo - Absolute URL of the OAuth callback route
+ */
+export async function linkIdentity(
+  provider: Provider,
+  redirectTo: string
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const client = getClient('client');
+    const { error } = await client.auth.linkIdentity({ provider, options: { redirectTo } });
+
+    if (error) {
+      return handleError(error, "link-identity");
+    }
+
+    return {
+      success: true,
+      data: true
+    };
+  } catch (error) {
+    return handleError(error, "link-identity");
+  }
+}
+
+/**
+ * Unlink an identity from the current user. Supabase refuses to unlink the
+ * user's last identity.
+ *
+ * @param identity - Identity from getUserIdentities
+ */
+export async function unlinkIdentity(
+  identity: UserIdentity
+): Promise<ServiceResponse<boolean>> {
+  try {
+    const client = getClient('client');
+    const { error } = await client.auth.unlinkIdentity(identity);
+
+    if (error) {
+      return handleError(error, "unlink-identity");
+    }
+
+    return {
+      success: true,
+      data: true
+    };
+  } catch (error) {
+    return handleError(error, "unlink-identity");
+  }
+}
+
 /* ============================================================
    Service exports
 ============================================================ */
@@ -281,6 +555,16 @@ export const authServiceUnified = {
   resetPassword,
   getSession,
   getUser,
+  getAssuranceLevel,
+  listMfaFactors,
+  enrollTotp,
+  verifyTotp,
+  unenrollFactor,
+  refreshSession,
+  signInWithOAuth,
+  getUserIdentities,
+  linkIdentity,
+  unlinkIdentity,
 };
 
 // Legacy compatibility export
@@ -313,4 +597,44 @@ export const authService = {
     const result = await getUser();
     return result.success ? result.data : null;
   },
+  getAssuranceLevel: async () => {
+    const result = await getAssuranceLevel();
+    return result.success ? result.data : null;
+  },
+  listMfaFactors: async () => {
+    const result = await listMfaFactors();
+    return result.success ? result.data : null;
+  },
+  enrollTotp: async (friendlyName?: string) => {
+    const result = await enrollTotp(friendlyName);
+    return result.success ? result.data : null;
+  },
+  verifyTotp: async (factorId: string, code: string) => {
+    const result = await verifyTotp(factorId, code);
+    return result.success;
+  },
+  unenrollFactor: async (factorId: string) => {
+    const result = await unenrollFactor(factorId);
+    return result.success;
+  },
+  refreshSession: async () => {
+    const result = await refreshSession();
+    return result.success;
+  },
+  signInWithOAuth: async (provider: Provider, redirectTo: string) => {
+    const result = await signInWithOAuth(provider, redirectTo);
+    return result.success;
+  },
+  getUserIdentities: async () => {
+    const result = await getUserIdentities();
+    return result.success ? result.data : null;
+  },
+  linkIdentity: async (provider: Provider, redirectTo: string) => {
+    const result = await linkIdentity(provider, redirectTo);
+    return result.success;
+  },
+  unlinkIdentity: async (identity: UserIdentity) => {
+    const result = await unlinkIdentity(identity);
+    return result.success;
+  },
 };
\ No newline at end of file
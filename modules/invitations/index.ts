@@ -0,0 +1,10 @@
+import { invitationsService, invitationsServiceUnified } from './services/invitations-service';
+import { Invitation, InvitationStatus, getInvitationStatus } from './models/invitation';
+
+export {
+  invitationsService,
+  invitationsServiceUnified,
+  getInvitationStatus,
+};
+
+export type { Invitation, InvitationStatus };
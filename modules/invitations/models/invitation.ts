@@ -0,0 +1,29 @@
+export interface Invitation {
+  id: string;
+  email: string;
+  role_id: string;
+  organization_id?: string | null;
+  token_hash: string;
+  invited_by?: string | null;
+  expires_at: string;
+  accepted_at?: string | null;
+  accepted_user_id?: string | null;
+  revoked_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  roles?: {
+    name: string;
+  };
+}
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+/**
+ * Derive the display status of an invitation
+ */
+export function getInvitationStatus(invitation: Invitation): InvitationStatus {
+  if (invitation.accepted_at) return "accepted";
+  if (invitation.revoked_at) return "revoked";
+  if (new Date(invitation.expires_at) < new Date()) return "expired";
+  return "pending";
+}
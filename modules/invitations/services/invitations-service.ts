@@ -0,0 +1,234 @@
+/**
+ * Invitations Service
+ *
+ * This service centralizes all invitation-related database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * Invitations hold only the hash of their token, so lookups are done by hash.
+ * The service uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { Invitation } from "../models/invitation";
+
+// Constants
+const TABLE_NAME = "invitations";
+const INVITATION_SELECT = "*, roles(name)";
+
+/**
+ * Create a new invitation
+ *
+ * @param invitation - Invitation data (token must already be hashed)
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function createInvitation(
+  invitation: Pick<Invitation, "email" | "role_id" | "organization_id" | "token_hash" | "expires_at" | "invited_by">,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Invitation>> {
+  return await baseService.create<typeof TABLE_NAME, Invitation>(
+    TABLE_NAME,
+    { ...invitation, email: invitation.email.trim().toLowerCase() },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get all invitations, newest first, with their role
+ *
+ * @param options - Options including environment (client/server/admin) and an organization to scope to
+ */
+export async function getInvitations(
+  options?: { environment?: ClientEnvironment; organizationId?: string | null }
+): Promise<ServiceResponse<Invitation[]>> {
+  return await baseService.readAll<typeof TABLE_NAME, Invitation>(
+    TABLE_NAME,
+    {
+      select: INVITATION_SELECT,
+      filters: options?.organizationId ? { organization_id: options.organizationId } : undefined,
+      orderBy: { column: "created_at", ascending: false },
+      environment: options?.environment
+    }
+  );
+}
+
+/**
+ * Get an invitation by ID
+ *
+ * @param id - The invitation ID to look up
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getInvitationById(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Invitation>> {
+  return await baseService.readById<typeof TABLE_NAME, Invitation>(
+    TABLE_NAME,
+    id,
+    { select: INVITATION_SELECT, environment: options?.environment }
+  );
+}
+
+/**
+ * Look up a single invitation by a column value (exact match)
+ */
+async function findInvitation(
+  column: string,
+  value: string,
+  operation: string,
+  options?: { environment?: ClientEnvironment; openOnly?: boolean }
+): Promise<ServiceResponse<Invitation | null>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(async () => {
+      const client = baseService.getClient(options?.environment);
+      let query = client.from(TABLE_NAME).select(INVITATION_SELECT).eq(column, value);
+
+      if (options?.openOnly) {
+        query = query.is("accepted_at", null).is("revoked_at", null);
+      }
+
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data as Invitation | null;
+    }, operation);
+
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<Invitation | null>(
+      false,
+      null,
+      baseService.handleError(error, `${operation}-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Get an invitation by the SHA-256 hash of its token
+ *
+ * @param tokenHash - Hex encoded token hash
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getInvitationByTokenHash(
+  tokenHash: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Invitation | null>> {
+  return await findInvitation("token_hash", tokenHash, "getInvitationByTokenHash", options);
+}
+
+/**
+ * Get the open (not accepted, not revoked) invitation for an email, if any
+ *
+ * @param email - The invited email address
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getOpenInvitationByEmail(
+  email: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Invitation | null>> {
+  return await findInvitation("email", email.trim().toLowerCase(), "getOpenInvitationByEmail", {
+    ...options,
+    openOnly: true
+  });
+}
+
+/**
+ * Update an invitation by ID
+ *
+ * @param id - The invitation ID to update
+ * @param updates - The partial invitation data to update
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function updateInvitation(
+  id: string,
+  updates: Partial<Omit<Invitation, "id" | "roles">>,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Invitation>> {
+  return await baseService.update<typeof TABLE_NAME, Invitation>(
+    TABLE_NAME,
+    id,
+    { ...updates, updated_at: new Date().toISOString() },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Revoke an invitation so its token can no longer be used
+ *
+ * @param id - The invitation ID to revoke
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function revokeInvitation(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Invitation>> {
+  return await updateInvitation(id, { revoked_at: new Date().toISOString() }, options);
+}
+
+/**
+ * Mark an invitation as accepted by the given user
+ *
+ * @param id - The invitation ID
+ * @param userId - The ID of the user created from the invitation
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function markInvitationAccepted(
+  id: string,
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Invitation>> {
+  return await updateInvitation(
+    id,
+    { accepted_at: new Date().toISOString(), accepted_user_id: userId },
+    options
+  );
+}
+
+// Export individual functions directly for the unified service
+export const invitationsServiceUnified = {
+  createInvitation,
+  getInvitations,
+  getInvitationById,
+  getInvitationByTokenHash,
+  getOpenInvitationByEmail,
+  updateInvitation,
+  revokeInvitation,
+  markInvitationAccepted,
+};
+
+// Legacy-style export matching the other modules
+export const invitationsService = {
+  createInvitation: (
+    invitation: Pick<Invitation, "email" | "role_id" | "organization_id" | "token_hash" | "expires_at" | "invited_by">,
+    environment?: ClientEnvironment
+  ) => createInvitation(invitation, { environment }),
+
+  getInvitations: async (environment?: ClientEnvironment, organizationId?: string | null) => {
+    const result = await getInvitations({ environment, organizationId });
+    return result.success ? result.data || [] : [];
+  },
+
+  getInvitationById: (id: string, environment?: ClientEnvironment) =>
+    getInvitationById(id, { environment }),
+
+  getInvitationByTokenHash: (tokenHash: string, environment?: ClientEnvironment) =>
+    getInvitationByTokenHash(tokenHash, { environment }),
+
+  getOpenInvitationByEmail: (email: string, environment?: ClientEnvironment) =>
+    getOpenInvitationByEmail(email, { environment }),
+
+  updateInvitation: (
+    id: string,
+    updates: Partial<Omit<Invitation, "id" | "roles">>,
+    environment?: ClientEnvironment
+  ) => updateInvitation(id, updates, { environment }),
+
+  revokeInvitation: (id: string, environment?: ClientEnvironment) =>
+    revokeInvitation(id, { environment }),
+
+  markInvitationAccepted: (id: string, userId: string, environment?: ClientEnvironment) =>
+    markInvitationAccepted(id, userId, { environment }),
+};
+
+// Export types
+export type { Invitation };
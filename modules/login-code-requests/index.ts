@@ -0,0 +1,9 @@
+import { loginCodeRequestsService, loginCodeRequestsServiceUnified } from './services/login-code-requests-service';
+import { LoginCodeRequest, LoginCodeMethod } from './models/login-code-request';
+
+export {
+  loginCodeRequestsService,
+  loginCodeRequestsServiceUnified,
+};
+
+export type { LoginCodeRequest, LoginCodeMethod };
@@ -0,0 +1,9 @@
+export type LoginCodeMethod = "magic_link" | "email_otp";
+
+export interface LoginCodeRequest {
+  id: string;
+  email: string;
+  method: LoginCodeMethod;
+  ip_address?: string | null;
+  created_at?: string;
+}
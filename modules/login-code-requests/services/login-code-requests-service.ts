@@ -0,0 +1,110 @@
+/**
+ * Login Code Requests Service
+ *
+ * This service centralizes all login-code-request database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * Each magic link or sign-in code request leaves a row, which the passwordless
+ * sign-in actions count to rate limit requests per email and per IP address.
+ * The service uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { LoginCodeRequest } from "../models/login-code-request";
+
+// Constants
+const TABLE_NAME = "login_code_requests";
+
+/**
+ * Run a query against the login_code_requests table with BaseService retry and error handling
+ */
+async function execute<T>(
+  operation: string,
+  run: (client: ReturnType<typeof baseService.getClient>) => Promise<T>,
+  environment?: ClientEnvironment
+): Promise<ServiceResponse<T>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(
+      () => run(baseService.getClient(environment)),
+      operation
+    );
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<T>(
+      false,
+      undefined,
+      baseService.handleError(error, `${operation}-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Record a magic link or sign-in code request
+ *
+ * @param request - The email, method and requesting IP address
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function recordLoginCodeRequest(
+  request: Pick<LoginCodeRequest, "email" | "method" | "ip_address">,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<LoginCodeRequest>> {
+  return await execute("recordLoginCodeRequest", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .insert({ ...request, email: request.email.trim().toLowerCase() })
+      .select("*")
+      .single();
+    if (error) throw error;
+    return data as LoginCodeRequest;
+  }, options?.environment);
+}
+
+/**
+ * Count requests made for an email, or from an IP address, since a point in time
+ *
+ * @param source - The email or IP address to count requests for
+ * @param since - ISO timestamp marking the start of the window
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function countRecentLoginCodeRequests(
+  source: { email: string } | { ipAddress: string },
+  since: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<number>> {
+  return await execute("countRecentLoginCodeRequests", async (client) => {
+    const query = client
+      .from(TABLE_NAME)
+      .select("id", { count: "exact", head: true })
+      .gte("created_at", since);
+    const { count, error } = "email" in source
+      ? await query.eq("email", source.email.trim().toLowerCase())
+      : await query.eq("ip_address", source.ipAddress);
+    if (error) throw error;
+    return count || 0;
+  }, options?.environment);
+}
+
+// Export individual functions directly for the unified service
+export const loginCodeRequestsServiceUnified = {
+  recordLoginCodeRequest,
+  countRecentLoginCodeRequests,
+};
+
+// Legacy-style export matching the other modules
+export const loginCodeRequestsService = {
+  recordLoginCodeRequest: (
+    request: Pick<LoginCodeRequest, "email" | "method" | "ip_address">,
+    environment?: ClientEnvironment
+  ) => recordLoginCodeRequest(request, { environment }),
+
+  countRecentLoginCodeRequests: (
+    source: { email: string } | { ipAddress: string },
+    since: string,
+    environment?: ClientEnvironment
+  ) => countRecentLoginCodeRequests(source, since, { environment }),
+};
+
+// Export types
+export type { LoginCodeRequest };
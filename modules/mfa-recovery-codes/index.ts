@@ -0,0 +1,9 @@
+import { mfaRecoveryCodesService, mfaRecoveryCodesServiceUnified } from './services/mfa-recovery-codes-service';
+import { MfaRecoveryCode } from './models/mfa-recovery-code';
+
+export {
+  mfaRecoveryCodesService,
+  mfaRecoveryCodesServiceUnified,
+};
+
+export type { MfaRecoveryCode };
@@ -0,0 +1,7 @@
+export interface MfaRecoveryCode {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  used_at?: string | null;
+  created_at?: string;
+}
@@ -0,0 +1,161 @@
+/**
+ * MFA Recovery Codes Service
+ *
+ * This service centralizes all recovery-code database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * Rows hold only the hash of their code, so lookups are exact matches on the hash.
+ * The service uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { MfaRecoveryCode } from "../models/mfa-recovery-code";
+
+// Constants
+const TABLE_NAME = "mfa_recovery_codes";
+
+/**
+ * Run a query against the mfa_recovery_codes table with BaseService retry and error handling
+ */
+async function execute<T>(
+  operation: string,
+  run: (client: ReturnType<typeof baseService.getClient>) => Promise<T>,
+  environment?: ClientEnvironment
+): Promise<ServiceResponse<T>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(
+      () => run(baseService.getClient(environment)),
+      operation
+    );
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<T>(
+      false,
+      undefined,
+      baseService.handleError(error, `${operation}-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Replace a user's recovery codes. Earlier codes, used or not, stop working.
+ *
+ * @param userId - The user the codes belong to
+ * @param codeHashes - Hashes of the new codes
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function replaceRecoveryCodes(
+  userId: string,
+  codeHashes: string[],
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<number>> {
+  return await execute("replaceRecoveryCodes", async (client) => {
+    const { error: deleteError } = await client.from(TABLE_NAME).delete().eq("user_id", userId);
+    if (deleteError) throw deleteError;
+
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .insert(codeHashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash })))
+      .select("id");
+    if (error) throw error;
+    return data?.length || 0;
+  }, options?.environment);
+}
+
+/**
+ * Count the recovery codes a user has left
+ *
+ * @param userId - The user the codes belong to
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function countUnusedRecoveryCodes(
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<number>> {
+  return await execute("countUnusedRecoveryCodes", async (client) => {
+    const { count, error } = await client
+      .from(TABLE_NAME)
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("used_at", null);
+    if (error) throw error;
+    return count || 0;
+  }, options?.environment);
+}
+
+/**
+ * Mark one of a user's recovery codes as used. Only succeeds for an unused
+ * code, so concurrent requests can't redeem the same code twice.
+ *
+ * @param userId - The user redeeming the code
+ * @param codeHash - Hash of the code they entered
+ * @param options - Options including environment (client/server/admin)
+ * @returns The consumed code, or null if it doesn't exist or was already used
+ */
+export async function consumeRecoveryCode(
+  userId: string,
+  codeHash: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<MfaRecoveryCode | null>> {
+  return await execute("consumeRecoveryCode", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .update({ used_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("code_hash", codeHash)
+      .is("used_at", null)
+      .select("*")
+      .maybeSingle();
+    if (error) throw error;
+    return data as MfaRecoveryCode | null;
+  }, options?.environment);
+}
+
+/**
+ * Delete all of a user's recovery codes
+ *
+ * @param userId - The user the codes belong to
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function deleteRecoveryCodes(
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<number>> {
+  return await execute("deleteRecoveryCodes", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .delete()
+      .eq("user_id", userId)
+      .select("id");
+    if (error) throw error;
+    return data?.length || 0;
+  }, options?.environment);
+}
+
+// Export individual functions directly for the unified service
+export const mfaRecoveryCodesServiceUnified = {
+  replaceRecoveryCodes,
+  countUnusedRecoveryCodes,
+  consumeRecoveryCode,
+  deleteRecoveryCodes,
+};
+
+// Legacy-style export matching the other modules
+export const mfaRecoveryCodesService = {
+  replaceRecoveryCodes: (userId: string, codeHashes: string[], environment?: ClientEnvironment) =>
+    replaceRecoveryCodes(userId, codeHashes, { environment }),
+
+  countUnusedRecoveryCodes: (userId: string, environment?: ClientEnvironment) =>
+    countUnusedRecoveryCodes(userId, { environment }),
+
+  consumeRecoveryCode: (userId: string, codeHash: string, environment?: ClientEnvironment) =>
+    consumeRecoveryCode(userId, codeHash, { environment }),
+
+  deleteRecoveryCodes: (userId: string, environment?: ClientEnvironment) =>
+    deleteRecoveryCodes(userId, { environment }),
+};
+
+// Export types
+export type { MfaRecoveryCode };
@@ -0,0 +1,9 @@
+import { organizationDomainsService, organizationDomainsServiceUnified } from './services/organization-domains-service';
+import { OrganizationDomain } from './models/organization-domain';
+
+export {
+  organizationDomainsService,
+  organizationDomainsServiceUnified,
+};
+
+export type { OrganizationDomain };
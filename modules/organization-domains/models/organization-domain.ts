@@ -0,0 +1,13 @@
+export interface OrganizationDomain {
+  id: string;
+  organization_id: string;
+  // Lowercase, e.g. "example.com"
+  domain: string;
+  // Published in a DNS TXT record to prove the organization owns the domain
+  verification_token: string;
+  verified_at?: string | null;
+  // New users with this email domain join the organization
+  auto_join: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
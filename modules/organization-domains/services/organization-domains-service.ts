@@ -0,0 +1,195 @@
+/**
+ * Organization Domains Service
+ *
+ * This service centralizes all organization-domain database operations using
+ * BaseService for consistent error handling, response structures, and client
+ * management.
+ *
+ * Organizations claim email domains and prove they own them through DNS (see
+ * lib/domain-verification). Only verified domains count: they auto-join new
+ * users and route sign-ins to the organization's single sign-on. Callers use
+ * the admin environment after checking permissions themselves. The service
+ * uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { OrganizationDomain } from "../models/organization-domain";
+
+// Constants
+const TABLE_NAME = "organization_domains";
+
+/**
+ * Get a claimed domain by ID
+ *
+ * @param id - The domain ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getDomainById(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationDomain>> {
+  return await baseService.readById<typeof TABLE_NAME, OrganizationDomain>(
+    TABLE_NAME,
+    id,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * List the domains an organization has claimed, verified or not
+ *
+ * @param organizationId - The organization
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getDomainsForOrganization(
+  organizationId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationDomain[]>> {
+  return await baseService.readAll<typeof TABLE_NAME, OrganizationDomain>(
+    TABLE_NAME,
+    {
+      filters: { organization_id: organizationId },
+      orderBy: { column: "domain", ascending: true },
+      environment: options?.environment
+    }
+  );
+}
+
+/**
+ * Find who has verified a domain
+ *
+ * @param domain - Email domain, e.g. "example.com"
+ * @param options - Options including environment (client/server/admin)
+ * @returns The verified domain, or null when no organization has verified it
+ */
+export async function getVerifiedDomain(
+  domain: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationDomain | null>> {
+  const result = await baseService.readAll<typeof TABLE_NAME, OrganizationDomain>(
+    TABLE_NAME,
+    {
+      filters: { domain: domain.trim().toLowerCase() },
+      where: { column: "verified_at", op: "not_is", value: null },
+      environment: options?.environment
+    }
+  );
+
+  return { ...result, data: result.success ? result.data?.[0] ?? null : null };
+}
+
+/**
+ * Claim a domain for an organization. The claim counts once it is verified.
+ *
+ * @param organizationId - The organization
+ * @param domain - The normalized domain
+ * @param verificationToken - The token the organization has to publish in DNS
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function addDomain(
+  organizationId: string,
+  domain: string,
+  verificationToken: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationDomain>> {
+  return await baseService.create<typeof TABLE_NAME, OrganizationDomain>(
+    TABLE_NAME,
+    { organization_id: organizationId, domain, verification_token: verificationToken },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Record that an organization proved it owns a domain
+ *
+ * @param id - The domain ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function markDomainVerified(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationDomain>> {
+  return await baseService.update<typeof TABLE_NAME, OrganizationDomain>(
+    TABLE_NAME,
+    id,
+    { verified_at: new Date().toISOString() },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Choose whether new users with a domain's email addresses join its organization
+ *
+ * @param id - The domain ID
+ * @param autoJoin - Whether they join
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function setAutoJoin(
+  id: string,
+  autoJoin: boolean,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationDomain>> {
+  return await baseService.update<typeof TABLE_NAME, OrganizationDomain>(
+    TABLE_NAME,
+    id,
+    { auto_join: autoJoin },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Give up a claimed domain
+ *
+ * @param id - The domain ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function removeDomain(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationDomain>> {
+  return await baseService.delete<typeof TABLE_NAME, OrganizationDomain>(
+    TABLE_NAME,
+    id,
+    { environment: options?.environment }
+  );
+}
+
+// Export individual functions directly for the unified service
+export const organizationDomainsServiceUnified = {
+  getDomainById,
+  getDomainsForOrganization,
+  getVerifiedDomain,
+  addDomain,
+  markDomainVerified,
+  setAutoJoin,
+  removeDomain,
+};
+
+// Legacy-style export matching the other modules
+export const organizationDomainsService = {
+  getDomainById: (id: string, environment?: ClientEnvironment) =>
+    getDomainById(id, { environment }),
+
+  getDomainsForOrganization: async (organizationId: string, environment?: ClientEnvironment) => {
+    const result = await getDomainsForOrganization(organizationId, { environment });
+    return result.success ? result.data || [] : [];
+  },
+
+  getVerifiedDomain: (domain: string, environment?: ClientEnvironment) =>
+    getVerifiedDomain(domain, { environment }),
+
+  addDomain: (organizationId: string, domain: string, verificationToken: string, environment?: ClientEnvironment) =>
+    addDomain(organizationId, domain, verificationToken, { environment }),
+
+  markDomainVerified: (id: string, environment?: ClientEnvironment) =>
+    markDomainVerified(id, { environment }),
+
+  setAutoJoin: (id: string, autoJoin: boolean, environment?: ClientEnvironment) =>
+    setAutoJoin(id, autoJoin, { environment }),
+
+  removeDomain: (id: string, environment?: ClientEnvironment) =>
+    removeDomain(id, { environment }),
+};
+
+// Export types
+export type { OrganizationDomain };
@@ -0,0 +1,10 @@
+import { organizationsService, organizationsServiceUnified } from './services/organizations-service';
+import { Organization, OrganizationMembership, DEFAULT_ORGANIZATION_ID } from './models/organization';
+
+export {
+  organizationsService,
+  organizationsServiceUnified,
+  DEFAULT_ORGANIZATION_ID,
+};
+
+export type { Organization, OrganizationMembership };
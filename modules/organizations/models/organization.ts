@@ -0,0 +1,24 @@
+// Seeded by 20250514_organizations.sql; owns the original settings row
+export const DEFAULT_ORGANIZATION_ID = "f3c1e2d4-5a6b-4c7d-8e9f-0a1b2c3d4e5f";
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  is_default?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface OrganizationMembership {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  role_id: string;
+  created_at?: string;
+  updated_at?: string;
+  organizations?: Organization;
+  roles?: {
+    name: string;
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Organizations Service
+ *
+ * This service centralizes all organization and membership database operations using
+ * BaseService for consistent error handling, response structures, and client management.
+ *
+ * A user can belong to many organizations with a different role in each. The active
+ * organization is stored on user_profile, and user_profile.role_id mirrors the role held
+ * in it, so switching organizations must go through `switchActiveOrganization`.
+ * The service uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { Organization, OrganizationMembership } from "../models/organization";
+
+// Constants
+const TABLE_NAME = "organizations";
+const MEMBERS_TABLE_NAME = "organization_members";
+
+/**
+ * Get an organization by ID
+ *
+ * @param id - The organization ID to look up
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getOrganizationById(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Organization>> {
+  return await baseService.readById<typeof TABLE_NAME, Organization>(
+    TABLE_NAME,
+    id,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get the organizations a user belongs to, with their role in each
+ *
+ * @param userId - The member's user ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getMembershipsForUser(
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationMembership[]>> {
+  return await baseService.readAll<typeof MEMBERS_TABLE_NAME, OrganizationMembership>(
+    MEMBERS_TABLE_NAME,
+    {
+      select: "*, organizations(*), roles(name)",
+      filters: { user_id: userId },
+      orderBy: { column: "created_at", ascending: true },
+      environment: options?.environment
+    }
+  );
+}
+
+/**
+ * Make an organization the user's active one. Fails with code 42501 if the
+ * user is not a member of it.
+ *
+ * @param userId - The user switching organizations
+ * @param organizationId - The organization to switch to
+ * @param options - Options including environment (client/server/admin)
+ * @returns The role ID the user holds in the new active organization
+ */
+export async function switchActiveOrganization(
+  userId: string,
+  organizationId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<string>> {
+  return await baseService.callFunction<string>(
+    "switch_active_organization",
+    { p_user_id: userId, p_organization_id: organizationId },
+    { environment: options?.environment, invalidates: ["user_profile", "organization_members"] }
+  );
+}
+
+/**
+ * Add a user to an organization with a role, or change the role they hold
+ * there. Doesn't touch user_profile.role_id, so callers changing the role in
+ * the user's active organization update the profile instead.
+ *
+ * @param organizationId - The organization
+ * @param userId - The member's user ID
+ * @param roleId - The role to hold in the organization
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function setMembershipRole(
+  organizationId: string,
+  userId: string,
+  roleId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<OrganizationMembership>> {
+  const result = await baseService.upsert<typeof MEMBERS_TABLE_NAME, OrganizationMembership>(
+    MEMBERS_TABLE_NAME,
+    [{ organization_id: organizationId, user_id: userId, role_id: roleId }],
+    { onConflict: "organization_id,user_id", environment: options?.environment }
+  );
+
+  const item = result.data?.items[0];
+  if (!result.success || !item?.success) {
+    return {
+      success: false,
+      error: item?.error ?? result.error ?? { code: "UPSERT_FAILED", message: "Failed to save membership" },
+      meta: result.meta
+    };
+  }
+  return { ...result, data: item.data };
+}
+
+// Export individual functions directly for the unified service
+export const organizationsServiceUnified = {
+  getOrganizationById,
+  getMembershipsForUser,
+  switchActiveOrganization,
+  setMembershipRole,
+};
+
+// Legacy-style export matching the other modules
+export const organizationsService = {
+  getOrganizationById: (id: string, environment?: ClientEnvironment) =>
+    getOrganizationById(id, { environment }),
+
+  getMembershipsForUser: async (userId: string, environment?: ClientEnvironment) => {
+    const result = await getMembershipsForUser(userId, { environment });
+    return result.success ? result.data || [] : [];
+  },
+
+  switchActiveOrganization: (userId: string, organizationId: string, environment?: ClientEnvironment) =>
+    switchActiveOrganization(userId, organizationId, { environment }),
+
+  setMembershipRole: (organizationId: string, userId: string, roleId: string, environment?: ClientEnvironment) =>
+    setMembershipRole(organizationId, userId, roleId, { environment }),
+};
+
+// Export types
+export type { Organization, OrganizationMembership };
@@ -0,0 +1,10 @@
+import { passwordResetsService, passwordResetsServiceUnified } from './services/password-resets-service';
+import { PasswordReset, isPasswordResetUsable } from './models/password-reset';
+
+export {
+  passwordResetsService,
+  passwordResetsServiceUnified,
+  isPasswordResetUsable,
+};
+
+export type { PasswordReset };
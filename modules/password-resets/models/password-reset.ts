@@ -0,0 +1,17 @@
+export interface PasswordReset {
+  id: string;
+  user_id: string;
+  email: string;
+  token_hash: string;
+  expires_at: string;
+  used_at?: string | null;
+  invalidated_at?: string | null;
+  created_at?: string;
+}
+
+/**
+ * Whether a reset token can still be redeemed
+ */
+export function isPasswordResetUsable(reset: PasswordReset): boolean {
+  return !reset.used_at && !reset.invalidated_at && new Date(reset.expires_at) > new Date();
+}
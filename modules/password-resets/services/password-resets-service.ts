@@ -0,0 +1,208 @@
+/**
+ * Password Resets Service
+ *
+ * This service centralizes all password-reset database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * Reset rows hold only the hash of their token, so lookups are exact matches on the hash.
+ * The service uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { PasswordReset } from "../models/password-reset";
+
+// Constants
+const TABLE_NAME = "password_resets";
+
+/**
+ * Run a query against the password_resets table with BaseService retry and error handling
+ */
+async function execute<T>(
+  operation: string,
+  run: (client: ReturnType<typeof baseService.getClient>) => Promise<T>,
+  environment?: ClientEnvironment
+): Promise<ServiceResponse<T>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(
+      () => run(baseService.getClient(environment)),
+      operation
+    );
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<T>(
+      false,
+      undefined,
+      baseService.handleError(error, `${operation}-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Store a new password reset request
+ *
+ * @param reset - Reset data (token must already be hashed)
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function createPasswordReset(
+  reset: Pick<PasswordReset, "user_id" | "email" | "token_hash" | "expires_at">,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<PasswordReset>> {
+  return await baseService.create<typeof TABLE_NAME, PasswordReset>(
+    TABLE_NAME,
+    { ...reset, email: reset.email.trim().toLowerCase() },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get a password reset by the SHA-256 hash of its token (exact match)
+ *
+ * @param tokenHash - Hex encoded token hash
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getPasswordResetByTokenHash(
+  tokenHash: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<PasswordReset | null>> {
+  return await execute("getPasswordResetByTokenHash", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select("*")
+      .eq("token_hash", tokenHash)
+      .maybeSingle();
+    if (error) throw error;
+    return data as PasswordReset | null;
+  }, options?.environment);
+}
+
+/**
+ * Count reset requests made for an email since a point in time
+ *
+ * @param email - Email address the resets were requested for
+ * @param since - ISO timestamp marking the start of the window
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function countRecentPasswordResets(
+  email: string,
+  since: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<number>> {
+  return await execute("countRecentPasswordResets", async (client) => {
+    const { count, error } = await client
+      .from(TABLE_NAME)
+      .select("id", { count: "exact", head: true })
+      .eq("email", email.trim().toLowerCase())
+      .gte("created_at", since);
+    if (error) throw error;
+    return count || 0;
+  }, options?.environment);
+}
+
+/**
+ * Invalidate every outstanding reset token for a user
+ *
+ * @param userId - The user whose tokens should stop working
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function invalidatePasswordResets(
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<number>> {
+  return await execute("invalidatePasswordResets", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .update({ invalidated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("used_at", null)
+      .is("invalidated_at", null)
+      .select("id");
+    if (error) throw error;
+    return data?.length || 0;
+  }, options?.environment);
+}
+
+/**
+ * Mark a reset token as used. Only succeeds for a token that is still open,
+ * so concurrent requests can't redeem the same token twice.
+ *
+ * @param id - The password reset ID
+ * @param options - Options including environment (client/server/admin)
+ * @returns The consumed reset, or null if it had already been used or invalidated
+ */
+export async function consumePasswordReset(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<PasswordReset | null>> {
+  return await execute("consumePasswordReset", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .update({ used_at: new Date().toISOString() })
+      .eq("id", id)
+      .is("used_at", null)
+      .is("invalidated_at", null)
+      .select("*")
+      .maybeSingle();
+    if (error) throw error;
+    return data as PasswordReset | null;
+  }, options?.environment);
+}
+
+/**
+ * Reopen a token consumed by a reset that then failed (e.g. Supabase refused
+ * the new password), so the same link can be tried again
+ *
+ * @param id - The password reset ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function releasePasswordReset(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<boolean>> {
+  return await execute("releasePasswordReset", async (client) => {
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({ used_at: null })
+      .eq("id", id)
+      .is("invalidated_at", null);
+    if (error) throw error;
+    return true;
+  }, options?.environment);
+}
+
+// Export individual functions directly for the unified service
+export const passwordResetsServiceUnified = {
+  createPasswordReset,
+  getPasswordResetByTokenHash,
+  countRecentPasswordResets,
+  invalidatePasswordResets,
+  consumePasswordReset,
+  releasePasswordReset,
+};
+
+// Legacy-style export matching the other modules
+export const passwordResetsService = {
+  createPasswordReset: (
+    reset: Pick<PasswordReset, "user_id" | "email" | "token_hash" | "expires_at">,
+    environment?: ClientEnvironment
+  ) => createPasswordReset(reset, { environment }),
+
+  getPasswordResetByTokenHash: (tokenHash: string, environment?: ClientEnvironment) =>
+    getPasswordResetByTokenHash(tokenHash, { environment }),
+
+  countRecentPasswordResets: (email: string, since: string, environment?: ClientEnvironment) =>
+    countRecentPasswordResets(email, since, { environment }),
+
+  invalidatePasswordResets: (userId: string, environment?: ClientEnvironment) =>
+    invalidatePasswordResets(userId, { environment }),
+
+  consumePasswordReset: (id: string, environment?: ClientEnvironment) =>
+    consumePasswordReset(id, { environment }),
+
+  releasePasswordReset: (id: string, environment?: ClientEnvironment) =>
+    releasePasswordReset(id, { environment }),
+};
+
+// Export types
+export type { PasswordReset };
@@ -1,9 +1,10 @@
-import { rolesService } from './services/roles-service';
+import { rolesService, rolesServiceUnified } from './services/roles-service';
 // import { Role } from './models/role';
-import { Role } from './services/roles-service';
+import { Role, RoleInput, RoleWithAccess } from './services/roles-service';
 
 export { 
   rolesService,
+  rolesServiceUnified,
 };
 
-export type { Role }; 
\ No newline at end of file
+export type { Role, RoleInput, RoleWithAccess }; 
@@ -2,4 +2,23 @@ export interface Role {
   id: string;
   name: string;
   description: string;
+  // Members must use two-factor authentication
+  mfa_required?: boolean;
 }
+
+export interface RoleAccess {
+  id?: string;
+  resource: string;
+  action: string;
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string;
+  mfaRequired?: boolean;
+  access: RoleAccess[];
+}
+
+// Resources and actions shown in the permission grid
+export const PERMISSION_RESOURCES = ["users", "roles", "settings", "audit"] as const;
+export const PERMISSION_ACTIONS = ["create", "read", "update", "delete"] as const;
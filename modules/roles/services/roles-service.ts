@@ -8,7 +8,8 @@
  */
 
 import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
-import { Role } from "../models/role";
+import { runUnitOfWork, unwrap } from "@/lib/unit-of-work";
+import { Role, RoleInput } from "../models/role";
 
 // Constants
 const TABLE_NAME = "roles";
@@ -33,7 +34,7 @@ export interface RoleWithAccess extends Role {
 export async function getAllRoles(
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<Role[]>> {
-  return await baseService.readAll<Role>(
+  return await baseService.readAll<typeof TABLE_NAME, Role>(
     TABLE_NAME,
     { environment: options?.environment }
   );
@@ -49,7 +50,7 @@ export async function getRoleById(
   id: string,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<Role>> {
-  return await baseService.readById<Role>(
+  return await baseService.readById<typeof TABLE_NAME, Role>(
     TABLE_NAME,
     id,
     { environment: options?.environment }
@@ -64,10 +65,10 @@ export async function getRoleById(
 export async function getRolesWithAccess(
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<RoleWithAccess[]>> {
-  return await baseService.readAll<RoleWithAccess>(
+  return await baseService.readAll<typeof TABLE_NAME, RoleWithAccess>(
     TABLE_NAME,
     {
-      select: "id, name, description, role_access(id, resource, action)",
+      select: "id, name, description, mfa_required, role_access(id, resource, action)",
       environment: options?.environment
     }
   );
@@ -85,7 +86,7 @@ export async function getPaginatedRoles(
   pageSize: number = 10,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<{ data: Role[]; total: number; page: number; pageSize: number }>> {
-  return await baseService.paginate<Role>(
+  return await baseService.paginate<typeof TABLE_NAME, Role>(
     TABLE_NAME,
     {
       page,
@@ -105,7 +106,7 @@ export async function searchRoles(
   searchTerm: string,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<Role[]>> {
-  const result = await baseService.paginate<Role>(
+  const result = await baseService.paginate<typeof TABLE_NAME, Role>(
     TABLE_NAME,
     {
       search: searchTerm,
@@ -133,7 +134,7 @@ export async function getRoleByName(
 ): Promise<ServiceResponse<string>> {
   try {
     // Use readAll with filtering
-    const result = await baseService.readAll<Role>(
+    const result = await baseService.readAll<typeof TABLE_NAME, Role>(
       TABLE_NAME,
       {
         select: "id, name",
@@ -171,6 +172,117 @@ export async function getRoleByName(
   }
 }
 
+/**
+ * Get a single role with its access permissions
+ * 
+ * @param id - The role ID to look up
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getRoleWithAccessById(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<RoleWithAccess>> {
+  return await baseService.readById<typeof TABLE_NAME, RoleWithAccess>(
+    TABLE_NAME,
+    id,
+    {
+      select: "id, name, description, mfa_required, role_access(id, resource, action)",
+      environment: options?.environment
+    }
+  );
+}
+
+/**
+ * Create a role together with its resource x action permissions.
+ * Both the role and its role_access rows are written in one transaction.
+ * 
+ * @param role - Role name, description, MFA requirement and access entries
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function createRole(
+  role: RoleInput,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<RoleWithAccess>> {
+  return await runUnitOfWork("create-role", async (uow) => {
+    const id = await uow.rpc<string>(
+      "create_role_with_access",
+      {
+        p_name: role.name.trim(),
+        p_description: role.description ?? "",
+        p_access: role.access.map(({ resource, action }) => ({ resource, action })),
+        p_mfa_required: role.mfaRequired ?? false,
+      },
+      { environment: options?.environment, invalidates: ["roles", "role_access"] }
+    );
+
+    return unwrap(await getRoleWithAccessById(id, options));
+  });
+}
+
+/**
+ * Update a role and replace its permissions.
+ * Omitting `access` leaves the existing role_access rows untouched.
+ * 
+ * @param id - The role ID to update
+ * @param updates - New name/description/MFA requirement and optionally the full access list
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function updateRole(
+  id: string,
+  updates: Partial<RoleInput>,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<RoleWithAccess>> {
+  return await runUnitOfWork("update-role", async (uow) => {
+    await uow.rpc<string>(
+      "update_role_with_access",
+      {
+        p_role_id: id,
+        p_name: updates.name?.trim() ?? null,
+        p_description: updates.description ?? null,
+        p_access: updates.access
+          ? updates.access.map(({ resource, action }) => ({ resource, action }))
+          : null,
+        p_mfa_required: updates.mfaRequired ?? null,
+      },
+      { environment: options?.environment, invalidates: ["roles", "role_access"] }
+    );
+
+    return unwrap(await getRoleWithAccessById(id, options));
+  });
+}
+
+/**
+ * Delete a role. Its role_access rows are removed by the cascade;
+ * roles still assigned to users cannot be deleted.
+ * 
+ * @param id - The role ID to delete
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function deleteRole(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<Role>> {
+  const result = await baseService.delete<typeof TABLE_NAME, Role>(
+    TABLE_NAME,
+    id,
+    { environment: options?.environment }
+  );
+
+  // 23503 = foreign_key_violation, raised when user_profile rows still reference the role
+  if (!result.success && result.error?.code === "23503") {
+    return {
+      ...result,
+      error: {
+        ...result.error,
+        code: "ROLE_IN_USE",
+        message: "This role is still assigned to one or more users"
+      }
+    };
+  }
+
+  return result;
+}
+
 // Export individual functions directly for the unified service
 export const rolesServiceUnified = {
   getAllRoles,
@@ -178,7 +290,11 @@ export const rolesServiceUnified = {
   getRolesWithAccess,
   getPaginatedRoles,
   searchRoles,
-  getRoleByName
+  getRoleByName,
+  getRoleWithAccessById,
+  createRole,
+  updateRole,
+  deleteRole
 };
 
 // Legacy compatibility export to maintain backward compatibility
@@ -213,8 +329,19 @@ export const rolesService = {
   getRoleByName: async (roleName = "user", environment?: ClientEnvironment) => {
     const result = await getRoleByName(roleName, { environment });
     return result.data;
+  },
+
+  createRole: (role: RoleInput, environment?: ClientEnvironment) =>
+    createRole(role, { environment }),
+
+  updateRole: (id: string, updates: Partial<RoleInput>, environment?: ClientEnvironment) =>
+    updateRole(id, updates, { environment }),
+
+  deleteRole: async (id: string, environment?: ClientEnvironment) => {
+    const result = await deleteRole(id, { environment });
+    return { success: result.success, error: result.error };
   }
 };
 
 // Export types
-export type { Role };
\ No newline at end of file
+export type { Role, RoleInput };
\ No newline at end of file
@@ -4,18 +4,33 @@
  * This service centralizes all settings-related database operations using BaseService
  * for consistent error handling, response structures, and client management.
  * 
+ * Settings are scoped to an organization (one row per organization). When no
+ * organization is given the default organization's settings are used, which is
+ * what signed-out pages show.
+ * 
  * It uses a functional approach with direct function exports.
  */
 
 import { baseService, type ServiceResponse, type ClientEnvironment } from '@/lib/BaseService';
+import { DEFAULT_ORGANIZATION_ID } from '@/modules/organizations/models/organization';
 
 // Constants
 const TABLE_NAME = 'settings';
-const SETTINGS_ID = 1; // Settings uses a fixed ID
+
+// Every auth page reads the settings; saves through BaseService drop the entry
+const SETTINGS_CACHE_TTL_MS = 5 * 60_000;
+
+type SettingsOptions = {
+  environment?: ClientEnvironment;
+  organizationId?: string | null;
+  // Only save if the row still has this updated_at (see BaseService.update)
+  expectedUpdatedAt?: string | null;
+};
 
 // Settings types
 export interface Settings {
   id: string | number;
+  organization_id?: string | null;
   site_name: string;
   logo_url: string;
   logo_horizontal_url: string;
@@ -26,6 +41,9 @@ export interface Settings {
   appearance_theme: 'light' | 'dark' | 'system';
   site_description: string;
   contact_email: string;
+  // Passwordless sign-in methods offered on the login page
+  magic_link_enabled?: boolean;
+  email_otp_enabled?: boolean;
   created_at?: string;
   updated_at?: string;
 }
@@ -41,14 +59,17 @@ export interface UpdateSettingsData {
   appearance_theme?: 'light' | 'dark' | 'system';
   site_description?: string;
   contact_email?: string;
+  magic_link_enabled?: boolean;
+  email_otp_enabled?: boolean;
 }
 
 /**
- * Get default settings configuration
+ * Get default settings configuration for an organization
  */
-function getDefaultSettings(): Settings {
+function getDefaultSettings(organizationId: string): Settings {
   return {
-    id: SETTINGS_ID,
+    id: 'default',
+    organization_id: organizationId,
     site_name: process.env.NEXT_PUBLIC_SITE_NAME || "Starter Kit",
     logo_url: process.env.NEXT_PUBLIC_SITE_LOGO || "/favicon.ico",
     logo_horizontal_url: process.env.NEXT_PUBLIC_SITE_LOGO || "/favicon.ico",
@@ -59,6 +80,8 @@ function getDefaultSettings(): Settings {
     appearance_theme: "light",
     site_description: "Starter Kit Application",
     contact_email: "support@example.com",
+    magic_link_enabled: false,
+    email_otp_enabled: false,
   };
 }
 
@@ -69,38 +92,60 @@ function getDefaultSettings(): Settings {
  * @param options - Options including environment (client/server/admin)
  */
 export async function insertSettings(
-  insertData: Settings,
-  options?: { environment?: ClientEnvironment }
+  insertData: Omit<Settings, 'id'> & { id?: Settings['id'] },
+  options?: SettingsOptions
 ): Promise<ServiceResponse<Settings>> {
-  return await baseService.create<Settings>(
+  // The row ID is generated by the database
+  const { id, ...data } = insertData;
+  return await baseService.create<typeof TABLE_NAME, Settings>(
     TABLE_NAME,
-    insertData,
+    {
+      ...data,
+      organization_id: data.organization_id || options?.organizationId || DEFAULT_ORGANIZATION_ID,
+    },
     { environment: options?.environment }
   );
 }
 
 /**
- * Get settings by ID (always returns settings for ID 1)
+ * Read the stored settings row for an organization, if there is one
+ */
+async function readSettingsRow(
+  organizationId: string,
+  options?: SettingsOptions
+): Promise<ServiceResponse<Settings | null>> {
+  const result = await baseService.readAll<typeof TABLE_NAME, Settings>(
+    TABLE_NAME,
+    {
+      filters: { organization_id: organizationId },
+      environment: options?.environment,
+      cache: { ttl: SETTINGS_CACHE_TTL_MS }
+    }
+  );
+
+  return { ...result, data: result.data?.[0] ?? null };
+}
+
+/**
+ * Get the settings for an organization (the default organization when omitted)
  * 
- * @param options - Options including environment (client/server/admin)
+ * @param options - Options including environment (client/server/admin) and organizationId
  */
 export async function getSettingsById(
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<Settings>> {
+  const organizationId = options?.organizationId || DEFAULT_ORGANIZATION_ID;
+
   try {
     // First try to get existing settings
-    const result = await baseService.readById<Settings>(
-      TABLE_NAME,
-      SETTINGS_ID.toString(),
-      { environment: options?.environment }
-    );
+    const result = await readSettingsRow(organizationId, options);
 
     if (result.success && result.data) {
-      return result;
+      return { ...result, data: result.data };
     }
 
     // If no settings exist, try to create default settings
-    const defaultSettings = getDefaultSettings();
+    const defaultSettings = getDefaultSettings(organizationId);
     
     try {
       const createResult = await insertSettings(defaultSettings, options);
@@ -142,14 +187,14 @@ export async function getSettingsById(
 }
 
 /**
- * Update settings by ID
+ * Update the settings of an organization (the default organization when omitted)
  * 
  * @param updateData - Settings data to update
- * @param options - Options including environment (client/server/admin)
+ * @param options - Options including environment (client/server/admin) and organizationId
  */
 export async function updateSettingsById(
   updateData: UpdateSettingsData,
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<Settings>> {
   // Remove undefined values
   const cleanedData: any = {};
@@ -159,11 +204,23 @@ export async function updateSettingsById(
     }
   });
 
-  return await baseService.update<Settings>(
+  // Creates the organization's row from defaults if it doesn't exist yet
+  const current = await getSettingsById(options);
+  if (!current.success || !current.data || current.data.id === 'default') {
+    return {
+      success: false,
+      error: current.error || {
+        code: 'SETTINGS_NOT_FOUND',
+        message: 'Settings could not be loaded for this organization',
+      }
+    };
+  }
+
+  return await baseService.update<typeof TABLE_NAME, Settings>(
     TABLE_NAME,
-    SETTINGS_ID.toString(),
-    cleanedData,
-    { environment: options?.environment }
+    current.data.id.toString(),
+    { ...cleanedData, updated_at: new Date().toISOString() },
+    { environment: options?.environment, expectedUpdatedAt: options?.expectedUpdatedAt }
   );
 }
 
@@ -173,10 +230,10 @@ export async function updateSettingsById(
  * @param options - Options including environment (client/server/admin)
  */
 export async function resetToDefaults(
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<Settings>> {
-  const defaultSettings = getDefaultSettings();
-  const { id, ...updateData } = defaultSettings;
+  const defaultSettings = getDefaultSettings(options?.organizationId || DEFAULT_ORGANIZATION_ID);
+  const { id, organization_id, ...updateData } = defaultSettings;
   
   return await updateSettingsById(updateData, options);
 }
@@ -193,7 +250,7 @@ export async function updateTheme(
     secondary_color?: string;
     appearance_theme?: 'light' | 'dark' | 'system';
   },
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<Settings>> {
   return await updateSettingsById(themeData, options);
 }
@@ -213,7 +270,7 @@ export async function updateBranding(
     logo_setting?: 'square' | 'horizontal';
     site_description?: string;
   },
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<Settings>> {
   return await updateSettingsById(brandingData, options);
 }
@@ -228,7 +285,7 @@ export async function updateContact(
   contactData: {
     contact_email?: string;
   },
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<Settings>> {
   return await updateSettingsById(contactData, options);
 }
@@ -239,7 +296,7 @@ export async function updateContact(
  * @param options - Options including environment (client/server/admin)
  */
 export async function getThemeConfig(
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<{
   primary_color: string;
   secondary_color: string;
@@ -268,12 +325,11 @@ export async function getThemeConfig(
  * @param options - Options including environment (client/server/admin)
  */
 export async function isConfigured(
-  options?: { environment?: ClientEnvironment }
+  options?: SettingsOptions
 ): Promise<ServiceResponse<boolean>> {
-  const result = await baseService.readById<Settings>(
-    TABLE_NAME,
-    SETTINGS_ID.toString(),
-    { environment: options?.environment }
+  const result = await readSettingsRow(
+    options?.organizationId || DEFAULT_ORGANIZATION_ID,
+    options
   );
 
   return {
@@ -298,10 +354,15 @@ export const settingsServiceUnified = {
 
 // Export legacy functions for backward compatibility
 export const settingsService = {
-  getSettingsById: (environment?: ClientEnvironment) => 
-    getSettingsById({ environment }),
-  updateSettingsById: (updateData: UpdateSettingsData, environment?: ClientEnvironment) => 
-    updateSettingsById(updateData, { environment }),
+  getSettingsById: (environment?: ClientEnvironment, organizationId?: string | null) => 
+    getSettingsById({ environment, organizationId }),
+  updateSettingsById: (
+    updateData: UpdateSettingsData,
+    environment?: ClientEnvironment,
+    organizationId?: string | null,
+    expectedUpdatedAt?: string | null
+  ) => 
+    updateSettingsById(updateData, { environment, organizationId, expectedUpdatedAt }),
   insertSettings: (insertData: Settings, environment?: ClientEnvironment) => 
     insertSettings(insertData, { environment }),
 };
@@ -0,0 +1,15 @@
+import { ssoConnectionsService, ssoConnectionsServiceUnified } from './services/sso-connections-service';
+import {
+  SsoConnection,
+  SsoConnectionInput,
+  SsoGroupMapping,
+  SsoGroupMappingInput,
+  SsoProtocol,
+} from './models/sso-connection';
+
+export {
+  ssoConnectionsService,
+  ssoConnectionsServiceUnified,
+};
+
+export type { SsoConnection, SsoConnectionInput, SsoGroupMapping, SsoGroupMappingInput, SsoProtocol };
@@ -0,0 +1,40 @@
+export type SsoProtocol = "saml" | "oidc";
+
+export interface SsoConnection {
+  id: string;
+  organization_id: string;
+  protocol: SsoProtocol;
+  enabled: boolean;
+  // Email domains sent to this identity provider from the login page
+  domains: string[];
+  // SAML: the metadata as configured, and the parts parsed from it
+  metadata_url?: string | null;
+  metadata_xml?: string | null;
+  idp_entity_id?: string | null;
+  idp_sso_url?: string | null;
+  idp_certificates: string[];
+  // OpenID Connect
+  oidc_issuer?: string | null;
+  oidc_client_id?: string | null;
+  oidc_client_secret?: string | null;
+  // SAML attribute or claim that lists the user's groups
+  groups_attribute: string;
+  default_role_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SsoConnectionInput = Omit<SsoConnection, "id" | "organization_id" | "created_at" | "updated_at">;
+
+export interface SsoGroupMapping {
+  id: string;
+  connection_id: string;
+  group_name: string;
+  role_id: string;
+  // Lowest wins when a user is in several mapped groups
+  priority: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SsoGroupMappingInput = Pick<SsoGroupMapping, "group_name" | "role_id" | "priority">;
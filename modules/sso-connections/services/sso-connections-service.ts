@@ -0,0 +1,200 @@
+/**
+ * SSO Connections Service
+ *
+ * This service centralizes all SSO connection and group mapping database operations
+ * using BaseService for consistent error handling, response structures, and client
+ * management.
+ *
+ * Each organization can have one connection to a SAML or OpenID Connect identity
+ * provider, and map the provider's groups to roles. Connections hold client secrets,
+ * so callers use the admin environment after checking permissions themselves.
+ * The service uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import {
+  SsoConnection,
+  SsoConnectionInput,
+  SsoGroupMapping,
+  SsoGroupMappingInput,
+} from "../models/sso-connection";
+
+// Constants
+const TABLE_NAME = "sso_connections";
+const MAPPINGS_TABLE_NAME = "sso_group_mappings";
+
+/**
+ * Get a connection by ID
+ *
+ * @param id - The connection ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getConnectionById(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<SsoConnection>> {
+  return await baseService.readById<typeof TABLE_NAME, SsoConnection>(
+    TABLE_NAME,
+    id,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get an organization's connection
+ *
+ * @param organizationId - The organization
+ * @param options - Options including environment (client/server/admin)
+ * @returns The connection, or null when the organization has none
+ */
+export async function getConnectionForOrganization(
+  organizationId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<SsoConnection | null>> {
+  const result = await baseService.readAll<typeof TABLE_NAME, SsoConnection>(
+    TABLE_NAME,
+    {
+      filters: { organization_id: organizationId },
+      environment: options?.environment
+    }
+  );
+
+  return { ...result, data: result.success ? result.data?.[0] ?? null : null };
+}
+
+/**
+ * Create or update an organization's connection
+ *
+ * @param organizationId - The organization
+ * @param input - The connection settings
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function saveConnection(
+  organizationId: string,
+  input: Partial<SsoConnectionInput>,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<SsoConnection>> {
+  const existing = await getConnectionForOrganization(organizationId, options);
+  if (!existing.success) {
+    return { ...existing, data: undefined };
+  }
+
+  if (existing.data) {
+    return await baseService.update<typeof TABLE_NAME, SsoConnection>(
+      TABLE_NAME,
+      existing.data.id,
+      input,
+      { environment: options?.environment }
+    );
+  }
+
+  if (!input.protocol) {
+    return {
+      success: false,
+      error: { code: "PROTOCOL_REQUIRED", message: "A protocol is required to create a connection" }
+    };
+  }
+
+  return await baseService.create<typeof TABLE_NAME, SsoConnection>(
+    TABLE_NAME,
+    { ...input, protocol: input.protocol, organization_id: organizationId },
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get a connection's group mappings, highest priority (lowest number) first
+ *
+ * @param connectionId - The connection
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getGroupMappings(
+  connectionId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<SsoGroupMapping[]>> {
+  return await baseService.readAll<typeof MAPPINGS_TABLE_NAME, SsoGroupMapping>(
+    MAPPINGS_TABLE_NAME,
+    {
+      filters: { connection_id: connectionId },
+      orderBy: [
+        { column: "priority", ascending: true },
+        { column: "group_name", ascending: true },
+      ],
+      environment: options?.environment
+    }
+  );
+}
+
+/**
+ * Replace all of a connection's group mappings
+ *
+ * @param connectionId - The connection
+ * @param mappings - The new mappings
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function replaceGroupMappings(
+  connectionId: string,
+  mappings: SsoGroupMappingInput[],
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<SsoGroupMapping[]>> {
+  const existing = await getGroupMappings(connectionId, options);
+  if (!existing.success) {
+    return existing;
+  }
+
+  if (existing.data && existing.data.length > 0) {
+    const removed = await baseService.bulkDelete<typeof MAPPINGS_TABLE_NAME, SsoGroupMapping>(
+      MAPPINGS_TABLE_NAME,
+      existing.data.map((mapping) => mapping.id),
+      { environment: options?.environment }
+    );
+    if (!removed.success) {
+      return { ...removed, data: undefined };
+    }
+  }
+
+  if (mappings.length > 0) {
+    const inserted = await baseService.bulkInsert<typeof MAPPINGS_TABLE_NAME, SsoGroupMapping>(
+      MAPPINGS_TABLE_NAME,
+      mappings.map((mapping) => ({ ...mapping, connection_id: connectionId })),
+      { environment: options?.environment }
+    );
+    if (!inserted.success) {
+      return { ...inserted, data: undefined };
+    }
+  }
+
+  return await getGroupMappings(connectionId, options);
+}
+
+// Export individual functions directly for the unified service
+export const ssoConnectionsServiceUnified = {
+  getConnectionById,
+  getConnectionForOrganization,
+  saveConnection,
+  getGroupMappings,
+  replaceGroupMappings,
+};
+
+// Legacy-style export matching the other modules
+export const ssoConnectionsService = {
+  getConnectionById: (id: string, environment?: ClientEnvironment) =>
+    getConnectionById(id, { environment }),
+
+  getConnectionForOrganization: (organizationId: string, environment?: ClientEnvironment) =>
+    getConnectionForOrganization(organizationId, { environment }),
+
+  saveConnection: (organizationId: string, input: Partial<SsoConnectionInput>, environment?: ClientEnvironment) =>
+    saveConnection(organizationId, input, { environment }),
+
+  getGroupMappings: async (connectionId: string, environment?: ClientEnvironment) => {
+    const result = await getGroupMappings(connectionId, { environment });
+    return result.success ? result.data || [] : [];
+  },
+
+  replaceGroupMappings: (connectionId: string, mappings: SsoGroupMappingInput[], environment?: ClientEnvironment) =>
+    replaceGroupMappings(connectionId, mappings, { environment }),
+};
+
+// Export types
+export type { SsoConnection, SsoGroupMapping };
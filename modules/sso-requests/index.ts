@@ -0,0 +1,9 @@
+import { ssoRequestsService, ssoRequestsServiceUnified } from './services/sso-requests-service';
+import { SsoRequest } from './models/sso-request';
+
+export {
+  ssoRequestsService,
+  ssoRequestsServiceUnified,
+};
+
+export type { SsoRequest };
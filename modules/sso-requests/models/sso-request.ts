@@ -0,0 +1,10 @@
+export interface SsoRequest {
+  id: string;
+  connection_id: string;
+  token_hash: string;
+  // Protocol details and where to go afterwards (lib/sso-login's SsoPendingRequest)
+  request: Record<string, any>;
+  expires_at: string;
+  used_at?: string | null;
+  created_at?: string;
+}
@@ -0,0 +1,107 @@
+/**
+ * SSO Requests Service
+ *
+ * This service centralizes all sso-request database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * A row per single sign-on request sent to an identity provider. The browser
+ * only holds the request's token, whose hash is stored here, and each request
+ * is consumed once. The service uses a functional approach with direct
+ * function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { SsoRequest } from "../models/sso-request";
+
+// Constants
+const TABLE_NAME = "sso_requests";
+
+/**
+ * Store a request sent to an identity provider
+ *
+ * @param request - The connection, token hash, protocol details and expiry
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function createRequest(
+  request: Pick<SsoRequest, "connection_id" | "token_hash" | "request" | "expires_at">,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<SsoRequest>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(async () => {
+      const { data, error } = await baseService
+        .getClient(options?.environment)
+        .from(TABLE_NAME)
+        .insert(request)
+        .select("*")
+        .single();
+      if (error) throw error;
+      return data as SsoRequest;
+    }, "createRequest");
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<SsoRequest>(
+      false,
+      undefined,
+      baseService.handleError(error, `createRequest-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Use up a request by the hash of its token. Only an unused, unexpired request
+ * is returned, so a response can't be accepted twice. Not retried: a retry
+ * after a write that landed would find the request already used.
+ *
+ * @param tokenHash - Hex encoded token hash
+ * @param options - Options including environment (client/server/admin)
+ * @returns The request, or null if it is unknown, used or expired
+ */
+export async function consumeRequest(
+  tokenHash: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<SsoRequest | null>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const now = new Date().toISOString();
+    const { data, error } = await baseService
+      .getClient(options?.environment)
+      .from(TABLE_NAME)
+      .update({ used_at: now })
+      .eq("token_hash", tokenHash)
+      .is("used_at", null)
+      .gt("expires_at", now)
+      .select("*")
+      .maybeSingle();
+    if (error) throw error;
+    return baseService.response(true, data as SsoRequest | null, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<SsoRequest | null>(
+      false,
+      undefined,
+      baseService.handleError(error, `consumeRequest-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+// Export individual functions directly for the unified service
+export const ssoRequestsServiceUnified = {
+  createRequest,
+  consumeRequest,
+};
+
+// Legacy-style export matching the other modules
+export const ssoRequestsService = {
+  createRequest: (
+    request: Pick<SsoRequest, "connection_id" | "token_hash" | "request" | "expires_at">,
+    environment?: ClientEnvironment
+  ) => createRequest(request, { environment }),
+
+  consumeRequest: (tokenHash: string, environment?: ClientEnvironment) =>
+    consumeRequest(tokenHash, { environment }),
+};
+
+// Export types
+export type { SsoRequest };
@@ -0,0 +1,9 @@
+import { userIdentitiesService, userIdentitiesServiceUnified } from './services/user-identities-service';
+import { UserIdentity } from './models/user-identity';
+
+export {
+  userIdentitiesService,
+  userIdentitiesServiceUnified,
+};
+
+export type { UserIdentity };
@@ -0,0 +1,11 @@
+export interface UserIdentity {
+  id: string;
+  user_id: string;
+  // Provider key from lib/oauth-providers, e.g. "oidc"
+  provider: string;
+  issuer: string;
+  subject: string;
+  email?: string | null;
+  created_at?: string;
+  last_sign_in_at?: string | null;
+}
@@ -0,0 +1,190 @@
+/**
+ * User Identities Service
+ *
+ * This service centralizes all user-identity database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * An identity ties an account at an OpenID Connect provider (issuer + subject)
+ * to a user. Providers Supabase Auth handles itself keep their identities in
+ * auth.identities instead. The service uses a functional approach with direct
+ * function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { UserIdentity } from "../models/user-identity";
+
+// Constants
+const TABLE_NAME = "user_identities";
+
+/**
+ * Run a query against the user_identities table with BaseService retry and error handling
+ */
+async function execute<T>(
+  operation: string,
+  run: (client: ReturnType<typeof baseService.getClient>) => Promise<T>,
+  environment?: ClientEnvironment
+): Promise<ServiceResponse<T>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(
+      () => run(baseService.getClient(environment)),
+      operation
+    );
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<T>(
+      false,
+      undefined,
+      baseService.handleError(error, `${operation}-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Find the identity for an account at a provider
+ *
+ * @param issuer - The provider's issuer URL
+ * @param subject - The account's subject (`sub` claim) at the provider
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getIdentity(
+  issuer: string,
+  subject: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<UserIdentity | null>> {
+  return await execute("getIdentity", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select("*")
+      .eq("issuer", issuer)
+      .eq("subject", subject)
+      .maybeSingle();
+    if (error) throw error;
+    return data as UserIdentity | null;
+  }, options?.environment);
+}
+
+/**
+ * List a user's identities, oldest first
+ *
+ * @param userId - The user whose identities to list
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getIdentitiesForUser(
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<UserIdentity[]>> {
+  return await execute("getIdentitiesForUser", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return (data || []) as UserIdentity[];
+  }, options?.environment);
+}
+
+/**
+ * Link an account at a provider to a user. Fails with code 23505 if the
+ * account is already linked.
+ *
+ * @param identity - The user, provider, issuer, subject and email
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function createIdentity(
+  identity: Pick<UserIdentity, "user_id" | "provider" | "issuer" | "subject" | "email">,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<UserIdentity>> {
+  return await execute("createIdentity", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .insert({ ...identity, last_sign_in_at: new Date().toISOString() })
+      .select("*")
+      .single();
+    if (error) throw error;
+    return data as UserIdentity;
+  }, options?.environment);
+}
+
+/**
+ * Record a sign-in with an identity
+ *
+ * @param id - The identity ID
+ * @param email - The email the provider reported this time
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function recordIdentitySignIn(
+  id: string,
+  email: string | null,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<boolean>> {
+  return await execute("recordIdentitySignIn", async (client) => {
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({ email, last_sign_in_at: new Date().toISOString() })
+      .eq("id", id);
+    if (error) throw error;
+    return true;
+  }, options?.environment);
+}
+
+/**
+ * Unlink one of a user's identities
+ *
+ * @param id - The identity ID
+ * @param userId - The user the identity must belong to
+ * @param options - Options including environment (client/server/admin)
+ * @returns Whether an identity was removed
+ */
+export async function deleteIdentity(
+  id: string,
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<boolean>> {
+  return await execute("deleteIdentity", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .delete()
+      .eq("id", id)
+      .eq("user_id", userId)
+      .select("id");
+    if (error) throw error;
+    return (data || []).length > 0;
+  }, options?.environment);
+}
+
+// Export individual functions directly for the unified service
+export const userIdentitiesServiceUnified = {
+  getIdentity,
+  getIdentitiesForUser,
+  createIdentity,
+  recordIdentitySignIn,
+  deleteIdentity,
+};
+
+// Legacy-style export matching the other modules
+export const userIdentitiesService = {
+  getIdentity: (issuer: string, subject: string, environment?: ClientEnvironment) =>
+    getIdentity(issuer, subject, { environment }),
+
+  getIdentitiesForUser: async (userId: string, environment?: ClientEnvironment) => {
+    const result = await getIdentitiesForUser(userId, { environment });
+    return result.success ? result.data || [] : [];
+  },
+
+  createIdentity: (
+    identity: Pick<UserIdentity, "user_id" | "provider" | "issuer" | "subject" | "email">,
+    environment?: ClientEnvironment
+  ) => createIdentity(identity, { environment }),
+
+  recordIdentitySignIn: (id: string, email: string | null, environment?: ClientEnvironment) =>
+    recordIdentitySignIn(id, email, { environment }),
+
+  deleteIdentity: (id: string, userId: string, environment?: ClientEnvironment) =>
+    deleteIdentity(id, userId, { environment }),
+};
+
+// Export types
+export type { UserIdentity };
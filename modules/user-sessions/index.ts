@@ -0,0 +1,9 @@
+import { userSessionsService, userSessionsServiceUnified, type SessionScope } from './services/user-sessions-service';
+import { UserSession } from './models/user-session';
+
+export {
+  userSessionsService,
+  userSessionsServiceUnified,
+};
+
+export type { UserSession, SessionScope };
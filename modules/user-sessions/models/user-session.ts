@@ -0,0 +1,12 @@
+export interface UserSession {
+  // The Supabase Auth session ID
+  id: string;
+  user_id: string;
+  // Readable browser and platform, e.g. "Chrome on macOS"
+  device?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  created_at?: string;
+  last_seen_at?: string;
+  revoked_at?: string | null;
+}
@@ -0,0 +1,197 @@
+/**
+ * User Sessions Service
+ *
+ * This service centralizes all user-session database operations using BaseService
+ * for consistent error handling, response structures, and client management.
+ *
+ * A session row mirrors a Supabase Auth session with what the app knows about
+ * it: the device, IP address and user agent it signed in from and when it was
+ * last used. Ending the auth session itself is lib/user-sessions' job. The
+ * service uses a functional approach with direct function exports.
+ */
+
+import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
+import { UserSession } from "../models/user-session";
+
+// Constants
+const TABLE_NAME = "user_sessions";
+
+type SessionDetails = Pick<UserSession, "id" | "user_id" | "device" | "ip_address" | "user_agent">;
+
+// Which of a user's sessions an operation covers; neither means all of them
+export type SessionScope = { only?: string[]; except?: string };
+
+/**
+ * Run a query against the user_sessions table with BaseService retry and error handling
+ */
+async function execute<T>(
+  operation: string,
+  run: (client: ReturnType<typeof baseService.getClient>) => Promise<T>,
+  environment?: ClientEnvironment
+): Promise<ServiceResponse<T>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(
+      () => run(baseService.getClient(environment)),
+      operation
+    );
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<T>(
+      false,
+      undefined,
+      baseService.handleError(error, `${operation}-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Record a sign-in, or refresh the details of a session already recorded.
+ * A revoked session stays revoked.
+ *
+ * @param session - The session ID, user and where they signed in from
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function recordSession(
+  session: SessionDetails,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<UserSession>> {
+  return await execute("recordSession", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .upsert({ ...session, last_seen_at: new Date().toISOString() }, { onConflict: "id" })
+      .select("*")
+      .single();
+    if (error) throw error;
+    return data as UserSession;
+  }, options?.environment);
+}
+
+/**
+ * Find a session by ID
+ *
+ * @param id - The Supabase Auth session ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getSessionById(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<UserSession | null>> {
+  return await execute("getSessionById", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw error;
+    return data as UserSession | null;
+  }, options?.environment);
+}
+
+/**
+ * List a user's sessions that haven't been revoked, most recently used first
+ *
+ * @param userId - The user whose sessions to list
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getActiveSessionsForUser(
+  userId: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<UserSession[]>> {
+  return await execute("getActiveSessionsForUser", async (client) => {
+    const { data, error } = await client
+      .from(TABLE_NAME)
+      .select("*")
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .order("last_seen_at", { ascending: false });
+    if (error) throw error;
+    return (data || []) as UserSession[];
+  }, options?.environment);
+}
+
+/**
+ * Record that a session is still in use
+ *
+ * @param id - The Supabase Auth session ID
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function touchSession(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<boolean>> {
+  return await execute("touchSession", async (client) => {
+    const { error } = await client
+      .from(TABLE_NAME)
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq("id", id)
+      .is("revoked_at", null);
+    if (error) throw error;
+    return true;
+  }, options?.environment);
+}
+
+/**
+ * Mark a user's sessions as revoked
+ *
+ * @param userId - The user the sessions belong to
+ * @param scope - `only` these sessions, or all of them `except` one
+ * @param options - Options including environment (client/server/admin)
+ * @returns The IDs of the sessions that were revoked
+ */
+export async function markSessionsRevoked(
+  userId: string,
+  scope: SessionScope,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<string[]>> {
+  return await execute("markSessionsRevoked", async (client) => {
+    let query = client
+      .from(TABLE_NAME)
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("revoked_at", null);
+    if (scope.only) {
+      query = query.in("id", scope.only);
+    }
+    if (scope.except) {
+      query = query.neq("id", scope.except);
+    }
+
+    const { data, error } = await query.select("id");
+    if (error) throw error;
+    return (data || []).map((row: { id: string }) => row.id);
+  }, options?.environment);
+}
+
+// Export individual functions directly for the unified service
+export const userSessionsServiceUnified = {
+  recordSession,
+  getSessionById,
+  getActiveSessionsForUser,
+  touchSession,
+  markSessionsRevoked,
+};
+
+// Legacy-style export matching the other modules
+export const userSessionsService = {
+  recordSession: (session: SessionDetails, environment?: ClientEnvironment) =>
+    recordSession(session, { environment }),
+
+  getSessionById: (id: string, environment?: ClientEnvironment) =>
+    getSessionById(id, { environment }),
+
+  getActiveSessionsForUser: async (userId: string, environment?: ClientEnvironment) => {
+    const result = await getActiveSessionsForUser(userId, { environment });
+    return result.success ? result.data || [] : [];
+  },
+
+  touchSession: (id: string, environment?: ClientEnvironment) =>
+    touchSession(id, { environment }),
+
+  markSessionsRevoked: (userId: string, scope: SessionScope, environment?: ClientEnvironment) =>
+    markSessionsRevoked(userId, scope, { environment }),
+};
+
+// Export types
+export type { UserSession };
@@ -1,8 +1,14 @@
-import { usersService, UserServiceResponse } from './services/users-service-unified';
-import { User } from './models/user';
+import { usersService, usersServiceUnified, UserServiceResponse, UserWithMemberships } from './services/users-service-unified';
+import { User, UserInsert, UserListFilters, UserRow, UserUpdate, UserView, toUserUpdate, toUserView } from './models/user';
+import { UserDetails, userDetailsSchema, userPasswordSchema } from './models/user-schema';
 
 export { 
   usersService,
+  usersServiceUnified,
+  toUserUpdate,
+  toUserView,
+  userDetailsSchema,
+  userPasswordSchema,
 };
 
-export type { User, UserServiceResponse };
+export type { User, UserDetails, UserInsert, UserListFilters, UserRow, UserUpdate, UserView, UserServiceResponse, UserWithMemberships };
@@ -0,0 +1,20 @@
+import * as z from "zod";
+
+/**
+ * Validation shared by the Add User form and the user import, so both accept
+ * the same names, emails and passwords.
+ */
+export const userPasswordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
+  .regex(/[0-9]/, "Password must contain at least one number");
+
+export const userDetailsSchema = z.object({
+  firstName: z.string().min(1, "First name is required"),
+  lastName: z.string().min(1, "Last name is required"),
+  email: z.string().email("Invalid email address"),
+  role: z.string().min(1, "Role is required"),
+});
+
+export type UserDetails = z.infer<typeof userDetailsSchema>;
@@ -1,23 +1,92 @@
-export interface User {
-  id: string;
-  email: string;
-  roleId?: string;
-  role_id?: string; // Database format
-  firstName?: string;
-  first_name?: string; // Database format
-  lastName?: string;
-  last_name?: string; // Database format
-  isActive?: boolean;
-  is_active?: boolean; // Database format
-  lastLogin?: string;
-  last_login?: string; // Database format
-  createdAt?: string;
-  created_at?: string; // Database format
-  updatedAt?: string;
-  updated_at?: string; // Database format
-  profile?: string;
+import type { RoleAccess } from "@/modules/roles/models/role";
+import type { Tables, TablesInsert, TablesUpdate } from "@/types/database";
+
+export type UserRow = Tables<"user_profile">;
+export type UserInsert = TablesInsert<"user_profile">;
+export type UserUpdate = TablesUpdate<"user_profile">;
+
+/**
+ * The canonical user: a user_profile row (snake_case, as stored) with its
+ * embedded role when the query selects one. `deleted_at` is set while the
+ * user is in the trash.
+ */
+export interface User extends UserRow {
   roles?: {
     name: string;
-    description?: string;
+    description?: string | null;
+    mfa_required?: boolean;
+    role_access?: RoleAccess[];
+  } | null;
+}
+
+/**
+ * camelCase view of a user for forms and UI state. Convert with `toUserView`
+ * and back with `toUserUpdate`.
+ */
+export interface UserView {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  roleId: string;
+  roleName: string | null;
+  isActive: boolean;
+  lastLogin: string | null;
+  createdAt: string;
+  updatedAt: string;
+  profile: string;
+  activeOrganizationId: string | null;
+  deletedAt: string | null;
+}
+
+export function toUserView(user: User): UserView {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.first_name ?? "",
+    lastName: user.last_name ?? "",
+    roleId: user.role_id,
+    roleName: user.roles?.name ?? null,
+    isActive: user.is_active ?? true,
+    lastLogin: user.last_login,
+    createdAt: user.created_at,
+    updatedAt: user.updated_at,
+    profile: user.profile ?? "",
+    activeOrganizationId: user.active_organization_id,
+    deletedAt: user.deleted_at,
   };
-} 
\ No newline at end of file
+}
+
+// View fields that map onto writable user_profile columns
+const USER_UPDATE_COLUMNS = {
+  email: "email",
+  firstName: "first_name",
+  lastName: "last_name",
+  roleId: "role_id",
+  isActive: "is_active",
+  profile: "profile",
+  activeOrganizationId: "active_organization_id",
+} as const satisfies Partial<Record<keyof UserView, keyof UserUpdate>>;
+
+/**
+ * Map changed view fields to a user_profile update. Fields left undefined are
+ * omitted so they aren't overwritten.
+ */
+export function toUserUpdate(changes: Partial<UserView>): UserUpdate {
+  const update: Record<string, unknown> = {};
+  for (const [field, column] of Object.entries(USER_UPDATE_COLUMNS)) {
+    const value = changes[field as keyof typeof USER_UPDATE_COLUMNS];
+    if (value !== undefined) update[column] = value;
+  }
+  return update as UserUpdate;
+}
+
+/**
+ * Structured filters for the users table. Dates are inclusive ISO strings.
+ */
+export interface UserListFilters {
+  roleIds?: string[];
+  isActive?: boolean;
+  createdFrom?: string;
+  createdTo?: string;
+}
@@ -7,12 +7,29 @@
  * The service uses a functional approach with direct function exports.
  */
 
-import { baseService, type ServiceResponse, type ClientEnvironment } from "@/lib/BaseService";
-import { User } from "../models/user";
+import {
+  baseService,
+  type BulkResult,
+  type BulkUpdateItem,
+  type CursorPage,
+  type ServiceResponse,
+  type ClientEnvironment,
+  type DeletedMode,
+  type Filter,
+  type SortOrder,
+} from "@/lib/BaseService";
+import { User, UserInsert, UserListFilters, UserUpdate } from "../models/user";
+
+export type UserWithMemberships = User & {
+  organization_members: { organization_id: string }[];
+};
 
 // Constants
 const TABLE_NAME = "user_profile";
 
+// Profiles are read on every auth event; writes through BaseService drop the entry
+const PROFILE_CACHE_TTL_MS = 30_000;
+
 /**
  * Create a new user profile in the database
  * 
@@ -20,10 +37,10 @@ const TABLE_NAME = "user_profile";
  * @param options - Options including environment (client/server/admin)
  */
 export async function createUser(
-  user: Omit<User, "created_at" | "updated_at">,
+  user: UserInsert,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<User>> {
-  return await baseService.create<User>(
+  return await baseService.create<typeof TABLE_NAME, User>(
     TABLE_NAME,
     user,
     { environment: options?.environment }
@@ -38,7 +55,7 @@ export async function createUser(
 export async function getUsers(
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<User[]>> {
-  return await baseService.readAll<User>(
+  return await baseService.readAll<typeof TABLE_NAME, User>(
     TABLE_NAME,
     {
       select: "*, roles(name, description, role_access(id, resource, action))",
@@ -48,7 +65,8 @@ export async function getUsers(
 }
 
 /**
- * Get a user by their ID including role information
+ * Get a user by their ID including role information.
+ * Results are cached briefly in the browser; concurrent lookups share one query.
  * 
  * @param id - The user ID to look up
  * @param options - Options including environment (client/server/admin)
@@ -57,20 +75,140 @@ export async function getUserById(
   id: string,
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<User>> {
-  return await baseService.readById<User>(
+  return await baseService.readById<typeof TABLE_NAME, User>(
     TABLE_NAME,
     id,
     {
-      select: "*, roles(name, description, role_access(id, resource, action))",
+      select: "*, roles(name, description, mfa_required, role_access(id, resource, action))",
+      environment: options?.environment,
+      cache: { ttl: PROFILE_CACHE_TTL_MS }
+    }
+  );
+}
+
+/**
+ * Get the users with any of the given email addresses, including deleted ones,
+ * with the organizations they belong to
+ * 
+ * @param emails - Lowercase email addresses
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getUsersByEmails(
+  emails: string[],
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<UserWithMemberships[]>> {
+  return await baseService.readAll<typeof TABLE_NAME, UserWithMemberships>(
+    TABLE_NAME,
+    {
+      select: "*, organization_members(organization_id)",
+      where: { column: "email", op: "in", value: emails },
+      deleted: "include",
       environment: options?.environment
     }
   );
 }
 
 /**
- * Get users with pagination, optional search, and ordered results
+ * Get a user by exact email address (case-insensitive)
+ * Resolves with `data: null` when no profile uses the email.
+ * Deleted users are skipped unless `includeDeleted` is set.
+ * 
+ * @param email - The email address to look up
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getUserByEmail(
+  email: string,
+  options?: { environment?: ClientEnvironment; includeDeleted?: boolean }
+): Promise<ServiceResponse<User | null>> {
+  const requestId = baseService.generateRequestId();
+
+  try {
+    const result = await baseService.executeWithRetry(async () => {
+      const client = baseService.getClient(options?.environment);
+      let query = client
+        .from(TABLE_NAME)
+        .select("*, roles(name, description, role_access(id, resource, action))")
+        .eq("email", email.trim().toLowerCase());
+
+      if (!options?.includeDeleted) {
+        query = query.is("deleted_at", null);
+      }
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) throw error;
+      return data as User | null;
+    }, "getUserByEmail");
+
+    return baseService.response(true, result, undefined, { requestId });
+  } catch (error) {
+    return baseService.response<User | null>(
+      false,
+      null,
+      baseService.handleError(error, `getUserByEmail-${TABLE_NAME}`, requestId)
+    );
+  }
+}
+
+/**
+ * Translate the users table filters into a BaseService filter tree
+ */
+function toUserFilter(filters?: UserListFilters): Filter | undefined {
+  const conditions: Filter[] = [];
+
+  if (filters?.roleIds?.length) {
+    conditions.push({ column: "role_id", op: "in", value: filters.roleIds });
+  }
+  if (filters?.isActive !== undefined) {
+    conditions.push({ column: "is_active", op: "eq", value: filters.isActive });
+  }
+  if (filters?.createdFrom) {
+    conditions.push({ column: "created_at", op: "gte", value: filters.createdFrom });
+  }
+  if (filters?.createdTo) {
+    conditions.push({ column: "created_at", op: "lte", value: filters.createdTo });
+  }
+
+  return conditions.length ? { and: conditions } : undefined;
+}
+
+/**
+ * Query parts shared by the offset and keyset listings: search, filters,
+ * organization membership and the select that joins roles
+ */
+function toUserQuery(params: {
+  search?: string;
+  organizationId?: string | null;
+  filters?: UserListFilters;
+  deleted?: DeletedMode;
+}) {
+  const { search, organizationId, filters, deleted } = params;
+
+  return {
+    params: {
+      deleted,
+      where: toUserFilter(filters),
+      ...(search ? {
+        search,
+        searchFields: ["email", "first_name", "last_name"]
+      } : {}),
+      ...(organizationId ? {
+        filters: { "organization_members.organization_id": organizationId }
+      } : {})
+    },
+    select: organizationId
+      ? "*, roles(name, description, role_access(id, resource, action)), organization_members!inner(organization_id)"
+      : "*, roles(name, description, role_access(id, resource, action))",
+  };
+}
+
+/**
+ * Get users with pagination, optional search, filters and ordered results
+ * (newest first unless a sort order is given).
+ * When an organization is given only its members are returned.
+ * Deleted users are only listed with `deleted: "only"` (the trash view).
  * 
- * @param params - Search and pagination parameters
+ * @param params - Search, filter, sort, organization and pagination parameters
  * @param options - Options including environment (client/server/admin)
  */
 export async function getUsersPaginated(
@@ -78,29 +216,63 @@ export async function getUsersPaginated(
     search?: string;
     page?: number;
     pageSize?: number;
+    organizationId?: string | null;
+    filters?: UserListFilters;
+    orderBy?: SortOrder[];
+    deleted?: DeletedMode;
   },
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<{ data: User[]; total: number; page: number; pageSize: number }>> {
-  const { search, page = 1, pageSize = 10 } = params;
-  
-  const paginationParams = {
-    page,
-    limit: pageSize,
-    orderBy: {
-      field: "created_at",
-      ascending: false
+  const { page = 1, pageSize = 10, orderBy } = params;
+  const query = toUserQuery(params);
+
+  return await baseService.paginate<typeof TABLE_NAME, User>(
+    TABLE_NAME,
+    {
+      ...query.params,
+      page,
+      limit: pageSize,
+      orderBy: orderBy?.length ? orderBy : { column: "created_at", ascending: false },
     },
-    ...(search ? {
-      search,
-      searchFields: ["email", "first_name", "last_name"]
-    } : {})
-  };
+    {
+      select: query.select,
+      environment: options?.environment
+    }
+  );
+}
+
+/**
+ * Get users newest first, one keyset page at a time, with the same search,
+ * filters and organization scoping as `getUsersPaginated`. Used to walk every
+ * matching user, e.g. for exports.
+ *
+ * @param params - Search, filter and organization parameters, the cursor from the previous page and page size
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getUsersByCursor(
+  params: {
+    search?: string;
+    organizationId?: string | null;
+    filters?: UserListFilters;
+    deleted?: DeletedMode;
+    cursor?: string | null;
+    pageSize?: number;
+  },
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<CursorPage<User>>> {
+  const { cursor, pageSize = 100 } = params;
+  const query = toUserQuery(params);
 
-  return await baseService.paginate<User>(
+  return await baseService.paginateByCursor<typeof TABLE_NAME, User>(
     TABLE_NAME,
-    paginationParams,
     {
-      select: "*, roles(name, description, role_access(id, resource, action))",
+      ...query.params,
+      cursor,
+      limit: pageSize,
+      orderBy: { column: "created_at", ascending: false },
+    },
+    {
+      select: query.select,
       environment: options?.environment
     }
   );
@@ -111,23 +283,61 @@ export async function getUsersPaginated(
  * 
  * @param id - The user ID to update
  * @param updates - The partial user data to update
- * @param options - Options including environment (client/server/admin)
+ * @param options - Options including environment (client/server/admin) and the
+ *   `updated_at` the caller loaded; a CONFLICT error is returned if it changed since
  */
 export async function updateUser(
   id: string,
-  updates: Partial<User>,
-  options?: { environment?: ClientEnvironment }
+  updates: UserUpdate,
+  options?: { environment?: ClientEnvironment; expectedUpdatedAt?: string | null }
 ): Promise<ServiceResponse<User>> {
-  return await baseService.update<User>(
+  return await baseService.update<typeof TABLE_NAME, User>(
     TABLE_NAME,
     id,
     updates,
+    { environment: options?.environment, expectedUpdatedAt: options?.expectedUpdatedAt }
+  );
+}
+
+/**
+ * Apply the same changes to several user profiles (bulk enable/disable or
+ * role change). Each user's outcome is reported separately.
+ * 
+ * @param ids - The users to update
+ * @param updates - The partial user data applied to every user
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function updateUsers(
+  ids: string[],
+  updates: UserUpdate,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<User>>> {
+  return await baseService.bulkUpdate<typeof TABLE_NAME, User>(
+    TABLE_NAME,
+    ids.map((id) => ({ id, changes: updates })),
     { environment: options?.environment }
   );
 }
 
 /**
- * Delete a user profile by ID
+ * Apply different changes to several user profiles in one bulk update
+ * 
+ * @param updates - Each user's ID and changes
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function updateUserProfiles(
+  updates: BulkUpdateItem<typeof TABLE_NAME>[],
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<User>>> {
+  return await baseService.bulkUpdate<typeof TABLE_NAME, User>(
+    TABLE_NAME,
+    updates,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Move a user profile to the trash (sets `deleted_at`)
  * 
  * @param id - The user ID to delete
  * @param options - Options including environment (client/server/admin)
@@ -137,26 +347,108 @@ export async function deleteUser(
   options?: { environment?: ClientEnvironment }
 ): Promise<ServiceResponse<User>> {
   // Using baseService.delete which is exported as an alias for 'remove'
-  return await baseService.delete<User>(
+  return await baseService.delete<typeof TABLE_NAME, User>(
+    TABLE_NAME,
+    id,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Move several user profiles to the trash. Each user's outcome is reported
+ * separately.
+ * 
+ * @param ids - The users to delete
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function deleteUsers(
+  ids: string[],
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<BulkResult<User>>> {
+  return await baseService.bulkDelete<typeof TABLE_NAME, User>(
+    TABLE_NAME,
+    ids,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Restore a user profile from the trash
+ * 
+ * @param id - The user ID to restore
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function restoreUser(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<User>> {
+  return await baseService.restore<typeof TABLE_NAME, User>(
     TABLE_NAME,
     id,
     { environment: options?.environment }
   );
 }
 
+/**
+ * Permanently delete a user profile that is already in the trash
+ * 
+ * @param id - The user ID to purge
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function purgeUser(
+  id: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<User>> {
+  return await baseService.purge<typeof TABLE_NAME, User>(
+    TABLE_NAME,
+    id,
+    { environment: options?.environment }
+  );
+}
+
+/**
+ * Get users that have been in the trash since before the given date
+ * 
+ * @param deletedBefore - ISO timestamp; older deletions are returned
+ * @param options - Options including environment (client/server/admin)
+ */
+export async function getUsersDeletedBefore(
+  deletedBefore: string,
+  options?: { environment?: ClientEnvironment }
+): Promise<ServiceResponse<User[]>> {
+  return await baseService.readAll<typeof TABLE_NAME, User>(
+    TABLE_NAME,
+    {
+      where: { column: "deleted_at", op: "lt", value: deletedBefore },
+      orderBy: { column: "deleted_at", ascending: true },
+      deleted: "only",
+      environment: options?.environment
+    }
+  );
+}
+
 // Export individual functions directly for the unified service
 export const usersServiceUnified = {
   createUser,
   getUsers,
   getUserById,
+  getUserByEmail,
+  getUsersByEmails,
   getUsersPaginated,
+  getUsersByCursor,
   updateUser,
+  updateUsers,
+  updateUserProfiles,
   deleteUser,
+  deleteUsers,
+  restoreUser,
+  purgeUser,
+  getUsersDeletedBefore,
 };
 
 // Legacy compatibility export to maintain backward compatibility
 export const usersService = {
-  createUser: (user: Omit<User, "created_at" | "updated_at">, environment?: ClientEnvironment) => 
+  createUser: (user: UserInsert, environment?: ClientEnvironment) => 
     createUser(user, { environment }),
     
   getUsers: async (environment?: ClientEnvironment) => {
@@ -166,21 +458,81 @@ export const usersService = {
   
   getUserById: (id: string, environment?: ClientEnvironment) => 
     getUserById(id, { environment }),
+
+  getUserByEmail: (email: string, environment?: ClientEnvironment, includeDeleted?: boolean) =>
+    getUserByEmail(email, { environment, includeDeleted }),
     
-  getUsersPaginated: async (search = "", page = 1, pageSize = 10, environment?: ClientEnvironment) => {
-    const result = await getUsersPaginated({ search, page, pageSize }, { environment });
+  getUsersByEmails: async (emails: string[], environment?: ClientEnvironment) => {
+    const result = await getUsersByEmails(emails, { environment });
+    return result.success ? result.data || [] : [];
+  },
+
+  getUsersPaginated: async (
+    search = "",
+    page = 1,
+    pageSize = 10,
+    environment?: ClientEnvironment,
+    organizationId?: string | null,
+    filters?: UserListFilters,
+    orderBy?: SortOrder[],
+    deleted?: DeletedMode
+  ) => {
+    const result = await getUsersPaginated(
+      { search, page, pageSize, organizationId, filters, orderBy, deleted },
+      { environment }
+    );
     return result.success 
       ? { users: result.data?.data || [], total: result.data?.total || 0 }
       : { users: [], total: 0 };
   },
-  
-  updateUser: (id: string, updates: Partial<User>, environment?: ClientEnvironment) => 
-    updateUser(id, updates, { environment }),
+
+  getUsersByCursor: async (
+    params: Parameters<typeof getUsersByCursor>[0],
+    environment?: ClientEnvironment
+  ) => {
+    const result = await getUsersByCursor(params, { environment });
+    return result.success
+      ? { users: result.data?.data || [], nextCursor: result.data?.nextCursor ?? null }
+      : { users: [], nextCursor: null, error: result.error?.message };
+  },
+
+  updateUser: (
+    id: string,
+    updates: UserUpdate,
+    environment?: ClientEnvironment,
+    expectedUpdatedAt?: string | null
+  ) => 
+    updateUser(id, updates, { environment, expectedUpdatedAt }),
     
+  updateUsers: (ids: string[], updates: UserUpdate, environment?: ClientEnvironment) =>
+    updateUsers(ids, updates, { environment }),
+
+  updateUserProfiles: (updates: BulkUpdateItem<typeof TABLE_NAME>[], environment?: ClientEnvironment) =>
+    updateUserProfiles(updates, { environment }),
+
   deleteUser: async (id: string, environment?: ClientEnvironment) => {
     const result = await deleteUser(id, { environment });
     return { success: result.success, error: result.error };
   },
+
+  deleteUsers: (ids: string[], environment?: ClientEnvironment) =>
+    deleteUsers(ids, { environment }),
+
+  restoreUser: async (id: string, environment?: ClientEnvironment) => {
+    const result = await restoreUser(id, { environment });
+    return { success: result.success, error: result.error };
+  },
+
+  purgeUser: async (id: string, environment?: ClientEnvironment) => {
+    const result = await purgeUser(id, { environment });
+    // The purged row is returned so it can be re-inserted if a later step fails
+    return { success: result.success, data: result.data, error: result.error };
+  },
+
+  getUsersDeletedBefore: async (deletedBefore: string, environment?: ClientEnvironment) => {
+    const result = await getUsersDeletedBefore(deletedBefore, { environment });
+    return result.success ? result.data || [] : [];
+  },
 };
 
 // Export type for service responses
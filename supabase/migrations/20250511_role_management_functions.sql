@@ -0,0 +1,82 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250511_role_management_functions.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250511_role_management_functions.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Create a role together with its role_access rows in a single transaction.
+        -- p_access is a JSON array of {"resource": "...", "action": "..."} objects.
+        CREATE OR REPLACE FUNCTION public.create_role_with_access(
+            p_name TEXT,
+            p_description TEXT,
+            p_access JSONB DEFAULT '[]'::JSONB
+        )
+        RETURNS UUID
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        DECLARE
+            v_role_id UUID;
+        BEGIN
+            INSERT INTO public.roles (name, description)
+            VALUES (p_name, p_description)
+            RETURNING id INTO v_role_id;
+
+            INSERT INTO public.role_access (role_id, resource, action)
+            SELECT DISTINCT v_role_id, entry->>'resource', entry->>'action'
+            FROM jsonb_array_elements(COALESCE(p_access, '[]'::JSONB)) AS entry;
+
+            RETURN v_role_id;
+        END;
+        $fn$;
+
+        -- Update a role and replace its role_access rows in a single transaction.
+        -- Passing NULL for p_access leaves the existing permissions untouched.
+        CREATE OR REPLACE FUNCTION public.update_role_with_access(
+            p_role_id UUID,
+            p_name TEXT,
+            p_description TEXT,
+            p_access JSONB DEFAULT NULL
+        )
+        RETURNS UUID
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        BEGIN
+            UPDATE public.roles
+            SET name = COALESCE(p_name, name),
+                description = COALESCE(p_description, description),
+                updated_at = NOW()
+            WHERE id = p_role_id;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Role % not found', p_role_id USING ERRCODE = 'P0002';
+            END IF;
+
+            IF p_access IS NOT NULL THEN
+                DELETE FROM public.role_access WHERE role_id = p_role_id;
+
+                INSERT INTO public.role_access (role_id, resource, action)
+                SELECT DISTINCT p_role_id, entry->>'resource', entry->>'action'
+                FROM jsonb_array_elements(p_access) AS entry;
+            END IF;
+
+            RETURN p_role_id;
+        END;
+        $fn$;
+
+        -- Only the service role may call these functions; admin checks happen in the app
+        REVOKE ALL ON FUNCTION public.create_role_with_access(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+        REVOKE ALL ON FUNCTION public.update_role_with_access(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250511_role_management_functions.sql', 'success', 'Role management functions migration ran successfully.');
+    END IF;
+END $$;
@@ -0,0 +1,41 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250512_invitations_table.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250512_invitations_table.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Create invitations table. Only the SHA-256 hash of the invite token is stored;
+        -- the raw token is sent by email and never persisted.
+        CREATE TABLE IF NOT EXISTS public.invitations (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            email TEXT NOT NULL,
+            role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+            token_hash TEXT UNIQUE NOT NULL,
+            invited_by UUID REFERENCES public.user_profile(id) ON DELETE SET NULL,
+            expires_at TIMESTAMPTZ NOT NULL,
+            accepted_at TIMESTAMPTZ,
+            accepted_user_id UUID REFERENCES public.user_profile(id) ON DELETE SET NULL,
+            revoked_at TIMESTAMPTZ,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS invitations_email_idx ON public.invitations (lower(email));
+
+        -- At most one open invitation per email address
+        CREATE UNIQUE INDEX IF NOT EXISTS invitations_pending_email_idx
+            ON public.invitations (lower(email))
+            WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+        -- Invitations are managed through the service role only
+        ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250512_invitations_table.sql', 'success', 'Invitations table migration ran successfully.');
+    END IF;
+END $$;
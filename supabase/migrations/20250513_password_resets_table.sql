@@ -0,0 +1,37 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250513_password_resets_table.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250513_password_resets_table.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Create password_resets table. Only the SHA-256 hash of the reset token is stored;
+        -- the raw token is sent by email and never persisted.
+        CREATE TABLE IF NOT EXISTS public.password_resets (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            user_id UUID NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+            email TEXT NOT NULL,
+            token_hash TEXT UNIQUE NOT NULL,
+            expires_at TIMESTAMPTZ NOT NULL,
+            used_at TIMESTAMPTZ,
+            invalidated_at TIMESTAMPTZ,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS password_resets_user_id_idx ON public.password_resets (user_id);
+
+        -- Supports the per-email rate limit lookup
+        CREATE INDEX IF NOT EXISTS password_resets_email_created_at_idx
+            ON public.password_resets (lower(email), created_at DESC);
+
+        -- Password resets are managed through the service role only
+        ALTER TABLE public.password_resets ENABLE ROW LEVEL SECURITY;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250513_password_resets_table.sql', 'success', 'Password resets table migration ran successfully.');
+    END IF;
+END $$;
@@ -0,0 +1,263 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250514_organizations.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250514_organizations.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Create organizations table. Exactly one organization is the default; it owns the
+        -- pre-existing settings row and is used for branding on public (signed-out) pages.
+        CREATE TABLE IF NOT EXISTS public.organizations (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            name TEXT NOT NULL,
+            slug TEXT UNIQUE NOT NULL,
+            is_default BOOLEAN NOT NULL DEFAULT false,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS organizations_single_default_idx
+            ON public.organizations (is_default)
+            WHERE is_default;
+
+        -- Create organization_members table. A user's role is per organization.
+        CREATE TABLE IF NOT EXISTS public.organization_members (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+            user_id UUID NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+            role_id UUID NOT NULL REFERENCES public.roles(id),
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            UNIQUE(organization_id, user_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON public.organization_members (user_id);
+
+        -- The active organization lives on the profile. user_profile.role_id mirrors the
+        -- user's role in that organization so existing permission checks keep working.
+        ALTER TABLE public.user_profile
+            ADD COLUMN IF NOT EXISTS active_organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+        -- Settings and invitations are scoped to an organization
+        ALTER TABLE public.settings
+            ADD COLUMN IF NOT EXISTS organization_id UUID UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+        ALTER TABLE public.invitations
+            ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+        -- Seed the default organization and move existing data into it
+        INSERT INTO public.organizations (id, name, slug, is_default)
+        SELECT 'f3c1e2d4-5a6b-4c7d-8e9f-0a1b2c3d4e5f', COALESCE(
+            (SELECT site_name FROM public.settings WHERE id = 1), 'Starter Kit'
+        ), 'default', true
+        WHERE NOT EXISTS (SELECT 1 FROM public.organizations WHERE is_default);
+
+        UPDATE public.settings
+        SET organization_id = 'f3c1e2d4-5a6b-4c7d-8e9f-0a1b2c3d4e5f'
+        WHERE id = 1 AND organization_id IS NULL;
+
+        UPDATE public.invitations
+        SET organization_id = 'f3c1e2d4-5a6b-4c7d-8e9f-0a1b2c3d4e5f'
+        WHERE organization_id IS NULL;
+
+        INSERT INTO public.organization_members (organization_id, user_id, role_id)
+        SELECT 'f3c1e2d4-5a6b-4c7d-8e9f-0a1b2c3d4e5f', id, role_id
+        FROM public.user_profile
+        ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+        UPDATE public.user_profile
+        SET active_organization_id = 'f3c1e2d4-5a6b-4c7d-8e9f-0a1b2c3d4e5f'
+        WHERE active_organization_id IS NULL;
+
+        -- Organization settings permissions for the admin role
+        INSERT INTO public.role_access (role_id, resource, action)
+        VALUES
+            ('a0eeb1f4-6b6e-4d1a-b1f7-72e1bb78c8d4', 'settings', 'read'),
+            ('a0eeb1f4-6b6e-4d1a-b1f7-72e1bb78c8d4', 'settings', 'update')
+        ON CONFLICT (role_id, resource, action) DO NOTHING;
+
+        -- Enable Row Level Security
+        ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+        ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+        -- The default organization (branding for signed-out visitors)
+        CREATE OR REPLACE FUNCTION public.default_organization_id()
+        RETURNS UUID
+        LANGUAGE sql
+        STABLE
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+            SELECT id FROM public.organizations WHERE is_default LIMIT 1;
+        $fn$;
+
+        -- The signed-in user's active organization, only if they are still a member of it
+        CREATE OR REPLACE FUNCTION public.current_organization_id()
+        RETURNS UUID
+        LANGUAGE sql
+        STABLE
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+            SELECT up.active_organization_id
+            FROM public.user_profile up
+            JOIN public.organization_members om
+                ON om.organization_id = up.active_organization_id
+                AND om.user_id = up.id
+            WHERE up.id = auth.uid();
+        $fn$;
+
+        -- Whether the signed-in user's role in an organization grants resource:action
+        CREATE OR REPLACE FUNCTION public.has_organization_permission(
+            p_organization_id UUID,
+            p_resource TEXT,
+            p_action TEXT
+        )
+        RETURNS BOOLEAN
+        LANGUAGE sql
+        STABLE
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+            SELECT EXISTS (
+                SELECT 1
+                FROM public.organization_members om
+                JOIN public.role_access ra ON ra.role_id = om.role_id
+                WHERE om.organization_id = p_organization_id
+                AND om.user_id = auth.uid()
+                AND ra.resource IN (p_resource, '*')
+                AND ra.action IN (p_action, '*')
+            );
+        $fn$;
+
+        -- Switch a user's active organization and mirror their role in it onto the profile.
+        -- Only the service role may call this; the membership check happens here.
+        CREATE OR REPLACE FUNCTION public.switch_active_organization(
+            p_user_id UUID,
+            p_organization_id UUID
+        )
+        RETURNS UUID
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        DECLARE
+            v_role_id UUID;
+        BEGIN
+            SELECT role_id INTO v_role_id
+            FROM public.organization_members
+            WHERE organization_id = p_organization_id AND user_id = p_user_id;
+
+            IF v_role_id IS NULL THEN
+                RAISE EXCEPTION 'User % is not a member of organization %', p_user_id, p_organization_id
+                    USING ERRCODE = '42501';
+            END IF;
+
+            UPDATE public.user_profile
+            SET active_organization_id = p_organization_id,
+                role_id = v_role_id,
+                updated_at = NOW()
+            WHERE id = p_user_id;
+
+            RETURN v_role_id;
+        END;
+        $fn$;
+
+        REVOKE ALL ON FUNCTION public.switch_active_organization(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+        -- New profiles join the default organization unless one is given
+        CREATE OR REPLACE FUNCTION public.set_default_active_organization()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        BEGIN
+            IF NEW.active_organization_id IS NULL THEN
+                NEW.active_organization_id := public.default_organization_id();
+            END IF;
+            RETURN NEW;
+        END;
+        $fn$;
+
+        -- Keep the membership for the active organization in step with user_profile.role_id
+        CREATE OR REPLACE FUNCTION public.sync_active_organization_membership()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        BEGIN
+            IF NEW.active_organization_id IS NOT NULL THEN
+                INSERT INTO public.organization_members (organization_id, user_id, role_id)
+                VALUES (NEW.active_organization_id, NEW.id, NEW.role_id)
+                ON CONFLICT (organization_id, user_id)
+                DO UPDATE SET role_id = EXCLUDED.role_id, updated_at = NOW()
+                WHERE public.organization_members.role_id IS DISTINCT FROM EXCLUDED.role_id;
+            END IF;
+            RETURN NEW;
+        END;
+        $fn$;
+
+        DROP TRIGGER IF EXISTS user_profile_default_organization ON public.user_profile;
+        CREATE TRIGGER user_profile_default_organization
+            BEFORE INSERT ON public.user_profile
+            FOR EACH ROW EXECUTE FUNCTION public.set_default_active_organization();
+
+        DROP TRIGGER IF EXISTS user_profile_sync_membership ON public.user_profile;
+        CREATE TRIGGER user_profile_sync_membership
+            AFTER INSERT OR UPDATE OF role_id ON public.user_profile
+            FOR EACH ROW EXECUTE FUNCTION public.sync_active_organization_membership();
+
+        -- RLS policies keyed on the active organization
+        DROP POLICY IF EXISTS "Members can view their organizations" ON public.organizations;
+        CREATE POLICY "Members can view their organizations" ON public.organizations
+            FOR SELECT USING (
+                EXISTS (
+                    SELECT 1 FROM public.organization_members om
+                    WHERE om.organization_id = organizations.id
+                    AND om.user_id = auth.uid()
+                )
+            );
+
+        DROP POLICY IF EXISTS "Members can view memberships of the active organization" ON public.organization_members;
+        CREATE POLICY "Members can view memberships of the active organization" ON public.organization_members
+            FOR SELECT USING (user_id = auth.uid() OR organization_id = public.current_organization_id());
+
+        DROP POLICY IF EXISTS "Members can view users in their active organization" ON public.user_profile;
+        CREATE POLICY "Members can view users in their active organization" ON public.user_profile
+            FOR SELECT USING (
+                EXISTS (
+                    SELECT 1 FROM public.organization_members om
+                    WHERE om.user_id = user_profile.id
+                    AND om.organization_id = public.current_organization_id()
+                )
+            );
+
+        -- Settings: replace the global policies with organization-scoped ones
+        DROP POLICY IF EXISTS "Allow public read access to settings" ON public.settings;
+        DROP POLICY IF EXISTS "Allow authenticated users to insert settings" ON public.settings;
+        DROP POLICY IF EXISTS "Allow authenticated users to update settings" ON public.settings;
+        DROP POLICY IF EXISTS "Settings are readable for the active organization" ON public.settings;
+        DROP POLICY IF EXISTS "Organization admins can insert settings" ON public.settings;
+        DROP POLICY IF EXISTS "Organization admins can update settings" ON public.settings;
+
+        CREATE POLICY "Settings are readable for the active organization" ON public.settings
+            FOR SELECT USING (
+                organization_id = COALESCE(public.current_organization_id(), public.default_organization_id())
+            );
+
+        CREATE POLICY "Organization admins can insert settings" ON public.settings
+            FOR INSERT WITH CHECK (public.has_organization_permission(organization_id, 'settings', 'update'));
+
+        CREATE POLICY "Organization admins can update settings" ON public.settings
+            FOR UPDATE USING (public.has_organization_permission(organization_id, 'settings', 'update'));
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250514_organizations.sql', 'success', 'Organizations migration ran successfully.');
+    END IF;
+END $$;
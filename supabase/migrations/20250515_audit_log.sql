@@ -0,0 +1,59 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250515_audit_log.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250515_audit_log.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Create audit_log table. Rows are written by the app for every BaseService mutation
+        -- and are never updated. actor_id has no foreign key so history outlives deleted users.
+        CREATE TABLE IF NOT EXISTS public.audit_log (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            request_id TEXT NOT NULL,
+            actor_id UUID,
+            actor_email TEXT,
+            organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+            table_name TEXT NOT NULL,
+            record_id TEXT,
+            action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+            before JSONB,
+            after JSONB,
+            changes JSONB NOT NULL DEFAULT '{}'::JSONB,
+            ip_address TEXT,
+            user_agent TEXT,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- History of a single record, newest first
+        CREATE INDEX IF NOT EXISTS audit_log_record_idx
+            ON public.audit_log (table_name, record_id, created_at DESC);
+
+        CREATE INDEX IF NOT EXISTS audit_log_organization_created_at_idx
+            ON public.audit_log (organization_id, created_at DESC);
+
+        CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON public.audit_log (actor_id);
+
+        -- Audit permissions for the admin role
+        INSERT INTO public.role_access (role_id, resource, action)
+        VALUES ('a0eeb1f4-6b6e-4d1a-b1f7-72e1bb78c8d4', 'audit', 'read')
+        ON CONFLICT (role_id, resource, action) DO NOTHING;
+
+        -- Entries are written through the service role only; there is no insert,
+        -- update or delete policy so the log stays append-only for everyone else
+        ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+        DROP POLICY IF EXISTS "Audit readers can view their organization history" ON public.audit_log;
+        CREATE POLICY "Audit readers can view their organization history" ON public.audit_log
+            FOR SELECT USING (
+                organization_id = public.current_organization_id()
+                AND public.has_organization_permission(organization_id, 'audit', 'read')
+            );
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250515_audit_log.sql', 'success', 'Audit log migration ran successfully.');
+    END IF;
+END $$;
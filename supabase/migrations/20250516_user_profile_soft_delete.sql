@@ -0,0 +1,36 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250516_user_profile_soft_delete.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250516_user_profile_soft_delete.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Deleted users stay in the trash until restored or purged after the retention period
+        ALTER TABLE public.user_profile
+            ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+        -- Trash listing and the scheduled purge only scan deleted rows
+        CREATE INDEX IF NOT EXISTS user_profile_deleted_at_idx
+            ON public.user_profile (deleted_at)
+            WHERE deleted_at IS NOT NULL;
+
+        -- Members only see live users of their active organization
+        DROP POLICY IF EXISTS "Members can view users in their active organization" ON public.user_profile;
+        CREATE POLICY "Members can view users in their active organization" ON public.user_profile
+            FOR SELECT USING (
+                user_profile.deleted_at IS NULL
+                AND EXISTS (
+                    SELECT 1 FROM public.organization_members om
+                    WHERE om.user_id = user_profile.id
+                    AND om.organization_id = public.current_organization_id()
+                )
+            );
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250516_user_profile_soft_delete.sql', 'success', 'User profile soft delete migration ran successfully.');
+    END IF;
+END $$;
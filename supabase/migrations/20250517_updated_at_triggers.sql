@@ -0,0 +1,47 @@
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    -- Check if the migration '20250517_updated_at_triggers.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250517_updated_at_triggers.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- updated_at doubles as the version for optimistic concurrency checks in
+        -- BaseService.update, so the database bumps it on every update instead of
+        -- relying on each caller to send it
+        CREATE OR REPLACE FUNCTION public.set_updated_at()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        AS $fn$
+        BEGIN
+            NEW.updated_at := clock_timestamp();
+            RETURN NEW;
+        END;
+        $fn$;
+
+        FOREACH v_table IN ARRAY ARRAY[
+            'roles',
+            'user_profile',
+            'settings',
+            'organizations',
+            'organization_members',
+            'invitations'
+        ]
+        LOOP
+            EXECUTE format('DROP TRIGGER IF EXISTS set_updated_at ON public.%I', v_table);
+            EXECUTE format(
+                'CREATE TRIGGER set_updated_at BEFORE UPDATE ON public.%I
+                 FOR EACH ROW EXECUTE FUNCTION public.set_updated_at()',
+                v_table
+            );
+        END LOOP;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250517_updated_at_triggers.sql', 'success', 'updated_at triggers migration ran successfully.');
+    END IF;
+END $$;
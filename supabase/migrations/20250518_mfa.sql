@@ -0,0 +1,106 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250518_mfa.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250518_mfa.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Members of a role with mfa_required must enroll an authenticator app
+        -- before they can use the app
+        ALTER TABLE public.roles
+            ADD COLUMN IF NOT EXISTS mfa_required BOOLEAN NOT NULL DEFAULT FALSE;
+
+        -- The role functions gain the MFA requirement; drop the old signatures
+        -- so calls without p_mfa_required aren't ambiguous
+        DROP FUNCTION IF EXISTS public.create_role_with_access(TEXT, TEXT, JSONB);
+        DROP FUNCTION IF EXISTS public.update_role_with_access(UUID, TEXT, TEXT, JSONB);
+
+        CREATE OR REPLACE FUNCTION public.create_role_with_access(
+            p_name TEXT,
+            p_description TEXT,
+            p_access JSONB DEFAULT '[]'::JSONB,
+            p_mfa_required BOOLEAN DEFAULT FALSE
+        )
+        RETURNS UUID
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        DECLARE
+            v_role_id UUID;
+        BEGIN
+            INSERT INTO public.roles (name, description, mfa_required)
+            VALUES (p_name, p_description, COALESCE(p_mfa_required, FALSE))
+            RETURNING id INTO v_role_id;
+
+            INSERT INTO public.role_access (role_id, resource, action)
+            SELECT DISTINCT v_role_id, entry->>'resource', entry->>'action'
+            FROM jsonb_array_elements(COALESCE(p_access, '[]'::JSONB)) AS entry;
+
+            RETURN v_role_id;
+        END;
+        $fn$;
+
+        -- NULL arguments leave the current values (and permissions) untouched
+        CREATE OR REPLACE FUNCTION public.update_role_with_access(
+            p_role_id UUID,
+            p_name TEXT,
+            p_description TEXT,
+            p_access JSONB DEFAULT NULL,
+            p_mfa_required BOOLEAN DEFAULT NULL
+        )
+        RETURNS UUID
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        BEGIN
+            UPDATE public.roles
+            SET name = COALESCE(p_name, name),
+                description = COALESCE(p_description, description),
+                mfa_required = COALESCE(p_mfa_required, mfa_required),
+                updated_at = NOW()
+            WHERE id = p_role_id;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Role % not found', p_role_id USING ERRCODE = 'P0002';
+            END IF;
+
+            IF p_access IS NOT NULL THEN
+                DELETE FROM public.role_access WHERE role_id = p_role_id;
+
+                INSERT INTO public.role_access (role_id, resource, action)
+                SELECT DISTINCT p_role_id, entry->>'resource', entry->>'action'
+                FROM jsonb_array_elements(p_access) AS entry;
+            END IF;
+
+            RETURN p_role_id;
+        END;
+        $fn$;
+
+        REVOKE ALL ON FUNCTION public.create_role_with_access(TEXT, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+        REVOKE ALL ON FUNCTION public.update_role_with_access(UUID, TEXT, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+        -- One-time recovery codes for users who lose their authenticator. Only the
+        -- SHA-256 hash of each code is stored; the codes are shown once.
+        CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            user_id UUID NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+            code_hash TEXT UNIQUE NOT NULL,
+            used_at TIMESTAMPTZ,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS mfa_recovery_codes_user_id_idx ON public.mfa_recovery_codes (user_id);
+
+        -- Recovery codes are managed through the service role only
+        ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250518_mfa.sql', 'success', 'MFA migration ran successfully.');
+    END IF;
+END $$;
@@ -0,0 +1,40 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250519_passwordless_login.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250519_passwordless_login.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Passwordless sign-in methods, off until an organization turns them on
+        ALTER TABLE public.settings
+            ADD COLUMN IF NOT EXISTS magic_link_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+            ADD COLUMN IF NOT EXISTS email_otp_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+        -- One row per magic link or sign-in code request, kept for rate limiting.
+        -- Rows are written before the email is looked up, so unknown addresses
+        -- count against the limit too.
+        CREATE TABLE IF NOT EXISTS public.login_code_requests (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            email TEXT NOT NULL,
+            method TEXT NOT NULL CHECK (method IN ('magic_link', 'email_otp')),
+            ip_address TEXT,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- Support the per-email and per-IP rate limit lookups
+        CREATE INDEX IF NOT EXISTS login_code_requests_email_created_at_idx
+            ON public.login_code_requests (lower(email), created_at DESC);
+        CREATE INDEX IF NOT EXISTS login_code_requests_ip_created_at_idx
+            ON public.login_code_requests (ip_address, created_at DESC);
+
+        -- Requests are managed through the service role only
+        ALTER TABLE public.login_code_requests ENABLE ROW LEVEL SECURITY;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250519_passwordless_login.sql', 'success', 'Passwordless login migration ran successfully.');
+    END IF;
+END $$;
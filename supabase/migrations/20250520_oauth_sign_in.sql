@@ -0,0 +1,40 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250520_oauth_sign_in.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250520_oauth_sign_in.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- New users signing in with a provider join the organization that lists
+        -- their email domain here, instead of the default organization
+        ALTER TABLE public.settings
+            ADD COLUMN IF NOT EXISTS auto_join_domains TEXT[] NOT NULL DEFAULT '{}';
+
+        -- Identities from OpenID Connect providers that Supabase Auth doesn't
+        -- handle itself. Supabase keeps Google, GitHub and Microsoft identities in
+        -- auth.identities; these are the app-side equivalent.
+        CREATE TABLE IF NOT EXISTS public.user_identities (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            user_id UUID NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+            provider TEXT NOT NULL,
+            issuer TEXT NOT NULL,
+            subject TEXT NOT NULL,
+            email TEXT,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            last_sign_in_at TIMESTAMPTZ,
+            UNIQUE(issuer, subject)
+        );
+
+        CREATE INDEX IF NOT EXISTS user_identities_user_id_idx ON public.user_identities (user_id);
+
+        -- Identities are managed through the service role only
+        ALTER TABLE public.user_identities ENABLE ROW LEVEL SECURITY;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250520_oauth_sign_in.sql', 'success', 'OAuth sign-in migration ran successfully.');
+    END IF;
+END $$;
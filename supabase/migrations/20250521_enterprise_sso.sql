@@ -0,0 +1,71 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250521_enterprise_sso.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250521_enterprise_sso.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- One identity provider per organization. People whose email domain is
+        -- listed here are sent to it from the login page. SAML connections keep
+        -- the metadata they were configured with (URL or XML) plus the parts the
+        -- app needs, parsed when saved.
+        CREATE TABLE IF NOT EXISTS public.sso_connections (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            organization_id UUID NOT NULL UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+            protocol TEXT NOT NULL CHECK (protocol IN ('saml', 'oidc')),
+            enabled BOOLEAN NOT NULL DEFAULT FALSE,
+            domains TEXT[] NOT NULL DEFAULT '{}',
+            metadata_url TEXT,
+            metadata_xml TEXT,
+            idp_entity_id TEXT,
+            idp_sso_url TEXT,
+            idp_certificates TEXT[] NOT NULL DEFAULT '{}',
+            oidc_issuer TEXT,
+            oidc_client_id TEXT,
+            oidc_client_secret TEXT,
+            -- SAML attribute or OpenID Connect claim listing the user's groups
+            groups_attribute TEXT NOT NULL DEFAULT 'groups',
+            -- Role for users in none of the mapped groups
+            default_role_id UUID REFERENCES public.roles(id) ON DELETE SET NULL,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- Identity provider groups and the role they grant, re-evaluated on every
+        -- sign-in. When a user is in several mapped groups the lowest priority wins.
+        CREATE TABLE IF NOT EXISTS public.sso_group_mappings (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            connection_id UUID NOT NULL REFERENCES public.sso_connections(id) ON DELETE CASCADE,
+            group_name TEXT NOT NULL,
+            role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+            priority INTEGER NOT NULL DEFAULT 0,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            UNIQUE(connection_id, group_name)
+        );
+
+        CREATE INDEX IF NOT EXISTS sso_group_mappings_connection_id_idx ON public.sso_group_mappings (connection_id);
+
+        DROP TRIGGER IF EXISTS set_updated_at ON public.sso_connections;
+        CREATE TRIGGER set_updated_at
+            BEFORE UPDATE ON public.sso_connections
+            FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+        DROP TRIGGER IF EXISTS set_updated_at ON public.sso_group_mappings;
+        CREATE TRIGGER set_updated_at
+            BEFORE UPDATE ON public.sso_group_mappings
+            FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+        -- Connections hold client secrets and are managed through the service
+        -- role only (server actions check settings:update first)
+        ALTER TABLE public.sso_connections ENABLE ROW LEVEL SECURITY;
+        ALTER TABLE public.sso_group_mappings ENABLE ROW LEVEL SECURITY;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250521_enterprise_sso.sql', 'success', 'Enterprise SSO migration ran successfully.');
+    END IF;
+END $$;
@@ -0,0 +1,62 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250522_user_sessions.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250522_user_sessions.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Where users are signed in. The ID is the Supabase Auth session ID
+        -- (the access token's session_id claim); rows are written on sign-in and
+        -- touched while the session is used, and kept after revocation for history.
+        CREATE TABLE IF NOT EXISTS public.user_sessions (
+            id UUID PRIMARY KEY,
+            user_id UUID NOT NULL REFERENCES public.user_profile(id) ON DELETE CASCADE,
+            device TEXT,
+            ip_address TEXT,
+            user_agent TEXT,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            revoked_at TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS user_sessions_user_id_idx ON public.user_sessions (user_id, last_seen_at DESC);
+
+        -- Sessions are managed through the service role only
+        ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+        -- End a user's Supabase Auth sessions: their refresh tokens go with them,
+        -- and Supabase Auth refuses the access tokens from then on. With no IDs,
+        -- every session ends except p_keep_session_id.
+        CREATE OR REPLACE FUNCTION public.revoke_auth_sessions(
+            p_user_id UUID,
+            p_session_ids UUID[] DEFAULT NULL,
+            p_keep_session_id UUID DEFAULT NULL
+        )
+        RETURNS INTEGER
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        DECLARE
+            v_count INTEGER;
+        BEGIN
+            DELETE FROM auth.sessions
+            WHERE user_id = p_user_id
+            AND (p_session_ids IS NULL OR id = ANY(p_session_ids))
+            AND (p_keep_session_id IS NULL OR id <> p_keep_session_id);
+
+            GET DIAGNOSTICS v_count = ROW_COUNT;
+            RETURN v_count;
+        END;
+        $fn$;
+
+        REVOKE ALL ON FUNCTION public.revoke_auth_sessions(UUID, UUID[], UUID) FROM PUBLIC, anon, authenticated;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250522_user_sessions.sql', 'success', 'User sessions migration ran successfully.');
+    END IF;
+END $$;
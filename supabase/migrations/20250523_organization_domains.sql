@@ -0,0 +1,62 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250523_organization_domains.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250523_organization_domains.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Email domains an organization claims. A claim counts once the
+        -- organization proves it owns the domain by publishing the verification
+        -- token in a DNS TXT record; only verified domains auto-join new users or
+        -- route sign-ins to single sign-on. Several organizations may claim a
+        -- domain, so nobody can squat on it, but only one can verify it.
+        CREATE TABLE IF NOT EXISTS public.organization_domains (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+            domain TEXT NOT NULL CHECK (domain = lower(domain)),
+            verification_token TEXT NOT NULL,
+            verified_at TIMESTAMPTZ,
+            -- New users with this email domain join the organization
+            auto_join BOOLEAN NOT NULL DEFAULT FALSE,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            UNIQUE(organization_id, domain)
+        );
+
+        -- The sign-in lookup, and the one-owner rule for verified domains
+        CREATE UNIQUE INDEX IF NOT EXISTS organization_domains_verified_domain_idx
+            ON public.organization_domains (domain)
+            WHERE verified_at IS NOT NULL;
+
+        DROP TRIGGER IF EXISTS set_updated_at ON public.organization_domains;
+        CREATE TRIGGER set_updated_at
+            BEFORE UPDATE ON public.organization_domains
+            FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+        -- Managed through the service role only (server actions check settings:update first)
+        ALTER TABLE public.organization_domains ENABLE ROW LEVEL SECURITY;
+
+        -- Auto-join domains listed in settings become claims that still need
+        -- verifying; until they are, new users join the default organization
+        INSERT INTO public.organization_domains (organization_id, domain, verification_token, auto_join)
+        SELECT DISTINCT
+            s.organization_id,
+            lower(trim(listed.domain)),
+            replace(uuid_generate_v4()::TEXT, '-', ''),
+            TRUE
+        FROM public.settings s
+        CROSS JOIN LATERAL unnest(s.auto_join_domains) AS listed(domain)
+        WHERE s.organization_id IS NOT NULL
+        AND trim(listed.domain) <> ''
+        ON CONFLICT (organization_id, domain) DO NOTHING;
+
+        ALTER TABLE public.settings DROP COLUMN IF EXISTS auto_join_domains;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250523_organization_domains.sql', 'success', 'Organization domains migration ran successfully.');
+    END IF;
+END $$;
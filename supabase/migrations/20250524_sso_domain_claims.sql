@@ -0,0 +1,28 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250524_sso_domain_claims.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250524_sso_domain_claims.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Single sign-on only routes domains the organization has verified.
+        -- Domains already listed on connections become claims that still need
+        -- verifying; until they are, those connections can't be used.
+        INSERT INTO public.organization_domains (organization_id, domain, verification_token)
+        SELECT DISTINCT
+            c.organization_id,
+            lower(trim(listed.domain)),
+            replace(uuid_generate_v4()::TEXT, '-', '')
+        FROM public.sso_connections c
+        CROSS JOIN LATERAL unnest(c.domains) AS listed(domain)
+        WHERE trim(listed.domain) <> ''
+        ON CONFLICT (organization_id, domain) DO NOTHING;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250524_sso_domain_claims.sql', 'success', 'SSO domain claims migration ran successfully.');
+    END IF;
+END $$;
@@ -0,0 +1,61 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250525_user_profile_organization_guard.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250525_user_profile_organization_guard.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- "Users can update their own data" lets users write their own profile,
+        -- but the active organization and the role in it are only changed by the
+        -- server (service role) or switch_active_organization. auth.uid() is
+        -- null for both; it is the user's ID for requests made with their token.
+        CREATE OR REPLACE FUNCTION public.guard_user_profile_organization()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        SET search_path = public
+        AS $fn$
+        BEGIN
+            IF auth.uid() IS NOT NULL AND (
+                NEW.role_id IS DISTINCT FROM OLD.role_id
+                OR NEW.active_organization_id IS DISTINCT FROM OLD.active_organization_id
+            ) THEN
+                RAISE EXCEPTION 'Users cannot change their own role or active organization'
+                    USING ERRCODE = '42501';
+            END IF;
+            RETURN NEW;
+        END;
+        $fn$;
+
+        DROP TRIGGER IF EXISTS user_profile_guard_organization ON public.user_profile;
+        CREATE TRIGGER user_profile_guard_organization
+            BEFORE UPDATE ON public.user_profile
+            FOR EACH ROW EXECUTE FUNCTION public.guard_user_profile_organization();
+
+        -- Memberships only follow profile writes made by the server, so a
+        -- user's own update can't recreate a membership they were removed from
+        CREATE OR REPLACE FUNCTION public.sync_active_organization_membership()
+        RETURNS TRIGGER
+        LANGUAGE plpgsql
+        SECURITY DEFINER
+        SET search_path = public
+        AS $fn$
+        BEGIN
+            IF auth.uid() IS NULL AND NEW.active_organization_id IS NOT NULL THEN
+                INSERT INTO public.organization_members (organization_id, user_id, role_id)
+                VALUES (NEW.active_organization_id, NEW.id, NEW.role_id)
+                ON CONFLICT (organization_id, user_id)
+                DO UPDATE SET role_id = EXCLUDED.role_id, updated_at = NOW()
+                WHERE public.organization_members.role_id IS DISTINCT FROM EXCLUDED.role_id;
+            END IF;
+            RETURN NEW;
+        END;
+        $fn$;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250525_user_profile_organization_guard.sql', 'success', 'User profile organization guard migration ran successfully.');
+    END IF;
+END $$;
@@ -0,0 +1,34 @@
+DO $$
+BEGIN
+    -- Check if the migration '20250526_sso_requests.sql' has already been executed successfully
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.migration_logs
+        WHERE migration_name = '20250526_sso_requests.sql'
+        AND status = 'success'
+    ) THEN
+
+        -- Single sign-on requests waiting for the identity provider's response.
+        -- The browser only holds a random token (hashed here); the SAML request
+        -- ID or OpenID Connect state stay on the server, and each request is
+        -- used once, so responses can't be replayed or sent to another connection.
+        CREATE TABLE IF NOT EXISTS public.sso_requests (
+            id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+            connection_id UUID NOT NULL REFERENCES public.sso_connections(id) ON DELETE CASCADE,
+            token_hash TEXT NOT NULL UNIQUE,
+            -- Protocol details: the SAML request ID, or the OpenID Connect state,
+            -- nonce and code verifier; and where to go afterwards
+            request JSONB NOT NULL,
+            expires_at TIMESTAMPTZ NOT NULL,
+            used_at TIMESTAMPTZ,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- Managed through the service role only
+        ALTER TABLE public.sso_requests ENABLE ROW LEVEL SECURITY;
+
+        -- Log the successful migration
+        INSERT INTO public.migration_logs (migration_name, status, message)
+        VALUES ('20250526_sso_requests.sql', 'success', 'SSO requests migration ran successfully.');
+    END IF;
+END $$;
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import type { AuditEventInput } from "@/lib/audit";
+import { recordBrowserAuditEvents } from "@/lib/actions/audit-actions";
+import { usersServiceUnified } from "@/modules/users";
+import { ADMIN_USER_ID, VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+describe("audit log", () => {
+  let db: InMemoryAdapter;
+
+  const viewer = () => db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)!;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  it("records server-side mutations as the signed-in user", async () => {
+    db.signIn(ADMIN_USER_ID);
+
+    await usersServiceUnified.updateUser(VIEWER_USER_ID, { first_name: "Vic" }, { environment: "admin" });
+
+    expect(db.tables.audit_log).toEqual([
+      expect.objectContaining({
+        actor_id: ADMIN_USER_ID,
+        actor_email: "admin@example.com",
+        table_name: "user_profile",
+        record_id: VIEWER_USER_ID,
+        action: "update",
+        changes: { first_name: { from: "Victor", to: "Vic" } },
+      }),
+    ]);
+  });
+
+  describe("browser mutations", () => {
+    const forged = (overrides: Partial<AuditEventInput>): AuditEventInput => ({
+      table_name: "user_profile",
+      record_id: VIEWER_USER_ID,
+      action: "update",
+      before: { ...viewer(), first_name: "Vic" },
+      after: { ...viewer(), first_name: "Mallory" },
+      request_id: crypto.randomUUID(),
+      ...overrides,
+    });
+
+    it("can't be recorded without signing in", async () => {
+      db.signIn(null);
+
+      expect(await recordBrowserAuditEvents([forged({})])).toMatchObject({ success: false, code: "UNAUTHORIZED" });
+      expect(db.tables.audit_log).toEqual([]);
+    });
+
+    it("aren't accepted from users who can't make the change", async () => {
+      db.signIn(VIEWER_USER_ID);
+
+      expect(await recordBrowserAuditEvents([forged({})])).toEqual({ success: true });
+
+      expect(db.tables.audit_log).toEqual([]);
+    });
+
+    it("are recorded from the database and the log, not from what the browser sent", async () => {
+      db.signIn(ADMIN_USER_ID);
+      await usersServiceUnified.updateUser(VIEWER_USER_ID, { first_name: "Vic" }, { environment: "admin" });
+      // The browser's own write
+      viewer().first_name = "Victoria";
+
+      await recordBrowserAuditEvents([forged({})]);
+      // Reporting it again doesn't add history
+      await recordBrowserAuditEvents([forged({})]);
+
+      expect(db.tables.audit_log).toHaveLength(2);
+      expect(db.tables.audit_log[1]).toMatchObject({
+        actor_id: ADMIN_USER_ID,
+        changes: { first_name: { from: "Vic", to: "Victoria" } },
+      });
+    });
+
+    it("aren't accepted for records outside the caller's organization", async () => {
+      db.signIn(ADMIN_USER_ID);
+      db.tables.organization_members = db.tables.organization_members.filter(
+        (member) => member.user_id !== VIEWER_USER_ID
+      );
+
+      await recordBrowserAuditEvents([forged({})]);
+
+      expect(db.tables.audit_log).toEqual([]);
+    });
+
+    it("drops deletes, which can't be proven once the record is gone", async () => {
+      db.signIn(ADMIN_USER_ID);
+
+      await recordBrowserAuditEvents([forged({ action: "delete", after: null })]);
+
+      expect(db.tables.audit_log).toEqual([]);
+    });
+  });
+});
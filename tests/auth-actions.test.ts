@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { createAuthUser, requestPasswordReset, resetPassword, updateUserPassword } from "@/lib/actions/auth-actions";
+import { emailService } from "@/lib/email-service";
+import { ADMIN_USER_ID, OTHER_ORGANIZATION_ID, VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+vi.mock("@/lib/email-service", () => ({
+  emailService: { sendEmail: vi.fn().mockResolvedValue({ success: true }) },
+}));
+
+const sendEmail = vi.mocked(emailService.sendEmail);
+
+/**
+ * The raw token from the most recent reset email
+ */
+function sentResetToken(): string {
+  const html = sendEmail.mock.lastCall?.[0].html ?? "";
+  return /token=([0-9a-f]+)/.exec(html)?.[1] ?? "";
+}
+
+describe("auth actions", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    sendEmail.mockClear();
+  });
+
+  describe("createAuthUser", () => {
+    it("creates a confirmed auth user for admins", async () => {
+      db.signIn(ADMIN_USER_ID);
+
+      const result = await createAuthUser("new@example.com", "a-strong-password", { first_name: "New" }, "user");
+
+      expect(result.success).toBe(true);
+      expect(result.user).toMatchObject({ email: "new@example.com", user_metadata: { first_name: "New" } });
+      expect(result.user?.email_confirmed_at).toBeTruthy();
+    });
+
+    it("rejects signed-out callers and callers without users:create", async () => {
+      const signedOut = await createAuthUser("new@example.com", "a-strong-password", {}, "user");
+      db.signIn(VIEWER_USER_ID);
+      const viewer = await createAuthUser("new@example.com", "a-strong-password", {}, "user");
+
+      expect(signedOut).toMatchObject({ success: false, code: "UNAUTHORIZED" });
+      expect(viewer).toMatchObject({ success: false, code: "FORBIDDEN" });
+      expect(db.authUsers.size).toBe(2);
+    });
+
+    it("reports duplicate emails", async () => {
+      db.signIn(ADMIN_USER_ID);
+
+      const result = await createAuthUser("viewer@example.com", "a-strong-password", {}, "user");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/already been registered/);
+    });
+  });
+
+  it("requires users:update to change someone's password", async () => {
+    db.signIn(VIEWER_USER_ID);
+
+    const result = await updateUserPassword(ADMIN_USER_ID, "new-password");
+
+    expect(result).toMatchObject({ success: false, code: "FORBIDDEN" });
+  });
+
+  it("only changes passwords of members of the admin's organization", async () => {
+    db.tables.organization_members.forEach((member) => {
+      if (member.user_id === VIEWER_USER_ID) member.organization_id = OTHER_ORGANIZATION_ID;
+    });
+    db.signIn(ADMIN_USER_ID);
+
+    const result = await updateUserPassword(VIEWER_USER_ID, "new-password");
+
+    expect(result).toEqual({ success: false, error: "User not found" });
+    const signIn = await db.auth.signInWithPassword({ email: "viewer@example.com", password: "viewer-password" });
+    expect(signIn.error).toBeNull();
+  });
+
+  describe("password reset", () => {
+    it("gives the same answer for unknown addresses without sending email", async () => {
+      const known = await requestPasswordReset("Viewer@Example.com", "user");
+      const unknown = await requestPasswordReset("nobody@example.com", "user");
+
+      expect(unknown).toEqual(known);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(sendEmail.mock.calls[0][0].to).toBe("viewer@example.com");
+    });
+
+    it("stops sending after three requests in the window", async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        expect((await requestPasswordReset("viewer@example.com", "user")).success).toBe(true);
+      }
+
+      expect(sendEmail).toHaveBeenCalledTimes(3);
+    });
+
+    it("stores only the token hash and keeps just the newest link usable", async () => {
+      await requestPasswordReset("viewer@example.com", "user");
+      const firstToken = sentResetToken();
+      await requestPasswordReset("viewer@example.com", "user");
+
+      expect(db.tables.password_resets.some((reset) => reset.token_hash === firstToken)).toBe(false);
+      expect((await resetPassword(firstToken, "new-password", "user")).success).toBe(false);
+    });
+
+    it("changes the password once per token", async () => {
+      await requestPasswordReset("viewer@example.com", "user");
+      const token = sentResetToken();
+
+      expect(await resetPassword(token, "new-password", "user")).toEqual({ success: true });
+      expect(await resetPassword(token, "another-password", "user")).toMatchObject({ success: false });
+
+      const signIn = await db.auth.signInWithPassword({ email: "viewer@example.com", password: "new-password" });
+      expect(signIn.error).toBeNull();
+    });
+
+    it("keeps the token when Supabase refuses the new password", async () => {
+      await requestPasswordReset("viewer@example.com", "user");
+      const token = sentResetToken();
+
+      expect(await resetPassword(token, "short", "user")).toMatchObject({ success: false });
+      expect(await resetPassword(token, "new-password", "user")).toEqual({ success: true });
+    });
+
+    it("rejects expired tokens", async () => {
+      await requestPasswordReset("viewer@example.com", "user");
+      db.tables.password_resets[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+      const result = await resetPassword(sentResetToken(), "new-password", "user");
+
+      expect(result).toEqual({ success: false, error: "Invalid or expired token" });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { baseService } from "@/lib/BaseService";
+import { deleteUsers } from "@/lib/actions/user-actions";
+import {
+  ADMIN_ROLE_ID,
+  ADMIN_USER_ID,
+  VIEWER_ROLE_ID,
+  VIEWER_USER_ID,
+  createTestDatabase,
+} from "./helpers";
+
+describe("bulk operations", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  it("inserts the records it can and reports the rest", async () => {
+    const result = await baseService.bulkInsert("roles", [
+      { name: "editor" },
+      { name: "admin" },
+      { name: "auditor" },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("PARTIAL_FAILURE");
+    expect(result.data).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(result.data?.items.map((item) => [item.index, item.success, item.error?.code])).toEqual([
+      [0, true, undefined],
+      [1, false, "23505"],
+      [2, true, undefined],
+    ]);
+    expect(db.tables.roles.map((role) => role.name)).toEqual(["admin", "viewer", "editor", "auditor"]);
+  });
+
+  it("updates many records and reports missing ones", async () => {
+    const missingId = crypto.randomUUID();
+    const result = await baseService.bulkUpdate("user_profile", [
+      { id: ADMIN_USER_ID, changes: { is_active: false } },
+      { id: missingId, changes: { is_active: false } },
+      { id: VIEWER_USER_ID, changes: { role_id: ADMIN_ROLE_ID } },
+    ]);
+
+    expect(result.data?.items.map((item) => [item.id, item.success, item.error?.code])).toEqual([
+      [ADMIN_USER_ID, true, undefined],
+      [missingId, false, "RECORD_NOT_FOUND"],
+      [VIEWER_USER_ID, true, undefined],
+    ]);
+    expect(db.tables.user_profile.find((user) => user.id === ADMIN_USER_ID)?.is_active).toBe(false);
+    expect(db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)?.role_id).toBe(ADMIN_ROLE_ID);
+  });
+
+  it("soft-deletes on soft-delete tables and skips rows already deleted", async () => {
+    const first = await baseService.bulkDelete("user_profile", [VIEWER_USER_ID]);
+    const again = await baseService.bulkDelete("user_profile", [VIEWER_USER_ID, ADMIN_USER_ID]);
+
+    expect(first).toMatchObject({ success: true, meta: { softDeleted: true } });
+    expect(again.data?.items.map((item) => item.success)).toEqual([false, true]);
+    expect(db.tables.user_profile.every((user) => user.deleted_at !== null)).toBe(true);
+  });
+
+  it("upserts on the conflict columns", async () => {
+    const result = await baseService.upsert(
+      "roles",
+      [
+        { name: "viewer", description: "Can look around" },
+        { name: "editor", description: "Can edit" },
+      ],
+      { onConflict: "name" }
+    );
+
+    expect(result).toMatchObject({ success: true, data: { succeeded: 2, failed: 0 } });
+    expect(db.tables.roles.find((role) => role.id === VIEWER_ROLE_ID)?.description).toBe("Can look around");
+    expect(db.tables.roles).toHaveLength(3);
+  });
+
+  describe("deleteUsers", () => {
+    it("deletes the users it may and reports the admin's own account", async () => {
+      db.signIn(ADMIN_USER_ID);
+
+      const result = await deleteUsers([VIEWER_USER_ID, ADMIN_USER_ID]);
+
+      expect(result.success).toBe(false);
+      expect(result.results).toEqual([
+        { id: VIEWER_USER_ID, success: true },
+        { id: ADMIN_USER_ID, success: false, error: "You cannot delete your own account" },
+      ]);
+      expect(db.authUsers.get(VIEWER_USER_ID)).toHaveProperty("banned_until", expect.any(String));
+      expect(db.tables.user_profile.find((user) => user.id === ADMIN_USER_ID)?.deleted_at).toBeNull();
+    });
+
+    it("requires users:delete", async () => {
+      db.signIn(VIEWER_USER_ID);
+
+      const result = await deleteUsers([ADMIN_USER_ID]);
+
+      expect(result).toMatchObject({ success: false, code: "FORBIDDEN" });
+      expect(db.tables.user_profile.every((user) => user.deleted_at === null)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Test Helpers
+ *
+ * Builds a seeded in-memory database and installs it as the data adapter, so
+ * services and server actions run unchanged against it. Also runs a local
+ * OpenID Connect provider for sign-in tests.
+ */
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { setDataAdapter } from "@/lib/data-adapter";
+import { createInMemoryAdapter, type InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { DEFAULT_ORGANIZATION_ID } from "@/modules/organizations/models/organization";
+import { PERMISSION_WILDCARD } from "@/lib/permissions";
+
+export const ADMIN_ROLE_ID = "a0eeb1f4-6b6e-4d1a-b1f7-72e1bb78c8d4";
+export const VIEWER_ROLE_ID = "b1ffc2a5-7c7f-4e2b-82a8-83f2cc89d9e5";
+export const ADMIN_USER_ID = "c2aad3b6-8d8a-4f3c-93b9-94a3dd9aeaf6";
+export const VIEWER_USER_ID = "d3bbe4c7-9e9b-4a4d-a4ca-a5b4eeabfb07";
+export const OTHER_ORGANIZATION_ID = "e4ccf5d8-afac-4b5e-b5db-b6c5ffbc0c18";
+
+/**
+ * Two organizations, an admin role with every permission, a read-only viewer
+ * role and one active user for each. Nobody is signed in.
+ */
+export function createTestDatabase(): InMemoryAdapter {
+  const adapter = createInMemoryAdapter({
+    authUsers: [
+      { id: ADMIN_USER_ID, email: "admin@example.com", password: "admin-password" },
+      { id: VIEWER_USER_ID, email: "viewer@example.com", password: "viewer-password" },
+    ],
+    tables: {
+      organizations: [
+        { id: DEFAULT_ORGANIZATION_ID, name: "Default", slug: "default", is_default: true },
+        { id: OTHER_ORGANIZATION_ID, name: "Other", slug: "other" },
+      ],
+      roles: [
+        { id: ADMIN_ROLE_ID, name: "admin", description: "Full access" },
+        { id: VIEWER_ROLE_ID, name: "viewer", description: "Read only" },
+      ],
+      role_access: [
+        { role_id: ADMIN_ROLE_ID, resource: PERMISSION_WILDCARD, action: PERMISSION_WILDCARD },
+        { role_id: VIEWER_ROLE_ID, resource: PERMISSION_WILDCARD, action: "read" },
+      ],
+      user_profile: [
+        {
+          id: ADMIN_USER_ID,
+          email: "admin@example.com",
+          first_name: "Ada",
+          last_name: "Admin",
+          role_id: ADMIN_ROLE_ID,
+          active_organization_id: DEFAULT_ORGANIZATION_ID,
+        },
+        {
+          id: VIEWER_USER_ID,
+          email: "viewer@example.com",
+          first_name: "Victor",
+          last_name: "Viewer",
+          role_id: VIEWER_ROLE_ID,
+          active_organization_id: DEFAULT_ORGANIZATION_ID,
+        },
+      ],
+      organization_members: [
+        { organization_id: DEFAULT_ORGANIZATION_ID, user_id: ADMIN_USER_ID, role_id: ADMIN_ROLE_ID },
+        { organization_id: DEFAULT_ORGANIZATION_ID, user_id: VIEWER_USER_ID, role_id: VIEWER_ROLE_ID },
+      ],
+    },
+  });
+
+  setDataAdapter(adapter);
+  return adapter;
+}
+
+/* ============================================================
+   Mock OpenID Connect provider
+============================================================ */
+
+export type MockOidcProvider = {
+  issuer: string;
+  // Stand in for the user approving the request at `authorizationUrl`; returns the code
+  authorize: (authorizationUrl: string, claims: Record<string, unknown>) => string;
+  close: () => Promise<void>;
+};
+
+/**
+ * Serve discovery and a token endpoint on a random local port. Codes are
+ * single use and check the PKCE verifier; ID tokens are unsigned.
+ */
+export async function startMockOidcProvider(clientId: string): Promise<MockOidcProvider> {
+  const codes = new Map<string, { claims: Record<string, unknown>; challenge: string; redirectUri: string }>();
+  let issuer = "";
+
+  const server = createServer(async (request, response) => {
+    const json = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.url === "/.well-known/openid-configuration") {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+      });
+    }
+
+    if (request.url === "/token" && request.method === "POST") {
+      let body = "";
+      for await (const chunk of request) body += chunk;
+      const form = new URLSearchParams(body);
+      const grant = codes.get(form.get("code") ?? "");
+      codes.delete(form.get("code") ?? "");
+
+      const verifier = form.get("code_verifier") ?? "";
+      if (
+        !grant ||
+        form.get("client_id") !== clientId ||
+        form.get("redirect_uri") !== grant.redirectUri ||
+        createHash("sha256").update(verifier).digest("base64url") !== grant.challenge
+      ) {
+        return json(400, { error: "invalid_grant" });
+      }
+
+      const encode = (part: unknown) => Buffer.from(JSON.stringify(part)).toString("base64url");
+      return json(200, {
+        access_token: "mock-access-token",
+        token_type: "Bearer",
+        id_token: `${encode({ alg: "none" })}.${encode(grant.claims)}.`,
+      });
+    }
+
+    json(404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    authorize(authorizationUrl, claims) {
+      const params = new URL(authorizationUrl).searchParams;
+      const code = crypto.randomUUID();
+      codes.set(code, {
+        claims: {
+          iss: issuer,
+          aud: params.get("client_id"),
+          exp: Math.floor(Date.now() / 1000) + 300,
+          nonce: params.get("nonce"),
+          ...claims,
+        },
+        challenge: params.get("code_challenge") ?? "",
+        redirectUri: params.get("redirect_uri") ?? "",
+      });
+      return code;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
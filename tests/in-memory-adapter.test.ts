@@ -0,0 +1,231 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { DEFAULT_ORGANIZATION_ID } from "@/modules/organizations/models/organization";
+import {
+  ADMIN_ROLE_ID,
+  ADMIN_USER_ID,
+  OTHER_ORGANIZATION_ID,
+  VIEWER_ROLE_ID,
+  VIEWER_USER_ID,
+  createTestDatabase,
+} from "./helpers";
+
+describe("in-memory adapter", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  describe("select", () => {
+    it("filters, orders, pages and counts", async () => {
+      const { data, count, error } = await db
+        .from("user_profile")
+        .select("id, email", { count: "exact" })
+        .ilike("email", "%EXAMPLE.com")
+        .order("email", { ascending: false })
+        .range(0, 0);
+
+      expect(error).toBeNull();
+      expect(count).toBe(2);
+      expect(data).toEqual([{ id: VIEWER_USER_ID, email: "viewer@example.com" }]);
+    });
+
+    it("returns only the count for head requests", async () => {
+      const { data, count } = await db.from("roles").select("*", { count: "exact", head: true });
+
+      expect(data).toBeNull();
+      expect(count).toBe(2);
+    });
+
+    it("embeds many-to-one and one-to-many relations", async () => {
+      const { data } = await db
+        .from("user_profile")
+        .select("email, roles(name, role_access(resource, action))")
+        .eq("id", ADMIN_USER_ID)
+        .single();
+
+      expect(data).toEqual({
+        email: "admin@example.com",
+        roles: { name: "admin", role_access: [{ resource: "*", action: "*" }] },
+      });
+    });
+
+    it("filters embedded rows and drops parents of empty !inner embeds", async () => {
+      await db.from("organization_members").insert({
+        organization_id: OTHER_ORGANIZATION_ID,
+        user_id: ADMIN_USER_ID,
+        role_id: ADMIN_ROLE_ID,
+      });
+
+      const { data } = await db
+        .from("user_profile")
+        .select("id, organization_members!inner(organization_id)")
+        .filter("organization_members.organization_id", "eq", OTHER_ORGANIZATION_ID);
+
+      expect(data).toEqual([
+        { id: ADMIN_USER_ID, organization_members: [{ organization_id: OTHER_ORGANIZATION_ID }] },
+      ]);
+    });
+
+    it("evaluates or() logic trees with quoted values and nested groups", async () => {
+      const { data } = await db
+        .from("user_profile")
+        .select("id")
+        .or(`email.ilike."%ada%",and(role_id.in.("${VIEWER_ROLE_ID}"),last_login.is.null)`)
+        .order("email");
+
+      expect(data).toEqual([{ id: VIEWER_USER_ID }]);
+    });
+
+    it("treats nulls as unknown for comparisons", async () => {
+      const { data } = await db.from("user_profile").select("id").neq("deleted_at", "2025-01-01");
+      const { data: notNull } = await db.from("user_profile").select("id").not("deleted_at", "is", null);
+
+      expect(data).toEqual([]);
+      expect(notNull).toEqual([]);
+    });
+
+    it("errors when single() does not match exactly one row", async () => {
+      const { data, error } = await db.from("roles").select("*").single();
+      const { data: missing, error: missingError } = await db
+        .from("roles")
+        .select("*")
+        .eq("name", "nobody")
+        .maybeSingle();
+
+      expect(data).toBeNull();
+      expect(error?.code).toBe("PGRST116");
+      expect(missing).toBeNull();
+      expect(missingError).toBeNull();
+    });
+  });
+
+  describe("writes", () => {
+    it("applies defaults and returns inserted rows", async () => {
+      const { data } = await db
+        .from("roles")
+        .insert({ name: "editor" })
+        .select("id, name, created_at")
+        .single();
+
+      expect(data?.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(data?.created_at).toBeTypeOf("string");
+    });
+
+    it("rejects duplicates with 23505 and leaves the table unchanged", async () => {
+      const { error } = await db.from("roles").insert([{ name: "editor" }, { name: "admin" }]);
+
+      expect(error?.code).toBe("23505");
+      expect(db.tables.roles).toHaveLength(2);
+    });
+
+    it("bumps updated_at on update", async () => {
+      const before = db.tables.roles.find((role) => role.id === ADMIN_ROLE_ID)!.updated_at;
+      const { data } = await db
+        .from("roles")
+        .update({ description: "Everything" })
+        .eq("id", ADMIN_ROLE_ID)
+        .select()
+        .single();
+
+      expect(data.description).toBe("Everything");
+      expect(Date.parse(data.updated_at)).toBeGreaterThan(Date.parse(before));
+    });
+
+    it("enforces foreign keys on insert and delete", async () => {
+      const { error: insertError } = await db
+        .from("user_profile")
+        .insert({ id: crypto.randomUUID(), email: "ghost@example.com", role_id: VIEWER_ROLE_ID });
+      const { error: deleteError } = await db.from("roles").delete().eq("id", VIEWER_ROLE_ID);
+
+      expect(insertError?.code).toBe("23503");
+      expect(deleteError?.code).toBe("23503");
+    });
+
+    it("cascades deletes to referencing rows", async () => {
+      await db.from("organizations").delete().eq("id", DEFAULT_ORGANIZATION_ID);
+
+      expect(db.tables.organization_members).toEqual([]);
+      expect(db.tables.user_profile.every((user) => user.active_organization_id === null)).toBe(true);
+    });
+
+    it("runs the membership trigger when a profile is inserted", async () => {
+      const { data: created } = await db.auth.admin.createUser({ email: "new@example.com" });
+      await db.from("user_profile").insert({ id: created.user!.id, email: "new@example.com", role_id: VIEWER_ROLE_ID });
+
+      expect(db.tables.organization_members).toContainEqual(
+        expect.objectContaining({ organization_id: DEFAULT_ORGANIZATION_ID, user_id: created.user!.id })
+      );
+    });
+
+    it("doesn't let users give themselves a role or organization", async () => {
+      db.signIn(VIEWER_USER_ID);
+
+      const { error } = await db
+        .asUser()
+        .from("user_profile")
+        .update({ role_id: ADMIN_ROLE_ID, active_organization_id: OTHER_ORGANIZATION_ID })
+        .eq("id", VIEWER_USER_ID);
+      const renamed = await db.asUser().from("user_profile").update({ first_name: "Vic" }).eq("id", VIEWER_USER_ID);
+
+      expect(error?.code).toBe("42501");
+      expect(renamed.error).toBeNull();
+      expect(db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)).toMatchObject({
+        first_name: "Vic",
+        role_id: VIEWER_ROLE_ID,
+        active_organization_id: DEFAULT_ORGANIZATION_ID,
+      });
+      expect(db.tables.organization_members.filter((member) => member.user_id === VIEWER_USER_ID)).toEqual([
+        expect.objectContaining({ organization_id: DEFAULT_ORGANIZATION_ID, role_id: VIEWER_ROLE_ID }),
+      ]);
+    });
+
+    it("upserts on the conflict columns", async () => {
+      await db
+        .from("organization_members")
+        .upsert(
+          { organization_id: DEFAULT_ORGANIZATION_ID, user_id: VIEWER_USER_ID, role_id: ADMIN_ROLE_ID },
+          { onConflict: "organization_id,user_id" }
+        );
+
+      const memberships = db.tables.organization_members.filter((member) => member.user_id === VIEWER_USER_ID);
+      expect(memberships).toHaveLength(1);
+      expect(memberships[0].role_id).toBe(ADMIN_ROLE_ID);
+    });
+  });
+
+  describe("rpc, storage and auth", () => {
+    it("calls stubs and reports missing functions", async () => {
+      db.stubRpc("current_organization_id", () => DEFAULT_ORGANIZATION_ID);
+
+      expect(await db.rpc("current_organization_id")).toMatchObject({ data: DEFAULT_ORGANIZATION_ID, error: null });
+      expect((await db.rpc("missing_function")).error?.code).toBe("PGRST202");
+    });
+
+    it("fails injected operations the given number of times", async () => {
+      db.injectFailure({ table: "roles", action: "select", error: { code: "08006" } });
+
+      expect((await db.from("roles").select()).error?.code).toBe("08006");
+      expect((await db.from("roles").select()).error).toBeNull();
+    });
+
+    it("stores, lists and removes files", async () => {
+      const bucket = db.storage.from("avatars");
+      await bucket.upload("a.png", "image");
+
+      expect((await bucket.upload("a.png", "again")).error).not.toBeNull();
+      expect(bucket.getPublicUrl("a.png").data.publicUrl).toContain("avatars/a.png");
+      await bucket.remove(["a.png"]);
+      expect(db.files.size).toBe(0);
+    });
+
+    it("resolves the signed-in user and refuses to delete users with a profile", async () => {
+      expect((await db.auth.getUser()).data.user).toBeNull();
+      db.signIn(ADMIN_USER_ID);
+      expect((await db.auth.getUser()).data.user?.email).toBe("admin@example.com");
+
+      expect((await db.auth.admin.deleteUser(ADMIN_USER_ID)).error).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { authorizeRequest } from "@/lib/with-auth";
+import { generateRecoveryCodes, getRecoveryCodeCount, signInWithRecoveryCode } from "@/lib/actions/mfa-actions";
+import { resetUserMfa } from "@/lib/actions/user-actions";
+import { RECOVERY_CODE_COUNT } from "@/lib/mfa-recovery";
+import { ADMIN_USER_ID, OTHER_ORGANIZATION_ID, VIEWER_ROLE_ID, VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+describe("MFA", () => {
+  let db: InMemoryAdapter;
+
+  const factorCount = async (userId: string) =>
+    (await db.auth.admin.mfa.listFactors({ userId })).data?.factors.length;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  describe("authorizeRequest", () => {
+    it("requires the challenge from users with an authenticator", async () => {
+      db.addFactor(VIEWER_USER_ID);
+      db.signIn(VIEWER_USER_ID);
+
+      const pending = await authorizeRequest();
+      db.signIn(VIEWER_USER_ID, { aal: "aal2" });
+      const verified = await authorizeRequest();
+
+      expect(pending).toMatchObject({
+        success: false,
+        error: { code: "MFA_REQUIRED", status: 403, details: { step: "challenge" } },
+      });
+      expect(verified.success).toBe(true);
+    });
+
+    it("requires enrollment when the role requires MFA", async () => {
+      db.tables.roles.find((role) => role.id === VIEWER_ROLE_ID)!.mfa_required = true;
+      db.signIn(VIEWER_USER_ID);
+
+      const result = await authorizeRequest();
+
+      expect(result).toMatchObject({ success: false, error: { code: "MFA_REQUIRED", details: { step: "enroll" } } });
+      expect((await authorizeRequest({ allowPendingMfa: true })).success).toBe(true);
+    });
+
+    it("ignores unverified factors", async () => {
+      db.addFactor(VIEWER_USER_ID, { verified: false });
+      db.signIn(VIEWER_USER_ID);
+
+      expect((await authorizeRequest()).success).toBe(true);
+    });
+  });
+
+  describe("recovery codes", () => {
+    it("are only issued to sessions that completed the challenge", async () => {
+      db.addFactor(VIEWER_USER_ID);
+      db.signIn(VIEWER_USER_ID);
+      const pending = await generateRecoveryCodes();
+
+      db.signIn(ADMIN_USER_ID);
+      const withoutFactor = await generateRecoveryCodes();
+
+      expect(pending).toMatchObject({ success: false, code: "MFA_REQUIRED" });
+      expect(withoutFactor.success).toBe(false);
+      expect(db.tables.mfa_recovery_codes).toHaveLength(0);
+    });
+
+    it("are stored hashed and replace earlier codes", async () => {
+      db.addFactor(VIEWER_USER_ID);
+      db.signIn(VIEWER_USER_ID, { aal: "aal2" });
+
+      const first = await generateRecoveryCodes();
+      const second = await generateRecoveryCodes();
+
+      expect(second.codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(second.codes).size).toBe(RECOVERY_CODE_COUNT);
+      expect(db.tables.mfa_recovery_codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(db.tables.mfa_recovery_codes.map((row) => row.code_hash)).not.toContain(second.codes![0]);
+      expect(await getRecoveryCodeCount()).toEqual({ success: true, count: RECOVERY_CODE_COUNT });
+
+      db.signIn(VIEWER_USER_ID);
+      expect(await signInWithRecoveryCode(first.codes![0])).toMatchObject({ success: false });
+    });
+
+    it("stand in for the authenticator once each", async () => {
+      db.addFactor(VIEWER_USER_ID);
+      db.signIn(VIEWER_USER_ID, { aal: "aal2" });
+      const { codes } = await generateRecoveryCodes();
+      db.signIn(VIEWER_USER_ID);
+
+      const wrong = await signInWithRecoveryCode("aaaaa-aaaaa");
+      const redeemed = await signInWithRecoveryCode(` ${codes![3].toUpperCase().replace("-", "")} `);
+
+      expect(wrong).toMatchObject({ success: false, error: "Invalid or already used recovery code" });
+      expect(redeemed).toEqual({ success: true });
+      expect(await factorCount(VIEWER_USER_ID)).toBe(0);
+      expect(db.tables.mfa_recovery_codes).toHaveLength(0);
+      expect((await authorizeRequest()).success).toBe(true);
+    });
+  });
+
+  describe("resetUserMfa", () => {
+    it("removes another member's factors and recovery codes", async () => {
+      db.addFactor(VIEWER_USER_ID);
+      db.signIn(VIEWER_USER_ID, { aal: "aal2" });
+      await generateRecoveryCodes();
+      db.signIn(ADMIN_USER_ID);
+
+      const result = await resetUserMfa(VIEWER_USER_ID);
+
+      expect(result).toEqual({ success: true, removed: 1 });
+      expect(await factorCount(VIEWER_USER_ID)).toBe(0);
+      expect(db.tables.mfa_recovery_codes).toHaveLength(0);
+    });
+
+    it("requires users:update and membership of the admin's organization", async () => {
+      db.addFactor(ADMIN_USER_ID);
+      db.signIn(VIEWER_USER_ID);
+      const viewer = await resetUserMfa(ADMIN_USER_ID);
+
+      db.tables.organization_members = db.tables.organization_members.filter((row) => row.user_id !== VIEWER_USER_ID);
+      db.tables.organization_members.push({ organization_id: OTHER_ORGANIZATION_ID, user_id: VIEWER_USER_ID });
+      db.addFactor(VIEWER_USER_ID);
+      db.signIn(ADMIN_USER_ID, { aal: "aal2" });
+      const otherOrganization = await resetUserMfa(VIEWER_USER_ID);
+
+      expect(viewer).toMatchObject({ success: false, code: "FORBIDDEN" });
+      expect(otherOrganization).toEqual({ success: false, error: "User not found" });
+      expect(await factorCount(ADMIN_USER_ID)).toBe(1);
+      expect(await factorCount(VIEWER_USER_ID)).toBe(1);
+    });
+  });
+});
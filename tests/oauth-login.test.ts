@@ -0,0 +1,233 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { GET as startOidc } from "@/app/api/auth/oidc/route";
+import { GET as oidcCallback } from "@/app/api/auth/oidc/callback/route";
+import { OIDC_REQUEST_COOKIE } from "@/lib/oidc";
+import { provisionOAuthUser } from "@/lib/oauth-login";
+import { softDeleteUser } from "@/lib/user-deletion";
+import { getLinkedIdentities, unlinkOidcIdentity } from "@/lib/actions/identity-actions";
+import { DEFAULT_ORGANIZATION_ID } from "@/modules/organizations/models/organization";
+import {
+  ADMIN_USER_ID,
+  OTHER_ORGANIZATION_ID,
+  VIEWER_USER_ID,
+  createTestDatabase,
+  startMockOidcProvider,
+  type MockOidcProvider,
+} from "./helpers";
+
+const APP_URL = "http://localhost:3000";
+const CLIENT_ID = "kaizen-test";
+const USER_ROLE_ID = "f5dd06e9-b0bd-4c6f-a6ec-c7d6a0cd1d29";
+
+/**
+ * Run the whole browser round trip: start, approve at the provider, callback
+ */
+async function signInThroughProvider(
+  provider: MockOidcProvider,
+  claims: Record<string, unknown>,
+  query = "next=/dashboard"
+) {
+  const start = await startOidc(new NextRequest(`${APP_URL}/api/auth/oidc?${query}`));
+  const authorizationUrl = start.headers.get("location") ?? "";
+  const pending = start.cookies.get(OIDC_REQUEST_COOKIE)?.value ?? "";
+
+  const code = provider.authorize(authorizationUrl, claims);
+  const state = new URL(authorizationUrl).searchParams.get("state");
+  const callback = await oidcCallback(
+    new NextRequest(`${APP_URL}/api/auth/oidc/callback?code=${code}&state=${state}`, {
+      headers: { cookie: `${OIDC_REQUEST_COOKIE}=${encodeURIComponent(pending)}` },
+    })
+  );
+  return callback.headers.get("location");
+}
+
+describe("OAuth sign-in", () => {
+  let db: InMemoryAdapter;
+  let provider: MockOidcProvider;
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider(CLIENT_ID);
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    db.tables.roles.push({ id: USER_ROLE_ID, name: "user", description: "Default role", mfa_required: false });
+    vi.stubEnv("OIDC_ISSUER", provider.issuer);
+    vi.stubEnv("OIDC_CLIENT_ID", CLIENT_ID);
+    vi.stubEnv("OIDC_CLIENT_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("OpenID Connect", () => {
+    it("creates new users with the default role and signs them in", async () => {
+      const location = await signInThroughProvider(provider, {
+        sub: "oidc-new",
+        email: "Nina@Acme.test",
+        email_verified: true,
+        given_name: "Nina",
+        family_name: "Newman",
+      });
+
+      const profile = db.tables.user_profile.find((user) => user.email === "nina@acme.test");
+      expect(location).toBe(`${APP_URL}/dashboard`);
+      expect(profile).toMatchObject({
+        first_name: "Nina",
+        last_name: "Newman",
+        role_id: USER_ROLE_ID,
+        active_organization_id: DEFAULT_ORGANIZATION_ID,
+      });
+      expect(db.tables.user_identities).toEqual([
+        expect.objectContaining({ user_id: profile?.id, provider: "oidc", issuer: provider.issuer, subject: "oidc-new" }),
+      ]);
+      expect((await db.auth.getUser()).data.user?.id).toBe(profile?.id);
+    });
+
+    it("puts new users in the organization that verified their email domain for auto-join", async () => {
+      db.tables.organization_domains.push(
+        { organization_id: OTHER_ORGANIZATION_ID, domain: "acme.test", verified_at: new Date().toISOString(), auto_join: true },
+        { organization_id: OTHER_ORGANIZATION_ID, domain: "unverified.test", verified_at: null, auto_join: true }
+      );
+
+      await signInThroughProvider(provider, { sub: "oidc-acme", email: "ann@acme.test", email_verified: true });
+      db.signIn(null);
+      await signInThroughProvider(provider, { sub: "oidc-other", email: "otto@unverified.test", email_verified: true });
+
+      const profile = db.tables.user_profile.find((user) => user.email === "ann@acme.test");
+      expect(profile?.active_organization_id).toBe(OTHER_ORGANIZATION_ID);
+      expect(db.tables.organization_members).toContainEqual(
+        expect.objectContaining({ organization_id: OTHER_ORGANIZATION_ID, user_id: profile?.id })
+      );
+      expect(db.tables.user_profile.find((user) => user.email === "otto@unverified.test")?.active_organization_id)
+        .toBe(DEFAULT_ORGANIZATION_ID);
+    });
+
+    it("matches existing users by verified email, then by identity", async () => {
+      await signInThroughProvider(provider, { sub: "oidc-viewer", email: "viewer@example.com", email_verified: true });
+      db.signIn(null);
+      await signInThroughProvider(provider, { sub: "oidc-viewer", email: "victor@elsewhere.test" });
+
+      expect(db.tables.user_profile).toHaveLength(2);
+      expect(db.tables.user_identities).toHaveLength(1);
+      expect(db.tables.user_identities[0]).toMatchObject({ user_id: VIEWER_USER_ID, email: "victor@elsewhere.test" });
+      expect((await db.auth.getUser()).data.user?.id).toBe(VIEWER_USER_ID);
+    });
+
+    it("refuses unverified emails, disabled users and forged state", async () => {
+      const unverified = await signInThroughProvider(provider, {
+        sub: "oidc-unverified",
+        email: "admin@example.com",
+        email_verified: false,
+      });
+      const unstated = await signInThroughProvider(provider, { sub: "oidc-unstated", email: "admin@example.com" });
+
+      db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)!.is_active = false;
+      const disabled = await signInThroughProvider(provider, {
+        sub: "oidc-viewer",
+        email: "viewer@example.com",
+        email_verified: true,
+      });
+
+      const forged = await oidcCallback(
+        new NextRequest(`${APP_URL}/api/auth/oidc/callback?code=anything&state=forged`)
+      );
+
+      expect(unverified).toBe(`${APP_URL}/auth/login?error=oauth_failed`);
+      expect(unstated).toBe(`${APP_URL}/auth/login?error=oauth_failed`);
+      expect(disabled).toBe(`${APP_URL}/auth/login?error=oauth_failed`);
+      expect(forged.headers.get("location")).toBe(`${APP_URL}/auth/login?error=oauth_failed`);
+      expect((await db.auth.getUser()).data.user).toBeNull();
+    });
+
+    it("doesn't link accounts to deleted users", async () => {
+      await softDeleteUser(VIEWER_USER_ID);
+
+      const location = await signInThroughProvider(provider, {
+        sub: "oidc-viewer",
+        email: "viewer@example.com",
+        email_verified: true,
+      });
+
+      expect(location).toBe(`${APP_URL}/auth/login?error=oauth_failed`);
+      expect(db.tables.user_identities).toEqual([]);
+      expect((await db.auth.getUser()).data.user).toBeNull();
+    });
+
+    it("links an account to the signed-in user once", async () => {
+      db.signIn(ADMIN_USER_ID);
+      const linked = await signInThroughProvider(
+        provider,
+        { sub: "oidc-admin", email: "ada@corp.test" },
+        "next=/settings&link=1"
+      );
+
+      db.signIn(VIEWER_USER_ID);
+      const taken = await signInThroughProvider(
+        provider,
+        { sub: "oidc-admin", email: "ada@corp.test" },
+        "next=/settings&link=1"
+      );
+
+      expect(linked).toBe(`${APP_URL}/settings`);
+      expect(taken).toBe(`${APP_URL}/settings?error=link_failed`);
+      expect(db.tables.user_identities).toEqual([expect.objectContaining({ user_id: ADMIN_USER_ID })]);
+    });
+  });
+
+  it("lists and unlinks only the current user's identities", async () => {
+    db.signIn(ADMIN_USER_ID);
+    await signInThroughProvider(provider, { sub: "oidc-admin", email: "ada@corp.test" }, "next=/settings&link=1");
+    const identityId = db.tables.user_identities[0].id;
+
+    db.signIn(VIEWER_USER_ID);
+    const othersList = await getLinkedIdentities();
+    const othersUnlink = await unlinkOidcIdentity(identityId);
+
+    db.signIn(ADMIN_USER_ID);
+    const ownList = await getLinkedIdentities();
+    const ownUnlink = await unlinkOidcIdentity(identityId);
+
+    expect(othersList.identities).toEqual([]);
+    expect(othersUnlink.success).toBe(false);
+    expect(ownList.identities).toEqual([expect.objectContaining({ id: identityId, email: "ada@corp.test" })]);
+    expect(ownUnlink).toEqual({ success: true });
+    expect(db.tables.user_identities).toHaveLength(0);
+  });
+
+  describe("Supabase providers", () => {
+    it("creates the profile on the first sign-in only", async () => {
+      const { data } = await db.auth.admin.createUser({
+        email: "grace@navy.test",
+        email_confirm: true,
+        user_metadata: { full_name: "Grace Brewster Hopper" },
+      });
+
+      const first = await provisionOAuthUser(data.user!);
+      const second = await provisionOAuthUser(data.user!);
+
+      expect(first).toEqual({ success: true, userId: data.user!.id, created: true });
+      expect(second).toEqual({ success: true, userId: data.user!.id, created: false });
+      expect(db.tables.user_profile.find((user) => user.id === data.user!.id)).toMatchObject({
+        first_name: "Grace",
+        last_name: "Brewster Hopper",
+        role_id: USER_ROLE_ID,
+      });
+    });
+
+    it("refuses disabled users", async () => {
+      db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)!.is_active = false;
+
+      const result = await provisionOAuthUser({ id: VIEWER_USER_ID, email: "viewer@example.com" });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import dns from "node:dns";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import {
+  addOrganizationDomain,
+  getOrganizationDomains,
+  removeOrganizationDomain,
+  setDomainAutoJoin,
+  verifyOrganizationDomain,
+} from "@/lib/actions/domain-actions";
+import { normalizeDomain } from "@/lib/domain-verification";
+import { ADMIN_USER_ID, OTHER_ORGANIZATION_ID, VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+describe("organization domains", () => {
+  let db: InMemoryAdapter;
+  // TXT records by name, as DNS would answer them
+  let txtRecords: Record<string, string[][]>;
+
+  /**
+   * Claim a domain as the signed-in admin
+   */
+  async function claim(domain: string) {
+    const result = await addOrganizationDomain(domain);
+    expect(result).toMatchObject({ success: true });
+    return "domain" in result ? result.domain! : null!;
+  }
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    db.signIn(ADMIN_USER_ID);
+    txtRecords = {};
+    vi.spyOn(dns.promises, "resolveTxt").mockImplementation(async (name: string) => {
+      if (!txtRecords[name]) {
+        throw Object.assign(new Error(`queryTxt ENOTFOUND ${name}`), { code: dns.NOTFOUND });
+      }
+      return txtRecords[name];
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("normalizes domains as typed", () => {
+    expect(normalizeDomain(" @Example.COM. ")).toBe("example.com");
+    expect(normalizeDomain("mail.example.co.uk")).toBe("mail.example.co.uk");
+    expect(normalizeDomain("localhost")).toBeNull();
+    expect(normalizeDomain("not a domain")).toBeNull();
+  });
+
+  it("claims a domain with a TXT record to publish", async () => {
+    const domain = await claim("@Acme.test");
+
+    expect(domain).toMatchObject({ domain: "acme.test", verified_at: null, auto_join: false });
+    expect(domain.record.name).toBe("_kaizen-verification.acme.test");
+    expect(domain.record.value).toMatch(/^kaizen-verification=[0-9a-f]{32}$/);
+    expect(domain).not.toHaveProperty("verification_token");
+  });
+
+  it("refuses public email providers and things that aren't domains", async () => {
+    expect(await addOrganizationDomain("gmail.com")).toMatchObject({
+      success: false,
+      error: "gmail.com is a public email provider and can't be claimed",
+    });
+    expect(await addOrganizationDomain("acme")).toMatchObject({ success: false });
+    expect(db.tables.organization_domains).toEqual([]);
+  });
+
+  it("verifies a domain once its TXT record is published", async () => {
+    const domain = await claim("acme.test");
+
+    const early = await verifyOrganizationDomain(domain.id);
+    expect(early).toMatchObject({ success: false });
+    expect(early.error).toContain("_kaizen-verification.acme.test");
+
+    // Long values can come back split into chunks
+    const value = domain.record.value;
+    txtRecords[domain.record.name] = [["v=spf1 -all"], [value.slice(0, 20), value.slice(20)]];
+
+    const verified = await verifyOrganizationDomain(domain.id);
+    expect(verified).toMatchObject({ success: true, domain: { verified_at: expect.any(String) } });
+  });
+
+  it("won't verify a domain another organization already verified", async () => {
+    db.tables.organization_domains.push({
+      organization_id: OTHER_ORGANIZATION_ID,
+      domain: "acme.test",
+      verification_token: "theirs",
+      verified_at: new Date().toISOString(),
+      auto_join: true,
+    });
+    const domain = await claim("acme.test");
+    txtRecords[domain.record.name] = [[domain.record.value]];
+
+    expect(await verifyOrganizationDomain(domain.id)).toMatchObject({
+      success: false,
+      error: "acme.test is already verified by another organization",
+    });
+  });
+
+  it("turns auto-join on and removes domains", async () => {
+    const domain = await claim("acme.test");
+
+    expect(await setDomainAutoJoin(domain.id, true)).toMatchObject({ success: true, domain: { auto_join: true } });
+    expect(await removeOrganizationDomain(domain.id)).toEqual({ success: true });
+    expect(await getOrganizationDomains()).toEqual({ success: true, domains: [] });
+  });
+
+  it("only reaches the active organization's domains", async () => {
+    db.tables.organization_domains.push({
+      id: "f6ddf6e9-0000-4000-8000-000000000001",
+      organization_id: OTHER_ORGANIZATION_ID,
+      domain: "other.test",
+      verification_token: "theirs",
+      verified_at: null,
+      auto_join: false,
+    });
+
+    expect(await getOrganizationDomains()).toEqual({ success: true, domains: [] });
+    expect(await setDomainAutoJoin("f6ddf6e9-0000-4000-8000-000000000001", true)).toMatchObject({
+      success: false,
+      error: "Domain not found",
+    });
+    expect(await removeOrganizationDomain("f6ddf6e9-0000-4000-8000-000000000001")).toMatchObject({
+      success: false,
+      error: "Domain not found",
+    });
+    expect(db.tables.organization_domains).toHaveLength(1);
+  });
+
+  it("requires settings:update", async () => {
+    db.signIn(VIEWER_USER_ID);
+
+    expect(await addOrganizationDomain("acme.test")).toMatchObject({ success: false, code: "FORBIDDEN" });
+    expect(await getOrganizationDomains()).toMatchObject({ success: false, code: "FORBIDDEN" });
+  });
+});
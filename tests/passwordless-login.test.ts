@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { requestLoginCode, verifyLoginCode } from "@/lib/actions/passwordless-actions";
+import { verifyPasswordlessLogin } from "@/lib/passwordless-login";
+import { emailService } from "@/lib/email-service";
+import { settingsServiceUnified } from "@/modules/settings";
+import { VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+vi.mock("@/lib/email-service", () => ({
+  emailService: {
+    sendMagicLinkEmail: vi.fn().mockResolvedValue({ success: true }),
+    sendLoginCodeEmail: vi.fn().mockResolvedValue({ success: true }),
+  },
+}));
+
+const sendMagicLinkEmail = vi.mocked(emailService.sendMagicLinkEmail);
+const sendLoginCodeEmail = vi.mocked(emailService.sendLoginCodeEmail);
+
+/**
+ * Switch passwordless methods on for the default organization
+ */
+async function enableMethods(changes: { magic_link_enabled?: boolean; email_otp_enabled?: boolean }) {
+  const result = await settingsServiceUnified.updateSettingsById(changes, { environment: "admin" });
+  expect(result.success).toBe(true);
+}
+
+describe("passwordless login", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    sendMagicLinkEmail.mockClear();
+    sendLoginCodeEmail.mockClear();
+  });
+
+  it("sends nothing while the organization has the method switched off", async () => {
+    const result = await requestLoginCode("viewer@example.com", "magic_link");
+
+    expect(result.success).toBe(true);
+    expect(sendMagicLinkEmail).not.toHaveBeenCalled();
+  });
+
+  it("gives the same answer for unknown and disabled accounts", async () => {
+    await enableMethods({ email_otp_enabled: true });
+    db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)!.is_active = false;
+
+    const known = await requestLoginCode("admin@example.com", "email_otp");
+    const unknown = await requestLoginCode("nobody@example.com", "email_otp");
+    const disabled = await requestLoginCode("viewer@example.com", "email_otp");
+
+    expect(unknown).toEqual(known);
+    expect(disabled).toEqual(known);
+    expect(sendLoginCodeEmail).toHaveBeenCalledTimes(1);
+    expect(sendLoginCodeEmail.mock.calls[0][0]).toBe("admin@example.com");
+  });
+
+  it("signs in with the emailed code once", async () => {
+    await enableMethods({ email_otp_enabled: true });
+    await requestLoginCode("Viewer@Example.com", "email_otp");
+    const code = sendLoginCodeEmail.mock.lastCall?.[1] ?? "";
+
+    const wrong = await verifyLoginCode("viewer@example.com", code === "000000" ? "111111" : "000000");
+    const right = await verifyLoginCode("viewer@example.com", code);
+    const reused = await verifyLoginCode("viewer@example.com", code);
+
+    expect(code).toMatch(/^\d{6}$/);
+    expect(wrong.success).toBe(false);
+    expect(right).toEqual({ success: true });
+    expect(reused.success).toBe(false);
+    expect((await db.auth.getUser()).data.user?.id).toBe(VIEWER_USER_ID);
+  });
+
+  it("signs in with the token from a magic link", async () => {
+    await enableMethods({ magic_link_enabled: true });
+    await requestLoginCode("viewer@example.com", "magic_link");
+    const link = new URL(sendMagicLinkEmail.mock.lastCall?.[1] ?? "");
+
+    expect(link.pathname).toBe("/api/auth/callback");
+    expect(link.searchParams.get("type")).toBe("magiclink");
+
+    const result = await verifyPasswordlessLogin({ tokenHash: link.searchParams.get("token_hash") ?? "" });
+
+    expect(result).toEqual({ success: true, userId: VIEWER_USER_ID });
+  });
+
+  it("signs out accounts disabled after the code was sent", async () => {
+    await enableMethods({ email_otp_enabled: true });
+    await requestLoginCode("viewer@example.com", "email_otp");
+    db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)!.is_active = false;
+
+    const result = await verifyLoginCode("viewer@example.com", sendLoginCodeEmail.mock.lastCall?.[1] ?? "");
+
+    expect(result.success).toBe(false);
+    expect((await db.auth.getUser()).data.user).toBeNull();
+  });
+
+  it("stops sending after five requests for an address in the window", async () => {
+    await enableMethods({ magic_link_enabled: true });
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await requestLoginCode("viewer@example.com", "magic_link")).success).toBe(true);
+    }
+    const limited = await requestLoginCode("viewer@example.com", "magic_link");
+
+    expect(limited).toMatchObject({ success: false, code: "RATE_LIMITED" });
+    expect(sendMagicLinkEmail).toHaveBeenCalledTimes(5);
+    expect(db.tables.login_code_requests).toHaveLength(6);
+  });
+});
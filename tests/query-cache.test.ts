@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { clearQueryCache } from "@/lib/query-cache";
+import { baseService } from "@/lib/BaseService";
+import { VIEWER_ROLE_ID, VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+const PROFILE_SELECT = "*, roles(name)";
+
+describe("query cache", () => {
+  let db: InMemoryAdapter;
+  let selects: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    clearQueryCache();
+
+    // Count the queries that actually reach the database
+    selects = vi.fn();
+    const from = db.from.bind(db);
+    db.from = ((table: string) => {
+      const query = from(table);
+      const select = query.select.bind(query);
+      query.select = ((...args: Parameters<typeof select>) => {
+        selects(table);
+        return select(...args);
+      }) as typeof select;
+      return query;
+    }) as typeof db.from;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const readProfile = () =>
+    baseService.readById<"user_profile", { first_name: string | null; roles: { name: string } | null }>(
+      "user_profile",
+      VIEWER_USER_ID,
+      { select: PROFILE_SELECT, cache: {} }
+    );
+
+  it("shares one query between concurrent identical reads", async () => {
+    const [first, second] = await Promise.all([readProfile(), readProfile()]);
+
+    expect(first).toBe(second);
+    expect(selects).toHaveBeenCalledTimes(1);
+  });
+
+  it("only keeps results on the server while they are in flight", async () => {
+    await readProfile();
+    await readProfile();
+
+    expect(selects).toHaveBeenCalledTimes(2);
+  });
+
+  describe("in the browser", () => {
+    beforeEach(() => {
+      vi.stubGlobal("window", {});
+    });
+
+    it("serves repeated reads until the TTL runs out", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        await readProfile();
+        await readProfile();
+        expect(selects).toHaveBeenCalledTimes(1);
+
+        vi.setSystemTime(Date.now() + 31_000);
+        await readProfile();
+        expect(selects).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("drops entries when their table or an embedded table is written", async () => {
+      await readProfile();
+
+      await baseService.update("user_profile", VIEWER_USER_ID, { first_name: "Vic" });
+      expect((await readProfile()).data?.first_name).toBe("Vic");
+
+      await baseService.update("roles", VIEWER_ROLE_ID, { name: "watcher" });
+      expect((await readProfile()).data?.roles?.name).toBe("watcher");
+    });
+
+    it("drops cached function results when the tables they read are written", async () => {
+      db.stubRpc("count_roles", (_params, adapter) => adapter.tables.roles.length);
+      const countRoles = () => baseService.callFunction<number>("count_roles", {}, { cache: { tables: ["roles"] } });
+
+      expect((await countRoles()).data).toBe(2);
+      await baseService.create("roles", { name: "editor" });
+
+      expect((await countRoles()).data).toBe(3);
+    });
+
+    it("never stores failures", async () => {
+      const missingId = crypto.randomUUID();
+      const missing = () => baseService.readById("roles", missingId, { cache: {} });
+
+      expect((await missing()).success).toBe(false);
+      await missing();
+
+      expect(selects).toHaveBeenCalledTimes(2);
+    });
+  });
+});
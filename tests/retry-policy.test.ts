@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { classifyError, retry } from "@/lib/retry-policy";
+import { baseService } from "@/lib/BaseService";
+import { VIEWER_ROLE_ID, createTestDatabase } from "./helpers";
+
+describe("retry policy", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("classifies connection, timeout and 5xx errors as transient", () => {
+    expect(classifyError({ code: "08006" })).toBe("transient");
+    expect(classifyError({ code: "40001" })).toBe("transient");
+    expect(classifyError({ status: 503 })).toBe("transient");
+    expect(classifyError(new TypeError("fetch failed"))).toBe("transient");
+
+    expect(classifyError({ code: "23505" })).toBe("permanent");
+    expect(classifyError({ code: "42501", message: "network policy" })).toBe("permanent");
+    expect(classifyError({ code: "PGRST116" })).toBe("permanent");
+  });
+
+  it("stops retrying when the delay budget is spent", async () => {
+    // Always wait the full cap: 10ms per retry
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const operation = vi.fn().mockRejectedValue({ code: "08006" });
+
+    await expect(
+      retry(operation, "test", { retries: 10, baseDelayMs: 10, maxDelayMs: 10, budgetMs: 25 })
+    ).rejects.toMatchObject({ code: "08006" });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  describe("in BaseService", () => {
+    let db: InMemoryAdapter;
+
+    beforeEach(() => {
+      db = createTestDatabase();
+    });
+
+    it("retries transient failures and reports them in meta.retry", async () => {
+      db.injectFailure({ table: "roles", action: "select", error: { code: "08006" } });
+
+      const result = await baseService.readAll("roles");
+
+      expect(result.success).toBe(true);
+      expect(result.meta?.retry).toMatchObject({ attempts: 2, retries: 1, lastErrorCode: "08006" });
+    });
+
+    it("fails permanent errors without retrying", async () => {
+      const result = await baseService.create("roles", { name: "admin" });
+
+      expect(result.error?.code).toBe("23505");
+      expect(result.meta?.retry).toMatchObject({ attempts: 1, retries: 0 });
+    });
+
+    it("returns the row when a retried insert had already landed", async () => {
+      // The first insert is written, but its response is lost
+      const from = db.from.bind(db);
+      let lost = false;
+      db.from = ((table: string) => {
+        const query = from(table);
+        if (table !== "roles" || lost) return query;
+        const insert = query.insert.bind(query);
+        query.insert = ((values: Parameters<typeof insert>[0]) => {
+          lost = true;
+          const written = insert(values).select().single();
+          const response: any = {
+            select: () => response,
+            single: () => response,
+            then: (resolve: any, reject: any) =>
+              written
+                .then(() => ({ data: null, error: { code: "08006", message: "connection failure" } }))
+                .then(resolve, reject),
+          };
+          return response;
+        }) as typeof insert;
+        return query;
+      }) as typeof db.from;
+
+      const result = await baseService.create("roles", { name: "editor" });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.name).toBe("editor");
+      expect(db.tables.roles.filter((role) => role.name === "editor")).toHaveLength(1);
+    });
+
+    it("doesn't retry a conditional update whose write landed", async () => {
+      const loaded = await baseService.readById("roles", VIEWER_ROLE_ID);
+      db.injectFailure({ table: "roles", action: "update", error: { code: "08006" }, afterWrite: true });
+
+      const result = await baseService.update(
+        "roles",
+        VIEWER_ROLE_ID,
+        { description: "Looks around" },
+        { expectedUpdatedAt: loaded.data?.updated_at }
+      );
+
+      expect(result.error?.code).not.toBe("CONFLICT");
+      expect(result.meta?.retry).toMatchObject({ attempts: 1, lastErrorCode: "08006" });
+      expect(db.tables.roles.find((role) => role.id === VIEWER_ROLE_ID)?.description).toBe("Looks around");
+    });
+
+    it("opens the table's circuit after repeated transient failures", async () => {
+      db.injectFailure({ table: "roles", action: "select", error: { code: "08006" }, times: 5 });
+
+      await baseService.readAll("roles");
+      const second = await baseService.readAll("roles");
+      const third = await baseService.readAll("roles");
+
+      expect(second.meta?.retry?.circuit).toBe("open");
+      expect(third.error?.code).toBe("CIRCUIT_OPEN");
+      expect(third.meta?.retry?.attempts).toBe(0);
+      expect((await baseService.readAll("user_profile")).success).toBe(true);
+    });
+  });
+});
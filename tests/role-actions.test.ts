@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { deleteRole } from "@/lib/actions/role-actions";
+import { ADMIN_ROLE_ID, ADMIN_USER_ID, VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+const UNUSED_ROLE_ID = "0c4b7a5e-2d1f-4e8a-9b3c-6f5d4e3c2b1a";
+
+describe("role actions", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    db.tables.roles.push({ id: UNUSED_ROLE_ID, name: "unused", description: "Nobody has it" });
+    db.tables.role_access.push({ role_id: UNUSED_ROLE_ID, resource: "users", action: "read" });
+  });
+
+  it("requires roles:delete to delete a role", async () => {
+    const signedOut = await deleteRole(UNUSED_ROLE_ID);
+    db.signIn(VIEWER_USER_ID);
+    const viewer = await deleteRole(UNUSED_ROLE_ID);
+
+    expect(signedOut).toMatchObject({ success: false, code: "UNAUTHORIZED" });
+    expect(viewer).toMatchObject({ success: false, code: "FORBIDDEN" });
+    expect(db.tables.roles.some((role) => role.id === UNUSED_ROLE_ID)).toBe(true);
+  });
+
+  it("deletes unassigned roles for admins and keeps assigned ones", async () => {
+    db.signIn(ADMIN_USER_ID);
+
+    const assigned = await deleteRole(ADMIN_ROLE_ID);
+    const unused = await deleteRole(UNUSED_ROLE_ID);
+
+    expect(assigned).toMatchObject({ success: false, code: "ROLE_IN_USE" });
+    expect(unused).toEqual({ success: true });
+    expect(db.tables.roles.some((role) => role.id === UNUSED_ROLE_ID)).toBe(false);
+    expect(db.tables.role_access.some((entry) => entry.role_id === UNUSED_ROLE_ID)).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { rolesServiceUnified } from "@/modules/roles";
+import { ADMIN_ROLE_ID, VIEWER_ROLE_ID, createTestDatabase } from "./helpers";
+
+type AccessParam = { resource: string; action: string }[];
+
+/**
+ * Stand-ins for the functions in 20250511_role_management_functions.sql
+ */
+function stubRoleFunctions(db: InMemoryAdapter) {
+  db.stubRpc("create_role_with_access", async (params) => {
+    const { data: role, error } = await db
+      .from("roles")
+      .insert({ name: params.p_name, description: params.p_description, mfa_required: params.p_mfa_required })
+      .select("id")
+      .single();
+    if (error) throw error;
+
+    const access = (params.p_access as AccessParam).map((entry) => ({ ...entry, role_id: role.id }));
+    const { error: accessError } = await db.from("role_access").insert(access);
+    if (accessError) throw accessError;
+
+    return role.id;
+  });
+
+  db.stubRpc("update_role_with_access", async (params) => {
+    const changes = Object.fromEntries(
+      Object.entries({
+        name: params.p_name,
+        description: params.p_description,
+        mfa_required: params.p_mfa_required,
+      }).filter(([, value]) => value !== null)
+    );
+    const { data: role, error } = await db.from("roles").update(changes).eq("id", params.p_role_id).select("id").maybeSingle();
+    if (error) throw error;
+    if (!role) throw { code: "P0002", message: `Role ${params.p_role_id} not found` };
+
+    if (params.p_access) {
+      await db.from("role_access").delete().eq("role_id", role.id);
+      const access = (params.p_access as AccessParam).map((entry) => ({ ...entry, role_id: role.id }));
+      const { error: accessError } = await db.from("role_access").insert(access);
+      if (accessError) throw accessError;
+    }
+
+    return role.id;
+  });
+}
+
+describe("roles service", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    stubRoleFunctions(db);
+  });
+
+  it("creates a role with its access entries", async () => {
+    const result = await rolesServiceUnified.createRole({
+      name: " editor ",
+      description: "Edits users",
+      mfaRequired: true,
+      access: [
+        { resource: "users", action: "read" },
+        { resource: "users", action: "update" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ name: "editor", description: "Edits users", mfa_required: true });
+    expect(result.data?.role_access.map((entry) => entry.action).sort()).toEqual(["read", "update"]);
+  });
+
+  it("rolls back the role when its access entries are invalid", async () => {
+    const result = await rolesServiceUnified.createRole({
+      name: "editor",
+      access: [
+        { resource: "users", action: "read" },
+        { resource: "users", action: "read" },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.details.step).toBe("create_role_with_access");
+    expect(db.tables.roles.some((role) => role.name === "editor")).toBe(false);
+  });
+
+  it("replaces access entries only when given", async () => {
+    await rolesServiceUnified.updateRole(VIEWER_ROLE_ID, { description: "Looks around" });
+    const described = await rolesServiceUnified.getRoleWithAccessById(VIEWER_ROLE_ID);
+
+    const result = await rolesServiceUnified.updateRole(VIEWER_ROLE_ID, {
+      access: [{ resource: "audit", action: "read" }],
+    });
+
+    expect(described.data?.description).toBe("Looks around");
+    expect(described.data?.mfa_required).toBe(false);
+    expect(described.data?.role_access).toHaveLength(1);
+    expect(result.data?.role_access).toEqual([expect.objectContaining({ resource: "audit", action: "read" })]);
+  });
+
+  it("reports unknown roles", async () => {
+    const result = await rolesServiceUnified.updateRole(crypto.randomUUID(), { name: "ghost" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("P0002");
+  });
+
+  it("won't delete a role that is still assigned", async () => {
+    const result = await rolesServiceUnified.deleteRole(ADMIN_ROLE_ID);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("ROLE_IN_USE");
+  });
+
+  it("deletes unassigned roles with their access entries", async () => {
+    const created = await rolesServiceUnified.createRole({ name: "temp", access: [{ resource: "users", action: "read" }] });
+
+    const result = await rolesServiceUnified.deleteRole(created.data!.id);
+
+    expect(result.success).toBe(true);
+    expect(db.tables.role_access.some((entry) => entry.role_id === created.data!.id)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { settingsServiceUnified } from "@/modules/settings";
+import { DEFAULT_ORGANIZATION_ID } from "@/modules/organizations/models/organization";
+import { OTHER_ORGANIZATION_ID, createTestDatabase } from "./helpers";
+
+describe("settings service", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  it("stores default settings the first time an organization's are read", async () => {
+    const result = await settingsServiceUnified.getSettingsById();
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ id: 1, organization_id: DEFAULT_ORGANIZATION_ID, primary_color: "#3b82f6" });
+    expect(db.tables.settings).toHaveLength(1);
+
+    await settingsServiceUnified.getSettingsById();
+    expect(db.tables.settings).toHaveLength(1);
+  });
+
+  it("keeps each organization's settings separate", async () => {
+    await settingsServiceUnified.updateSettingsById({ site_name: "Other Co" }, { organizationId: OTHER_ORGANIZATION_ID });
+
+    const other = await settingsServiceUnified.getSettingsById({ organizationId: OTHER_ORGANIZATION_ID });
+    const fallback = await settingsServiceUnified.getSettingsById();
+
+    expect(other.data?.site_name).toBe("Other Co");
+    expect(fallback.data?.site_name).not.toBe("Other Co");
+    expect(db.tables.settings).toHaveLength(2);
+  });
+
+  it("refuses to overwrite a newer save", async () => {
+    const loaded = await settingsServiceUnified.getSettingsById();
+    await settingsServiceUnified.updateTheme({ primary_color: "#000000" });
+
+    const stale = await settingsServiceUnified.updateSettingsById(
+      { site_name: "Stale" },
+      { expectedUpdatedAt: loaded.data?.updated_at }
+    );
+
+    expect(stale.success).toBe(false);
+    expect(stale.error?.code).toBe("CONFLICT");
+    expect((await settingsServiceUnified.getSettingsById()).data?.site_name).not.toBe("Stale");
+  });
+
+  it("resets to the defaults", async () => {
+    await settingsServiceUnified.updateSettingsById({ primary_color: "#000000" });
+
+    const result = await settingsServiceUnified.resetToDefaults();
+
+    expect(result.data?.primary_color).toBe("#3b82f6");
+  });
+});
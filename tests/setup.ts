@@ -0,0 +1,9 @@
+import { afterEach } from "vitest";
+import { setDataAdapter } from "@/lib/data-adapter";
+import { resetCircuits } from "@/lib/retry-policy";
+
+// Every test file installs its own database; never let one leak into the next test
+afterEach(() => {
+  setDataAdapter(null);
+  resetCircuits();
+});
@@ -0,0 +1,429 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { GET as startSso } from "@/app/api/auth/sso/route";
+import { GET as ssoOidcCallback } from "@/app/api/auth/sso/oidc/callback/route";
+import { POST as samlAcs } from "@/app/api/auth/sso/saml/acs/route";
+import { parseIdpMetadata } from "@/lib/saml";
+import { SSO_REQUEST_COOKIE, assertionFromSamlProfile, consumeSsoPendingRequest, signInWithSso } from "@/lib/sso-login";
+import { saveSsoConnection, saveSsoGroupMappings } from "@/lib/actions/sso-actions";
+import { softDeleteUser } from "@/lib/user-deletion";
+import type { SsoConnection } from "@/modules/sso-connections";
+import { DEFAULT_ORGANIZATION_ID } from "@/modules/organizations/models/organization";
+import {
+  ADMIN_ROLE_ID,
+  ADMIN_USER_ID,
+  OTHER_ORGANIZATION_ID,
+  VIEWER_ROLE_ID,
+  VIEWER_USER_ID,
+  createTestDatabase,
+  startMockOidcProvider,
+  type MockOidcProvider,
+} from "./helpers";
+
+const APP_URL = "http://localhost:3000";
+const CLIENT_ID = "acme-sso";
+const USER_ROLE_ID = "f5dd06e9-b0bd-4c6f-a6ec-c7d6a0cd1d29";
+const CONNECTION_ID = "0a6c1d2e-3f40-4b51-9c62-7d83e94fa5b6";
+const CERTIFICATE = "MIIC8DCCAdigAwIBAgIQSigningCertificate";
+
+const IDP_METADATA = `<?xml version="1.0"?>
+<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" xmlns:ds="http://www.w3.org/2000/09/xmldsig#" entityID="https://idp.acme.test/saml">
+  <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+    <md:KeyDescriptor use="signing">
+      <ds:KeyInfo><ds:X509Data><ds:X509Certificate>
+        ${CERTIFICATE}
+      </ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:KeyDescriptor use="encryption">
+      <ds:KeyInfo><ds:X509Data><ds:X509Certificate>EncryptionOnly</ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    </md:KeyDescriptor>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="https://idp.acme.test/sso/post"/>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.acme.test/sso/redirect"/>
+  </md:IDPSSODescriptor>
+</md:EntityDescriptor>`;
+
+describe("Enterprise SSO", () => {
+  let db: InMemoryAdapter;
+  let provider: MockOidcProvider;
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider(CLIENT_ID);
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    db.tables.roles.push({ id: USER_ROLE_ID, name: "user", description: "Default role", mfa_required: false });
+  });
+
+  /**
+   * Record that an organization verified a domain
+   */
+  function verifyDomain(domain: string, organizationId: string) {
+    db.tables.organization_domains.push({
+      id: crypto.randomUUID(),
+      organization_id: organizationId,
+      domain,
+      verification_token: "verified",
+      verified_at: new Date().toISOString(),
+      auto_join: false,
+    });
+  }
+
+  /**
+   * Add an enabled connection for the other organization, with its domains
+   * verified unless `verified` is false
+   */
+  function addConnection(overrides: Partial<SsoConnection> = {}, verified = true): SsoConnection {
+    const connection: SsoConnection = {
+      id: CONNECTION_ID,
+      organization_id: OTHER_ORGANIZATION_ID,
+      protocol: "oidc",
+      enabled: true,
+      domains: ["acme.test", "example.com"],
+      idp_entity_id: null,
+      idp_sso_url: null,
+      idp_certificates: [],
+      oidc_issuer: provider.issuer,
+      oidc_client_id: CLIENT_ID,
+      oidc_client_secret: "acme-secret",
+      groups_attribute: "groups",
+      default_role_id: null,
+      ...overrides,
+    };
+    db.tables.sso_connections.push(connection);
+    if (verified) {
+      connection.domains.forEach((domain) => verifyDomain(domain, connection.organization_id));
+    }
+    db.tables.sso_group_mappings.push(
+      { id: crypto.randomUUID(), connection_id: CONNECTION_ID, group_name: "Admins", role_id: ADMIN_ROLE_ID, priority: 0 },
+      { id: crypto.randomUUID(), connection_id: CONNECTION_ID, group_name: "Engineering", role_id: VIEWER_ROLE_ID, priority: 1 }
+    );
+    return connection;
+  }
+
+  /**
+   * Start from the login page's email, approve at the identity provider and
+   * come back through the callback
+   */
+  async function signInThroughIdp(email: string, claims: Record<string, unknown>) {
+    const start = await startSso(new NextRequest(`${APP_URL}/api/auth/sso?email=${email}&next=/dashboard`));
+    const authorizationUrl = start.headers.get("location") ?? "";
+    const pending = start.cookies.get(SSO_REQUEST_COOKIE)?.value ?? "";
+
+    const code = provider.authorize(authorizationUrl, { email_verified: true, ...claims });
+    const state = new URL(authorizationUrl).searchParams.get("state");
+    const callback = await ssoOidcCallback(
+      new NextRequest(`${APP_URL}/api/auth/sso/oidc/callback?code=${code}&state=${state}`, {
+        headers: { cookie: `${SSO_REQUEST_COOKIE}=${encodeURIComponent(pending)}` },
+      })
+    );
+    return callback.headers.get("location");
+  }
+
+  const membership = (userId: string | undefined, organizationId: string) =>
+    db.tables.organization_members.find(
+      (member) => member.user_id === userId && member.organization_id === organizationId
+    );
+
+  describe("OpenID Connect", () => {
+    it("creates new users in the organization with the role their groups map to", async () => {
+      addConnection();
+
+      const location = await signInThroughIdp("nina@acme.test", {
+        sub: "acme-nina",
+        email: "nina@acme.test",
+        given_name: "Nina",
+        family_name: "Newman",
+        groups: ["Engineering", "admins"],
+      });
+
+      const profile = db.tables.user_profile.find((user) => user.email === "nina@acme.test");
+      expect(location).toBe(`${APP_URL}/dashboard`);
+      expect(profile).toMatchObject({
+        first_name: "Nina",
+        last_name: "Newman",
+        role_id: ADMIN_ROLE_ID,
+        active_organization_id: OTHER_ORGANIZATION_ID,
+      });
+      expect(membership(profile?.id, OTHER_ORGANIZATION_ID)?.role_id).toBe(ADMIN_ROLE_ID);
+      expect(db.tables.user_identities).toEqual([
+        expect.objectContaining({ user_id: profile?.id, provider: "sso", issuer: provider.issuer, subject: "acme-nina" }),
+      ]);
+      expect((await db.auth.getUser()).data.user?.id).toBe(profile?.id);
+    });
+
+    it("re-evaluates the role on every sign-in", async () => {
+      addConnection();
+      const claims = { sub: "acme-nina", email: "nina@acme.test" };
+
+      await signInThroughIdp("nina@acme.test", { ...claims, groups: ["Admins"] });
+      db.signIn(null);
+      await signInThroughIdp("nina@acme.test", { ...claims, groups: ["Engineering"] });
+      const profile = db.tables.user_profile.find((user) => user.email === "nina@acme.test");
+      const afterDemotion = { profile: profile?.role_id, member: membership(profile?.id, OTHER_ORGANIZATION_ID)?.role_id };
+
+      db.signIn(null);
+      await signInThroughIdp("nina@acme.test", { ...claims, groups: [] });
+
+      expect(afterDemotion).toEqual({ profile: VIEWER_ROLE_ID, member: VIEWER_ROLE_ID });
+      expect(db.tables.user_profile.find((user) => user.id === profile?.id)?.role_id).toBe(USER_ROLE_ID);
+      expect(membership(profile?.id, OTHER_ORGANIZATION_ID)?.role_id).toBe(USER_ROLE_ID);
+    });
+
+    it("signs in existing members of the organization and keeps their other memberships", async () => {
+      addConnection();
+      db.tables.organization_members.push({
+        organization_id: OTHER_ORGANIZATION_ID,
+        user_id: VIEWER_USER_ID,
+        role_id: VIEWER_ROLE_ID,
+      });
+
+      await signInThroughIdp("viewer@example.com", {
+        sub: "acme-victor",
+        email: "viewer@example.com",
+        groups: "Admins",
+      });
+
+      expect(db.tables.user_profile).toHaveLength(2);
+      expect(db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)).toMatchObject({
+        role_id: ADMIN_ROLE_ID,
+        active_organization_id: OTHER_ORGANIZATION_ID,
+      });
+      expect(membership(VIEWER_USER_ID, DEFAULT_ORGANIZATION_ID)?.role_id).toBe(VIEWER_ROLE_ID);
+      expect(membership(VIEWER_USER_ID, OTHER_ORGANIZATION_ID)?.role_id).toBe(ADMIN_ROLE_ID);
+      expect((await db.auth.getUser()).data.user?.id).toBe(VIEWER_USER_ID);
+    });
+
+    it("links users who belong to no organization and refuses members of other organizations", async () => {
+      addConnection();
+      const claims = { sub: "acme-victor", email: "viewer@example.com", groups: "Admins" };
+
+      const refused = await signInThroughIdp("viewer@example.com", claims);
+      const afterRefusal = db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID);
+      expect(refused).toBe(`${APP_URL}/auth/login?error=sso_failed`);
+      expect(afterRefusal).toMatchObject({ role_id: VIEWER_ROLE_ID, active_organization_id: DEFAULT_ORGANIZATION_ID });
+      expect(membership(VIEWER_USER_ID, OTHER_ORGANIZATION_ID)).toBeUndefined();
+      expect(db.tables.user_identities).toEqual([]);
+      expect((await db.auth.getUser()).data.user).toBeNull();
+
+      db.tables.organization_members = db.tables.organization_members.filter((member) => member.user_id !== VIEWER_USER_ID);
+      const linked = await signInThroughIdp("viewer@example.com", claims);
+
+      expect(linked).toBe(`${APP_URL}/dashboard`);
+      expect(membership(VIEWER_USER_ID, OTHER_ORGANIZATION_ID)?.role_id).toBe(ADMIN_ROLE_ID);
+      expect((await db.auth.getUser()).data.user?.id).toBe(VIEWER_USER_ID);
+    });
+
+    it("doesn't link identities to deleted users or trust unverified emails", async () => {
+      addConnection();
+      db.tables.organization_members.push({
+        organization_id: OTHER_ORGANIZATION_ID,
+        user_id: VIEWER_USER_ID,
+        role_id: VIEWER_ROLE_ID,
+      });
+
+      const unverified = await signInThroughIdp("viewer@example.com", {
+        sub: "acme-victor",
+        email: "viewer@example.com",
+        email_verified: false,
+      });
+      await softDeleteUser(VIEWER_USER_ID);
+      const deleted = await signInThroughIdp("viewer@example.com", { sub: "acme-victor", email: "viewer@example.com" });
+
+      expect(unverified).toBe(`${APP_URL}/auth/login?error=sso_failed`);
+      expect(deleted).toBe(`${APP_URL}/auth/login?error=sso_failed`);
+      expect(db.tables.user_identities).toEqual([]);
+      expect((await db.auth.getUser()).data.user).toBeNull();
+    });
+
+    it("only routes domains the organization has verified", async () => {
+      const connection = addConnection({}, false);
+      // Another organization verifying the domain doesn't help either
+      verifyDomain("acme.test", DEFAULT_ORGANIZATION_ID);
+
+      const start = await startSso(new NextRequest(`${APP_URL}/api/auth/sso?email=nina@acme.test`));
+      const result = await signInWithSso(connection, {
+        issuer: provider.issuer,
+        subject: "acme-nina",
+        email: "nina@acme.test",
+        firstName: "Nina",
+        lastName: "Newman",
+        groups: [],
+      });
+
+      expect(start.headers.get("location")).toBe(`${APP_URL}/auth/login?error=sso_not_configured`);
+      expect(result).toMatchObject({ success: false });
+      expect(db.tables.user_profile).toHaveLength(2);
+    });
+
+    it("refuses emails outside the connection's domains and disabled connections", async () => {
+      addConnection();
+      const outside = await signInThroughIdp("nina@acme.test", { sub: "acme-nina", email: "nina@elsewhere.test" });
+
+      db.tables.sso_connections[0].enabled = false;
+      const disabled = await startSso(new NextRequest(`${APP_URL}/api/auth/sso?email=nina@acme.test`));
+      const unknown = await startSso(new NextRequest(`${APP_URL}/api/auth/sso?email=nina@nowhere.test`));
+
+      expect(outside).toBe(`${APP_URL}/auth/login?error=sso_failed`);
+      expect(disabled.headers.get("location")).toBe(`${APP_URL}/auth/login?error=sso_not_configured`);
+      expect(unknown.headers.get("location")).toBe(`${APP_URL}/auth/login?error=sso_not_configured`);
+      expect(db.tables.user_profile).toHaveLength(2);
+      expect((await db.auth.getUser()).data.user).toBeNull();
+    });
+
+    it("uses each request once and refuses requests it didn't save", async () => {
+      addConnection();
+      const start = await startSso(new NextRequest(`${APP_URL}/api/auth/sso?email=nina@acme.test&next=/dashboard`));
+      const authorizationUrl = start.headers.get("location") ?? "";
+      const state = new URL(authorizationUrl).searchParams.get("state");
+      const code = provider.authorize(authorizationUrl, { sub: "acme-nina", email: "nina@acme.test", email_verified: true });
+      const callback = (cookie: string) =>
+        ssoOidcCallback(
+          new NextRequest(`${APP_URL}/api/auth/sso/oidc/callback?code=${code}&state=${state}`, {
+            headers: { cookie: `${SSO_REQUEST_COOKIE}=${encodeURIComponent(cookie)}` },
+          })
+        );
+      const forged = JSON.stringify({ protocol: "oidc", connectionId: CONNECTION_ID, next: "/dashboard", state });
+
+      const forgedResult = await callback(forged);
+      const first = await callback(start.cookies.get(SSO_REQUEST_COOKIE)?.value ?? "");
+      db.signIn(null);
+      const replay = await callback(start.cookies.get(SSO_REQUEST_COOKIE)?.value ?? "");
+
+      expect(forgedResult.headers.get("location")).toBe(`${APP_URL}/auth/login?error=sso_failed`);
+      expect(first.headers.get("location")).toBe(`${APP_URL}/dashboard`);
+      expect(replay.headers.get("location")).toBe(`${APP_URL}/auth/login?error=sso_failed`);
+      expect((await db.auth.getUser()).data.user).toBeNull();
+    });
+  });
+
+  describe("SAML", () => {
+    const samlConnection = () =>
+      addConnection({
+        protocol: "saml",
+        idp_entity_id: "https://idp.acme.test/saml",
+        idp_sso_url: "https://idp.acme.test/sso/redirect",
+        idp_certificates: [CERTIFICATE],
+        oidc_issuer: null,
+        oidc_client_id: null,
+        oidc_client_secret: null,
+        groups_attribute: "memberOf",
+      });
+
+    it("reads the entity ID, redirect URL and signing certificates from metadata", () => {
+      expect(parseIdpMetadata(IDP_METADATA)).toEqual({
+        entityId: "https://idp.acme.test/saml",
+        ssoUrl: "https://idp.acme.test/sso/redirect",
+        certificates: [CERTIFICATE],
+      });
+      expect(() => parseIdpMetadata(IDP_METADATA.replace(/HTTP-Redirect/, "SOAP"))).toThrow(/HTTP-Redirect/);
+      expect(() => parseIdpMetadata("<not-metadata/>")).toThrow(/no identity provider/);
+    });
+
+    it("sends the browser to the identity provider and remembers the request", async () => {
+      samlConnection();
+
+      const start = await startSso(new NextRequest(`${APP_URL}/api/auth/sso?email=nina@acme.test&next=/users`));
+      const location = new URL(start.headers.get("location") ?? "");
+      const cookie = start.cookies.get(SSO_REQUEST_COOKIE)?.value;
+      const pending = await consumeSsoPendingRequest(cookie);
+
+      expect(`${location.origin}${location.pathname}`).toBe("https://idp.acme.test/sso/redirect");
+      expect(location.searchParams.get("SAMLRequest")).toBeTruthy();
+      expect(pending).toMatchObject({ protocol: "saml", connectionId: CONNECTION_ID, next: "/users" });
+      expect(pending?.protocol === "saml" && pending.requestId).toBeTruthy();
+      expect(cookie).not.toContain(CONNECTION_ID);
+      expect(await consumeSsoPendingRequest(cookie)).toBeNull();
+    });
+
+    it("refuses responses to requests it didn't send", async () => {
+      samlConnection();
+
+      const response = await samlAcs(
+        new NextRequest(`${APP_URL}/api/auth/sso/saml/acs`, {
+          method: "POST",
+          body: new URLSearchParams({ SAMLResponse: Buffer.from("<Response/>").toString("base64") }),
+        })
+      );
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("location")).toBe(`${APP_URL}/auth/login?error=sso_failed`);
+    });
+
+    it("signs in from the assertion's attributes", async () => {
+      const connection = samlConnection();
+
+      const assertion = assertionFromSamlProfile(
+        {
+          issuer: "https://idp.acme.test/saml",
+          nameID: "Sam@Acme.test",
+          nameIDFormat: "urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress",
+          attributes: { givenName: "Sam", sn: "Smith", memberOf: ["Engineering"] },
+        },
+        connection
+      );
+      const result = await signInWithSso(connection, assertion);
+
+      expect(assertion).toMatchObject({ email: "sam@acme.test", firstName: "Sam", lastName: "Smith", groups: ["Engineering"] });
+      expect(result).toMatchObject({ success: true, created: true });
+      expect(db.tables.user_profile.find((user) => user.email === "sam@acme.test")).toMatchObject({
+        role_id: VIEWER_ROLE_ID,
+        active_organization_id: OTHER_ORGANIZATION_ID,
+      });
+    });
+  });
+
+  describe("Configuration", () => {
+    it("saves SAML metadata and group mappings for the active organization", async () => {
+      db.signIn(ADMIN_USER_ID);
+      verifyDomain("acme.test", DEFAULT_ORGANIZATION_ID);
+
+      const saved = await saveSsoConnection({
+        protocol: "saml",
+        enabled: true,
+        domains: ["@Acme.test", "acme.test"],
+        metadataXml: IDP_METADATA,
+        groupsAttribute: "memberOf",
+      });
+      const mapped = await saveSsoGroupMappings([
+        { group_name: " Admins ", role_id: ADMIN_ROLE_ID, priority: 0 },
+        { group_name: "", role_id: VIEWER_ROLE_ID, priority: 1 },
+      ]);
+
+      expect(saved.success).toBe(true);
+      expect(db.tables.sso_connections).toEqual([
+        expect.objectContaining({
+          organization_id: DEFAULT_ORGANIZATION_ID,
+          domains: ["acme.test"],
+          idp_entity_id: "https://idp.acme.test/saml",
+          idp_sso_url: "https://idp.acme.test/sso/redirect",
+          idp_certificates: [CERTIFICATE],
+        }),
+      ]);
+      expect(mapped.success).toBe(true);
+      expect(db.tables.sso_group_mappings).toEqual([expect.objectContaining({ group_name: "Admins", role_id: ADMIN_ROLE_ID })]);
+    });
+
+    it("refuses unverified domains, bad metadata and users who can't update settings", async () => {
+      addConnection();
+      db.signIn(ADMIN_USER_ID);
+      const taken = await saveSsoConnection({ protocol: "saml", enabled: true, domains: ["acme.test"], metadataXml: IDP_METADATA });
+      const unverified = await saveSsoConnection({ protocol: "saml", enabled: false, domains: ["corp.test"], metadataXml: IDP_METADATA });
+      const invalid = await saveSsoConnection({ protocol: "saml", enabled: false, domains: [], metadataXml: "<oops" });
+
+      db.signIn(VIEWER_USER_ID);
+      const forbidden = await saveSsoConnection({ protocol: "saml", enabled: false, domains: [], metadataXml: IDP_METADATA });
+
+      expect(taken).toMatchObject({ success: false, error: "Verify acme.test under Domains before using it for single sign-on" });
+      expect(unverified).toMatchObject({ success: false, error: "Verify corp.test under Domains before using it for single sign-on" });
+      expect(invalid.success).toBe(false);
+      expect(forbidden).toMatchObject({ success: false, code: "FORBIDDEN" });
+      expect(db.tables.sso_connections).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import readXlsxFile from "read-excel-file/node";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { writeExport, type ExportColumn } from "@/lib/export-writers";
+import { exportUrl } from "@/lib/table-export";
+import { parseCsv } from "@/lib/spreadsheet";
+import { usersServiceUnified } from "@/modules/users";
+import { GET } from "@/app/api/export/[resource]/route";
+import { ADMIN_USER_ID, OTHER_ORGANIZATION_ID, VIEWER_ROLE_ID, createTestDatabase } from "./helpers";
+
+type Record = { name: string; count: number | null; active: boolean };
+
+const columns: ExportColumn<Record>[] = [
+  { id: "name", header: "Name", value: (record) => record.name },
+  { id: "count", header: "Count", value: (record) => record.count },
+  { id: "active", header: "Active", value: (record) => record.active },
+];
+
+async function* pages(...chunks: Record[][]) {
+  yield* chunks;
+}
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+describe("export writers", () => {
+  const first = [{ name: "Lovelace, Ada", count: 3, active: true }];
+  const second = [{ name: "=HYPERLINK(\"x\")", count: null, active: false }];
+
+  it("writes CSV with a byte order mark and neutralises formulas", async () => {
+    const text = (await read(writeExport("csv", columns, pages(first, [], second)))).toString("utf8");
+
+    expect(text.startsWith("\uFEFF")).toBe(true);
+    expect(parseCsv(text)).toEqual([
+      ["Name", "Count", "Active"],
+      ["Lovelace, Ada", "3", "true"],
+      ["'=HYPERLINK(\"x\")", "", "false"],
+    ]);
+  });
+
+  it("writes a JSON array keyed by column id", async () => {
+    const text = (await read(writeExport("json", columns, pages(first, second)))).toString("utf8");
+
+    expect(JSON.parse(text)).toEqual([
+      { name: "Lovelace, Ada", count: 3, active: true },
+      { name: "=HYPERLINK(\"x\")", count: null, active: false },
+    ]);
+    expect(JSON.parse((await read(writeExport("json", columns, pages()))).toString("utf8"))).toEqual([]);
+  });
+
+  it("writes an XLSX workbook spreadsheet apps can read", async () => {
+    const file = await read(writeExport("xlsx", columns, pages(first, second)));
+
+    expect(await readXlsxFile(file)).toEqual([
+      ["Name", "Count", "Active"],
+      ["Lovelace, Ada", 3, true],
+      ["=HYPERLINK(\"x\")", null, false],
+    ]);
+  });
+});
+
+describe("export route", () => {
+  let db: InMemoryAdapter;
+
+  const get = (resource: string, query: Parameters<typeof exportUrl>[1]) =>
+    GET(new NextRequest(`http://localhost${exportUrl(resource, query)}`), {
+      params: Promise.resolve({ resource }),
+    });
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    db.signIn(ADMIN_USER_ID);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("exports the organization's users matching the search and filters, in the visible columns", async () => {
+    db.tables.user_profile.push({
+      id: "f5dd06e9-b0bd-4c6f-86ec-c7d6aacd1d29",
+      email: "outsider@example.com",
+      first_name: "Olive",
+      last_name: "Outsider",
+      role_id: VIEWER_ROLE_ID,
+      active_organization_id: OTHER_ORGANIZATION_ID,
+    });
+    db.tables.organization_members.push({
+      organization_id: OTHER_ORGANIZATION_ID,
+      user_id: "f5dd06e9-b0bd-4c6f-86ec-c7d6aacd1d29",
+    });
+
+    const response = await get("users", {
+      format: "csv",
+      columns: ["name", "role"],
+      params: { search: "e", filters: { roleIds: [VIEWER_ROLE_ID] } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-disposition")).toMatch(/attachment; filename="users-.*\.csv"/);
+    expect(parseCsv(await response.text())).toEqual([
+      ["First name", "Last name", "Email", "Role"],
+      ["Victor", "Viewer", "viewer@example.com", "viewer"],
+    ]);
+  });
+
+  it("rejects unknown resources, formats and malformed params", async () => {
+    expect((await get("secrets", { format: "csv" })).status).toBe(404);
+    expect((await get("users", { format: "pdf" as "csv" })).status).toBe(400);
+    expect((await get("users", { format: "csv", params: { filters: { isActive: "yes" } } })).status).toBe(400);
+  });
+
+  it("requires a signed-in user", async () => {
+    db.signIn(null);
+
+    expect((await get("users", { format: "json" })).status).toBe(401);
+  });
+
+  it("reports a failing query instead of streaming an empty file", async () => {
+    vi.spyOn(usersServiceUnified, "getUsersByCursor").mockResolvedValueOnce({
+      success: false,
+      error: { code: "42501", message: "permission denied" },
+    });
+
+    const response = await get("users", { format: "csv" });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Failed to export users" });
+  });
+});
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { parseCsv, toCsv } from "@/lib/spreadsheet";
+import { importUsers, previewUserImport } from "@/lib/actions/user-import-actions";
+import { emailService } from "@/lib/email-service";
+import { ADMIN_ROLE_ID, ADMIN_USER_ID, VIEWER_ROLE_ID, VIEWER_USER_ID, createTestDatabase } from "./helpers";
+
+vi.mock("@/lib/email-service", () => ({
+  emailService: { sendEmail: vi.fn().mockResolvedValue({ success: true }) },
+}));
+
+const sendEmail = vi.mocked(emailService.sendEmail);
+
+describe("spreadsheet CSV", () => {
+  it("parses quoted fields, escaped quotes and line breaks", () => {
+    const text = '\uFEFFname,notes\r\n"Lovelace, Ada","said ""hi""\ntwice"\n\nGrace,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["name", "notes"],
+      ["Lovelace, Ada", 'said "hi"\ntwice'],
+      ["Grace", ""],
+    ]);
+  });
+
+  it("round-trips through toCsv", () => {
+    const rows = [["a,b", 'quote "q"', "plain"], ["1", "", "line\nbreak"]];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("user import", () => {
+  let db: InMemoryAdapter;
+
+  const rows = [
+    { rowNumber: 2, firstName: "New", lastName: "Person", email: "New@Example.com", role: "Viewer" },
+    { rowNumber: 3, firstName: "Victor", lastName: "Viewer", email: "viewer@example.com", role: "admin" },
+    { rowNumber: 4, firstName: "Ada", lastName: "Admin", email: "admin@example.com", role: ADMIN_ROLE_ID },
+    { rowNumber: 5, firstName: "", lastName: "Nobody", email: "not-an-email", role: "owner" },
+    { rowNumber: 6, firstName: "Again", lastName: "Person", email: "new@example.com", role: "viewer" },
+  ];
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    sendEmail.mockClear();
+    db.signIn(ADMIN_USER_ID);
+  });
+
+  it("previews creates, updates and errors without writing", async () => {
+    const result = await previewUserImport(rows);
+
+    expect(result.success).toBe(true);
+    const items = result.success ? result.items : [];
+    expect(items.map((item) => [item.rowNumber, item.action])).toEqual([
+      [2, "create"],
+      [3, "update"],
+      [4, "unchanged"],
+      [5, "error"],
+      [6, "error"],
+    ]);
+    expect(items[1].changes).toEqual(["role"]);
+    expect(items[3].errors).toEqual(
+      expect.arrayContaining(["First name is required", "Invalid email address", 'Unknown role "owner"'])
+    );
+    expect(items[4].errors).toEqual(["Same email as row 2"]);
+    expect(db.authUsers.size).toBe(2);
+  });
+
+  it("imports valid rows and reports the rest", async () => {
+    const result = await importUsers(rows);
+
+    expect(result.success).toBe(true);
+    const results = result.success ? result.results : [];
+    expect(results.map((item) => [item.rowNumber, item.success])).toEqual([
+      [2, true],
+      [3, true],
+      [4, true],
+      [5, false],
+      [6, false],
+    ]);
+
+    const created = db.tables.user_profile.find((user) => user.email === "new@example.com");
+    expect(created).toMatchObject({ first_name: "New", role_id: VIEWER_ROLE_ID });
+    expect(db.tables.user_profile.find((user) => user.id === VIEWER_USER_ID)?.role_id).toBe(ADMIN_ROLE_ID);
+    // No password in the file, so the new user is sent a link to set one
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: "new@example.com" }));
+  });
+
+  it("rejects users from another organization", async () => {
+    db.tables.organization_members = db.tables.organization_members.filter(
+      (member) => member.user_id !== VIEWER_USER_ID
+    );
+
+    const result = await previewUserImport([rows[1]]);
+
+    expect(result.success && result.items[0].errors).toEqual([
+      "This email belongs to a user in another organization",
+    ]);
+  });
+
+  it("requires users:create", async () => {
+    db.signIn(VIEWER_USER_ID);
+
+    expect(await importUsers(rows)).toMatchObject({ success: false, code: "FORBIDDEN" });
+  });
+});
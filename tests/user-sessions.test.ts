@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import {
+  checkCurrentSession,
+  getMySessions,
+  recordSignIn,
+  recordSignOut,
+  revokeMySession,
+  revokeOtherSessions,
+} from "@/lib/actions/session-actions";
+import { signOutUserEverywhere } from "@/lib/actions/user-actions";
+import { verifyPasswordlessLogin } from "@/lib/passwordless-login";
+import { describeDevice, readAccessToken } from "@/lib/user-sessions";
+import {
+  ADMIN_USER_ID,
+  OTHER_ORGANIZATION_ID,
+  VIEWER_ROLE_ID,
+  VIEWER_USER_ID,
+  createTestDatabase,
+} from "./helpers";
+
+const CHROME_ON_MAC =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+const SAFARI_ON_IPHONE =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1";
+const EDGE_ON_WINDOWS =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0";
+
+describe("user sessions", () => {
+  let db: InMemoryAdapter;
+  // Supabase Auth sessions ended through revoke_auth_sessions
+  let ended: Record<string, any>[];
+
+  /**
+   * Record a session for a user as if they had signed in elsewhere an hour ago
+   */
+  function seedSession(userId: string, device = "Firefox on Linux") {
+    const id = crypto.randomUUID();
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    db.tables.user_sessions.push({
+      id,
+      user_id: userId,
+      device,
+      ip_address: "203.0.113.7",
+      user_agent: null,
+      created_at: anHourAgo,
+      last_seen_at: anHourAgo,
+      revoked_at: null,
+    });
+    return id;
+  }
+
+  /**
+   * Sign in with a session of our own and record it
+   */
+  async function signInWithSession(userId: string) {
+    const sessionId = crypto.randomUUID();
+    db.signIn(userId, { sessionId });
+    expect(await recordSignIn()).toMatchObject({ success: true });
+    return sessionId;
+  }
+
+  const row = (id: string) => db.tables.user_sessions.find((session) => session.id === id);
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    ended = [];
+    db.stubRpc("revoke_auth_sessions", (params) => {
+      ended.push(params);
+      return 1;
+    });
+  });
+
+  it("describes devices from their user agent", () => {
+    expect(describeDevice(CHROME_ON_MAC)).toBe("Chrome on macOS");
+    expect(describeDevice(SAFARI_ON_IPHONE)).toBe("Safari on iOS");
+    expect(describeDevice(EDGE_ON_WINDOWS)).toBe("Edge on Windows");
+    expect(describeDevice("curl/8.5.0")).toBe("Unknown device");
+    expect(describeDevice(null)).toBeNull();
+  });
+
+  it("records a session for password sign-ins made in the browser", async () => {
+    const { data } = await db.auth.signInWithPassword({ email: "viewer@example.com", password: "viewer-password" });
+    const token = readAccessToken(data.session!.access_token);
+
+    expect(await recordSignIn()).toEqual({ success: true });
+    expect(row(token!.sessionId)).toMatchObject({ user_id: VIEWER_USER_ID, revoked_at: null });
+  });
+
+  it("records a session for magic link sign-ins", async () => {
+    const { data } = await db.auth.admin.generateLink({ type: "magiclink", email: "viewer@example.com" });
+
+    const result = await verifyPasswordlessLogin({ tokenHash: data.properties!.hashed_token });
+
+    expect(result.success).toBe(true);
+    expect(db.tables.user_sessions).toHaveLength(1);
+    expect(db.tables.user_sessions[0]).toMatchObject({ user_id: VIEWER_USER_ID, revoked_at: null });
+  });
+
+  it("lists the user's own sessions and marks the current one", async () => {
+    const other = seedSession(VIEWER_USER_ID);
+    seedSession(ADMIN_USER_ID);
+    const current = await signInWithSession(VIEWER_USER_ID);
+
+    const result = await getMySessions();
+
+    expect(result.success).toBe(true);
+    const sessions = "sessions" in result ? result.sessions ?? [] : [];
+    expect(sessions.map((session) => [session.id, session.current])).toEqual([
+      [current, true],
+      [other, false],
+    ]);
+  });
+
+  it("revokes another session but not the current one", async () => {
+    const other = seedSession(VIEWER_USER_ID);
+    const current = await signInWithSession(VIEWER_USER_ID);
+
+    expect(await revokeMySession(current)).toMatchObject({ success: false, error: "Sign out to end this session" });
+    expect(await revokeMySession(other)).toEqual({ success: true });
+
+    expect(ended).toEqual([{ p_user_id: VIEWER_USER_ID, p_session_ids: [other], p_keep_session_id: null }]);
+    expect(row(other)?.revoked_at).not.toBeNull();
+    expect(row(current)?.revoked_at).toBeNull();
+  });
+
+  it("doesn't revoke other users' sessions", async () => {
+    const adminSession = seedSession(ADMIN_USER_ID);
+    await signInWithSession(VIEWER_USER_ID);
+
+    expect(await revokeMySession(adminSession)).toMatchObject({ success: false, error: "Session not found" });
+    expect(row(adminSession)?.revoked_at).toBeNull();
+  });
+
+  it("signs out every other session and keeps this one", async () => {
+    const first = seedSession(VIEWER_USER_ID);
+    const second = seedSession(VIEWER_USER_ID, "Safari on iOS");
+    const current = await signInWithSession(VIEWER_USER_ID);
+
+    expect(await revokeOtherSessions()).toEqual({ success: true, revoked: 2 });
+
+    expect(ended).toEqual([{ p_user_id: VIEWER_USER_ID, p_session_ids: null, p_keep_session_id: current }]);
+    expect([first, second].map((id) => row(id)?.revoked_at)).not.toContain(null);
+    expect(row(current)?.revoked_at).toBeNull();
+  });
+
+  it("reports a revoked session at the next check", async () => {
+    const current = await signInWithSession(VIEWER_USER_ID);
+    expect(await checkCurrentSession()).toEqual({ success: true, revoked: false });
+
+    row(current)!.revoked_at = new Date().toISOString();
+
+    expect(await checkCurrentSession()).toEqual({ success: true, revoked: true });
+  });
+
+  it("reports a session Supabase Auth ended as revoked", async () => {
+    const current = await signInWithSession(VIEWER_USER_ID);
+    db.endSession(current);
+
+    expect(await checkCurrentSession()).toMatchObject({ success: false, revoked: true });
+  });
+
+  it("doesn't report failed checks as revoked", async () => {
+    await signInWithSession(VIEWER_USER_ID);
+
+    db.injectFailure({ table: "user_profile", action: "select" });
+    const profileFailed = await checkCurrentSession();
+    db.injectFailure({ table: "user_sessions", action: "select" });
+    const sessionFailed = await checkCurrentSession();
+
+    expect(profileFailed).toMatchObject({ success: false, revoked: false });
+    expect(sessionFailed).toMatchObject({ success: false, revoked: false });
+    expect(await checkCurrentSession()).toEqual({ success: true, revoked: false });
+  });
+
+  it("records sessions from before sessions were recorded when they are checked", async () => {
+    const sessionId = crypto.randomUUID();
+    db.signIn(VIEWER_USER_ID, { sessionId });
+
+    expect(await checkCurrentSession()).toEqual({ success: true, revoked: false });
+    expect(row(sessionId)).toMatchObject({ user_id: VIEWER_USER_ID, revoked_at: null });
+  });
+
+  it("ends the current session on sign-out", async () => {
+    const current = await signInWithSession(VIEWER_USER_ID);
+
+    expect(await recordSignOut()).toEqual({ success: true });
+    expect(row(current)?.revoked_at).not.toBeNull();
+  });
+
+  describe("sign out everywhere", () => {
+    it("lets admins end every session of a member", async () => {
+      const first = seedSession(VIEWER_USER_ID);
+      const second = seedSession(VIEWER_USER_ID);
+      const adminSession = await signInWithSession(ADMIN_USER_ID);
+
+      expect(await signOutUserEverywhere(VIEWER_USER_ID)).toEqual({ success: true, revoked: 2 });
+
+      expect(ended).toEqual([{ p_user_id: VIEWER_USER_ID, p_session_ids: null, p_keep_session_id: null }]);
+      expect([first, second].map((id) => row(id)?.revoked_at)).not.toContain(null);
+      expect(row(adminSession)?.revoked_at).toBeNull();
+    });
+
+    it("requires users:update", async () => {
+      seedSession(ADMIN_USER_ID);
+      db.signIn(VIEWER_USER_ID);
+
+      expect(await signOutUserEverywhere(ADMIN_USER_ID)).toMatchObject({ success: false, code: "FORBIDDEN" });
+      expect(ended).toEqual([]);
+    });
+
+    it("only reaches members of the admin's organization", async () => {
+      db.tables.organization_members = db.tables.organization_members.filter(
+        (member) => member.user_id !== VIEWER_USER_ID
+      );
+      db.tables.organization_members.push({
+        organization_id: OTHER_ORGANIZATION_ID,
+        user_id: VIEWER_USER_ID,
+        role_id: VIEWER_ROLE_ID,
+      });
+      db.signIn(ADMIN_USER_ID);
+
+      expect(await signOutUserEverywhere(VIEWER_USER_ID)).toMatchObject({ success: false, error: "User not found" });
+      expect(ended).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import type { InMemoryAdapter } from "@/lib/in-memory-adapter";
+import { purgeDeletedUser, restoreDeletedUser, softDeleteUser } from "@/lib/user-deletion";
+import { createUser } from "@/lib/actions/user-actions";
+import { POST as deleteUserRoute } from "@/app/api/auth/delete/route";
+import { usersServiceUnified } from "@/modules/users";
+import { DEFAULT_ORGANIZATION_ID } from "@/modules/organizations/models/organization";
+import {
+  ADMIN_USER_ID,
+  OTHER_ORGANIZATION_ID,
+  VIEWER_ROLE_ID,
+  VIEWER_USER_ID,
+  createTestDatabase,
+} from "./helpers";
+
+describe("users service", () => {
+  let db: InMemoryAdapter;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  describe("getUsersPaginated", () => {
+    it("searches, filters and embeds the role", async () => {
+      const result = await usersServiceUnified.getUsersPaginated({
+        search: "vic",
+        filters: { roleIds: [VIEWER_ROLE_ID], isActive: true },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.total).toBe(1);
+      expect(result.data?.data[0]).toMatchObject({ id: VIEWER_USER_ID, roles: { name: "viewer" } });
+    });
+
+    it("only lists members of the given organization", async () => {
+      const inDefault = await usersServiceUnified.getUsersPaginated({ organizationId: DEFAULT_ORGANIZATION_ID });
+      const inOther = await usersServiceUnified.getUsersPaginated({ organizationId: OTHER_ORGANIZATION_ID });
+
+      expect(inDefault.data?.total).toBe(2);
+      expect(inOther.data?.total).toBe(0);
+    });
+
+    it("pages newest first by default", async () => {
+      const first = await usersServiceUnified.getUsersPaginated({ page: 1, pageSize: 1 });
+      const second = await usersServiceUnified.getUsersPaginated({ page: 2, pageSize: 1 });
+
+      expect(first.data?.total).toBe(2);
+      expect(first.data?.data.map((user) => user.id)).toEqual([VIEWER_USER_ID]);
+      expect(second.data?.data.map((user) => user.id)).toEqual([ADMIN_USER_ID]);
+    });
+  });
+
+  it("finds users by email case-insensitively", async () => {
+    const result = await usersServiceUnified.getUserByEmail("  Viewer@Example.com ");
+    const missing = await usersServiceUnified.getUserByEmail("nobody@example.com");
+
+    expect(result.data?.id).toBe(VIEWER_USER_ID);
+    expect(missing).toMatchObject({ success: true, data: null });
+  });
+
+  it("refuses to overwrite a newer save", async () => {
+    const loaded = await usersServiceUnified.getUserById(VIEWER_USER_ID);
+    await usersServiceUnified.updateUser(VIEWER_USER_ID, { first_name: "Vic" });
+
+    const stale = await usersServiceUnified.updateUser(
+      VIEWER_USER_ID,
+      { last_name: "Stale" },
+      { expectedUpdatedAt: loaded.data?.updated_at }
+    );
+
+    expect(stale.success).toBe(false);
+    expect(stale.error?.code).toBe("CONFLICT");
+    expect(stale.error?.details.current.first_name).toBe("Vic");
+  });
+
+  describe("deletion", () => {
+    it("trashes the profile and bans sign-in, then restores both", async () => {
+      expect(await softDeleteUser(VIEWER_USER_ID)).toEqual({ success: true });
+      expect(db.authUsers.get(VIEWER_USER_ID)).toHaveProperty("banned_until", expect.any(String));
+
+      const listed = await usersServiceUnified.getUsersPaginated({});
+      const trash = await usersServiceUnified.getUsersPaginated({ deleted: "only" });
+      expect(listed.data?.data.map((user) => user.id)).toEqual([ADMIN_USER_ID]);
+      expect(trash.data?.data.map((user) => user.id)).toEqual([VIEWER_USER_ID]);
+
+      expect(await restoreDeletedUser(VIEWER_USER_ID)).toEqual({ success: true });
+      expect(db.authUsers.get(VIEWER_USER_ID)).toHaveProperty("banned_until", null);
+      expect((await usersServiceUnified.getUserById(VIEWER_USER_ID)).data?.deleted_at).toBeNull();
+    });
+
+    it("purges the profile, its memberships and the auth user", async () => {
+      await softDeleteUser(VIEWER_USER_ID);
+
+      expect(await purgeDeletedUser(VIEWER_USER_ID)).toEqual({ success: true });
+      expect(db.authUsers.has(VIEWER_USER_ID)).toBe(false);
+      expect(db.tables.user_profile.map((user) => user.id)).toEqual([ADMIN_USER_ID]);
+      expect(db.tables.organization_members.some((member) => member.user_id === VIEWER_USER_ID)).toBe(false);
+    });
+
+    it("only purges users that are in the trash", async () => {
+      const result = await purgeDeletedUser(VIEWER_USER_ID);
+
+      expect(result.success).toBe(false);
+      expect(db.authUsers.has(VIEWER_USER_ID)).toBe(true);
+    });
+
+    it("only deletes members of the admin's organization through the API", async () => {
+      db.tables.organization_members = db.tables.organization_members.filter(
+        (member) => member.user_id !== VIEWER_USER_ID
+      );
+      db.tables.organization_members.push({
+        organization_id: OTHER_ORGANIZATION_ID,
+        user_id: VIEWER_USER_ID,
+        role_id: VIEWER_ROLE_ID,
+      });
+      db.signIn(ADMIN_USER_ID);
+
+      const response = await deleteUserRoute(
+        new NextRequest("http://localhost/api/auth/delete", {
+          method: "POST",
+          body: JSON.stringify({ id: VIEWER_USER_ID }),
+        }),
+        { params: Promise.resolve({}) }
+      );
+
+      expect(response.status).toBe(404);
+      expect((await usersServiceUnified.getUserById(VIEWER_USER_ID)).data?.deleted_at).toBeNull();
+    });
+  });
+
+  describe("createUser action", () => {
+    const account = {
+      email: " New.User@Example.com",
+      password: "a-strong-password",
+      firstName: "New",
+      lastName: "User",
+      roleId: VIEWER_ROLE_ID,
+    };
+
+    it("creates the auth user and profile in the admin's organization", async () => {
+      db.signIn(ADMIN_USER_ID);
+
+      const result = await createUser(account);
+
+      expect(result.success).toBe(true);
+      const profile = db.tables.user_profile.find((user) => user.email === "new.user@example.com");
+      expect(db.authUsers.has(profile?.id)).toBe(true);
+      expect(db.tables.organization_members).toContainEqual(
+        expect.objectContaining({ user_id: profile?.id, organization_id: DEFAULT_ORGANIZATION_ID })
+      );
+    });
+
+    it("removes the auth user again when the profile can't be saved", async () => {
+      db.signIn(ADMIN_USER_ID);
+      db.injectFailure({ table: "user_profile", action: "insert" });
+
+      const result = await createUser(account);
+
+      expect(result.success).toBe(false);
+      expect(db.authUsers.size).toBe(2);
+    });
+
+    it("requires users:create", async () => {
+      db.signIn(VIEWER_USER_ID);
+
+      const result = await createUser(account);
+
+      expect(result).toMatchObject({ success: false, code: "FORBIDDEN" });
+      expect(db.authUsers.size).toBe(2);
+    });
+  });
+});
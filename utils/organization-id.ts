@@ -1,28 +1,24 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+
 /**
- * Gets the organization ID from local storage or cookies
- * @returns The organization ID or null if not found
+ * Gets the signed-in user's active organization ID from their profile.
+ * The active organization is stored server-side (user_profile.active_organization_id)
+ * and changed with the `switchOrganization` server action.
+ * @returns The organization ID or null if signed out
  */
 export async function getOrganizationId(): Promise<string | null> {
-  // First try to get from localStorage
-  if (typeof window !== 'undefined') {
-    const orgId = localStorage.getItem('organizationId');
-    if (orgId) return orgId;
-  }
+  const supabase = getSupabaseClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
 
-  // If not found in localStorage, try to get from cookies
-  const cookies = document.cookie.split(';');
-  const orgCookie = cookies.find(cookie => cookie.trim().startsWith('organizationId='));
-  if (orgCookie) {
-    return orgCookie.split('=')[1];
-  }
+  if (!user) return null;
 
-  // If not found in cookies, try to get from session storage
-  if (typeof window !== 'undefined') {
-    const orgId = sessionStorage.getItem('organizationId');
-    if (orgId) return orgId;
-  }
+  const { data } = await supabase
+    .from("user_profile")
+    .select("active_organization_id")
+    .eq("id", user.id)
+    .maybeSingle();
 
-  // If not found anywhere, return a default organization ID (for development purposes)
-  // In production, you should handle this case differently
-  return process.env.NEXT_PUBLIC_DEFAULT_ORGANIZATION_ID || null;
-} 
\ No newline at end of file
+  return data?.active_organization_id ?? null;
+}
@@ -220,6 +220,45 @@ export class UserSessionManager {
       };
     }
   }
+
+  /**
+   * Check the current session hasn't been signed out from another device or
+   * by an administrator
+   */
+  static async validateCurrentSession(
+    checkCurrentSession: () => Promise<{ success: boolean; revoked: boolean; error?: string }>
+  ) {
+    const validationId = `sreq_${Date.now().toString(36)}`;
+
+    try {
+      const result = await checkCurrentSession();
+      if (result.revoked) {
+        console.log(`[SessionValidation:${validationId}] Session was revoked`, {
+          timestamp: new Date().toISOString()
+        });
+        return {
+          isValid: false,
+          reason: 'This session was signed out from another device',
+          errorCode: 'SESSION_REVOKED'
+        };
+      }
+
+      if (!result.success) {
+        // Not proof the session is gone; the next check tries again
+        console.error(`[SessionValidation:${validationId}] Session check failed:`, {
+          error: result.error,
+          timestamp: new Date().toISOString()
+        });
+      }
+      return { isValid: true };
+    } catch (error) {
+      console.error(`[SessionValidation:${validationId}] Error checking session:`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+      return { isValid: true };
+    }
+  }
 }
 
 /**